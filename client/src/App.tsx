@@ -8,6 +8,11 @@ import Login from "@/pages/Login";
 import Register from "@/pages/Register";
 import Notes from "@/pages/Notes";
 import NoteDetail from "@/pages/NoteDetail";
+import Reminders from "@/pages/Reminders";
+import Graph from "@/pages/Graph";
+import Templates from "@/pages/Templates";
+import Journal from "@/pages/Journal";
+import Import from "@/pages/Import";
 import { AuthProvider } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useEffect, lazy, Suspense } from "react";
@@ -40,6 +45,41 @@ function Router() {
               </ProtectedRoute>
             )}
           </Route>
+          <Route path="/reminders">
+            {() => (
+              <ProtectedRoute>
+                <Reminders />
+              </ProtectedRoute>
+            )}
+          </Route>
+          <Route path="/graph">
+            {() => (
+              <ProtectedRoute>
+                <Graph />
+              </ProtectedRoute>
+            )}
+          </Route>
+          <Route path="/journal">
+            {() => (
+              <ProtectedRoute>
+                <Journal />
+              </ProtectedRoute>
+            )}
+          </Route>
+          <Route path="/templates">
+            {() => (
+              <ProtectedRoute>
+                <Templates />
+              </ProtectedRoute>
+            )}
+          </Route>
+          <Route path="/import">
+            {() => (
+              <ProtectedRoute>
+                <Import />
+              </ProtectedRoute>
+            )}
+          </Route>
           <Route path="/notes/:id">
             {(params) => (
               <ProtectedRoute>
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAttachmentUrl } from "@/hooks/useAttachmentUrl";
+
+interface AttachmentImageProps {
+  attachmentId: string;
+  alt: string;
+}
+
+// An attached image in note content, fetched once it scrolls near the viewport
+export default function AttachmentImage({ attachmentId, alt }: AttachmentImageProps) {
+  const placeholderRef = useRef<HTMLDivElement | null>(null);
+  const [visible, setVisible] = useState(false);
+  const url = useAttachmentUrl(attachmentId, visible);
+
+  useEffect(() => {
+    const element = placeholderRef.current;
+    if (visible || !element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setVisible(true);
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  if (!url) {
+    return (
+      <div ref={placeholderRef} className="my-2">
+        <Skeleton className="h-48 w-full max-w-md" />
+      </div>
+    );
+  }
+  return <img src={url} alt={alt} loading="lazy" className="my-2 max-w-full max-h-[32rem] rounded border" />;
+}
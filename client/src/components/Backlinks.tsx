@@ -0,0 +1,58 @@
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LinkIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Note } from "@shared/schema";
+
+interface BacklinksProps {
+  noteId: string;
+  // Backlinks are found by title, so a rename asks for them again
+  title: string;
+}
+
+// The notes that [[link]] to this one
+export default function Backlinks({ noteId, title }: BacklinksProps) {
+  const [, navigate] = useLocation();
+
+  const { data: backlinks = [], isLoading } = useQuery<Note[]>({
+    queryKey: [`/api/notes/${noteId}/backlinks`, title],
+    // Other notes gain and lose links while this one stays the same
+    staleTime: 0,
+  });
+
+  if (!isLoading && backlinks.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg border bg-white p-4">
+      <div className="flex items-center mb-3">
+        <LinkIcon className="mr-2 h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-900">
+          Linked from {!isLoading && <span className="text-gray-500">({backlinks.length})</span>}
+        </h3>
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : (
+        <ul className="divide-y">
+          {backlinks.map((linking) => (
+            <li key={linking.id}>
+              <button
+                type="button"
+                className="w-full flex justify-between items-center py-2 text-left hover:text-primary"
+                onClick={() => navigate(`/notes/${linking.id}`)}
+              >
+                <span className="text-sm truncate">{linking.title}</span>
+                {linking.updatedAt && (
+                  <span className="ml-4 shrink-0 text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(linking.updatedAt), { addSuffix: true })}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ArrowDownIcon, GripVerticalIcon, PlusIcon, XIcon } from "lucide-react";
+import { ChecklistItem, MAX_CHECKLIST_INDENT, Note } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface ChecklistViewProps {
+  note: Note;
+  // Trashed notes can only be read
+  readOnly?: boolean;
+}
+
+export default function ChecklistView({ note, readOnly = false }: ChecklistViewProps) {
+  const { toast } = useToast();
+  const noteKey = `/api/notes/${note.id}`;
+  const [items, setItems] = useState<ChecklistItem[]>(note.items ?? []);
+  const [newItemText, setNewItemText] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  // Follow the saved items, except in the middle of a drag
+  useEffect(() => {
+    if (!draggedId) setItems(note.items ?? []);
+  }, [note.items]);
+
+  // Every item endpoint answers with the updated note
+  const saved = (updated: Note) => {
+    queryClient.setQueryData([noteKey], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    // Go back to the saved items
+    setItems(note.items ?? []);
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; text?: string; checked?: boolean; indent?: number }): Promise<Note> => {
+      const res = await apiRequest("PATCH", `/api/notes/${note.id}/items/${id}`, changes);
+      return res.json();
+    },
+    onSuccess: saved,
+    onError: showError("Failed to update item"),
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: async (text: string): Promise<Note> => {
+      const res = await apiRequest("POST", `/api/notes/${note.id}/items`, { text });
+      return (await res.json()).note;
+    },
+    onSuccess: (updated) => {
+      setNewItemText("");
+      saved(updated);
+    },
+    onError: showError("Failed to add item"),
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string): Promise<Note> => {
+      const res = await apiRequest("DELETE", `/api/notes/${note.id}/items/${id}`);
+      return res.json();
+    },
+    onSuccess: saved,
+    onError: showError("Failed to delete item"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (itemIds: string[]): Promise<Note> => {
+      const res = await apiRequest("PUT", `/api/notes/${note.id}/items/order`, { itemIds });
+      return res.json();
+    },
+    onSuccess: saved,
+    onError: showError("Failed to reorder items"),
+  });
+
+  const moveCheckedMutation = useMutation({
+    mutationFn: async (): Promise<Note> => {
+      const res = await apiRequest("POST", `/api/notes/${note.id}/items/move-checked`);
+      return res.json();
+    },
+    onSuccess: saved,
+    onError: showError("Failed to move checked items"),
+  });
+
+  // Changes show at once and are saved in the background
+  const changeItem = (id: string, changes: { text?: string; checked?: boolean; indent?: number }) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    updateItemMutation.mutate({ id, ...changes });
+  };
+
+  // Move the dragged item to where another one is while dragging over it
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === overId) return;
+    setItems((current) => {
+      const from = current.findIndex((item) => item.id === draggedId);
+      const to = current.findIndex((item) => item.id === overId);
+      if (from === -1 || to === -1) return current;
+      const reordered = [...current];
+      reordered.splice(to, 0, ...reordered.splice(from, 1));
+      return reordered;
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    const itemIds = items.map((item) => item.id);
+    const savedIds = (note.items ?? []).map((item) => item.id);
+    if (itemIds.join() !== savedIds.join()) {
+      reorderMutation.mutate(itemIds);
+    }
+  };
+
+  const done = items.filter((item) => item.checked).length;
+
+  return (
+    <div className="mb-6">
+      {items.length > 0 && (
+        <div className="flex items-center gap-3 mb-3">
+          <Progress value={(done / items.length) * 100} className="h-2" />
+          <span className="text-sm text-gray-500 whitespace-nowrap">
+            {done}/{items.length} done
+          </span>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            className={cn("group flex items-center gap-2 rounded py-1", draggedId === item.id && "opacity-50")}
+            style={{ paddingLeft: `${item.indent * 1.75}rem` }}
+            draggable={!readOnly}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggedId(item.id);
+            }}
+            onDragOver={(e) => handleDragOver(e, item.id)}
+            onDragEnd={handleDragEnd}
+          >
+            {!readOnly && <GripVerticalIcon className="h-4 w-4 text-gray-400 cursor-grab shrink-0" />}
+            <Checkbox
+              checked={item.checked}
+              disabled={readOnly}
+              onCheckedChange={(checked) => changeItem(item.id, { checked: checked === true })}
+              aria-label={item.checked ? "Mark as not done" : "Mark as done"}
+            />
+            <ChecklistItemText
+              item={item}
+              readOnly={readOnly}
+              onSave={(text) => changeItem(item.id, { text })}
+              onIndent={(indent) => changeItem(item.id, { indent })}
+            />
+            {!readOnly && (
+              <button
+                className="text-gray-400 hover:text-destructive invisible group-hover:visible"
+                onClick={() => deleteItemMutation.mutate(item.id)}
+                aria-label="Delete item"
+              >
+                <XIcon className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!readOnly && (
+        <div className="mt-3 space-y-3">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newItemText.trim() !== "") addItemMutation.mutate(newItemText.trim());
+            }}
+          >
+            <Input
+              value={newItemText}
+              onChange={(e) => setNewItemText(e.target.value)}
+              placeholder="Add an item"
+              maxLength={1000}
+            />
+            <Button type="submit" variant="outline" disabled={addItemMutation.isPending || newItemText.trim() === ""}>
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </form>
+          {done > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveCheckedMutation.mutate()}
+              disabled={moveCheckedMutation.isPending}
+            >
+              <ArrowDownIcon className="mr-1 h-4 w-4" /> Move checked to bottom
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ChecklistItemTextProps {
+  item: ChecklistItem;
+  readOnly: boolean;
+  onSave: (text: string) => void;
+  onIndent: (indent: number) => void;
+}
+
+// An item's text, edited in place and saved when it loses focus; Tab and
+// Shift+Tab change its indent
+function ChecklistItemText({ item, readOnly, onSave, onIndent }: ChecklistItemTextProps) {
+  const [text, setText] = useState(item.text);
+
+  useEffect(() => {
+    setText(item.text);
+  }, [item.text]);
+
+  const className = cn("flex-1 bg-transparent outline-none", item.checked && "line-through text-gray-400");
+
+  if (readOnly) {
+    return <span className={className}>{item.text}</span>;
+  }
+
+  return (
+    <input
+      className={className}
+      value={text}
+      maxLength={1000}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        if (text !== item.text) onSave(text);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.currentTarget.blur();
+        } else if (e.key === "Tab") {
+          e.preventDefault();
+          const indent = e.shiftKey ? Math.max(0, item.indent - 1) : Math.min(MAX_CHECKLIST_INDENT, item.indent + 1);
+          if (indent !== item.indent) onIndent(indent);
+        }
+      }}
+    />
+  );
+}
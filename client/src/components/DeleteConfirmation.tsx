@@ -6,13 +6,16 @@ interface DeleteConfirmationProps {
   onClose: () => void;
   onConfirm: () => void;
   isDeleting: boolean;
+  // Permanent deletion cannot be undone; otherwise the note goes to the trash
+  permanent?: boolean;
 }
 
 export default function DeleteConfirmation({
   isOpen,
   onClose,
   onConfirm,
-  isDeleting
+  isDeleting,
+  permanent = false
 }: DeleteConfirmationProps) {
   if (!isOpen) {
     return null;
@@ -25,10 +28,14 @@ export default function DeleteConfirmation({
           <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100">
             <AlertTriangleIcon className="h-6 w-6 text-red-600" />
           </div>
-          <h3 className="text-lg leading-6 font-medium text-gray-900 mt-2">Delete Note</h3>
+          <h3 className="text-lg leading-6 font-medium text-gray-900 mt-2">
+            {permanent ? "Delete Forever" : "Delete Note"}
+          </h3>
           <div className="mt-2 px-7 py-3">
             <p className="text-sm text-gray-500">
-              Are you sure you want to delete this note? This action cannot be undone.
+              {permanent
+                ? "Are you sure you want to permanently delete this note? This action cannot be undone."
+                : "Are you sure you want to delete this note? It will be moved to the trash, where you can restore it until it is emptied automatically."}
             </p>
           </div>
           <div className="flex justify-center gap-4 mt-3">
@@ -1,25 +1,39 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
+import NotebookSwitcher from "@/components/NotebookSwitcher";
+import NotificationBell from "@/components/NotificationBell";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { StickyNoteIcon, PlusIcon, UserIcon, LogOutIcon, SettingsIcon } from "lucide-react";
+import { StickyNoteIcon, PlusIcon, UserIcon, LogOutIcon, SettingsIcon, AlarmClockIcon, NetworkIcon, ChevronDownIcon, FileTextIcon, BookOpenIcon, UploadIcon } from "lucide-react";
+import { Template } from "@shared/schema";
 
 interface NavbarProps {
-  onCreateNote?: () => void;
+  // Called with the template picked from the New Note menu, if any
+  onCreateNote?: (template?: Template) => void;
+  // Shows the notebook switcher when given (see NotebookSwitcher)
+  notebookId?: string | null;
+  onNotebookChange?: (notebookId: string | null) => void;
 }
 
-export default function Navbar({ onCreateNote }: NavbarProps) {
+export default function Navbar({ onCreateNote, notebookId = null, onNotebookChange }: NavbarProps) {
   const [, navigate] = useLocation();
   const { user, logout } = useAuth();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+    enabled: !!onCreateNote,
+  });
+
   // Handle logout
   const handleLogout = async () => {
     await logout();
@@ -43,19 +57,67 @@ export default function Navbar({ onCreateNote }: NavbarProps) {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
           <div className="flex">
-            <div className="flex-shrink-0 flex items-center">
+            <button className="flex-shrink-0 flex items-center" onClick={() => navigate("/")}>
               <StickyNoteIcon className="text-primary h-6 w-6 mr-2" />
               <span className="font-bold text-xl text-gray-900">NoteKeeper</span>
-            </div>
+            </button>
           </div>
           <div className="flex items-center">
+            {onNotebookChange && (
+              <NotebookSwitcher notebookId={notebookId} onChange={onNotebookChange} />
+            )}
+            
+            <Button variant="ghost" className="mr-2" onClick={() => navigate("/journal")}>
+              <BookOpenIcon className="h-4 w-4 mr-1" /> Journal
+            </Button>
+
+            <Button variant="ghost" className="mr-2" onClick={() => navigate("/reminders")}>
+              <AlarmClockIcon className="h-4 w-4 mr-1" /> Reminders
+            </Button>
+
+            <Button variant="ghost" className="mr-2" onClick={() => navigate("/graph")}>
+              <NetworkIcon className="h-4 w-4 mr-1" /> Graph
+            </Button>
+
+            <NotificationBell />
+
             {onCreateNote && (
-              <Button 
-                className="mr-4"
-                onClick={onCreateNote}
-              >
-                <PlusIcon className="h-4 w-4 mr-1" /> New Note
-              </Button>
+              <div className="mr-4 flex">
+                <Button
+                  className="rounded-r-none"
+                  onClick={() => onCreateNote()}
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" /> New Note
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button className="rounded-l-none border-l border-primary-foreground/30 px-2" aria-label="New note from template">
+                      <ChevronDownIcon className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-56">
+                    <DropdownMenuLabel>New from template</DropdownMenuLabel>
+                    {templates.length === 0 && (
+                      <div className="px-2 py-1.5 text-sm text-gray-500">No templates yet</div>
+                    )}
+                    {templates.map((template) => (
+                      <DropdownMenuItem
+                        key={template.id}
+                        className="cursor-pointer"
+                        onClick={() => onCreateNote(template)}
+                      >
+                        <FileTextIcon className="mr-2 h-4 w-4 shrink-0" />
+                        <span className="truncate">{template.name}</span>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="cursor-pointer" onClick={() => navigate("/templates")}>
+                      <SettingsIcon className="mr-2 h-4 w-4" />
+                      <span>Manage templates</span>
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             )}
             
             <div className="ml-3 relative">
@@ -84,6 +146,10 @@ export default function Navbar({ onCreateNote }: NavbarProps) {
                     <SettingsIcon className="mr-2 h-4 w-4" />
                     <span>Settings</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem className="cursor-pointer" onClick={() => navigate("/import")}>
+                    <UploadIcon className="mr-2 h-4 w-4" />
+                    <span>Import notes</span>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
                     className="cursor-pointer text-red-600 focus:text-red-600"
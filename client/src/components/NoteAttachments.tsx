@@ -0,0 +1,201 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DownloadIcon, FileIcon, PaperclipIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import { useAttachmentUrl } from "@/hooks/useAttachmentUrl";
+import { attachmentUrl, uploadAttachment } from "@/lib/attachments";
+import { Attachment } from "@shared/schema";
+
+interface AttachmentUsage {
+  usage: number;
+  quota: number;
+  maxFileSize: number;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function AttachmentThumbnail({ attachment }: { attachment: Attachment }) {
+  const isImage = attachment.mimeType.startsWith("image/");
+  const url = useAttachmentUrl(attachment.id, isImage);
+
+  if (!isImage) {
+    return (
+      <div className="h-12 w-12 flex items-center justify-center rounded border bg-gray-50 shrink-0">
+        <FileIcon className="h-6 w-6 text-gray-400" />
+      </div>
+    );
+  }
+  if (!url) {
+    return <Skeleton className="h-12 w-12 shrink-0" />;
+  }
+  return (
+    <img
+      src={url}
+      alt={attachment.filename}
+      className="h-12 w-12 rounded border object-cover shrink-0"
+    />
+  );
+}
+
+interface NoteAttachmentsProps {
+  noteId: string;
+  // Trashed notes can only be read
+  readOnly?: boolean;
+}
+
+export default function NoteAttachments({ noteId, readOnly = false }: NoteAttachmentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const attachmentsKey = `/api/notes/${noteId}/attachments`;
+
+  const { data: attachments = [], isLoading } = useQuery<Attachment[]>({
+    queryKey: [attachmentsKey],
+  });
+
+  const { data: usage } = useQuery<AttachmentUsage>({
+    queryKey: ["/api/attachments/usage"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [attachmentsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/attachments/usage"] });
+  };
+
+  // Upload the chosen files one after another
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        await uploadAttachment(noteId, file);
+      }
+    },
+    onSettled: refresh,
+    onError: (error) => {
+      toast({
+        title: "Failed to upload file",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachmentId: string) => {
+      await apiRequest("DELETE", attachmentUrl(attachmentId));
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({
+        title: "Failed to delete attachment",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Save a copy through a temporary link
+  const download = async (attachment: Attachment) => {
+    try {
+      const res = await apiRequest("GET", `${attachmentUrl(attachment.id)}?download=true`);
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      toast({
+        title: "Failed to download file",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white border rounded-lg p-4">
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex items-center">
+          <PaperclipIcon className="h-4 w-4 mr-2 text-gray-500" />
+          <h3 className="text-sm font-medium">Attachments</h3>
+          {usage && (
+            <span className="ml-3 text-xs text-gray-500">
+              {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+            </span>
+          )}
+        </div>
+        {!readOnly && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                if (files.length > 0) uploadMutation.mutate(files);
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+            >
+              <UploadIcon className="mr-1 h-4 w-4" />
+              {uploadMutation.isPending ? "Uploading..." : "Attach Files"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No files attached.</p>
+      ) : (
+        <ul className="divide-y">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 py-2">
+              <AttachmentThumbnail attachment={attachment} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-gray-900 truncate">{attachment.filename}</p>
+                <p className="text-xs text-gray-500">
+                  {formatBytes(attachment.size)} · {attachment.mimeType}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => download(attachment)}
+                title="Download"
+              >
+                <DownloadIcon className="h-4 w-4" />
+              </Button>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => deleteMutation.mutate(attachment.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Delete"
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,92 @@
 import { formatDistanceToNow } from "date-fns";
 import { Note } from "@shared/schema";
-import { Edit2Icon, Trash2Icon, ZapIcon, PinIcon, ArchiveIcon } from "lucide-react";
+import { Edit2Icon, Trash2Icon, ZapIcon, PinIcon, ArchiveIcon, CheckSquareIcon, SquareIcon, BellIcon, CalendarClockIcon, RepeatIcon } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { formatReminder, isOverdue, repeatDescription } from "@/lib/reminders";
+
+// Checklist items shown on a card
+const PREVIEW_ITEMS = 4;
+
+// Matched words of a search result (see GET /api/search)
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface NoteHighlights {
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
 
 interface NoteCardProps {
   note: Note;
   onEdit: () => void;
   onDelete: () => void;
   onClick: () => void;
+  // Shown instead of the plain title and content when the card is a search result
+  highlights?: NoteHighlights;
+}
+
+// The first items of a checklist and how many are done
+function ChecklistPreview({ note }: { note: Note }) {
+  const items = note.items ?? [];
+  const done = items.filter((item) => item.checked).length;
+
+  return (
+    <div className="mb-3">
+      <ul className="space-y-1 mb-2">
+        {items.slice(0, PREVIEW_ITEMS).map((item) => (
+          <li
+            key={item.id}
+            className={cn("flex items-center text-sm", item.checked ? "text-gray-400 line-through" : "text-gray-600")}
+            style={{ paddingLeft: `${item.indent * 1.25}rem` }}
+          >
+            {item.checked ? (
+              <CheckSquareIcon className="h-3.5 w-3.5 mr-2 shrink-0" />
+            ) : (
+              <SquareIcon className="h-3.5 w-3.5 mr-2 shrink-0" />
+            )}
+            <span className="truncate">{item.text}</span>
+          </li>
+        ))}
+      </ul>
+      {items.length > PREVIEW_ITEMS && (
+        <p className="text-xs text-gray-500 mb-2">+{items.length - PREVIEW_ITEMS} more</p>
+      )}
+      {items.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Progress value={(done / items.length) * 100} className="h-1.5" />
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {done}/{items.length} done
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
 }
 
-export default function NoteCard({ note, onEdit, onDelete, onClick }: NoteCardProps) {
+export default function NoteCard({ note, onEdit, onDelete, onClick, highlights }: NoteCardProps) {
   const { toast } = useToast();
 
   // Generate AI summary mutation
@@ -24,6 +96,7 @@ export default function NoteCard({ note, onEdit, onDelete, onClick }: NoteCardPr
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       queryClient.invalidateQueries({ queryKey: [`/api/notes/${note.id}`] });
       toast({
         title: "Summary generated",
@@ -39,6 +112,7 @@ export default function NoteCard({ note, onEdit, onDelete, onClick }: NoteCardPr
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       queryClient.invalidateQueries({ queryKey: [`/api/notes/${note.id}`] });
       toast({
         title: note.pinned ? "Note unpinned" : "Note pinned",
@@ -55,6 +129,7 @@ export default function NoteCard({ note, onEdit, onDelete, onClick }: NoteCardPr
     onSuccess: () => {
       // Invalidate all note queries to update lists completely
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       
       // Invalidate both archived=true and archived=false queries to ensure lists update correctly
       queryClient.invalidateQueries({ queryKey: ["/api/notes", { archived: true }] });
@@ -149,11 +224,46 @@ export default function NoteCard({ note, onEdit, onDelete, onClick }: NoteCardPr
               <PinIcon className="h-4 w-4" />
             </div>
           )}
-          <h3 className="font-medium text-lg text-gray-900">{note.title}</h3>
+          <h3 className="font-medium text-lg text-gray-900">
+            {highlights ? <Highlighted segments={highlights.title} /> : note.title}
+          </h3>
         </div>
         <div className="text-xs text-gray-500">{formattedDate}</div>
       </div>
-      <p className="text-gray-600 text-sm line-clamp-3 mb-3">{note.content}</p>
+      {note.type === "checklist" && !highlights ? (
+        <ChecklistPreview note={note} />
+      ) : (
+        <p className="text-gray-600 text-sm line-clamp-3 mb-3">
+          {highlights ? <Highlighted segments={highlights.snippet} /> : note.content}
+        </p>
+      )}
+      {(note.remindAt || note.dueAt) && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {note.remindAt && (
+            <span
+              className={cn(
+                "text-xs px-2 py-0.5 rounded-full flex items-center",
+                isOverdue(note.remindAt) ? "bg-gray-100 text-gray-500" : "bg-blue-100 text-blue-800"
+              )}
+              title={note.recurrence ? repeatDescription(note.recurrence) : "Reminder"}
+            >
+              <BellIcon className="h-3 w-3 mr-1" /> {formatReminder(note.remindAt)}
+              {note.recurrence && <RepeatIcon className="h-3 w-3 ml-1" />}
+            </span>
+          )}
+          {note.dueAt && (
+            <span
+              className={cn(
+                "text-xs px-2 py-0.5 rounded-full flex items-center",
+                isOverdue(note.dueAt) ? "bg-red-100 text-red-800" : "bg-gray-100 text-gray-700"
+              )}
+              title={isOverdue(note.dueAt) ? "Overdue" : "Due"}
+            >
+              <CalendarClockIcon className="h-3 w-3 mr-1" /> Due {formatReminder(note.dueAt)}
+            </span>
+          )}
+        </div>
+      )}
       <div className="flex justify-between items-center">
         <div className="flex space-x-2">
           <button 
@@ -7,10 +7,18 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { 
   XIcon, 
   BoldIcon, 
@@ -20,30 +28,102 @@ import {
   Heading2Icon,
   Heading3Icon,
   ListIcon,
-  TypeIcon
+  ListChecksIcon,
+  TypeIcon,
+  AlertTriangleIcon,
+  PlusIcon,
+  SkipForwardIcon,
+  FileTextIcon
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { Note } from "@shared/schema";
+import { imageMarkdown, uploadAttachment } from "@/lib/attachments";
+import { firstOccurrence, formatReminder, fromDateTimeInput, toDateTimeInput } from "@/lib/reminders";
+import RecurrencePicker from "@/components/RecurrencePicker";
+import { Attachment, MAX_CHECKLIST_INDENT, MAX_CHECKLIST_ITEMS, Note, Notebook, noteTypes, Template } from "@shared/schema";
+import { checklistText, itemsFromText } from "@shared/checklist";
+import { mergeLines } from "@shared/diff";
+import { normalizeLinkTitle } from "@shared/wikiLinks";
+import { fillTemplate, templatePrompts, type TemplatePrompt } from "@shared/templates";
 
-// Note form schema
+// Checklist items as edited; new ones get their ID from the server
+const checklistItemSchema = z.object({
+  id: z.string().optional(),
+  text: z.string(),
+  checked: z.boolean(),
+  indent: z.number(),
+});
+
+type FormChecklistItem = z.infer<typeof checklistItemSchema>;
+
+// Note form schema; checklists keep their text in items
 const noteSchema = z.object({
   title: z.string().min(1, { message: "Title is required" }),
-  content: z.string().min(1, { message: "Content is required" }),
+  content: z.string(),
+  type: z.enum(noteTypes).default("text"),
+  items: z.array(checklistItemSchema).max(MAX_CHECKLIST_ITEMS).default([]),
   generateSummary: z.boolean().optional().default(false),
+  // On a rename, point [[links]] to the old title at the new one
+  rewriteLinks: z.boolean().optional().default(true),
   pinned: z.boolean().optional().default(false),
+  notebookId: z.string().nullable().optional().default(null),
+  // datetime-local values; "" for none
+  remindAt: z.string().default(""),
+  recurrence: z.string().nullable().default(null),
+  dueAt: z.string().default(""),
+}).refine((data) => data.type === "checklist" || data.content.length > 0, {
+  message: "Content is required",
+  path: ["content"],
 });
 
 type NoteFormValues = z.infer<typeof noteSchema>;
 
+// A save rejected because the note changed on the server meanwhile
+interface SaveConflict {
+  saved: Note; // the server's copy
+  mine: NoteFormValues; // what we tried to save
+}
+
 interface NoteEditorProps {
   isOpen: boolean;
   note: Note | null;
+  // Notebook for new notes; null for none
+  notebookId?: string | null;
+  // Template a new note starts from
+  template?: Template | null;
   onClose: () => void;
 }
 
-export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
+// A template waiting for answers to its prompts before it is applied
+interface PendingTemplate {
+  template: Template;
+  prompts: TemplatePrompt[];
+  values: Record<string, string>;
+}
+
+// Select value standing for "no notebook"
+const NO_NOTEBOOK = "none";
+
+const sameItems = (a: FormChecklistItem[], b: FormChecklistItem[]) =>
+  checklistText(a) === checklistText(b);
+
+// The form values as the API takes them
+const toNoteData = ({ remindAt, dueAt, ...data }: NoteFormValues) => ({
+  ...data,
+  remindAt: fromDateTimeInput(remindAt),
+  dueAt: fromDateTimeInput(dueAt),
+});
+
+export default function NoteEditor({ isOpen, note, notebookId = null, template = null, onClose }: NoteEditorProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const isEditing = !!note;
+  // The server copy our edits start from; its version goes in If-Match
+  const [base, setBase] = useState<Note | null>(note);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [uploadingImages, setUploadingImages] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PendingTemplate | null>(null);
+  // Labels of the applied template, given to the new note
+  const [templateLabels, setTemplateLabels] = useState<string[]>([]);
 
   // Create form
   const form = useForm<NoteFormValues>({
@@ -51,35 +131,108 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
     defaultValues: {
       title: note?.title || "",
       content: note?.content || "",
+      type: note?.type || "text",
+      items: note?.items ?? [],
       generateSummary: false,
+      rewriteLinks: true,
       pinned: note?.pinned || false,
+      notebookId: note ? note.notebookId : notebookId,
+      remindAt: toDateTimeInput(note?.remindAt),
+      recurrence: note?.recurrence ?? null,
+      dueAt: toDateTimeInput(note?.dueAt),
     },
   });
 
-  // Update form values when note changes
+  const { data: notebooks = [] } = useQuery<Notebook[]>({
+    queryKey: ["/api/notebooks"],
+    enabled: isOpen,
+  });
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+    enabled: isOpen && !isEditing,
+  });
+
+  // Fill the form from a template, with the user's answers to its prompts
+  const applyTemplate = (chosen: Template, values: Record<string, string>) => {
+    const context = {
+      now: new Date(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      user: { name: user?.name ?? "", email: user?.email ?? "" },
+      values,
+    };
+    const content = fillTemplate(chosen.content, context);
+    form.reset({
+      ...form.getValues(),
+      title: fillTemplate(chosen.title || chosen.name, context),
+      content: chosen.type === "checklist" ? "" : content,
+      type: chosen.type,
+      items: chosen.type === "checklist" ? itemsFromText(content) : [],
+    });
+    setTemplateLabels(chosen.labels ?? []);
+    setPendingTemplate(null);
+  };
+
+  // Templates with prompts ask them first
+  const chooseTemplate = (chosen: Template) => {
+    const prompts = templatePrompts(chosen.title || chosen.name, chosen.content);
+    if (prompts.length === 0) {
+      applyTemplate(chosen, {});
+      return;
+    }
+    setPendingTemplate({
+      template: chosen,
+      prompts,
+      values: Object.fromEntries(prompts.map((prompt) => [prompt.question, prompt.defaultValue])),
+    });
+  };
+
+  // Update form values when the editor opens or its note changes
   useEffect(() => {
+    setBase(note);
+    setConflict(null);
+    setPendingTemplate(null);
+    setTemplateLabels([]);
     if (note) {
       form.reset({
         title: note.title,
         content: note.content,
+        type: note.type,
+        items: note.items ?? [],
         generateSummary: false,
+        rewriteLinks: true,
         pinned: note.pinned || false,
+        notebookId: note.notebookId,
+        remindAt: toDateTimeInput(note.remindAt),
+        recurrence: note.recurrence,
+        dueAt: toDateTimeInput(note.dueAt),
       });
     } else {
       form.reset({
         title: "",
         content: "",
+        type: "text",
+        items: [],
         generateSummary: false,
+        rewriteLinks: true,
         pinned: false,
+        notebookId,
+        remindAt: "",
+        recurrence: null,
+        dueAt: "",
       });
+      if (isOpen && template) chooseTemplate(template);
     }
-  }, [note, form]);
+  }, [isOpen, note, notebookId, template, form]);
 
   // Create note mutation
   const createNoteMutation = useMutation({
     mutationFn: async (data: NoteFormValues) => {
       console.log("Creating note with data:", data);
-      const res = await apiRequest("POST", "/api/notes", data);
+      const res = await apiRequest("POST", "/api/notes", {
+        ...toNoteData(data),
+        ...(templateLabels.length > 0 && { labels: templateLabels }),
+      });
       const result = await res.json();
       console.log("Note creation result:", result);
       return result;
@@ -87,6 +240,7 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
     onSuccess: (data) => {
       console.log("Note created successfully:", data);
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       onClose();
       toast({
         title: "Note created",
@@ -103,30 +257,183 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
     },
   });
 
-  // Update note mutation
+  // Update note mutation; only applies on top of the version we started from
   const updateNoteMutation = useMutation({
-    mutationFn: async (data: NoteFormValues) => {
+    mutationFn: async ({ data, version }: { data: NoteFormValues; version: number }) => {
       if (!note) return null;
-      const res = await apiRequest("PUT", `/api/notes/${note.id}`, data);
+      const res = await apiRequest("PUT", `/api/notes/${note.id}`, toNoteData(data), { "If-Match": `"${version}"` });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (updated) => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
       if (note) {
         queryClient.invalidateQueries({ queryKey: [`/api/notes/${note.id}`] });
       }
+      setConflict(null);
       onClose();
+      const linksRewritten: number = updated?.linksRewritten ?? 0;
       toast({
         title: "Note updated",
-        description: "Your note has been successfully updated.",
+        description: linksRewritten > 0
+          ? `Your note has been updated, along with the links to it in ${linksRewritten} ${linksRewritten === 1 ? "note" : "notes"}.`
+          : "Your note has been successfully updated.",
+      });
+    },
+    onError: (error, { data }) => {
+      if (error instanceof ApiError && error.status === 409) {
+        setConflict({ saved: JSON.parse(error.body).note, mine: data });
+        return;
+      }
+      toast({
+        title: "Failed to update note",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Attach pasted or dropped images to the note; new notes have nowhere to
+  // keep them until they are saved
+  const uploadImages = async (files: File[]): Promise<Attachment[]> => {
+    if (!note) {
+      toast({
+        title: "Save the note first",
+        description: "Images can be added once the note has been created.",
+      });
+      return [];
+    }
+
+    setUploadingImages(true);
+    const uploaded: Attachment[] = [];
+    try {
+      for (const file of files) {
+        uploaded.push(await uploadAttachment(note.id, file));
+      }
+    } catch (error) {
+      toast({
+        title: "Failed to upload image",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingImages(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/notes/${note.id}/attachments`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attachments/usage"] });
+    }
+    return uploaded;
+  };
+
+  // Skip the next occurrence of the saved repeating reminder
+  const skipReminderMutation = useMutation({
+    mutationFn: async (): Promise<Note> => {
+      const res = await apiRequest("POST", `/api/notes/${note!.id}/reminder/skip`);
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      // Skipping leaves the version alone, so edits still apply on top of it
+      setBase(updated);
+      form.setValue("remindAt", toDateTimeInput(updated.remindAt));
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/notes/${updated.id}`] });
+      toast({
+        title: "Reminder skipped",
+        description: updated.remindAt
+          ? `The next reminder is ${formatReminder(updated.remindAt)}.`
+          : "That was the last reminder of the series.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to skip reminder",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
       });
     },
   });
 
+  // Replace the saved copy with ours
+  const overwrite = () => {
+    if (!conflict) return;
+    setBase(conflict.saved);
+    updateNoteMutation.mutate({ data: conflict.mine, version: conflict.saved.version });
+  };
+
+  // Combine both edits of the base; clashing lines are left marked in the
+  // content for the user to resolve before saving again
+  const merge = () => {
+    if (!conflict || !base) return;
+    const { saved, mine } = conflict;
+    const content = mergeLines(base.content, mine.content, saved.content, {
+      ours: "Your changes",
+      theirs: "Saved version",
+    });
+    // Checklist items are not merged line by line: changed items win
+    const savedItems = saved.items ?? [];
+    const items = sameItems(mine.items, base.items ?? []) ? savedItems : mine.items;
+    const conflicts = mine.type === "checklist" ? 0 : content.conflicts;
+
+    form.reset({
+      ...mine,
+      title: mine.title === base.title ? saved.title : mine.title,
+      content: mine.type === "checklist" ? checklistText(items) : content.text,
+      type: mine.type === base.type ? saved.type : mine.type,
+      items,
+      pinned: mine.pinned === base.pinned ? saved.pinned : mine.pinned,
+      notebookId: mine.notebookId === base.notebookId ? saved.notebookId : mine.notebookId,
+      remindAt: mine.remindAt === toDateTimeInput(base.remindAt) ? toDateTimeInput(saved.remindAt) : mine.remindAt,
+      recurrence: mine.recurrence === base.recurrence ? saved.recurrence : mine.recurrence,
+      dueAt: mine.dueAt === toDateTimeInput(base.dueAt) ? toDateTimeInput(saved.dueAt) : mine.dueAt,
+    });
+    setBase(saved);
+    setConflict(null);
+    toast({
+      title: "Changes merged",
+      description: conflicts === 0
+        ? "Review the merged note, then update it."
+        : `${conflicts} conflicting ${conflicts === 1 ? "section is" : "sections are"} marked in the content. Resolve them, then update the note.`,
+    });
+  };
+
+  // Drop our edits and continue from the saved copy
+  const discardMine = () => {
+    if (!conflict) return;
+    const { saved } = conflict;
+    form.reset({
+      title: saved.title,
+      content: saved.content,
+      type: saved.type,
+      items: saved.items ?? [],
+      generateSummary: false,
+      rewriteLinks: true,
+      pinned: saved.pinned || false,
+      notebookId: saved.notebookId,
+      remindAt: toDateTimeInput(saved.remindAt),
+      recurrence: saved.recurrence,
+      dueAt: toDateTimeInput(saved.dueAt),
+    });
+    setBase(saved);
+    setConflict(null);
+  };
+
+  // Switch between text and checklist, carrying the text over
+  const changeType = (type: NoteFormValues["type"]) => {
+    const values = form.getValues();
+    if (type === values.type) return;
+    if (type === "checklist") {
+      form.setValue("items", itemsFromText(values.content));
+    } else {
+      form.setValue("content", checklistText(values.items));
+    }
+    form.setValue("type", type);
+    form.clearErrors("content");
+  };
+
   // Form submission
   const onSubmit = (data: NoteFormValues) => {
     if (isEditing) {
-      updateNoteMutation.mutate(data);
+      updateNoteMutation.mutate({ data, version: (base ?? note).version });
     } else {
       createNoteMutation.mutate(data);
     }
@@ -135,6 +442,7 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
   // Close editor
   const handleClose = () => {
     form.reset();
+    setConflict(null);
     onClose();
   };
 
@@ -143,6 +451,17 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
   }
 
   const isSubmitting = createNoteMutation.isPending || updateNoteMutation.isPending;
+  const type = form.watch("type");
+  const recurrence = form.watch("recurrence");
+  // Links to a note follow its title, so a rename can take them along
+  const renamed = !!base && normalizeLinkTitle(form.watch("title")) !== normalizeLinkTitle(base.title);
+  // The server's next reminder while the rule is the saved one; otherwise
+  // the first occurrence of the edited rule
+  const nextReminder = recurrence && recurrence === base?.recurrence
+    ? base.remindAt
+    : recurrence
+      ? firstOccurrence(recurrence)
+      : null;
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -159,6 +478,65 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
           </button>
         </div>
 
+        {!isEditing && templates.length > 0 && !pendingTemplate && (
+          <div className="flex items-center gap-2 mb-4">
+            <FileTextIcon className="h-4 w-4 text-gray-500" />
+            <Select
+              value=""
+              onValueChange={(id) => {
+                const chosen = templates.find((candidate) => candidate.id === id);
+                if (chosen) chooseTemplate(chosen);
+              }}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="New from template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {pendingTemplate && (
+          <form
+            className="mb-4 space-y-3 rounded-md border bg-gray-50 p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyTemplate(pendingTemplate.template, pendingTemplate.values);
+            }}
+          >
+            <h4 className="text-sm font-medium text-gray-900">{pendingTemplate.template.name}</h4>
+            {pendingTemplate.prompts.map((prompt, index) => (
+              <div key={prompt.question}>
+                <label className="block text-sm text-gray-700 mb-1">{prompt.question}</label>
+                <Input
+                  value={pendingTemplate.values[prompt.question] ?? ""}
+                  onChange={(e) =>
+                    setPendingTemplate({
+                      ...pendingTemplate,
+                      values: { ...pendingTemplate.values, [prompt.question]: e.target.value },
+                    })
+                  }
+                  autoFocus={index === 0}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setPendingTemplate(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm">
+                Use template
+              </Button>
+            </div>
+          </form>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -179,136 +557,311 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="content"
-              render={({ field }) => {
-                const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+            {isEditing && renamed && (
+              <FormField
+                control={form.control}
+                name="rewriteLinks"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Update [[links]] to this note in other notes</FormLabel>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={type === "text" ? "default" : "outline"}
+                onClick={() => changeType("text")}
+              >
+                <TypeIcon className="mr-1 h-4 w-4" /> Text
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={type === "checklist" ? "default" : "outline"}
+                onClick={() => changeType("checklist")}
+              >
+                <ListChecksIcon className="mr-1 h-4 w-4" /> Checklist
+              </Button>
+            </div>
+
+            {type === "checklist" ? (
+              <FormField
+                control={form.control}
+                name="items"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Items</FormLabel>
+                    <ChecklistItemsInput items={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="content"
+                render={({ field }) => {
+                  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
                 
-                // Insert formatted text at cursor position
-                const insertFormatting = (prefix: string, suffix: string = '') => {
-                  if (!textareaRef.current) return;
+                  // Insert formatted text at cursor position, around the selection
+                  // or in place of it. Reads the textarea itself, so it also works
+                  // after an upload, when this render's field.value is stale
+                  const insertFormatting = (prefix: string, suffix: string = '', replaceSelection = false) => {
+                    if (!textareaRef.current) return;
                   
-                  const start = textareaRef.current.selectionStart;
-                  const end = textareaRef.current.selectionEnd;
-                  const text = field.value;
-                  const selectedText = text.substring(start, end);
+                    const start = textareaRef.current.selectionStart;
+                    const end = textareaRef.current.selectionEnd;
+                    const text = textareaRef.current.value;
+                    const selectedText = replaceSelection ? '' : text.substring(start, end);
                   
-                  const newText = text.substring(0, start) + 
-                                  prefix + selectedText + suffix + 
-                                  text.substring(end);
+                    const newText = text.substring(0, start) + 
+                                    prefix + selectedText + suffix + 
+                                    text.substring(end);
                   
-                  // Update field value
-                  field.onChange(newText);
+                    // Update field value
+                    field.onChange(newText);
                   
-                  // Restore focus after React re-renders the component
-                  setTimeout(() => {
-                    if (textareaRef.current) {
-                      textareaRef.current.focus();
-                      const newCursorPos = start + prefix.length + selectedText.length + suffix.length;
-                      textareaRef.current.setSelectionRange(newCursorPos, newCursorPos);
+                    // Restore focus after React re-renders the component
+                    setTimeout(() => {
+                      if (textareaRef.current) {
+                        textareaRef.current.focus();
+                        const newCursorPos = start + prefix.length + selectedText.length + suffix.length;
+                        textareaRef.current.setSelectionRange(newCursorPos, newCursorPos);
+                      }
+                    }, 0);
+                  };
+                
+                  // Upload images and reference them at the cursor
+                  const insertImages = async (files: File[]) => {
+                    const attachments = await uploadImages(files);
+                    if (attachments.length > 0) {
+                      insertFormatting(attachments.map(imageMarkdown).join('\n'), '\n', true);
                     }
-                  }, 0);
-                };
+                  };
                 
-                return (
-                  <FormItem>
-                    <FormLabel>Content</FormLabel>
-                    <div className="space-y-2">
-                      {/* Text formatting toolbar */}
-                      <div className="flex flex-wrap gap-1 p-1 border rounded-md bg-gray-50">
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('# ', '\n')}
-                          title="Heading 1"
-                        >
-                          <Heading1Icon className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('## ', '\n')}
-                          title="Heading 2"
-                        >
-                          <Heading2Icon className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('### ', '\n')}
-                          title="Heading 3"
-                        >
-                          <Heading3Icon className="h-4 w-4" />
-                        </Button>
-                        <div className="w-px h-6 bg-gray-300 my-1 mx-1"></div>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('**', '**')}
-                          title="Bold"
-                        >
-                          <BoldIcon className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('*', '*')}
-                          title="Italic"
-                        >
-                          <ItalicIcon className="h-4 w-4" />
-                        </Button>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('__', '__')}
-                          title="Underline"
-                        >
-                          <UnderlineIcon className="h-4 w-4" />
-                        </Button>
-                        <div className="w-px h-6 bg-gray-300 my-1 mx-1"></div>
-                        <Button 
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          className="h-8 px-2 text-gray-600"
-                          onClick={() => insertFormatting('- ', '\n')}
-                          title="Bullet List"
-                        >
-                          <ListIcon className="h-4 w-4" />
-                        </Button>
-                      </div>
+                  const imagesIn = (files: FileList) =>
+                    Array.from(files).filter((file) => file.type.startsWith('image/'));
+                
+                  return (
+                    <FormItem>
+                      <FormLabel>Content</FormLabel>
+                      <div className="space-y-2">
+                        {/* Text formatting toolbar */}
+                        <div className="flex flex-wrap gap-1 p-1 border rounded-md bg-gray-50">
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('# ', '\n')}
+                            title="Heading 1"
+                          >
+                            <Heading1Icon className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('## ', '\n')}
+                            title="Heading 2"
+                          >
+                            <Heading2Icon className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('### ', '\n')}
+                            title="Heading 3"
+                          >
+                            <Heading3Icon className="h-4 w-4" />
+                          </Button>
+                          <div className="w-px h-6 bg-gray-300 my-1 mx-1"></div>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('**', '**')}
+                            title="Bold"
+                          >
+                            <BoldIcon className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('*', '*')}
+                            title="Italic"
+                          >
+                            <ItalicIcon className="h-4 w-4" />
+                          </Button>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('__', '__')}
+                            title="Underline"
+                          >
+                            <UnderlineIcon className="h-4 w-4" />
+                          </Button>
+                          <div className="w-px h-6 bg-gray-300 my-1 mx-1"></div>
+                          <Button 
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-2 text-gray-600"
+                            onClick={() => insertFormatting('- ', '\n')}
+                            title="Bullet List"
+                          >
+                            <ListIcon className="h-4 w-4" />
+                          </Button>
+                        </div>
                       
+                        <FormControl>
+                          <Textarea
+                            placeholder="Write your note here..."
+                            className="min-h-[200px] font-mono text-base"
+                            {...field}
+                            ref={(e) => {
+                              textareaRef.current = e;
+                            }}
+                            onPaste={(e) => {
+                              const images = imagesIn(e.clipboardData.files);
+                              if (images.length === 0) return;
+                              e.preventDefault();
+                              insertImages(images);
+                            }}
+                            onDragOver={(e) => {
+                              if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+                            }}
+                            onDrop={(e) => {
+                              const images = imagesIn(e.dataTransfer.files);
+                              if (images.length === 0) return;
+                              e.preventDefault();
+                              insertImages(images);
+                            }}
+                          />
+                        </FormControl>
+                        <div className="text-xs text-gray-500">
+                          {uploadingImages
+                            ? "Uploading images..."
+                            : "Use markdown-style formatting: # for headings, ** for bold, * for italic. Paste or drop images to attach them"}
+                        </div>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  );
+                }}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="notebookId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notebook</FormLabel>
+                  <Select
+                    value={field.value ?? NO_NOTEBOOK}
+                    onValueChange={(value) => field.onChange(value === NO_NOTEBOOK ? null : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_NOTEBOOK}>No notebook</SelectItem>
+                      {notebooks.map((notebook) => (
+                        <SelectItem key={notebook.id} value={notebook.id}>
+                          {notebook.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              {recurrence ? (
+                <FormItem>
+                  <FormLabel>Next reminder</FormLabel>
+                  <div className="flex items-center gap-3 h-10">
+                    <span className="text-sm text-gray-700">
+                      {nextReminder ? formatReminder(nextReminder) : "None, the series has ended"}
+                    </span>
+                    {recurrence === base?.recurrence && base.remindAt && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => skipReminderMutation.mutate()}
+                        disabled={skipReminderMutation.isPending}
+                        title="Skip this reminder and wait for the one after"
+                      >
+                        <SkipForwardIcon className="h-4 w-4 mr-1" /> Skip
+                      </Button>
+                    )}
+                  </div>
+                </FormItem>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="remindAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Remind me</FormLabel>
                       <FormControl>
-                        <Textarea
-                          placeholder="Write your note here..."
-                          className="min-h-[200px] font-mono text-base"
-                          {...field}
-                          ref={(e) => {
-                            textareaRef.current = e;
-                          }}
-                        />
+                        <Input type="datetime-local" {...field} />
                       </FormControl>
-                      <div className="text-xs text-gray-500">
-                        Use markdown-style formatting: # for headings, ** for bold, * for italic
-                      </div>
-                    </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="dueAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
-                );
-              }}
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="recurrence"
+              render={({ field }) => (
+                <FormItem>
+                  <RecurrencePicker value={field.value} onChange={field.onChange} start={form.watch("remindAt")} />
+                  <FormMessage />
+                </FormItem>
+              )}
             />
 
             <div className="flex flex-col space-y-4 md:flex-row md:space-y-0 md:space-x-6">
@@ -349,6 +902,42 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
               />
             </div>
 
+            {conflict && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-4">
+                <div className="flex items-start">
+                  <AlertTriangleIcon className="h-5 w-5 text-amber-600 mr-2 shrink-0" />
+                  <div className="min-w-0">
+                    <h4 className="text-sm font-medium text-amber-900">
+                      This note was changed somewhere else while you were editing
+                    </h4>
+                    <p className="mt-1 text-sm text-amber-800">
+                      Saved version: <span className="font-medium">{conflict.saved.title}</span>
+                    </p>
+                    <pre className="mt-2 max-h-32 overflow-y-auto whitespace-pre-wrap text-xs text-gray-700 bg-white border rounded p-2">
+                      {conflict.saved.content}
+                    </pre>
+                  </div>
+                </div>
+                <div className="flex flex-wrap justify-end gap-2 mt-3">
+                  <Button type="button" variant="ghost" size="sm" onClick={discardMine}>
+                    Discard My Changes
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={merge}>
+                    Merge
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={overwrite}
+                    disabled={updateNoteMutation.isPending}
+                  >
+                    Overwrite
+                  </Button>
+                </div>
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 mt-6">
               <Button
                 type="button"
@@ -359,7 +948,7 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
               </Button>
               <Button
                 type="submit"
-                disabled={isSubmitting}
+                disabled={isSubmitting || conflict !== null}
               >
                 {isSubmitting
                   ? isEditing
@@ -376,3 +965,92 @@ export default function NoteEditor({ isOpen, note, onClose }: NoteEditorProps) {
     </div>
   );
 }
+
+interface ChecklistItemsInputProps {
+  items: FormChecklistItem[];
+  onChange: (items: FormChecklistItem[]) => void;
+}
+
+// Editable list of checklist items; Enter adds an item below, Tab and
+// Shift+Tab change the indent and Backspace on an empty item removes it
+function ChecklistItemsInput({ items, onChange }: ChecklistItemsInputProps) {
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  const focus = (index: number) => {
+    setTimeout(() => inputRefs.current[index]?.focus(), 0);
+  };
+
+  const change = (index: number, changes: Partial<FormChecklistItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const insertAfter = (index: number) => {
+    const indent = index >= 0 ? items[index].indent : 0;
+    onChange([...items.slice(0, index + 1), { text: "", checked: false, indent }, ...items.slice(index + 1)]);
+    focus(index + 1);
+  };
+
+  const remove = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+    focus(Math.max(0, index - 1));
+  };
+
+  return (
+    <div className="space-y-1">
+      {items.map((item, index) => (
+        <div
+          key={item.id ?? index}
+          className="flex items-center gap-2"
+          style={{ paddingLeft: `${item.indent * 1.75}rem` }}
+        >
+          <Checkbox
+            checked={item.checked}
+            onCheckedChange={(checked) => change(index, { checked: checked === true })}
+          />
+          <Input
+            ref={(e) => {
+              inputRefs.current[index] = e;
+            }}
+            value={item.text}
+            maxLength={1000}
+            placeholder="List item"
+            className={cn("h-8", item.checked && "line-through text-gray-400")}
+            onChange={(e) => change(index, { text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                insertAfter(index);
+              } else if (e.key === "Tab") {
+                e.preventDefault();
+                const indent = e.shiftKey ? 0 : MAX_CHECKLIST_INDENT;
+                change(index, { indent });
+              } else if (e.key === "Backspace" && item.text === "" && items.length > 1) {
+                e.preventDefault();
+                remove(index);
+              }
+            }}
+          />
+          <button
+            type="button"
+            className="text-gray-400 hover:text-destructive"
+            onClick={() => remove(index)}
+            aria-label="Remove item"
+          >
+            <XIcon className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {items.length < MAX_CHECKLIST_ITEMS && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="text-gray-600"
+          onClick={() => insertAfter(items.length - 1)}
+        >
+          <PlusIcon className="mr-1 h-4 w-4" /> Add item
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { HistoryIcon, RotateCcwIcon, XIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface RevisionSummary {
+  id: string;
+  revision: number;
+  title: string;
+  lineCount: number;
+  createdAt: string;
+}
+
+interface RevisionDiff {
+  from: { revision: number | null; title: string };
+  to: { revision: number | null; title: string };
+  added: number;
+  removed: number;
+  lines: {
+    type: "equal" | "added" | "removed";
+    text: string;
+    oldLine?: number;
+    newLine?: number;
+  }[];
+}
+
+interface NoteHistoryProps {
+  noteId: string;
+  // Changes whenever the note is saved, so history refetches after edits
+  noteUpdatedAt: Date | string | null;
+  onClose: () => void;
+}
+
+export default function NoteHistory({ noteId, noteUpdatedAt, onClose }: NoteHistoryProps) {
+  const version = noteUpdatedAt ? new Date(noteUpdatedAt).getTime() : 0;
+  const { toast } = useToast();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [compareWithCurrent, setCompareWithCurrent] = useState(false);
+
+  // Fetch the revision list
+  const { data: revisions = [], isLoading } = useQuery<RevisionSummary[]>({
+    queryKey: [`/api/notes/${noteId}/revisions`, version],
+  });
+
+  // Select the newest revision by default
+  useEffect(() => {
+    if (selectedRevision === null && revisions.length > 0) {
+      setSelectedRevision(revisions[0].revision);
+    }
+  }, [revisions, selectedRevision]);
+
+  // Fetch the diff for the selected revision
+  const diffUrl = `/api/notes/${noteId}/revisions/${selectedRevision}/diff${compareWithCurrent ? "?against=current" : ""}`;
+  const { data: diff, isLoading: isDiffLoading } = useQuery<RevisionDiff>({
+    queryKey: [diffUrl, version],
+    enabled: selectedRevision !== null,
+  });
+
+  // Restore revision mutation
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const res = await apiRequest("POST", `/api/notes/${noteId}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/notes/${noteId}`] });
+      setSelectedRevision(null);
+      toast({
+        title: "Revision restored",
+        description: `The note now matches revision ${revision}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white border rounded-lg shadow-sm mb-6">
+      <div className="flex justify-between items-center px-4 py-3 border-b">
+        <div className="flex items-center">
+          <HistoryIcon className="h-5 w-5 text-gray-500 mr-2" />
+          <h3 className="font-medium text-gray-900">History</h3>
+        </div>
+        <button
+          className="text-gray-400 hover:text-gray-500"
+          onClick={onClose}
+          aria-label="Close history"
+        >
+          <XIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="p-4 space-y-2">
+          <Skeleton className="h-8 w-full" />
+          <Skeleton className="h-8 w-full" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">No earlier versions of this note yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3">
+          {/* Revision list */}
+          <ul className="border-b md:border-b-0 md:border-r max-h-96 overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  className={cn(
+                    "w-full text-left px-4 py-2 text-sm hover:bg-gray-50",
+                    selectedRevision === revision.revision && "bg-primary/10"
+                  )}
+                  onClick={() => setSelectedRevision(revision.revision)}
+                >
+                  <div className="font-medium text-gray-900">
+                    Revision {revision.revision}
+                    {index === 0 && <span className="ml-2 text-xs text-primary">Latest</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{revision.title}</div>
+                  <div className="text-xs text-gray-400">
+                    {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff view */}
+          <div className="md:col-span-2 p-4">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={compareWithCurrent}
+                  onChange={(e) => setCompareWithCurrent(e.target.checked)}
+                />
+                Compare with current version
+              </label>
+              {selectedRevision !== null && selectedRevision !== revisions[0].revision && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => restoreMutation.mutate(selectedRevision)}
+                  disabled={restoreMutation.isPending}
+                >
+                  <RotateCcwIcon className="mr-1 h-4 w-4" />
+                  {restoreMutation.isPending ? "Restoring..." : "Restore this version"}
+                </Button>
+              )}
+            </div>
+
+            {isDiffLoading || !diff ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <>
+                <div className="text-xs text-gray-500 mb-2">
+                  <span className="text-green-700">+{diff.added}</span>{" "}
+                  <span className="text-red-700">-{diff.removed}</span>
+                  {diff.from.title !== diff.to.title && (
+                    <span className="ml-2">
+                      Title: "{diff.from.title}" → "{diff.to.title}"
+                    </span>
+                  )}
+                </div>
+                <pre className="text-xs font-mono border rounded-md max-h-80 overflow-auto">
+                  {diff.lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        "px-2 whitespace-pre-wrap",
+                        line.type === "added" && "bg-green-50 text-green-800",
+                        line.type === "removed" && "bg-red-50 text-red-800"
+                      )}
+                    >
+                      {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                      {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
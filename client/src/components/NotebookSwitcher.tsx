@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BookIcon, CheckIcon, ChevronDownIcon, PencilIcon, PlusIcon, XIcon } from "lucide-react";
+import { Notebook } from "@shared/schema";
+
+// Same choices as the note appearance settings
+const backgroundColorOptions = [
+  { value: "#ffffff", label: "White" },
+  { value: "#f3f4f6", label: "Light Gray" },
+  { value: "#fffbeb", label: "Warm Yellow" },
+  { value: "#ecfdf5", label: "Mint Green" },
+  { value: "#f0f9ff", label: "Sky Blue" },
+  { value: "#fef2f2", label: "Soft Red" },
+  { value: "#f5f3ff", label: "Lavender" },
+];
+
+interface NotebookSwitcherProps {
+  // A notebook ID, "none" for notes outside any notebook, or null for all notes
+  notebookId: string | null;
+  onChange: (notebookId: string | null) => void;
+}
+
+export default function NotebookSwitcher({ notebookId, onChange }: NotebookSwitcherProps) {
+  const { toast } = useToast();
+  // The notebook being edited, or "new" while creating one
+  const [editing, setEditing] = useState<Notebook | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [defaultBackgroundColor, setDefaultBackgroundColor] = useState("#ffffff");
+
+  const { data: notebooks = [] } = useQuery<Notebook[]>({
+    queryKey: ["/api/notebooks"],
+  });
+
+  const current = notebooks.find((notebook) => notebook.id === notebookId) ?? null;
+  const currentName = notebookId === "none" ? "No notebook" : current?.name ?? "All notes";
+
+  const openDialog = (notebook: Notebook | "new") => {
+    setEditing(notebook);
+    setName(notebook === "new" ? "" : notebook.name);
+    setDefaultBackgroundColor(notebook === "new" ? "#ffffff" : notebook.defaultBackgroundColor);
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Create or update the notebook in the dialog
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Notebook> => {
+      const data = { name, defaultBackgroundColor };
+      const res = editing === "new" || !editing
+        ? await apiRequest("POST", "/api/notebooks", data)
+        : await apiRequest("PUT", `/api/notebooks/${editing.id}`, data);
+      return res.json();
+    },
+    onSuccess: (notebook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+      setEditing(null);
+      onChange(notebook.id);
+    },
+    onError: showError("Failed to save notebook"),
+  });
+
+  // Its notes stay, outside any notebook
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/notebooks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      setEditing(null);
+      onChange(null);
+    },
+    onError: showError("Failed to delete notebook"),
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="mr-4 max-w-[12rem]">
+            <BookIcon className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{currentName}</span>
+            <ChevronDownIcon className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuItem className="cursor-pointer" onClick={() => onChange(null)}>
+            <CheckIcon className={`mr-2 h-4 w-4 ${notebookId === null ? "" : "invisible"}`} />
+            <span>All notes</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem className="cursor-pointer" onClick={() => onChange("none")}>
+            <CheckIcon className={`mr-2 h-4 w-4 ${notebookId === "none" ? "" : "invisible"}`} />
+            <span>No notebook</span>
+          </DropdownMenuItem>
+          {notebooks.length > 0 && <DropdownMenuSeparator />}
+          {notebooks.map((notebook) => (
+            <DropdownMenuItem
+              key={notebook.id}
+              className="cursor-pointer"
+              onClick={() => onChange(notebook.id)}
+            >
+              <CheckIcon className={`mr-2 h-4 w-4 ${notebook.id === notebookId ? "" : "invisible"}`} />
+              <span
+                className="mr-2 h-3 w-3 rounded-full border shrink-0"
+                style={{ backgroundColor: notebook.defaultBackgroundColor }}
+              />
+              <span className="truncate">{notebook.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="cursor-pointer" onClick={() => openDialog("new")}>
+            <PlusIcon className="mr-2 h-4 w-4" />
+            <span>New notebook</span>
+          </DropdownMenuItem>
+          {current && (
+            <DropdownMenuItem className="cursor-pointer" onClick={() => openDialog(current)}>
+              <PencilIcon className="mr-2 h-4 w-4" />
+              <span>Edit notebook</span>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {editing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editing === "new" ? "New Notebook" : "Edit Notebook"}
+              </h3>
+              <button className="text-gray-400 hover:text-gray-500" onClick={() => setEditing(null)}>
+                <XIcon className="h-5 w-5" />
+              </button>
+            </div>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveMutation.mutate();
+              }}
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Notebook name"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Background color for new notes
+                </label>
+                <div className="flex space-x-2">
+                  {backgroundColorOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      className={`w-8 h-8 rounded-full border ${defaultBackgroundColor === option.value ? "ring-2 ring-primary" : "ring-0"}`}
+                      style={{ backgroundColor: option.value }}
+                      onClick={() => setDefaultBackgroundColor(option.value)}
+                      title={option.label}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-between items-center mt-6">
+                {editing !== "new" ? (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(editing.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Its notes are kept outside any notebook"
+                  >
+                    {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex space-x-3">
+                  <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveMutation.isPending || name.trim() === ""}>
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BellIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Notification } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+// How often to look for new notifications; reminders are sent every 30 seconds
+const POLL_INTERVAL = 30 * 1000;
+
+export default function NotificationBell() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  // Notifications already seen, so each one only pops up once
+  const seen = useRef<Set<string> | null>(null);
+
+  const { data: notifications = [], isSuccess } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  const unread = notifications.filter((notification) => !notification.readAt);
+
+  // Pop up reminders that arrived since the last poll, but not the ones
+  // that were there when the page loaded
+  useEffect(() => {
+    if (seen.current) {
+      for (const notification of unread) {
+        if (!seen.current.has(notification.id)) {
+          toast({ title: "Reminder", description: notification.title });
+        }
+      }
+    }
+    if (isSuccess) {
+      seen.current = new Set(notifications.map((notification) => notification.id));
+    }
+  }, [notifications, isSuccess]);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) markReadMutation.mutate([notification.id]);
+    navigate(`/notes/${notification.noteId}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative mr-2" aria-label="Notifications">
+          <BellIcon className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[0.65rem] leading-[1.1rem] text-center">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex justify-between items-center px-2 py-1.5">
+          <span className="text-sm font-medium text-gray-900">Notifications</span>
+          {unread.length > 0 && (
+            <button
+              className="text-xs text-primary hover:text-primary/90"
+              onClick={() => markReadMutation.mutate(undefined)}
+              disabled={markReadMutation.isPending}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-gray-500">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="cursor-pointer items-start"
+                onClick={() => open(notification)}
+              >
+                <BellIcon className={cn("mr-2 mt-0.5 h-4 w-4 shrink-0", notification.readAt ? "text-gray-400" : "text-primary")} />
+                <div className="min-w-0">
+                  <p className={cn("text-sm truncate", notification.readAt ? "text-gray-500" : "font-medium text-gray-900")}>
+                    {notification.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(notification.createdAt!), { addSuffix: true })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
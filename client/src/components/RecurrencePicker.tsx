@@ -0,0 +1,362 @@
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import {
+  describeRecurrence,
+  formatRecurrence,
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  parseRecurrence,
+  upcomingOccurrences,
+  weekdays,
+  type LocalDateTime,
+  type Recurrence,
+  type RecurrenceFrequency,
+  type Weekday,
+} from "@shared/recurrence";
+import { formatReminder } from "@/lib/reminders";
+import { cn } from "@/lib/utils";
+
+const weekdayLabels: Record<Weekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+const frequencyUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+// How a monthly rule picks its day: the date, the nth weekday or the last weekday
+type MonthlyMode = "day" | "weekday" | "last";
+
+interface RecurrencePickerProps {
+  value: string | null; // DTSTART and RRULE lines, or null for no repeat
+  onChange: (value: string | null) => void;
+  // The one-off reminder (a datetime-local value) a new rule starts from
+  start: string;
+}
+
+function localFromDate(date: Date): LocalDateTime {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: 0,
+  };
+}
+
+// The local date as a Date for the calendar, at midnight
+function calendarDate(local: LocalDateTime): Date {
+  return new Date(local.year, local.month - 1, local.day);
+}
+
+function weekdayOf(local: LocalDateTime): Weekday {
+  return weekdays[(calendarDate(local).getDay() + 6) % 7];
+}
+
+function monthlyMode(rule: Recurrence): MonthlyMode {
+  const nth = rule.byDay?.[0]?.nth;
+  if (nth === undefined) return "day";
+  return nth < 0 ? "last" : "weekday";
+}
+
+// The BY* parts of a monthly rule in this mode for its start date
+function monthlyParts(start: LocalDateTime, mode: MonthlyMode): Pick<Recurrence, "byDay" | "byMonthDay"> {
+  switch (mode) {
+    case "day":
+      return { byDay: undefined, byMonthDay: [start.day] };
+    case "weekday":
+      return { byDay: [{ weekday: weekdayOf(start), nth: Math.ceil(start.day / 7) }], byMonthDay: undefined };
+    case "last":
+      return { byDay: [{ weekday: weekdayOf(start), nth: -1 }], byMonthDay: undefined };
+  }
+}
+
+// A weekly rule on the start's weekday, in the browser's time zone
+function defaultRule(start: string): Recurrence {
+  const date = start ? new Date(start) : new Date();
+  if (!start) {
+    // The next full hour
+    date.setHours(date.getHours() + 1, 0, 0, 0);
+  }
+  const local = localFromDate(date);
+  return {
+    start: local,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    frequency: "WEEKLY",
+    interval: 1,
+    byDay: [{ weekday: weekdayOf(local) }],
+  };
+}
+
+const ordinals = ["first", "second", "third", "fourth", "fifth"];
+
+// Builds a repeat rule for a reminder from a start date, a frequency and an end
+export default function RecurrencePicker({ value, onChange, start }: RecurrencePickerProps) {
+  let rule: Recurrence | null = null;
+  if (value) {
+    try {
+      rule = parseRecurrence(value);
+    } catch {
+      // Shown below
+    }
+  }
+
+  if (!value) {
+    return (
+      <label className="flex items-center space-x-2 text-sm">
+        <Checkbox onCheckedChange={(checked) => checked === true && onChange(formatRecurrence(defaultRule(start)))} checked={false} />
+        <span>Repeat this reminder</span>
+      </label>
+    );
+  }
+
+  if (!rule) {
+    return (
+      <div className="flex items-center justify-between text-sm text-destructive">
+        <span>This repeat rule cannot be edited here.</span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          Stop repeating
+        </Button>
+      </div>
+    );
+  }
+
+  const current = rule;
+  const update = (changes: Partial<Recurrence>) => onChange(formatRecurrence({ ...current, ...changes }));
+
+  const changeStart = (startChanges: Partial<LocalDateTime>) => {
+    const newStart = { ...current.start, ...startChanges };
+    update({
+      start: newStart,
+      ...(current.frequency === "MONTHLY" ? monthlyParts(newStart, monthlyMode(current)) : {}),
+    });
+  };
+
+  const changeFrequency = (frequency: RecurrenceFrequency) => {
+    update({
+      frequency,
+      byDay: frequency === "WEEKLY" ? [{ weekday: weekdayOf(current.start) }] : undefined,
+      byMonthDay: frequency === "MONTHLY" ? [current.start.day] : undefined,
+      byMonth: undefined,
+    });
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const selected = current.byDay?.map((entry) => entry.weekday) ?? [weekdayOf(current.start)];
+    const next = selected.includes(weekday)
+      ? selected.filter((day) => day !== weekday)
+      : weekdays.filter((day) => day === weekday || selected.includes(day));
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ byDay: next.map((day) => ({ weekday: day })) });
+  };
+
+  const ends = current.count !== undefined ? "count" : current.until ? "until" : "never";
+  const changeEnds = (mode: string) => {
+    if (mode === "count") {
+      update({ count: 10, until: undefined });
+    } else if (mode === "until") {
+      const until = new Date(calendarDate(current.start));
+      until.setMonth(until.getMonth() + 3);
+      until.setHours(23, 59, 59);
+      update({ count: undefined, until });
+    } else {
+      update({ count: undefined, until: undefined });
+    }
+  };
+
+  const time = `${String(current.start.hour).padStart(2, "0")}:${String(current.start.minute).padStart(2, "0")}`;
+  const upcoming = upcomingOccurrences(current, new Date(), 3);
+  const nth = Math.ceil(current.start.day / 7);
+  const weekdayName = format(calendarDate(current.start), "EEEE");
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <label className="flex items-center space-x-2 text-sm">
+        <Checkbox checked onCheckedChange={(checked) => checked === false && onChange(null)} />
+        <span>Repeat this reminder</span>
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="w-16 text-gray-600">Starts</span>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" className="w-40 justify-start font-normal">
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {format(calendarDate(current.start), "MMM d, yyyy")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={calendarDate(current.start)}
+              defaultMonth={calendarDate(current.start)}
+              onSelect={(date) => {
+                if (date) changeStart({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+        <Input
+          type="time"
+          className="w-28"
+          value={time}
+          onChange={(e) => {
+            const [hour, minute] = e.target.value.split(":").map(Number);
+            if (!Number.isNaN(hour) && !Number.isNaN(minute)) changeStart({ hour, minute, second: 0 });
+          }}
+        />
+        <span className="text-xs text-gray-500">{current.timeZone}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="w-16 text-gray-600">Every</span>
+        <Input
+          type="number"
+          className="w-20"
+          min={1}
+          max={MAX_RECURRENCE_INTERVAL}
+          value={current.interval}
+          onChange={(e) => {
+            const interval = Number(e.target.value);
+            if (Number.isInteger(interval) && interval >= 1 && interval <= MAX_RECURRENCE_INTERVAL) update({ interval });
+          }}
+        />
+        <Select value={current.frequency} onValueChange={(frequency) => changeFrequency(frequency as RecurrenceFrequency)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(frequencyUnits).map(([frequency, unit]) => (
+              <SelectItem key={frequency} value={frequency}>
+                {current.interval === 1 ? unit : `${unit}s`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {current.frequency === "WEEKLY" && (
+        <div className="flex flex-wrap items-center gap-1 text-sm">
+          <span className="w-16 text-gray-600">On</span>
+          {weekdays.map((weekday) => {
+            const selected = (current.byDay?.map((entry) => entry.weekday) ?? [weekdayOf(current.start)]).includes(weekday);
+            return (
+              <button
+                key={weekday}
+                type="button"
+                className={cn(
+                  "h-8 w-10 rounded-md border text-xs",
+                  selected ? "bg-primary text-primary-foreground border-primary" : "hover:bg-gray-50"
+                )}
+                onClick={() => toggleWeekday(weekday)}
+              >
+                {weekdayLabels[weekday]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {current.frequency === "MONTHLY" && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="w-16 text-gray-600">On</span>
+          <Select
+            value={monthlyMode(current)}
+            onValueChange={(mode) => update(monthlyParts(current.start, mode as MonthlyMode))}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Day {current.start.day}</SelectItem>
+              {nth <= 4 && (
+                <SelectItem value="weekday">The {ordinals[nth - 1]} {weekdayName}</SelectItem>
+              )}
+              <SelectItem value="last">The last {weekdayName}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="w-16 text-gray-600">Ends</span>
+        <Select value={ends} onValueChange={changeEnds}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="never">Never</SelectItem>
+            <SelectItem value="count">After</SelectItem>
+            <SelectItem value="until">On</SelectItem>
+          </SelectContent>
+        </Select>
+        {current.count !== undefined && (
+          <>
+            <Input
+              type="number"
+              className="w-20"
+              min={1}
+              max={MAX_RECURRENCE_COUNT}
+              value={current.count}
+              onChange={(e) => {
+                const count = Number(e.target.value);
+                if (Number.isInteger(count) && count >= 1 && count <= MAX_RECURRENCE_COUNT) update({ count });
+              }}
+            />
+            <span>times</span>
+          </>
+        )}
+        {current.until && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button type="button" variant="outline" className="w-40 justify-start font-normal">
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {format(current.until, "MMM d, yyyy")}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={current.until}
+                defaultMonth={current.until}
+                disabled={{ before: calendarDate(current.start) }}
+                onSelect={(date) => {
+                  if (!date) return;
+                  // The whole day counts
+                  const until = new Date(date);
+                  until.setHours(23, 59, 59);
+                  update({ until });
+                }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {describeRecurrence(current)}.{" "}
+        {upcoming.length > 0
+          ? `Next: ${upcoming.map((date) => formatReminder(date)).join(", ")}`
+          : "No more reminders."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import DeleteConfirmation from "@/components/DeleteConfirmation";
+import { Note } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcwIcon, Trash2Icon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+type TrashedNote = Note & { purgeAt: string };
+
+interface TrashListProps {
+  searchTerm: string;
+  onOpen: (note: Note) => void;
+}
+
+export default function TrashList({ searchTerm, onOpen }: TrashListProps) {
+  const { toast } = useToast();
+  // The note to delete forever, or "all" when emptying the trash
+  const [pendingDelete, setPendingDelete] = useState<TrashedNote | "all" | null>(null);
+
+  // Fetch trashed notes
+  const { data: notes = [], isLoading } = useQuery<TrashedNote[]>({
+    queryKey: ["/api/trash"],
+    refetchOnWindowFocus: true
+  });
+
+  const invalidateNotes = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  };
+
+  // Restore note mutation
+  const restoreMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      return apiRequest("POST", `/api/notes/${noteId}/restore`);
+    },
+    onSuccess: () => {
+      invalidateNotes();
+      toast({
+        title: "Note restored",
+        description: "The note has been moved out of the trash.",
+      });
+    },
+  });
+
+  // Delete forever mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (target: TrashedNote | "all") => {
+      const url = target === "all" ? "/api/trash" : `/api/notes/${target.id}/permanent`;
+      await apiRequest("DELETE", url);
+    },
+    onSuccess: (_data, target) => {
+      invalidateNotes();
+      setPendingDelete(null);
+      toast({
+        title: target === "all" ? "Trash emptied" : "Note deleted",
+        description: target === "all"
+          ? "All notes in the trash have been permanently deleted."
+          : "The note has been permanently deleted.",
+      });
+    },
+  });
+
+  const filteredNotes = notes.filter(
+    (note) =>
+      note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      note.content.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 mb-8">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-500">
+          Notes in the trash are deleted forever after the date shown.
+        </p>
+        {notes.length > 0 && (
+          <Button variant="destructive" size="sm" onClick={() => setPendingDelete("all")}>
+            <Trash2Icon className="mr-1 h-4 w-4" /> Empty Trash
+          </Button>
+        )}
+      </div>
+
+      {filteredNotes.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            {notes.length === 0 ? "Trash is empty" : "No notes found"}
+          </h3>
+          {notes.length > 0 && (
+            <p className="mt-1 text-sm text-gray-500">No notes match your search criteria.</p>
+          )}
+        </div>
+      ) : (
+        <ul className="bg-white border rounded-lg divide-y mb-8">
+          {filteredNotes.map((note) => (
+            <li key={note.id} className="flex justify-between items-center px-4 py-3">
+              <button className="text-left min-w-0" onClick={() => onOpen(note)}>
+                <div className="font-medium text-gray-900 truncate">{note.title}</div>
+                <div className="text-xs text-gray-500">
+                  Deleted {formatDistanceToNow(new Date(note.deletedAt!), { addSuffix: true })}
+                  {" · "}
+                  Deleted forever {formatDistanceToNow(new Date(note.purgeAt), { addSuffix: true })}
+                </div>
+              </button>
+              <div className="flex space-x-2 ml-4 shrink-0">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => restoreMutation.mutate(note.id)}
+                  disabled={restoreMutation.isPending}
+                >
+                  <RotateCcwIcon className="mr-1 h-4 w-4" /> Restore
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setPendingDelete(note)}>
+                  <Trash2Icon className="mr-1 h-4 w-4" /> Delete Forever
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <DeleteConfirmation
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        onConfirm={() => pendingDelete && deleteMutation.mutate(pendingDelete)}
+        isDeleting={deleteMutation.isPending}
+        permanent
+      />
+    </>
+  );
+}
@@ -0,0 +1,134 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FilePlusIcon } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Note, Notebook } from "@shared/schema";
+import type { ResolvedLink } from "@shared/wikiLinks";
+
+interface WikiLinkProps {
+  title: string;
+  label: string | null;
+  // What the title resolves to; undefined while loading
+  resolved: ResolvedLink | undefined;
+  // Where a missing note is created: the linking note's notebook
+  notebookId: string | null;
+}
+
+// A [[link]] in a note: opens the note with that title, lets the user pick
+// one when several have it, and offers to create it when none does
+export default function WikiLink({ title, label, resolved, notebookId }: WikiLinkProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const text = label ?? title;
+
+  const { data: notebooks = [] } = useQuery<Notebook[]>({
+    queryKey: ["/api/notebooks"],
+    enabled: !!resolved && resolved.notes.length > 1,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/notes", { title, content: "", notebookId });
+      return (await res.json()) as Note;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      navigate(`/notes/${created.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create note",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!resolved) {
+    return <span className="text-primary">{text}</span>;
+  }
+
+  if (resolved.notes.length === 1) {
+    const href = `/notes/${resolved.notes[0].id}`;
+    return (
+      <a
+        href={href}
+        className="text-primary underline decoration-primary/40 hover:decoration-primary"
+        onClick={(e) => {
+          e.preventDefault();
+          navigate(href);
+        }}
+      >
+        {text}
+      </a>
+    );
+  }
+
+  const missing = resolved.notes.length === 0;
+  const notebookName = (id: string | null) => notebooks.find((notebook) => notebook.id === id)?.name;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={
+            missing
+              ? "text-red-600 underline decoration-dashed decoration-red-300 hover:decoration-red-600"
+              : "text-primary underline decoration-dotted decoration-primary/60 hover:decoration-primary"
+          }
+          title={missing ? "No note has this title yet" : "Several notes have this title"}
+        >
+          {text}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="start">
+        {missing ? (
+          <div className="space-y-2">
+            <p className="px-1 text-sm text-gray-600">
+              There is no note called <span className="font-medium text-gray-900">{title}</span>.
+            </p>
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending}
+            >
+              <FilePlusIcon className="mr-1 h-4 w-4" />
+              {createMutation.isPending ? "Creating..." : "Create note"}
+            </Button>
+          </div>
+        ) : (
+          <div>
+            <p className="px-1 pb-1 text-xs text-gray-500">{resolved.notes.length} notes are called "{title}"</p>
+            {resolved.notes.map((candidate) => (
+              <button
+                key={candidate.id}
+                type="button"
+                className="w-full rounded px-2 py-1.5 text-left hover:bg-gray-100"
+                onClick={() => navigate(`/notes/${candidate.id}`)}
+              >
+                <span className="block text-sm font-medium text-gray-900 truncate">{candidate.title}</span>
+                <span className="block text-xs text-gray-500">
+                  {[
+                    notebookName(candidate.notebookId),
+                    candidate.archived ? "Archived" : null,
+                    candidate.updatedAt
+                      ? `Updated ${formatDistanceToNow(new Date(candidate.updatedAt), { addSuffix: true })}`
+                      : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { attachmentUrl } from "@/lib/attachments";
+
+// Downloads need the auth header, so attachments are fetched and shown from
+// object URLs; nothing is fetched until `enabled` is true
+export function useAttachmentUrl(attachmentId: string, enabled = true): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    apiRequest("GET", attachmentUrl(attachmentId))
+      .then((res) => res.blob())
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error("Error loading attachment:", error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId, enabled]);
+
+  return url;
+}
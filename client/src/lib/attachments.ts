@@ -0,0 +1,24 @@
+import { apiRequest } from "@/lib/queryClient";
+import { Attachment } from "@shared/schema";
+
+export function attachmentUrl(attachmentId: string): string {
+  return `/api/attachments/${attachmentId}`;
+}
+
+// The attachment ID in a URL made by attachmentUrl, or null for other URLs
+export function attachmentIdFromUrl(url: string): string | null {
+  return /^\/api\/attachments\/([A-Za-z0-9]+)$/.exec(url)?.[1] ?? null;
+}
+
+// Markdown that shows an attached image
+export function imageMarkdown(attachment: Attachment): string {
+  const alt = attachment.filename.replace(/[\[\]]/g, "");
+  return `![${alt}](${attachmentUrl(attachment.id)})`;
+}
+
+export async function uploadAttachment(noteId: string, file: File): Promise<Attachment> {
+  const form = new FormData();
+  form.append("file", file);
+  const res = await apiRequest("POST", `/api/notes/${noteId}/attachments`, form);
+  return res.json();
+}
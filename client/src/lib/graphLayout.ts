@@ -0,0 +1,114 @@
+// Force-directed layout for the note graph: edges pull their notes together,
+// every pair of nearby notes pushes apart, and a weak pull to the middle
+// keeps unconnected notes from drifting off
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Preferred distance between linked notes
+const EDGE_LENGTH = 60;
+const ITERATIONS = 300;
+// Notes further apart than this do not push each other
+const REPULSION_RANGE = EDGE_LENGTH * 3;
+const GRAVITY = 0.02;
+
+/**
+ * Positions for the nodes, around (0, 0). The same graph always gets the
+ * same layout.
+ */
+export function layoutGraph(
+  nodeIds: string[],
+  edges: { source: string; target: string }[]
+): Map<string, Point> {
+  const count = nodeIds.length;
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+
+  // Start on a spiral so no two notes share a spot
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const radius = EDGE_LENGTH * Math.sqrt(i + 0.5);
+    xs[i] = radius * Math.cos(i * goldenAngle);
+    ys[i] = radius * Math.sin(i * goldenAngle);
+  }
+
+  const links = edges.flatMap((edge) => {
+    const source = index.get(edge.source);
+    const target = index.get(edge.target);
+    return source === undefined || target === undefined || source === target ? [] : [[source, target]];
+  });
+
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  const k2 = EDGE_LENGTH * EDGE_LENGTH;
+  let temperature = EDGE_LENGTH * Math.sqrt(count + 1);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    // Repulsion between notes in the same or neighboring grid cells
+    const grid = new Map<string, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = `${Math.floor(xs[i] / REPULSION_RANGE)},${Math.floor(ys[i] / REPULSION_RANGE)}`;
+      const cell = grid.get(key);
+      if (cell) cell.push(i);
+      else grid.set(key, [i]);
+    }
+    for (let i = 0; i < count; i++) {
+      const cx = Math.floor(xs[i] / REPULSION_RANGE);
+      const cy = Math.floor(ys[i] / REPULSION_RANGE);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          for (const j of grid.get(`${cx + ox},${cy + oy}`) || []) {
+            if (j <= i) continue;
+            let ddx = xs[i] - xs[j];
+            let ddy = ys[i] - ys[j];
+            let distance2 = ddx * ddx + ddy * ddy;
+            if (distance2 === 0) {
+              // Nudge apart notes that landed on the same spot
+              ddx = 0.1 * ((i % 7) - 3 || 1);
+              ddy = 0.1;
+              distance2 = ddx * ddx + ddy * ddy;
+            }
+            if (distance2 > REPULSION_RANGE * REPULSION_RANGE) continue;
+            const force = k2 / distance2;
+            dx[i] += ddx * force;
+            dy[i] += ddy * force;
+            dx[j] -= ddx * force;
+            dy[j] -= ddy * force;
+          }
+        }
+      }
+    }
+
+    // Attraction along edges
+    for (const [source, target] of links) {
+      const ddx = xs[source] - xs[target];
+      const ddy = ys[source] - ys[target];
+      const distance = Math.sqrt(ddx * ddx + ddy * ddy) || 0.01;
+      const force = distance / EDGE_LENGTH;
+      dx[source] -= ddx * force;
+      dy[source] -= ddy * force;
+      dx[target] += ddx * force;
+      dy[target] += ddy * force;
+    }
+
+    // Move each note at most `temperature`, which cools as the layout settles
+    for (let i = 0; i < count; i++) {
+      dx[i] -= xs[i] * GRAVITY;
+      dy[i] -= ys[i] * GRAVITY;
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+    }
+    temperature = Math.max(temperature * 0.97, 1);
+  }
+
+  return new Map(nodeIds.map((id, i) => [id, { x: xs[i], y: ys[i] }]));
+}
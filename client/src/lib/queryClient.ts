@@ -1,9 +1,17 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error for a non-2xx response; keeps the status and raw body for callers
+// that handle specific failures (e.g. a 409 carrying the server's copy)
+export class ApiError extends Error {
+  constructor(public status: number, public body: string, statusText: string) {
+    super(`${status}: ${body || statusText}`);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, await res.text(), res.statusText);
   }
 }
 
@@ -11,13 +19,16 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders?: Record<string, string>,
 ): Promise<Response> {
   // Get the auth token from localStorage
   const token = localStorage.getItem("authToken");
   
-  // Prepare headers
-  const headers: HeadersInit = {};
-  if (data) {
+  // Prepare headers; FormData (file uploads) is sent as multipart and sets
+  // its own Content-Type
+  const isForm = data instanceof FormData;
+  const headers: Record<string, string> = { ...extraHeaders };
+  if (data && !isForm) {
     headers["Content-Type"] = "application/json";
   }
   if (token) {
@@ -27,7 +38,7 @@ export async function apiRequest(
   const res = await fetch(url, {
     method,
     headers,
-    body: data ? JSON.stringify(data) : undefined,
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
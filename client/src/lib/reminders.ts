@@ -0,0 +1,41 @@
+import { format, isPast } from "date-fns";
+import { describeRecurrence, parseRecurrence, upcomingOccurrences } from "@shared/recurrence";
+
+// Value for an <input type="datetime-local">, in local time; "" for none
+export function toDateTimeInput(date: Date | string | null | undefined): string {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+// An ISO timestamp for the API, or null when the input is empty
+export function fromDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Short label for a reminder or due date, e.g. "Mar 4, 14:30"
+export function formatReminder(date: Date | string): string {
+  const value = new Date(date);
+  const sameYear = value.getFullYear() === new Date().getFullYear();
+  return format(value, sameYear ? "MMM d, HH:mm" : "MMM d yyyy, HH:mm");
+}
+
+export function isOverdue(date: Date | string | null | undefined): boolean {
+  return !!date && isPast(new Date(date));
+}
+
+// The next occurrence of a repeat rule, or null if it has ended or cannot be read
+export function firstOccurrence(recurrence: string): Date | null {
+  try {
+    return upcomingOccurrences(parseRecurrence(recurrence), new Date(), 1)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// How often a reminder repeats, e.g. "Every week on Monday"
+export function repeatDescription(recurrence: string): string {
+  try {
+    return describeRecurrence(parseRecurrence(recurrence));
+  } catch {
+    return "Repeats";
+  }
+}
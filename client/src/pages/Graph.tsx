@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MaximizeIcon, ZoomInIcon, ZoomOutIcon } from "lucide-react";
+import type { GraphNode, NoteGraph } from "@shared/graph";
+import { layoutGraph, type Point } from "@/lib/graphLayout";
+
+// Color of notes without labels and of [[link]] edges
+const PLAIN_COLOR = "#9ca3af";
+const LINK_COLOR = "#6b7280";
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 4;
+// Titles show once the graph is zoomed in this far
+const TITLE_SCALE = 0.8;
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+function nodeRadius(node: GraphNode): number {
+  return 5 + Math.sqrt(node.degree) * 2;
+}
+
+// The view that fits every position into a width x height box
+function fitView(positions: Point[], width: number, height: number): View {
+  if (positions.length === 0) return { x: width / 2, y: height / 2, scale: 1 };
+  const xs = positions.map((point) => point.x);
+  const ys = positions.map((point) => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const padding = 40;
+  const scale = Math.min(
+    MAX_SCALE,
+    Math.max(MIN_SCALE, Math.min((width - padding * 2) / (maxX - minX || 1), (height - padding * 2) / (maxY - minY || 1)))
+  );
+  return {
+    x: width / 2 - ((minX + maxX) / 2) * scale,
+    y: height / 2 - ((minY + maxY) / 2) * scale,
+    scale,
+  };
+}
+
+export default function Graph() {
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [showLinks, setShowLinks] = useState(true);
+  const [showLabels, setShowLabels] = useState(true);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [view, setView] = useState<View | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const panning = useRef<{ pointerX: number; pointerY: number; view: View } | null>(null);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+    }
+  }, [isAuthenticated, navigate]);
+
+  const { data: graph, isLoading } = useQuery<NoteGraph>({
+    queryKey: [`/api/graph?archived=${includeArchived}`],
+    // Notes change elsewhere all the time; the graph is rebuilt on each visit
+    staleTime: 0,
+  });
+
+  const positions = useMemo(
+    () => (graph ? layoutGraph(graph.nodes.map((node) => node.id), graph.edges) : new Map<string, Point>()),
+    [graph]
+  );
+
+  const nodesById = useMemo(
+    () => new Map((graph?.nodes ?? []).map((node) => [node.id, node])),
+    [graph]
+  );
+
+  const labelColors = useMemo(
+    () => new Map((graph?.labels ?? []).map((label) => [label.id, label.color])),
+    [graph]
+  );
+
+  // Notes next to the hovered one stay bright
+  const neighbors = useMemo(() => {
+    const ids = new Set<string>();
+    if (!hovered || !graph) return ids;
+    ids.add(hovered);
+    for (const edge of graph.edges) {
+      if (edge.source === hovered) ids.add(edge.target);
+      if (edge.target === hovered) ids.add(edge.source);
+    }
+    return ids;
+  }, [hovered, graph]);
+
+  const fit = () => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setView(fitView(Array.from(positions.values()), svg.clientWidth, svg.clientHeight));
+  };
+
+  // Fit a new layout into the window
+  useEffect(fit, [positions]);
+
+  // Zoom around the pointer; wheel listeners must not be passive to stop the
+  // page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.002));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [graph]);
+
+  const zoomAt = (x: number, y: number, factor: number) => {
+    setView((current) => {
+      if (!current) return current;
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      const ratio = scale / current.scale;
+      return { x: x - (x - current.x) * ratio, y: y - (y - current.y) * ratio, scale };
+    });
+  };
+
+  const zoomCenter = (factor: number) => {
+    const svg = svgRef.current;
+    if (svg) zoomAt(svg.clientWidth / 2, svg.clientHeight / 2, factor);
+  };
+
+  const startPan = (e: ReactPointerEvent<SVGSVGElement>) => {
+    // Notes handle their own clicks
+    if (!view || (e.target as Element).closest("[data-node]")) return;
+    panning.current = { pointerX: e.clientX, pointerY: e.clientY, view };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const pan = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const start = panning.current;
+    if (!start) return;
+    setView({
+      ...start.view,
+      x: start.view.x + e.clientX - start.pointerX,
+      y: start.view.y + e.clientY - start.pointerY,
+    });
+  };
+
+  const endPan = () => {
+    panning.current = null;
+  };
+
+  const usedLabels = useMemo(() => {
+    const used = new Set(graph?.nodes.flatMap((node) => node.labelIds));
+    return (graph?.labels ?? []).filter((label) => used.has(label.id));
+  }, [graph]);
+
+  const edges = (graph?.edges ?? []).filter((edge) => (edge.kind === "link" ? showLinks : showLabels));
+  const dimmed = (id: string) => hovered !== null && !neighbors.has(id);
+
+  return (
+    <>
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <h1 className="text-2xl font-semibold text-gray-900">Graph</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center space-x-2">
+              <Checkbox checked={showLinks} onCheckedChange={(checked) => setShowLinks(checked === true)} />
+              <span>Links</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <Checkbox checked={showLabels} onCheckedChange={(checked) => setShowLabels(checked === true)} />
+              <span>Shared labels</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <Checkbox checked={includeArchived} onCheckedChange={(checked) => setIncludeArchived(checked === true)} />
+              <span>Archived notes</span>
+            </label>
+            <div className="flex">
+              <Button variant="outline" size="icon" aria-label="Zoom in" onClick={() => zoomCenter(1.25)}>
+                <ZoomInIcon className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="ml-1" aria-label="Zoom out" onClick={() => zoomCenter(0.8)}>
+                <ZoomOutIcon className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" className="ml-1" aria-label="Fit to window" onClick={fit}>
+                <MaximizeIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {graph && graph.total > graph.nodes.length && (
+          <p className="mb-2 text-sm text-gray-500">
+            Showing {graph.nodes.length} of {graph.total} notes: pinned and recently updated ones first.
+          </p>
+        )}
+
+        {isLoading || !graph ? (
+          <Skeleton className="h-[70vh] w-full rounded-lg" />
+        ) : graph.nodes.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No notes yet. Link notes with [[Note Title]] or give them labels to see how they connect.
+          </p>
+        ) : (
+          <div className="relative">
+            <svg
+              ref={svgRef}
+              className="h-[70vh] w-full rounded-lg border bg-white touch-none cursor-grab active:cursor-grabbing"
+              onPointerDown={startPan}
+              onPointerMove={pan}
+              onPointerUp={endPan}
+              onPointerCancel={endPan}
+            >
+              <defs>
+                <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={LINK_COLOR} />
+                </marker>
+              </defs>
+              {view && (
+                <g transform={`translate(${view.x},${view.y}) scale(${view.scale})`}>
+                  {edges.map((edge) => {
+                    const source = positions.get(edge.source)!;
+                    const target = positions.get(edge.target)!;
+                    const faded = hovered !== null && edge.source !== hovered && edge.target !== hovered;
+                    if (edge.kind === "label") {
+                      return (
+                        <line
+                          key={`label-${edge.source}-${edge.target}`}
+                          x1={source.x}
+                          y1={source.y}
+                          x2={target.x}
+                          y2={target.y}
+                          stroke={labelColors.get(edge.labelIds[0]) ?? PLAIN_COLOR}
+                          strokeWidth={1 / view.scale}
+                          strokeDasharray={`${4 / view.scale} ${3 / view.scale}`}
+                          opacity={faded ? 0.08 : 0.45}
+                        />
+                      );
+                    }
+                    // Stop the arrow at the edge of the target's circle
+                    const node = nodesById.get(edge.target)!;
+                    const length = Math.hypot(target.x - source.x, target.y - source.y) || 1;
+                    const shorten = nodeRadius(node) / length;
+                    return (
+                      <line
+                        key={`link-${edge.source}-${edge.target}`}
+                        x1={source.x}
+                        y1={source.y}
+                        x2={target.x - (target.x - source.x) * shorten}
+                        y2={target.y - (target.y - source.y) * shorten}
+                        stroke={LINK_COLOR}
+                        strokeWidth={1.5 / view.scale}
+                        markerEnd="url(#graph-arrow)"
+                        opacity={faded ? 0.1 : 0.8}
+                      />
+                    );
+                  })}
+                  {graph.nodes.map((node) => {
+                    const position = positions.get(node.id)!;
+                    const showTitle = view.scale >= TITLE_SCALE || neighbors.has(node.id);
+                    return (
+                      <g
+                        key={node.id}
+                        data-node
+                        className="cursor-pointer"
+                        opacity={dimmed(node.id) ? 0.2 : node.archived ? 0.6 : 1}
+                        onPointerEnter={() => setHovered(node.id)}
+                        onPointerLeave={() => setHovered(null)}
+                        onClick={() => navigate(`/notes/${node.id}`)}
+                      >
+                        <title>{node.title}</title>
+                        <circle
+                          cx={position.x}
+                          cy={position.y}
+                          r={nodeRadius(node)}
+                          fill={node.color ?? PLAIN_COLOR}
+                          stroke={node.pinned ? "#111827" : "#ffffff"}
+                          strokeWidth={(node.pinned ? 2 : 1.5) / view.scale}
+                        />
+                        {showTitle && (
+                          <text
+                            x={position.x}
+                            y={position.y + nodeRadius(node) + 12 / view.scale}
+                            textAnchor="middle"
+                            fontSize={12 / view.scale}
+                            className="fill-gray-700 select-none"
+                          >
+                            {node.title.length > 40 ? `${node.title.slice(0, 39)}…` : node.title}
+                          </text>
+                        )}
+                      </g>
+                    );
+                  })}
+                </g>
+              )}
+            </svg>
+
+            {usedLabels.length > 0 && (
+              <div className="absolute top-3 left-3 max-h-[60vh] overflow-y-auto rounded-md border bg-white/90 p-2 text-xs">
+                {usedLabels.map((label) => (
+                  <div key={label.id} className="flex items-center py-0.5">
+                    <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: label.color }} />
+                    <span className="text-gray-700">{label.name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { UploadIcon } from "lucide-react";
+import { ImportReport } from "@shared/schema";
+
+interface ImportSource {
+  name: string;
+  url: string;
+  description: string;
+  accept?: string; // for the file picker; any file when omitted
+}
+
+const IMPORT_SOURCES: ImportSource[] = [
+  {
+    name: "Google Keep",
+    url: "/api/import/keep",
+    description:
+      "Export Keep with Google Takeout and choose the Takeout .zip, or the files of its Keep folder. " +
+      "Pins, archiving, colors, labels, checklists, attachments and dates are kept; notes in the Keep trash are left out.",
+  },
+  {
+    name: "Evernote",
+    url: "/api/import/enex",
+    description:
+      "Export notebooks from Evernote as .enex files and choose them, or a .zip of them. " +
+      "Formatting, checkboxes, tags (as labels), attachments and dates are kept; encrypted text is left out.",
+    accept: ".enex,.zip",
+  },
+];
+
+function ImportCard({ source }: { source: ImportSource }) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (files: File[]): Promise<ImportReport> => {
+      const form = new FormData();
+      for (const file of files) form.append("files", file);
+      const res = await apiRequest("POST", source.url, form);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/labels"] });
+    },
+    onError: (error) => {
+      toast({
+        title: `Failed to import from ${source.name}`,
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <section className="rounded-lg border bg-white p-5">
+      <h2 className="text-lg font-medium text-gray-900">{source.name}</h2>
+      <p className="mt-1 text-sm text-gray-600">{source.description}</p>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={source.accept}
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = "";
+          if (files.length > 0) {
+            setReport(null);
+            importMutation.mutate(files);
+          }
+        }}
+      />
+      <Button className="mt-4" onClick={() => inputRef.current?.click()} disabled={importMutation.isPending}>
+        <UploadIcon className="h-4 w-4 mr-1" />
+        {importMutation.isPending ? "Importing..." : "Choose files"}
+      </Button>
+
+      {report && (
+        <div className="mt-4 text-sm text-gray-700">
+          <p>
+            Imported {report.notes} {report.notes === 1 ? "note" : "notes"} and {report.attachments}{" "}
+            {report.attachments === 1 ? "attachment" : "attachments"}.
+            {report.labels.length > 0 && ` New labels: ${report.labels.join(", ")}.`}
+          </p>
+          {report.skipped.length > 0 && (
+            <>
+              <p className="mt-3 font-medium text-gray-900">Skipped ({report.skipped.length})</p>
+              <ul className="mt-1 max-h-64 overflow-y-auto divide-y rounded border">
+                {report.skipped.map((skipped, index) => (
+                  <li key={index} className="flex justify-between gap-4 px-3 py-1.5">
+                    <span className="truncate">{skipped.item}</span>
+                    <span className="shrink-0 text-gray-500">{skipped.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default function Import() {
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+    }
+  }, [isAuthenticated, navigate]);
+
+  return (
+    <>
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Import</h1>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6">
+          {IMPORT_SOURCES.map((source) => (
+            <ImportCard key={source.url} source={source} />
+          ))}
+        </div>
+      </main>
+    </>
+  );
+}
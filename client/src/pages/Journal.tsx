@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BookOpenIcon } from "lucide-react";
+import { Note, Template } from "@shared/schema";
+
+// The template new journal notes start from, remembered on this device
+const TEMPLATE_KEY = "journalTemplateId";
+// Select value standing for "no template"
+const NO_TEMPLATE = "none";
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+export default function Journal() {
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [templateId, setTemplateId] = useState(() => localStorage.getItem(TEMPLATE_KEY) ?? NO_TEMPLATE);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+    }
+  }, [isAuthenticated, navigate]);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  // The whole weeks shown for the month, including days of the months around it
+  const from = dayKey(startOfWeek(startOfMonth(month)));
+  const to = dayKey(endOfWeek(endOfMonth(month)));
+  const { data: entries = [], isLoading } = useQuery<Note[]>({
+    queryKey: [`/api/daily?from=${from}&to=${to}`],
+    // Journal notes are written and trashed elsewhere
+    staleTime: 0,
+  });
+
+  const chooseTemplate = (id: string) => {
+    setTemplateId(id);
+    if (id === NO_TEMPLATE) localStorage.removeItem(TEMPLATE_KEY);
+    else localStorage.setItem(TEMPLATE_KEY, id);
+  };
+
+  // Open the day's journal note, which the server creates if it is missing
+  const openDayMutation = useMutation({
+    mutationFn: async (date: Date): Promise<Note> => {
+      const params = new URLSearchParams({
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      });
+      // A deleted template is simply not used any more
+      if (templates.some((template) => template.id === templateId)) params.set("templateId", templateId);
+      const res = await apiRequest("GET", `/api/daily/${dayKey(date)}?${params}`);
+      return res.json();
+    },
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      navigate(`/notes/${note.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to open journal",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const entryDays = entries.map((note) => parseISO(note.journalDate!));
+  const monthEntries = entries.filter((note) => note.journalDate!.startsWith(format(month, "yyyy-MM")));
+
+  return (
+    <>
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Journal</h1>
+          <div className="flex items-center gap-2">
+            <Select value={templateId} onValueChange={chooseTemplate}>
+              <SelectTrigger className="w-52">
+                <SelectValue placeholder="Template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEMPLATE}>No template</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => openDayMutation.mutate(new Date())} disabled={openDayMutation.isPending}>
+              <BookOpenIcon className="h-4 w-4 mr-1" /> Today
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="rounded-lg border bg-white self-start">
+            <Calendar
+              mode="single"
+              month={month}
+              onMonthChange={setMonth}
+              onSelect={(day) => day && openDayMutation.mutate(day)}
+              disabled={openDayMutation.isPending}
+              modifiers={{ hasEntry: entryDays }}
+              modifiersClassNames={{
+                hasEntry: "font-bold text-primary underline decoration-2 underline-offset-4",
+              }}
+            />
+          </div>
+
+          <div className="flex-1">
+            <h2 className="text-sm font-medium text-gray-900 mb-3">{format(month, "MMMM yyyy")}</h2>
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : monthEntries.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No entries this month. Pick a day to start one; it is labeled "journal".
+              </p>
+            ) : (
+              <ul className="divide-y rounded-lg border bg-white">
+                {monthEntries.map((note) => (
+                  <li key={note.id}>
+                    <button
+                      type="button"
+                      className="w-full flex items-center py-2 px-4 text-left hover:text-primary"
+                      onClick={() => navigate(`/notes/${note.id}`)}
+                    >
+                      <span className="w-28 shrink-0 text-xs text-gray-500">
+                        {format(parseISO(note.journalDate!), "EEE, MMM d")}
+                      </span>
+                      <span className="text-sm truncate">{note.title}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
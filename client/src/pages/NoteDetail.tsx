@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { ReactNode, useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
@@ -7,11 +7,19 @@ import { useAuth } from "@/hooks/useAuth";
 import Navbar from "@/components/Navbar";
 import NoteEditor from "@/components/NoteEditor";
 import DeleteConfirmation from "@/components/DeleteConfirmation";
+import NoteHistory from "@/components/NoteHistory";
+import NoteAttachments from "@/components/NoteAttachments";
+import ChecklistView from "@/components/ChecklistView";
+import AttachmentImage from "@/components/AttachmentImage";
+import WikiLink from "@/components/WikiLink";
+import Backlinks from "@/components/Backlinks";
+import { attachmentIdFromUrl } from "@/lib/attachments";
 import { Note } from "@shared/schema";
+import { normalizeLinkTitle, parseWikiLinks, type ResolvedLink } from "@shared/wikiLinks";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeftIcon, Edit2Icon, Trash2Icon, ZapIcon } from "lucide-react";
+import { ArrowLeftIcon, Edit2Icon, HistoryIcon, RotateCcwIcon, Trash2Icon, ZapIcon } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 export default function NoteDetail() {
@@ -20,6 +28,7 @@ export default function NoteDetail() {
   const { isAuthenticated } = useAuth();
   const [showEditor, setShowEditor] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const { toast } = useToast();
 
   // Redirect to login if not authenticated
@@ -43,6 +52,14 @@ export default function NoteDetail() {
     enabled: !!noteId && isAuthenticated,
   });
 
+  // What the note's [[links]] lead to. Other notes are created and renamed
+  // meanwhile, so this is asked again each time the note is opened
+  const { data: links } = useQuery<ResolvedLink[]>({
+    queryKey: [`/api/notes/${noteId}/links`, note?.version],
+    enabled: !!note && note.type === "text" && note.content.includes("[["),
+    staleTime: 0,
+  });
+
   // Delete note mutation
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -51,10 +68,30 @@ export default function NoteDetail() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       navigate("/");
       toast({
-        title: "Note deleted",
-        description: "Your note has been successfully deleted.",
+        title: "Note moved to trash",
+        description: "You can restore it from the trash.",
+      });
+    },
+  });
+
+  // Restore from trash mutation
+  const restoreMutation = useMutation({
+    mutationFn: async () => {
+      if (!noteId) return;
+      return apiRequest("POST", `/api/notes/${noteId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/notes/${noteId}`] });
+      toast({
+        title: "Note restored",
+        description: "The note has been moved out of the trash.",
       });
     },
   });
@@ -212,13 +249,13 @@ export default function NoteDetail() {
       if (/^\s*[\-\*]\s+/.test(line)) {
         const text = line.replace(/^\s*[\-\*]\s+/, '');
         // Process inline formatting in list items
-        return <li key={index} className="ml-6">{processInlineFormatting(text)}</li>;
+        return <li key={index} className="ml-6">{processImages(text)}</li>;
       } 
       
       // Numbered lists (1. Item)
       else if (/^\s*\d+\.\s+/.test(line)) {
         const text = line.replace(/^\s*\d+\.\s+/, '');
-        return <li key={index} className="ml-6 list-decimal">{processInlineFormatting(text)}</li>;
+        return <li key={index} className="ml-6 list-decimal">{processImages(text)}</li>;
       } 
       
       // Empty lines
@@ -226,11 +263,69 @@ export default function NoteDetail() {
         return <br key={index} />;
       } 
       
+      // Images are blocks, so their lines cannot be paragraphs
+      else if (line.includes('![')) {
+        return <div key={index} className="mb-2">{processImages(line)}</div>;
+      }
+      
       // Regular paragraph with inline formatting
       else {
-        return <p key={index} className="mb-2">{processInlineFormatting(line)}</p>;
+        return <p key={index} className="mb-2">{processWikiLinks(line)}</p>;
+      }
+    });
+  };
+  
+  // Process images (![alt](url)), then inline formatting around them.
+  // Attached images are fetched when they scroll into view; other images
+  // must be http(s) links
+  const processImages = (text: string) => {
+    if (!text.includes('![')) return processWikiLinks(text);
+    
+    const parts = text.split(/(!\[[^\]]*\]\([^)\s]+\))/g);
+    return parts.map((part, i) => {
+      const image = /^!\[([^\]]*)\]\(([^)\s]+)\)$/.exec(part);
+      if (!image) {
+        return <span key={i}>{processWikiLinks(part)}</span>;
+      }
+      
+      const [, alt, url] = image;
+      const attachmentId = attachmentIdFromUrl(url);
+      if (attachmentId) {
+        return <AttachmentImage key={i} attachmentId={attachmentId} alt={alt} />;
+      }
+      if (/^https?:\/\//.test(url)) {
+        return <img key={i} src={url} alt={alt} loading="lazy" className="my-2 max-w-full max-h-[32rem] rounded border" />;
       }
+      return part;
+    });
+  };
+  
+  // Process [[note links]], then inline formatting between them
+  const processWikiLinks = (text: string) => {
+    const wikiLinks = parseWikiLinks(text);
+    if (wikiLinks.length === 0) return processInlineFormatting(text);
+    
+    const parts: ReactNode[] = [];
+    let cursor = 0;
+    wikiLinks.forEach((link, i) => {
+      if (link.start > cursor) {
+        parts.push(<span key={`text-${i}`}>{processInlineFormatting(text.slice(cursor, link.start))}</span>);
+      }
+      parts.push(
+        <WikiLink
+          key={`link-${i}`}
+          title={link.title}
+          label={link.label}
+          resolved={links?.find((resolved) => resolved.target === normalizeLinkTitle(link.title))}
+          notebookId={note.notebookId}
+        />
+      );
+      cursor = link.end;
     });
+    if (cursor < text.length) {
+      parts.push(<span key="text-end">{processInlineFormatting(text.slice(cursor))}</span>);
+    }
+    return parts;
   };
   
   // Process inline formatting (bold, italic, underline)
@@ -371,19 +466,57 @@ export default function NoteDetail() {
             <Button 
               variant="outline" 
               className="inline-flex items-center"
-              onClick={() => setShowEditor(true)}
+              onClick={() => setShowHistory(!showHistory)}
             >
-              <Edit2Icon className="mr-1 h-4 w-4" /> Edit
+              <HistoryIcon className="mr-1 h-4 w-4" /> History
             </Button>
-            <Button 
-              variant="destructive" 
-              className="inline-flex items-center"
-              onClick={handleDeleteNote}
+            {!note.deletedAt && (
+              <>
+                <Button 
+                  variant="outline" 
+                  className="inline-flex items-center"
+                  onClick={() => setShowEditor(true)}
+                >
+                  <Edit2Icon className="mr-1 h-4 w-4" /> Edit
+                </Button>
+                <Button 
+                  variant="destructive" 
+                  className="inline-flex items-center"
+                  onClick={handleDeleteNote}
+                >
+                  <Trash2Icon className="mr-1 h-4 w-4" /> Delete
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        
+        {/* Trashed notes can only be read until they are restored */}
+        {note.deletedAt && (
+          <div className="flex justify-between items-center bg-red-50 border border-red-200 rounded-md px-4 py-3 mb-6">
+            <p className="text-sm text-red-800">
+              This note was moved to the trash {formatDistanceToNow(new Date(note.deletedAt), { addSuffix: true })}.
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => restoreMutation.mutate()}
+              disabled={restoreMutation.isPending}
             >
-              <Trash2Icon className="mr-1 h-4 w-4" /> Delete
+              <RotateCcwIcon className="mr-1 h-4 w-4" />
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
             </Button>
           </div>
-        </div>
+        )}
+        
+        {/* Revision history */}
+        {showHistory && noteId && (
+          <NoteHistory
+            noteId={noteId}
+            noteUpdatedAt={note.updatedAt}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
         
         {/* Customization Controls */}
         <div className="mb-4 bg-gray-50 p-4 rounded-lg border">
@@ -438,11 +571,21 @@ export default function NoteDetail() {
             Created {formatDistanceToNow(createdAt, { addSuffix: true })}
             {isUpdated && ` · Updated ${formatDistanceToNow(updatedAt, { addSuffix: true })}`}
           </div>
-          <div className={`prose max-w-none mb-6 ${getFontSizeStyle(fontSize)}`}>
-            {formatContent(note.content)}
-          </div>
+          {note.type === "checklist" ? (
+            <div className={getFontSizeStyle(fontSize)}>
+              <ChecklistView note={note} readOnly={!!note.deletedAt} />
+            </div>
+          ) : (
+            <div className={`prose max-w-none mb-6 ${getFontSizeStyle(fontSize)}`}>
+              {formatContent(note.content)}
+            </div>
+          )}
         </div>
         
+        {noteId && <NoteAttachments noteId={noteId} readOnly={!!note.deletedAt} />}
+        
+        {noteId && <Backlinks noteId={noteId} title={note.title} />}
+        
         {note.summary ? (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
             <div className="flex items-center mb-2">
@@ -1,20 +1,45 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { keepPreviousData, useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import Navbar from "@/components/Navbar";
-import NoteCard from "@/components/NoteCard";
+import NoteCard, { type NoteHighlights } from "@/components/NoteCard";
 import NoteEditor from "@/components/NoteEditor";
 import QRCodeScanner from "@/components/QRCodeScanner";
 import DeleteConfirmation from "@/components/DeleteConfirmation";
 import NoteOfTheDay from "@/components/NoteOfTheDay";
-import { Note } from "@shared/schema";
+import TrashList from "@/components/TrashList";
+import { Note, NoteSort, SearchSort, Template } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { SearchIcon, QrCodeIcon } from "lucide-react";
+import { SearchIcon, QrCodeIcon, Trash2Icon } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface NotePage {
+  notes: Note[];
+  nextCursor: string | null;
+}
+
+interface SearchResult extends NoteHighlights {
+  note: Note;
+  score: number;
+}
+
+interface SearchPage {
+  results: SearchResult[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 30;
 
 export default function Notes() {
   const [, navigate] = useLocation();
@@ -23,8 +48,17 @@ export default function Notes() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showQRScanner, setShowQRScanner] = useState(false);
   const [currentNote, setCurrentNote] = useState<Note | null>(null);
+  // The template a new note starts from
+  const [currentTemplate, setCurrentTemplate] = useState<Template | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState<NoteSort>("updated");
+  // Search results have an order of their own, best matches first by default
+  const [searchSort, setSearchSort] = useState<SearchSort>("relevance");
   const [showArchived, setShowArchived] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  // A notebook ID, "none" for notes outside any notebook, or null for all notes
+  const [notebookId, setNotebookId] = useState<string | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -33,34 +67,89 @@ export default function Notes() {
     }
   }, [isAuthenticated, navigate]);
 
-  // Fetch notes
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Fetch notes one page at a time; filtering and sorting happen on the server
   const {
-    data: notes = [],
+    data,
     isLoading,
     isError,
     error,
-  } = useQuery<Note[]>({
-    queryKey: ["/api/notes", { archived: showArchived }],
-    queryFn: async ({ queryKey }) => {
-      const [endpoint, params] = queryKey;
-      const url = `${endpoint}?archived=${(params as any).archived}`;
-      const response = await apiRequest("GET", url);
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<NotePage>({
+    queryKey: ["/api/notes", { archived: showArchived, sort, notebookId }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        archived: String(showArchived),
+        sort,
+        limit: String(PAGE_SIZE),
+      });
+      if (notebookId) params.set("notebookId", notebookId);
+      if (pageParam) params.set("cursor", pageParam as string);
+      const response = await apiRequest("GET", `/api/notes?${params}`);
       return response.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Keep showing the current list (and the search box) while another order loads
+    placeholderData: keepPreviousData,
     enabled: isAuthenticated,
     // Add refetch on window focus to ensure lists are updated
     refetchOnWindowFocus: true
   });
 
+  const notes = data?.pages.flatMap((page) => page.notes) ?? [];
+
+  // Ranked search within the notes the list shows, a page at a time. Keyed
+  // under /api/notes so every note mutation refreshes the results too
+  const {
+    data: searchData,
+    fetchNextPage: fetchNextSearchPage,
+    hasNextPage: hasNextSearchPage,
+    isFetchingNextPage: isFetchingNextSearchPage,
+  } = useInfiniteQuery<SearchPage>({
+    queryKey: ["/api/notes", { search: debouncedSearch, archived: showArchived, sort: searchSort, notebookId }],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({
+        q: debouncedSearch,
+        archived: String(showArchived),
+        sort: searchSort,
+        limit: String(PAGE_SIZE),
+      });
+      if (notebookId) params.set("notebookId", notebookId);
+      if (pageParam) params.set("cursor", pageParam as string);
+      const response = await apiRequest("GET", `/api/search?${params}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled: isAuthenticated && debouncedSearch !== "",
+  });
+
+  // Search results replace the list once they arrive
+  const searching = debouncedSearch !== "" && searchData !== undefined;
+  const cards: { note: Note; highlights?: NoteHighlights }[] = searching
+    ? searchData.pages.flatMap((page) => page.results).map((result) => ({ note: result.note, highlights: result }))
+    : notes.map((note) => ({ note }));
+  const canLoadMore = searching ? hasNextSearchPage : hasNextPage;
+  const loadingMore = searching ? isFetchingNextSearchPage : isFetchingNextPage;
+
   // Log data fetching results
   useEffect(() => {
     if (isError) {
       console.error("Error fetching notes:", error);
     }
-    if (notes && notes.length >= 0) {
-      console.log("Notes fetched successfully:", notes);
+    if (data) {
+      console.log("Notes fetched successfully:", data.pages.length, "pages");
     }
-  }, [notes, isError, error]);
+  }, [data, isError, error]);
 
   // Delete note mutation
   const deleteMutation = useMutation({
@@ -69,14 +158,16 @@ export default function Notes() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes", { archived: showArchived }] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       setShowDeleteModal(false);
       setCurrentNote(null);
     },
   });
 
-  // Create new note
-  const handleCreateNote = () => {
+  // Create new note, optionally from a template
+  const handleCreateNote = (template?: Template) => {
     setCurrentNote(null);
+    setCurrentTemplate(template ?? null);
     setShowEditor(true);
   };
 
@@ -99,31 +190,15 @@ export default function Notes() {
     }
   };
 
-  // Filter notes by search term and sort (pinned notes first)
-  const filteredNotes = Array.isArray(notes)
-    ? notes
-        .filter(
-          (note: Note) =>
-            note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            note.content.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-        .sort((a, b) => {
-          // Sort by pinned status first (pinned notes first)
-          if (a.pinned && !b.pinned) return -1;
-          if (!a.pinned && b.pinned) return 1;
-          
-          // Then sort by updated date (newest first)
-          const dateA = a.updatedAt ? new Date(a.updatedAt).getTime() : 0;
-          const dateB = b.updatedAt ? new Date(b.updatedAt).getTime() : 0;
-          return dateB - dateA;
-        })
-    : [];
-
   // Loading skeletons
   if (isLoading) {
     return (
       <>
-        <Navbar onCreateNote={handleCreateNote} />
+        <Navbar
+          onCreateNote={handleCreateNote}
+          notebookId={notebookId}
+          onNotebookChange={setNotebookId}
+        />
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <div className="flex justify-between items-center mb-6">
             <h1 className="text-2xl font-semibold text-gray-900">My Notes</h1>
@@ -151,7 +226,11 @@ export default function Notes() {
   if (isError) {
     return (
       <>
-        <Navbar onCreateNote={handleCreateNote} />
+        <Navbar
+          onCreateNote={handleCreateNote}
+          notebookId={notebookId}
+          onNotebookChange={setNotebookId}
+        />
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           {/* Note of the Day section */}
           <div className="mb-8">
@@ -191,30 +270,63 @@ export default function Notes() {
 
   return (
     <>
-      <Navbar onCreateNote={handleCreateNote} />
+      <Navbar
+        onCreateNote={handleCreateNote}
+        notebookId={notebookId}
+        onNotebookChange={setNotebookId}
+      />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="flex justify-between items-center mb-6">
           <div className="flex items-center gap-4">
             <h1 className="text-2xl font-semibold text-gray-900">
-              {showArchived ? "Archived Notes" : "My Notes"}
+              {showTrash ? "Trash" : searching ? "Search Results" : showArchived ? "Archived Notes" : "My Notes"}
             </h1>
             <button
-              onClick={() => setShowArchived(!showArchived)}
+              onClick={() => {
+                setShowArchived(showTrash ? false : !showArchived);
+                setShowTrash(false);
+              }}
               className="text-sm px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
             >
-              {showArchived ? "Show Active Notes" : "Show Archived"}
+              {showArchived || showTrash ? "Show Active Notes" : "Show Archived"}
             </button>
+            {!showTrash && (
+              <button
+                onClick={() => setShowTrash(true)}
+                className="inline-flex items-center text-sm px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+              >
+                <Trash2Icon className="mr-1 h-4 w-4" /> Trash
+              </button>
+            )}
           </div>
-          <div className="relative">
-            <Input
-              type="text"
-              placeholder="Search notes..."
-              className="w-64 pl-10 pr-3"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <SearchIcon className="h-5 w-5 text-gray-400" />
+          <div className="flex items-center gap-3">
+            {!showTrash && (
+              <Select
+                value={searching ? searchSort : sort}
+                onValueChange={(value) => searching ? setSearchSort(value as SearchSort) : setSort(value as NoteSort)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {searching && <SelectItem value="relevance">Best match</SelectItem>}
+                  <SelectItem value="updated">Last updated</SelectItem>
+                  <SelectItem value="created">Date created</SelectItem>
+                  <SelectItem value="title">Title</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <div className="relative">
+              <Input
+                type="text"
+                placeholder="Search notes..."
+                className="w-64 pl-10 pr-3"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <SearchIcon className="h-5 w-5 text-gray-400" />
+              </div>
             </div>
           </div>
         </div>
@@ -224,18 +336,23 @@ export default function Notes() {
           <NoteOfTheDay />
         </div>
 
-        {filteredNotes.length === 0 ? (
+        {showTrash ? (
+          <TrashList
+            searchTerm={searchTerm}
+            onOpen={(note) => navigate(`/notes/${note.id}`)}
+          />
+        ) : cards.length === 0 ? (
           <div className="text-center py-12 bg-gray-50 rounded-lg border border-gray-200">
             <h3 className="mt-2 text-sm font-medium text-gray-900">No notes found</h3>
             <p className="mt-1 text-sm text-gray-500">
-              {Array.isArray(notes) && notes.length === 0
-                ? "Get started by creating a new note."
-                : "No notes match your search criteria."}
+              {searching
+                ? "No notes match your search criteria."
+                : "Get started by creating a new note."}
             </p>
             <div className="mt-6">
               <button
                 type="button"
-                onClick={handleCreateNote}
+                onClick={() => handleCreateNote()}
                 className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
               >
                 <svg
@@ -256,17 +373,31 @@ export default function Notes() {
             </div>
           </div>
         ) : (
-          <div className="container mx-auto px-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6 mb-8">
-            {filteredNotes.map((note) => (
-              <NoteCard
-                key={note.id}
-                note={note}
-                onEdit={() => handleEditNote(note)}
-                onDelete={() => handleDeleteNote(note)}
-                onClick={() => navigate(`/notes/${note.id}`)}
-              />
-            ))}
-          </div>
+          <>
+            <div className="container mx-auto px-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6 mb-8">
+              {cards.map(({ note, highlights }) => (
+                <NoteCard
+                  key={note.id}
+                  note={note}
+                  highlights={highlights}
+                  onEdit={() => handleEditNote(note)}
+                  onDelete={() => handleDeleteNote(note)}
+                  onClick={() => navigate(`/notes/${note.id}`)}
+                />
+              ))}
+            </div>
+            {canLoadMore && (
+              <div className="flex justify-center mb-8">
+                <Button
+                  variant="outline"
+                  onClick={() => searching ? fetchNextSearchPage() : fetchNextPage()}
+                  disabled={loadingMore}
+                >
+                  {loadingMore ? "Loading..." : searching ? "More results" : "Load more notes"}
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </main>
 
@@ -284,6 +415,8 @@ export default function Notes() {
       <NoteEditor
         isOpen={showEditor}
         note={currentNote}
+        template={currentTemplate}
+        notebookId={notebookId === "none" ? null : notebookId}
         onClose={() => setShowEditor(false)}
       />
 
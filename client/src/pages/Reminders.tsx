@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import Navbar from "@/components/Navbar";
+import NoteCard from "@/components/NoteCard";
+import NoteEditor from "@/components/NoteEditor";
+import DeleteConfirmation from "@/components/DeleteConfirmation";
+import { Note } from "@shared/schema";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface ReminderGroups {
+  overdue: Note[];
+  upcoming: Note[];
+}
+
+export default function Reminders() {
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const [showEditor, setShowEditor] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [currentNote, setCurrentNote] = useState<Note | null>(null);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+    }
+  }, [isAuthenticated, navigate]);
+
+  // Refetched now and then so notes move to overdue as time passes
+  const { data, isLoading } = useQuery<ReminderGroups>({
+    queryKey: ["/api/reminders"],
+    refetchInterval: 60 * 1000,
+  });
+
+  // Delete note mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      await apiRequest("DELETE", `/api/notes/${noteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      setShowDeleteModal(false);
+      setCurrentNote(null);
+    },
+  });
+
+  const handleEditNote = (note: Note) => {
+    setCurrentNote(note);
+    setShowEditor(true);
+  };
+
+  const handleDeleteNote = (note: Note) => {
+    setCurrentNote(note);
+    setShowDeleteModal(true);
+  };
+
+  const section = (title: string, notes: Note[], empty: string) => (
+    <section className="mb-8">
+      <h2 className="text-lg font-medium text-gray-900 mb-3">
+        {title} <span className="text-sm text-gray-500">({notes.length})</span>
+      </h2>
+      {notes.length === 0 ? (
+        <p className="text-sm text-gray-500">{empty}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
+          {notes.map((note) => (
+            <NoteCard
+              key={note.id}
+              note={note}
+              onEdit={() => handleEditNote(note)}
+              onDelete={() => handleDeleteNote(note)}
+              onClick={() => navigate(`/notes/${note.id}`)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+
+  return (
+    <>
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Reminders</h1>
+        {isLoading || !data ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-[200px] w-full rounded-lg" />
+            ))}
+          </div>
+        ) : (
+          <>
+            {section("Overdue", data.overdue, "Nothing is overdue.")}
+            {section("Upcoming", data.upcoming, "Set a reminder or due date on a note to see it here.")}
+          </>
+        )}
+      </main>
+
+      {/* Note Editor Modal */}
+      <NoteEditor
+        isOpen={showEditor}
+        note={currentNote}
+        onClose={() => setShowEditor(false)}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <DeleteConfirmation
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={() => currentNote && deleteMutation.mutate(String(currentNote.id))}
+        isDeleting={deleteMutation.isPending}
+      />
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileTextIcon, ListChecksIcon, PlusIcon, TypeIcon, XIcon } from "lucide-react";
+import { NoteType, Template } from "@shared/schema";
+import { templatePrompts } from "@shared/templates";
+
+// Shown next to the content field
+const PLACEHOLDER_HELP = [
+  ["{{date}}", "today, e.g. 2026-10-19"],
+  ["{{time}}", "the time, e.g. 09:30"],
+  ["{{datetime}}", "both"],
+  ["{{weekday}}", "e.g. Monday"],
+  ["{{user.name}}", "your name"],
+  ["{{user.email}}", "your email"],
+  ["{{prompt:Question}}", "asks when the note is created"],
+  ["{{prompt:Question|answer}}", "the same, with a default answer"],
+];
+
+export default function Templates() {
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  // The template being edited, or "new" while creating one
+  const [editing, setEditing] = useState<Template | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [type, setType] = useState<NoteType>("text");
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate("/login");
+    }
+  }, [isAuthenticated, navigate]);
+
+  const { data: templates = [], isLoading } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const openDialog = (template: Template | "new") => {
+    setEditing(template);
+    setName(template === "new" ? "" : template.name);
+    setTitle(template === "new" ? "" : template.title);
+    setContent(template === "new" ? "" : template.content);
+    setType(template === "new" ? "text" : template.type);
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Create or update the template in the dialog
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Template> => {
+      const data = { name, title, content, type };
+      const res = editing === "new" || !editing
+        ? await apiRequest("POST", "/api/templates", data)
+        : await apiRequest("PUT", `/api/templates/${editing.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setEditing(null);
+    },
+    onError: showError("Failed to save template"),
+  });
+
+  // Notes created from it are kept
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setEditing(null);
+    },
+    onError: showError("Failed to delete template"),
+  });
+
+  return (
+    <>
+      <Navbar />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900">Templates</h1>
+          <Button onClick={() => openDialog("new")}>
+            <PlusIcon className="h-4 w-4 mr-1" /> New Template
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-[140px] w-full rounded-lg" />
+            ))}
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No templates yet. Save the skeleton of notes you write again and again, such as meeting notes,
+            and start new notes from it with the arrow next to New Note.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 lg:gap-6">
+            {templates.map((template) => {
+              const prompts = templatePrompts(template.title, template.content);
+              return (
+                <button
+                  key={template.id}
+                  type="button"
+                  className="rounded-lg border bg-white p-4 text-left hover:shadow-md transition-shadow"
+                  onClick={() => openDialog(template)}
+                >
+                  <div className="flex items-center mb-1">
+                    {template.type === "checklist" ? (
+                      <ListChecksIcon className="mr-2 h-4 w-4 text-gray-500 shrink-0" />
+                    ) : (
+                      <FileTextIcon className="mr-2 h-4 w-4 text-gray-500 shrink-0" />
+                    )}
+                    <h3 className="font-medium text-gray-900 truncate">{template.name}</h3>
+                  </div>
+                  {template.title && <p className="text-sm text-gray-700 truncate">{template.title}</p>}
+                  <p className="mt-1 text-xs text-gray-500 whitespace-pre-line line-clamp-3">{template.content}</p>
+                  {prompts.length > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Asks for {prompts.map((prompt) => prompt.question).join(", ")}
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {editing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editing === "new" ? "New Template" : "Edit Template"}
+              </h3>
+              <button className="text-gray-400 hover:text-gray-500" onClick={() => setEditing(null)}>
+                <XIcon className="h-5 w-5" />
+              </button>
+            </div>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveMutation.mutate();
+              }}
+            >
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Meeting notes"
+                  maxLength={100}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Note title</label>
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g. Meeting {{date}}: {{prompt:Topic}}"
+                  maxLength={500}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={type === "text" ? "default" : "outline"}
+                  onClick={() => setType("text")}
+                >
+                  <TypeIcon className="mr-1 h-4 w-4" /> Text
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={type === "checklist" ? "default" : "outline"}
+                  onClick={() => setType("checklist")}
+                >
+                  <ListChecksIcon className="mr-1 h-4 w-4" /> Checklist
+                </Button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {type === "checklist" ? "Items, one per line" : "Content"}
+                </label>
+                <Textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  rows={10}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-500">
+                {PLACEHOLDER_HELP.map(([placeholder, meaning]) => (
+                  <div key={placeholder} className="flex">
+                    <dt className="font-mono text-gray-700 mr-2">{placeholder}</dt>
+                    <dd>{meaning}</dd>
+                  </div>
+                ))}
+              </dl>
+              <div className="flex justify-between items-center mt-6">
+                {editing !== "new" ? (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(editing.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Notes created from it are kept"
+                  >
+                    {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                  </Button>
+                ) : (
+                  <span />
+                )}
+                <div className="flex space-x-3">
+                  <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveMutation.isPending || name.trim() === ""}>
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,187 @@
+import type { Attachment, Note } from "@shared/schema";
+import type { IStorage } from "./storage/types";
+import { newBlobKey, type BlobStore } from "./blobs";
+import { sniffMimeType } from "./mimeSniff";
+
+const MB = 1024 * 1024;
+const DEFAULT_MAX_FILE_MB = 25;
+const DEFAULT_QUOTA_MB = 500;
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Younger blobs may belong to an upload that is not recorded yet
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+const MAX_FILENAME_LENGTH = 255;
+
+function resolveMegabytes(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name];
+  if (!value) return fallback * MB;
+
+  const megabytes = Number(value);
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return Math.floor(megabytes * MB);
+}
+
+export interface AttachmentLimits {
+  maxFileBytes: number;
+  quotaBytes: number; // Per user, across all their notes
+}
+
+/**
+ * Reads ATTACHMENT_MAX_FILE_MB (default 25) and ATTACHMENT_QUOTA_MB
+ * (default 500) from the environment
+ * @throws If a value is not a positive number
+ */
+export function resolveAttachmentLimits(env: NodeJS.ProcessEnv = process.env): AttachmentLimits {
+  return {
+    maxFileBytes: resolveMegabytes(env, "ATTACHMENT_MAX_FILE_MB", DEFAULT_MAX_FILE_MB),
+    quotaBytes: resolveMegabytes(env, "ATTACHMENT_QUOTA_MB", DEFAULT_QUOTA_MB)
+  };
+}
+
+export const attachmentLimits = resolveAttachmentLimits();
+
+// The upload would take its owner over their attachment quota
+export class AttachmentQuotaError extends Error {
+  constructor(public readonly usage: number, public readonly quota: number) {
+    super(`Attachment quota of ${Math.floor(quota / MB)} MB exceeded`);
+    this.name = "AttachmentQuotaError";
+  }
+}
+
+// The upload running last for each user; the next one waits for it
+const uploading = new Map<string, Promise<unknown>>();
+
+// Runs the user's uploads one at a time, so two cannot both fit in the room left for one
+function oneUploadAtATime<T>(userId: string, upload: () => Promise<T>): Promise<T> {
+  const result = (uploading.get(userId) ?? Promise.resolve()).then(upload);
+  const done = result.catch(() => {});
+  uploading.set(userId, done);
+  done.then(() => {
+    if (uploading.get(userId) === done) uploading.delete(userId);
+  });
+  return result;
+}
+
+// The last path segment of an uploaded file's name, without control characters
+function cleanFilename(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\x00-\x1f\x7f]/g, "").trim().slice(0, MAX_FILENAME_LENGTH);
+  return cleaned || "file";
+}
+
+/**
+ * Stores an uploaded file and attaches it to the note
+ * @throws AttachmentQuotaError if the owner has no room left for it
+ */
+export async function saveAttachment(
+  storage: IStorage,
+  blobStore: BlobStore,
+  note: Note,
+  file: { originalname: string; buffer: Buffer }
+): Promise<Attachment> {
+  return oneUploadAtATime(note.userId, async () => {
+    const usage = await storage.getAttachmentUsage(note.userId);
+    if (usage + file.buffer.length > attachmentLimits.quotaBytes) {
+      throw new AttachmentQuotaError(usage, attachmentLimits.quotaBytes);
+    }
+
+    const filename = cleanFilename(file.originalname);
+    const blobKey = newBlobKey(note.userId);
+    await blobStore.put(blobKey, file.buffer);
+    let attachment: Attachment;
+    try {
+      attachment = await storage.createAttachment({
+        noteId: note.id,
+        userId: note.userId,
+        filename,
+        mimeType: sniffMimeType(file.buffer, filename),
+        size: file.buffer.length,
+        blobKey
+      });
+    } catch (error) {
+      await blobStore.delete(blobKey).catch(() => {});
+      throw error;
+    }
+
+    // Another server sharing the storage may have stored an upload meanwhile
+    const total = await storage.getAttachmentUsage(note.userId);
+    if (total > attachmentLimits.quotaBytes) {
+      await removeAttachment(storage, blobStore, attachment);
+      throw new AttachmentQuotaError(total - file.buffer.length, attachmentLimits.quotaBytes);
+    }
+    return attachment;
+  });
+}
+
+/**
+ * Deletes the attachment and its file. The record goes first, so a failure
+ * leaves at worst an unreferenced file for the cleanup to remove.
+ */
+export async function removeAttachment(storage: IStorage, blobStore: BlobStore, attachment: Attachment): Promise<boolean> {
+  const deleted = await storage.deleteAttachment(attachment.id);
+  if (deleted) {
+    await blobStore.delete(attachment.blobKey);
+  }
+  return deleted;
+}
+
+/**
+ * Deletes stored files that no attachment points to, e.g. those of notes
+ * deleted forever
+ * @param writtenBefore Only files older than this are considered
+ * @returns How many files were deleted
+ */
+export async function removeOrphanedBlobs(
+  storage: IStorage,
+  blobStore: BlobStore,
+  writtenBefore: Date
+): Promise<number> {
+  // Files are listed before records are read, so an upload recorded in
+  // between is never taken for an orphan
+  const blobs = (await blobStore.list()).filter((blob) => blob.createdAt < writtenBefore);
+  if (blobs.length === 0) return 0;
+
+  const referenced = new Set<string>();
+  for (const user of await storage.getAllUsers()) {
+    const notes = [
+      ...(await storage.getNotesByUserId(user.id)),
+      ...(await storage.getTrashedNotesByUserId(user.id))
+    ];
+    for (const note of notes) {
+      for (const attachment of await storage.getAttachmentsByNoteId(note.id)) {
+        referenced.add(attachment.blobKey);
+      }
+    }
+  }
+
+  const orphans = blobs.filter((blob) => !referenced.has(blob.key));
+  for (const orphan of orphans) {
+    await blobStore.delete(orphan.key);
+  }
+  return orphans.length;
+}
+
+/**
+ * Removes unreferenced attachment files, once at startup and then every day
+ * @returns A function that stops the cleanup
+ */
+export function startAttachmentCleanup(storage: IStorage, blobStore: BlobStore): () => void {
+  const cleanup = async () => {
+    try {
+      const removed = await removeOrphanedBlobs(storage, blobStore, new Date(Date.now() - ORPHAN_GRACE_MS));
+      if (removed > 0) {
+        console.log(`Removed ${removed} unreferenced attachment files`);
+      }
+    } catch (error) {
+      console.error("Attachment cleanup failed:", error);
+    }
+  };
+
+  cleanup();
+  const timer = setInterval(cleanup, CLEANUP_INTERVAL_MS);
+  // Never keep the process alive just for the cleanup
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
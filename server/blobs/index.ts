@@ -0,0 +1,28 @@
+import type { BlobStore } from "./types";
+import { LocalBlobStore } from "./local";
+
+export type { BlobStore, BlobInfo } from "./types";
+export { isValidBlobKey, newBlobKey } from "./types";
+export { LocalBlobStore } from "./local";
+
+export const blobStoreBackends = ["local"] as const;
+export type BlobStoreBackend = typeof blobStoreBackends[number];
+
+/**
+ * Creates the blob store named by BLOB_STORE (default "local")
+ * @throws If the value is not a known blob store
+ */
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const backend = (env.BLOB_STORE || "local").trim().toLowerCase() as BlobStoreBackend;
+
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(env.BLOB_STORE_DIR || "./uploads");
+    default:
+      throw new Error(
+        `Unknown BLOB_STORE "${env.BLOB_STORE}". Expected one of: ${blobStoreBackends.join(", ")}`
+      );
+  }
+}
+
+export const blobStore = createBlobStore();
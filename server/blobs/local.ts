@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+import { isValidBlobKey, type BlobInfo, type BlobStore } from "./types";
+
+// Suffix of files still being written; they are never listed
+const TEMP_SUFFIX = ".tmp";
+
+/**
+ * Keeps each blob as a file under a directory, at the path of its key.
+ * Files are written under a temporary name and renamed into place, so a
+ * blob is either complete or missing.
+ */
+export class LocalBlobStore implements BlobStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async ready(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.access(this.dir, fs.constants.R_OK | fs.constants.W_OK);
+  }
+
+  private pathOf(key: string): string {
+    if (!isValidBlobKey(key)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return path.join(this.dir, ...key.split("/"));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathOf(key);
+    const temp = `${file}.${randomUUID()}${TEMP_SUFFIX}`;
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    try {
+      await fs.promises.writeFile(temp, data, { flag: "wx" });
+      await fs.promises.rename(temp, file);
+    } catch (error) {
+      await fs.promises.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.pathOf(key);
+    try {
+      // Open first so a missing file is reported here rather than mid-stream
+      const handle = await fs.promises.open(file, "r");
+      return handle.createReadStream();
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathOf(key), { force: true });
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+
+    const walk = async (dir: string, prefix: string) => {
+      for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        const key = prefix + entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), key + "/");
+        } else if (entry.isFile() && !entry.name.endsWith(TEMP_SUFFIX) && isValidBlobKey(key)) {
+          const stats = await fs.promises.stat(path.join(dir, entry.name));
+          blobs.push({ key, size: stats.size, createdAt: stats.mtime });
+        }
+      }
+    };
+
+    await walk(this.dir, "");
+    return blobs;
+  }
+}
@@ -0,0 +1,34 @@
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+
+// Where attachment files are kept. Attachment records (see IStorage) point
+// at their file by key, so the bytes can live apart from the database.
+//
+// Keys are "/"-separated segments of letters, digits, "_" and "-"
+export interface BlobStore {
+  // Resolves once the store can serve requests, rejects if it never will
+  ready(): Promise<void>;
+  put(key: string, data: Buffer): Promise<void>;
+  // null if there is no blob with this key
+  get(key: string): Promise<Readable | null>;
+  // Deleting a missing blob is a no-op
+  delete(key: string): Promise<void>;
+  list(): Promise<BlobInfo[]>;
+}
+
+export interface BlobInfo {
+  key: string;
+  size: number; // In bytes
+  createdAt: Date;
+}
+
+const BLOB_KEY_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+export function isValidBlobKey(key: string): boolean {
+  return BLOB_KEY_PATTERN.test(key);
+}
+
+// A fresh key for one of a user's files, grouped under the user
+export function newBlobKey(userId: string): string {
+  return `${userId.replace(/[^A-Za-z0-9_-]/g, "_")}/${randomUUID()}`;
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from "crypto";
+import { MAX_CHECKLIST_ITEMS, type ChecklistItem, type Note, type NoteType } from "@shared/schema";
+import { checklistText, itemsFromText } from "@shared/checklist";
+import { NoteVersionConflictError, type IStorage } from "./storage/types";
+
+// Attempts at an item change before giving up on a busy note
+const MAX_ATTEMPTS = 5;
+
+// A checklist change that cannot be made; `status` is the HTTP status to answer with
+export class ChecklistError extends Error {
+  constructor(public readonly status: 400 | 404, message: string) {
+    super(message);
+    this.name = "ChecklistError";
+  }
+}
+
+// Renumber items 0, 1, 2... in their array order
+function renumber(items: ChecklistItem[]): ChecklistItem[] {
+  return items.map((item, order) => (item.order === order ? item : { ...item, order }));
+}
+
+function indexOfItem(items: ChecklistItem[], id: string): number {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) {
+    throw new ChecklistError(404, "Item not found");
+  }
+  return index;
+}
+
+/**
+ * Makes the type, items and content of a note being created or updated agree:
+ * a checklist's content is always its items as text, and a text note has no
+ * items. A checklist given text but no items gets them from the text, unless
+ * it is the checklist's current text.
+ * @param existing The stored note, for updates
+ */
+export function withChecklistFields<T extends { type?: NoteType; items?: ChecklistItem[] | null; content?: string }>(
+  data: T,
+  existing?: Note
+): T {
+  const type = data.type ?? existing?.type ?? "text";
+  if (type === "text") {
+    return { ...data, type, items: null };
+  }
+
+  const keepItems =
+    existing?.type === "checklist" && (data.content === undefined || data.content === existing.content);
+  const items =
+    data.items ?? (keepItems ? existing.items ?? [] : itemsFromText(data.content ?? existing?.content ?? ""));
+  return { ...data, type, items, content: checklistText(items) };
+}
+
+export function addItem(
+  items: ChecklistItem[],
+  { text, checked, indent, after }: { text: string; checked: boolean; indent: number; after?: string }
+): ChecklistItem[] {
+  if (items.length >= MAX_CHECKLIST_ITEMS) {
+    throw new ChecklistError(400, `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`);
+  }
+  const position = after ? indexOfItem(items, after) + 1 : items.length;
+  const item: ChecklistItem = { id: randomUUID(), text, checked, order: position, indent };
+  return renumber([...items.slice(0, position), item, ...items.slice(position)]);
+}
+
+export function updateItem(
+  items: ChecklistItem[],
+  id: string,
+  changes: { text?: string; checked?: boolean; indent?: number }
+): ChecklistItem[] {
+  const index = indexOfItem(items, id);
+  const updated = [...items];
+  updated[index] = {
+    ...items[index],
+    ...(changes.text !== undefined && { text: changes.text }),
+    ...(changes.checked !== undefined && { checked: changes.checked }),
+    ...(changes.indent !== undefined && { indent: changes.indent })
+  };
+  return updated;
+}
+
+export function removeItem(items: ChecklistItem[], id: string): ChecklistItem[] {
+  const index = indexOfItem(items, id);
+  return renumber(items.filter((_, i) => i !== index));
+}
+
+// Put the items in the order of `ids`, which must name every item once
+export function reorderItems(items: ChecklistItem[], ids: string[]): ChecklistItem[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  if (ids.length !== items.length || new Set(ids).size !== ids.length || !ids.every((id) => byId.has(id))) {
+    throw new ChecklistError(400, "Item IDs must list every item of the checklist exactly once");
+  }
+  return renumber(ids.map((id) => byId.get(id)!));
+}
+
+// Unchecked items first, each group keeping its order
+export function moveCheckedToBottom(items: ChecklistItem[]): ChecklistItem[] {
+  return renumber([...items.filter((item) => !item.checked), ...items.filter((item) => item.checked)]);
+}
+
+/**
+ * Applies `change` to a checklist note's items and saves the result. If the
+ * note is written by someone else meanwhile, the change is applied again to
+ * the new items, so concurrent item edits never undo each other.
+ * @throws ChecklistError if the note is not a checklist or the change fails
+ */
+export async function changeChecklist(
+  storage: IStorage,
+  note: Note,
+  change: (items: ChecklistItem[]) => ChecklistItem[]
+): Promise<Note> {
+  let current = note;
+  for (let attempt = 1; ; attempt++) {
+    if (current.type !== "checklist") {
+      throw new ChecklistError(400, "This note is not a checklist");
+    }
+
+    const items = change(current.items ?? []);
+    try {
+      const updated = await storage.updateNote(
+        current.id,
+        { items, content: checklistText(items) },
+        current.version
+      );
+      if (!updated) {
+        throw new ChecklistError(404, "Note not found");
+      }
+      return updated;
+    } catch (error) {
+      if (!(error instanceof NoteVersionConflictError) || attempt === MAX_ATTEMPTS) {
+        throw error;
+      }
+      current = error.current;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { InsertNote, Note, Template } from "@shared/schema";
+import { fromLocalDateTime, toLocalDateTime } from "@shared/recurrence";
+import type { IStorage } from "./storage/types";
+import { noteFromTemplate } from "./templates";
+import { ensureLabelPath } from "./labelTree";
+
+// Every journal note carries this label, created when first needed
+export const JOURNAL_LABEL = "journal";
+
+// Requests for the same day share one creation instead of racing each other
+const creating = new Map<string, Promise<Note>>();
+
+export interface DailyNoteOptions {
+  user: { id: string; name: string; email: string };
+  // Seeds a new journal note; ignored when the day already has one
+  template?: Template | null;
+  timeZone: string;
+  now?: Date;
+}
+
+/**
+ * The user's journal note for a day (yyyy-MM-dd), created if they have none
+ * yet: from the template if one is given, otherwise empty and titled with the
+ * date. A journal note in the trash is returned as it is, neither restored
+ * nor replaced; POST /api/notes/:id/restore brings it back.
+ */
+export async function getOrCreateDailyNote(storage: IStorage, date: string, options: DailyNoteOptions): Promise<Note> {
+  const existing = await storage.getDailyNote(options.user.id, date);
+  if (existing) {
+    return existing;
+  }
+
+  const key = `${options.user.id}\u0000${date}`;
+  let pending = creating.get(key);
+  if (!pending) {
+    pending = createDailyNote(storage, date, options).finally(() => creating.delete(key));
+    creating.set(key, pending);
+  }
+  return pending;
+}
+
+async function createDailyNote(
+  storage: IStorage,
+  date: string,
+  { user, template, timeZone, now = new Date() }: DailyNoteOptions
+): Promise<Note> {
+  // Placeholders such as {{date}} see the journal's day, at the current time of day
+  const [year, month, day] = date.split("-").map(Number);
+  const at = fromLocalDateTime({ ...toLocalDateTime(now, timeZone), year, month, day }, timeZone);
+  const noteData: InsertNote = template
+    ? await noteFromTemplate(storage, template, { now: at, timeZone, user })
+    : { title: date, content: "" };
+
+  const { label } = await ensureLabelPath(storage, user.id, JOURNAL_LABEL, {});
+  const labels = Array.from(new Set([...(noteData.labels ?? []), label.id]));
+  try {
+    return await storage.createNote({ ...noteData, labels, userId: user.id, journalDate: date });
+  } catch (error) {
+    // Another server created it first
+    const created = await storage.getDailyNote(user.id, date);
+    if (created) return created;
+    throw error;
+  }
+}
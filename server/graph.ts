@@ -0,0 +1,83 @@
+import type { Label, Note } from "@shared/schema";
+import type { GraphEdge, GraphNode, NoteGraph } from "@shared/graph";
+import { normalizeLinkTitle, parseWikiLinks } from "@shared/wikiLinks";
+
+// Above this many notes, a label links its notes in a chain instead of
+// every pair with every other, so one busy label cannot swamp the graph
+const MAX_LABEL_CLIQUE = 30;
+
+function addTo(groups: Map<string, string[]>, key: string, id: string): void {
+  const group = groups.get(key);
+  if (group) group.push(id);
+  else groups.set(key, [id]);
+}
+
+/**
+ * The graph of the given notes: an edge for every [[link]] from one note to
+ * another, and one for every pair of notes sharing labels. Only the first
+ * `limit` notes (in the order given) become nodes.
+ */
+export function buildGraph(notes: Note[], labels: Label[], limit: number): NoteGraph {
+  const included = notes.slice(0, limit);
+  const labelsById = new Map(labels.map((label) => [label.id, label]));
+  const labelOrder = new Map(labels.map((label, index) => [label.id, index]));
+
+  const nodes = new Map<string, GraphNode>();
+  const byTitle = new Map<string, string[]>();
+  const byLabel = new Map<string, string[]>();
+  for (const note of included) {
+    const labelIds = (note.labels ?? [])
+      .filter((id) => labelsById.has(id))
+      .sort((a, b) => labelOrder.get(a)! - labelOrder.get(b)!);
+    nodes.set(note.id, {
+      id: note.id,
+      title: note.title,
+      labelIds,
+      color: labelIds.length > 0 ? labelsById.get(labelIds[0])!.color : null,
+      pinned: note.pinned,
+      archived: note.archived,
+      degree: 0
+    });
+    addTo(byTitle, normalizeLinkTitle(note.title), note.id);
+    labelIds.forEach((labelId) => addTo(byLabel, labelId, note.id));
+  }
+
+  const edges: GraphEdge[] = [];
+  const connect = (edge: GraphEdge) => {
+    edges.push(edge);
+    nodes.get(edge.source)!.degree++;
+    nodes.get(edge.target)!.degree++;
+  };
+
+  // A link to a title several notes share leads to each of them
+  for (const note of included) {
+    const targets = new Set(parseWikiLinks(note.content).flatMap((link) => byTitle.get(normalizeLinkTitle(link.title)) || []));
+    targets.forEach((target) => {
+      if (target !== note.id) connect({ kind: "link", source: note.id, target });
+    });
+  }
+
+  // Shared labels, one edge per pair of notes however many labels they share
+  const shared = new Map<string, { source: string; target: string; labelIds: string[] }>();
+  const share = (source: string, target: string, labelId: string) => {
+    const key = `${source}\u0000${target}`;
+    const pair = shared.get(key);
+    if (pair) pair.labelIds.push(labelId);
+    else shared.set(key, { source, target, labelIds: [labelId] });
+  };
+  byLabel.forEach((members, labelId) => {
+    if (members.length > MAX_LABEL_CLIQUE) {
+      members.slice(1).forEach((id, index) => share(members[index], id, labelId));
+    } else {
+      members.forEach((a, i) => members.slice(i + 1).forEach((b) => share(a, b, labelId)));
+    }
+  });
+  shared.forEach((pair) => connect({ kind: "label", ...pair }));
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges,
+    labels: labels.map(({ id, name, color }) => ({ id, name, color })),
+    total: notes.length
+  };
+}
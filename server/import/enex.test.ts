@@ -0,0 +1,91 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "../storage/memory";
+import { LocalBlobStore } from "../blobs/local";
+import { NoteImporter, type ImportFile } from "./importer";
+import { importEnex } from "./enex";
+
+const enexNote = (title: string) =>
+  `<note><title>${title}</title><content><![CDATA[<en-note>Body</en-note>]]></content><tag>travel</tag></note>`;
+
+// The file arrives in small chunks, like an upload read from disk
+function enexFile(text: string): ImportFile {
+  return {
+    name: "export.enex",
+    size: text.length,
+    read: async () => Buffer.from(text),
+    stream: async () => Readable.from(text.match(/[\s\S]{1,65536}/g) ?? []),
+  };
+}
+
+describe("importEnex", () => {
+  let dir: string;
+  let storage: MemStorage;
+  let importer: NoteImporter;
+  let userId: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "notekeeper-enex-test-"));
+    storage = new MemStorage({ seedTestUser: false });
+    userId = (await storage.createUser({ name: "Test", email: "test@example.com", password: "password123" })).id;
+    importer = new NoteImporter(storage, new LocalBlobStore(dir), userId);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("imports each note with its tags and attachments", async () => {
+    const withResource = `<note><title>Second</title><content><![CDATA[<en-note>Body</en-note>]]></content>` +
+      `<resource><data>aGVsbG8=</data><mime>text/plain</mime></resource></note>`;
+    await importEnex(importer, [enexFile(`<?xml version="1.0"?><en-export>${enexNote("First")}${withResource}</en-export>`)]);
+
+    expect(importer.report).toMatchObject({ notes: 2, attachments: 1, labels: ["travel"], skipped: [] });
+    const notes = await storage.getNotesByUserId(userId);
+    expect(notes.map((note) => note.title).sort()).toEqual(["First", "Second"]);
+  });
+
+  it("stops at a field longer than any real export's", async () => {
+    const text = `<en-export>${enexNote("Kept")}${enexNote("x".repeat(100 * 1024))}${enexNote("Not reached")}</en-export>`;
+    await importEnex(importer, [enexFile(text)]);
+
+    expect(importer.report.notes).toBe(1);
+    expect(importer.report.skipped).toEqual([
+      { item: "export.enex", reason: "A note's title is longer than 64 KB; only the notes before it were imported" },
+    ]);
+  });
+
+  it("stops at elements nested deeper than any export's", async () => {
+    const text = `<en-export>${enexNote("Kept")}${"<div>".repeat(40000)}`;
+    await importEnex(importer, [enexFile(text)]);
+
+    expect(importer.report.notes).toBe(1);
+    expect(importer.report.skipped).toEqual([
+      { item: "export.enex", reason: "Elements are nested more than 64 levels deep; only the notes before it were imported" },
+    ]);
+  });
+
+  it("stops at a note with more attachments than it may hold", async () => {
+    const resource = "<resource><data>aGVsbG8=</data><mime>text/plain</mime></resource>";
+    const text = `<en-export>${enexNote("Kept")}<note><title>Many</title>${resource.repeat(1001)}</note></en-export>`;
+    await importEnex(importer, [enexFile(text)]);
+
+    expect(importer.report.notes).toBe(1);
+    expect(importer.report.skipped).toEqual([
+      { item: "export.enex", reason: "A note has more than 1000 attachments; only the notes before it were imported" },
+    ]);
+  });
+
+  it("stops at a tag that never closes", async () => {
+    const text = `<en-export>${enexNote("Kept")}<note title="${"x".repeat(2 * 1024 * 1024)}`;
+    await importEnex(importer, [enexFile(text)]);
+
+    expect(importer.report.notes).toBe(1);
+    expect(importer.report.skipped).toEqual([
+      { item: "export.enex", reason: "A tag, comment or entity runs on for more than 1 MB; only the notes before it were imported" },
+    ]);
+  });
+});
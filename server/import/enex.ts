@@ -0,0 +1,351 @@
+import { createHash, type Hash } from "crypto";
+import { Readable } from "stream";
+import { attachmentLimits } from "../attachments";
+import type { ImportedNote, ImportFile, NoteImporter } from "./importer";
+import { enmlToMarkdown, replaceMedia, type EnmlConversion } from "./enml";
+import { XmlLimitError, XmlParser } from "./xml";
+
+// Notes with more ENML than this (in characters) are not imported
+const MAX_CONTENT_LENGTH = 10 * 1024 * 1024;
+// Longest title, tag, date, MIME type or file name (in characters), and most
+// tags on a note; Evernote's own limits are far lower
+const MAX_FIELD_LENGTH = 64 * 1024;
+const MAX_TAGS = 1000;
+// A note's resources are held in memory until the note ends, so their number
+// and decoded size are capped too
+const MAX_RESOURCES = 1000;
+const MAX_RESOURCE_BYTES = 200 * 1024 * 1024;
+// Deepest element nesting; ENEX nests a few levels, and ENML is inside CDATA
+const MAX_DEPTH = 64;
+
+// Names for resources the export gives no file name
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "application/pdf": "pdf",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "text/plain": "txt",
+};
+
+// The elements of an ENEX file the reader looks at; anything else is "other"
+type EnexElement =
+  | "root" | "export" | "note" | "title" | "content" | "created" | "updated" | "tag"
+  | "resource" | "data" | "mime" | "resourceAttributes" | "fileName" | "other";
+
+function childElement(parent: EnexElement, name: string): EnexElement {
+  switch (`${parent}>${name}`) {
+    case "root>en-export": return "export";
+    case "export>note": return "note";
+    case "note>title": return "title";
+    case "note>content": return "content";
+    case "note>created": return "created";
+    case "note>updated": return "updated";
+    case "note>tag": return "tag";
+    case "note>resource": return "resource";
+    case "resource>data": return "data";
+    case "resource>mime": return "mime";
+    case "resource>resource-attributes": return "resourceAttributes";
+    case "resourceAttributes>file-name": return "fileName";
+    default: return "other";
+  }
+}
+
+interface EnexResource {
+  hash: string; // MD5 of the data, which the note's en-media tags refer to
+  mime: string;
+  filename: string;
+  size: number;
+  chunks: Buffer[]; // left empty once the data is over the attachment size limit
+}
+
+interface EnexNote {
+  title: string;
+  content: string[];
+  contentLength: number;
+  created: string;
+  updated: string;
+  tags: string[];
+  resources: EnexResource[];
+  resourceBytes: number; // decoded, across all resources
+}
+
+/**
+ * Reads the notes out of an ENEX file as it streams in. Completed notes queue
+ * up in `notes` for the caller to take; resource data is decoded as it
+ * arrives, so only the notes in the queue are held in memory.
+ */
+class EnexReader {
+  readonly notes: EnexNote[] = [];
+  isExport = false; // an en-export element was found
+  private parser = new XmlParser({
+    openTag: (name) => this.openTag(name),
+    closeTag: (name) => this.closeTag(name),
+    text: (text) => this.text(text),
+  });
+  // The open elements, innermost last
+  private stack: { name: string; element: EnexElement }[] = [];
+  private note: EnexNote | null = null;
+  private resource: EnexResource | null = null;
+  private digest: Hash | null = null;
+  private base64 = ""; // data not yet decoded, short of a whole 4-character group
+
+  // @throws XmlLimitError If a tag, field, note or nesting is far larger than
+  // any export's
+  write(chunk: string): void {
+    this.parser.write(chunk);
+  }
+
+  // @throws If the file stops in the middle of the XML
+  end(): void {
+    this.parser.end();
+    if (this.stack.length > 0) {
+      throw new Error("Unexpected end of ENEX file");
+    }
+  }
+
+  private get element(): EnexElement {
+    return this.stack.length > 0 ? this.stack[this.stack.length - 1].element : "root";
+  }
+
+  private openTag(name: string): void {
+    if (this.stack.length === MAX_DEPTH) {
+      throw new XmlLimitError(`Elements are nested more than ${MAX_DEPTH} levels deep`);
+    }
+    const element = childElement(this.element, name);
+    this.stack.push({ name, element });
+    switch (element) {
+      case "export":
+        this.isExport = true;
+        break;
+      case "note":
+        this.note = {
+          title: "", content: [], contentLength: 0, created: "", updated: "", tags: [], resources: [], resourceBytes: 0
+        };
+        break;
+      case "tag":
+        if (this.note && this.note.tags.length === MAX_TAGS) {
+          throw new XmlLimitError(`A note has more than ${MAX_TAGS} tags`);
+        }
+        this.note?.tags.push("");
+        break;
+      case "resource":
+        if (this.note && this.note.resources.length === MAX_RESOURCES) {
+          throw new XmlLimitError(`A note has more than ${MAX_RESOURCES} attachments`);
+        }
+        this.resource = { hash: "", mime: "", filename: "", size: 0, chunks: [] };
+        this.digest = createHash("md5");
+        this.base64 = "";
+        break;
+    }
+  }
+
+  private closeTag(name: string): void {
+    let index = this.stack.length - 1;
+    while (index >= 0 && this.stack[index].name !== name) index--;
+    if (index === -1) return;
+    const element = this.stack[index].element;
+    this.stack.length = index;
+
+    if (element === "resource" && this.resource && this.digest) {
+      this.decode(this.base64);
+      this.resource.hash = this.digest.digest("hex");
+      this.note?.resources.push(this.resource);
+      this.resource = null;
+      this.digest = null;
+    } else if (element === "note" && this.note) {
+      this.notes.push(this.note);
+      this.note = null;
+    }
+  }
+
+  private text(text: string): void {
+    const note = this.note;
+    if (!note) return;
+    switch (this.element) {
+      case "title":
+        note.title = appendField(note.title, text, "title");
+        break;
+      case "content":
+        note.contentLength += text.length;
+        if (note.contentLength <= MAX_CONTENT_LENGTH) note.content.push(text);
+        break;
+      case "created":
+        note.created = appendField(note.created, text, "creation date");
+        break;
+      case "updated":
+        note.updated = appendField(note.updated, text, "update date");
+        break;
+      case "tag":
+        note.tags[note.tags.length - 1] = appendField(note.tags[note.tags.length - 1], text, "tag");
+        break;
+      case "data": {
+        // Whitespace and padding are dropped; Buffer decodes data without padding
+        this.base64 += text.replace(/[^A-Za-z0-9+/]/g, "");
+        const whole = this.base64.length - (this.base64.length % 4);
+        this.decode(this.base64.slice(0, whole));
+        this.base64 = this.base64.slice(whole);
+        break;
+      }
+      case "mime":
+        if (this.resource) this.resource.mime = appendField(this.resource.mime, text, "attachment type");
+        break;
+      case "fileName":
+        if (this.resource) this.resource.filename = appendField(this.resource.filename, text, "attachment name");
+        break;
+    }
+  }
+
+  private decode(base64: string): void {
+    if (!base64 || !this.resource || !this.digest) return;
+    const bytes = Buffer.from(base64, "base64");
+    if (this.note) {
+      this.note.resourceBytes += bytes.length;
+      if (this.note.resourceBytes > MAX_RESOURCE_BYTES) {
+        throw new XmlLimitError(`A note's attachments add up to more than ${MAX_RESOURCE_BYTES / (1024 * 1024)} MB`);
+      }
+    }
+    this.digest.update(bytes);
+    this.resource.size += bytes.length;
+    if (this.resource.size <= attachmentLimits.maxFileBytes) {
+      this.resource.chunks.push(bytes);
+    } else {
+      this.resource.chunks = [];
+    }
+  }
+}
+
+// The field with the text added
+// @throws XmlLimitError If that makes it longer than MAX_FIELD_LENGTH
+function appendField(value: string, text: string, field: string): string {
+  if (value.length + text.length > MAX_FIELD_LENGTH) {
+    throw new XmlLimitError(`A note's ${field} is longer than ${MAX_FIELD_LENGTH / 1024} KB`);
+  }
+  return value + text;
+}
+
+// ENEX dates look like 20200131T235959Z
+function parseEnexDate(text: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(text.trim());
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+// A note made of nothing but checkboxes becomes a checklist
+function checklistItems(markdown: string): ImportedNote["items"] {
+  const matches = markdown
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => /^( *)(?:[-*] |\d+\. )?\[( |x)\] ?(.*)$/.exec(line));
+  if (matches.length === 0 || matches.some((match) => !match)) return undefined;
+  return matches.map((match) => ({
+    text: match![3],
+    checked: match![2] === "x",
+    indent: Math.floor(match![1].length / 2),
+  }));
+}
+
+function resourceFile(resource: EnexResource): ImportFile {
+  const mime = resource.mime.trim().toLowerCase();
+  const extension = MIME_EXTENSIONS[mime];
+  const defaultName = extension ? `${mime.startsWith("image/") ? "image" : "attachment"}.${extension}` : "attachment";
+  return {
+    name: resource.filename.trim() || defaultName,
+    size: resource.size,
+    read: async () => Buffer.concat(resource.chunks),
+    stream: async () => Readable.from(resource.chunks),
+  };
+}
+
+async function importEnexNote(importer: NoteImporter, enexNote: EnexNote, source: string): Promise<void> {
+  const item = enexNote.title.trim() || `Untitled note in ${source}`;
+  if (enexNote.contentLength > MAX_CONTENT_LENGTH) {
+    importer.skip(item, "Note is too large");
+    return;
+  }
+
+  let conversion: EnmlConversion;
+  try {
+    conversion = enmlToMarkdown(enexNote.content.join(""));
+  } catch {
+    importer.skip(item, "Note content is not valid ENML");
+    return;
+  }
+
+  try {
+    const note = await importer.addNote({
+      title: enexNote.title,
+      content: replaceMedia(conversion.markdown, () => ""),
+      items: checklistItems(conversion.markdown),
+      labels: enexNote.tags,
+      createdAt: parseEnexDate(enexNote.created),
+      updatedAt: parseEnexDate(enexNote.updated),
+    });
+    if (conversion.encrypted) {
+      importer.skip(`${note.title}: encrypted text`, "Encrypted text cannot be imported");
+    }
+
+    // Images are shown where the note had them; other resources are only attached
+    const images = new Map<string, string>();
+    for (const resource of enexNote.resources) {
+      const attachment = await importer.attach(note, resourceFile(resource));
+      if (attachment?.mimeType.startsWith("image/") && !images.has(resource.hash)) {
+        images.set(resource.hash, `![${attachment.filename.replace(/[\[\]]/g, "")}](/api/attachments/${attachment.id})`);
+      }
+    }
+    if (images.size > 0 && !note.items) {
+      await importer.setContent(note, replaceMedia(conversion.markdown, (hash) => images.get(hash) ?? ""));
+    }
+  } catch (error) {
+    console.error("Error importing Evernote note:", error);
+    importer.skip(item, "Failed to import note");
+  }
+}
+
+/**
+ * Imports the notes of Evernote .enex exports, with their tags as labels and
+ * their resources as attachments. Each file is streamed, so exports larger
+ * than memory can be imported.
+ */
+export async function importEnex(importer: NoteImporter, files: ImportFile[]): Promise<void> {
+  for (const file of files) {
+    if (!file.name.toLowerCase().endsWith(".enex")) {
+      importer.skip(file.name, "Not an Evernote export (.enex)");
+      continue;
+    }
+
+    const reader = new EnexReader();
+    let damaged = false;
+    let tooLarge: string | null = null;
+    try {
+      const stream = await file.stream();
+      stream.setEncoding("utf8");
+      for await (const chunk of stream) {
+        reader.write(chunk);
+        // Notes are imported as they are read, so few are held at a time
+        for (const note of reader.notes.splice(0)) {
+          await importEnexNote(importer, note, file.name);
+        }
+      }
+      reader.end();
+    } catch (error) {
+      if (error instanceof XmlLimitError) tooLarge = error.message;
+      else damaged = true;
+    }
+    for (const note of reader.notes.splice(0)) {
+      await importEnexNote(importer, note, file.name);
+    }
+
+    if (tooLarge) {
+      importer.skip(file.name, `${tooLarge}; only the notes before it were imported`);
+    } else if (!reader.isExport) {
+      importer.skip(file.name, "Not an Evernote export (.enex)");
+    } else if (damaged) {
+      importer.skip(file.name, "The export is damaged; only the notes before the damage were imported");
+    }
+  }
+}
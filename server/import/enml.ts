@@ -0,0 +1,249 @@
+import { XmlParser } from "./xml";
+
+interface EnmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: EnmlNode[];
+}
+
+type EnmlNode = EnmlElement | string;
+
+export interface EnmlConversion {
+  markdown: string;
+  // MD5 hashes of the resources the note shows, in order; each has a line of
+  // its own in the markdown, filled in by replaceMedia
+  media: string[];
+  encrypted: boolean; // the note has encrypted text, which is left out
+}
+
+// Stands for an embedded resource until it is attached
+const mediaPlaceholder = (hash: string) => `\u0000media:${hash}\u0000`;
+const MEDIA_LINE = /^\u0000media:([0-9a-f]+)\u0000$/;
+
+const BLOCK_ELEMENTS = new Set([
+  "div", "p", "blockquote", "center", "dl", "dt", "dd", "address", "section", "article", "header", "footer",
+  "table", "tbody", "thead", "tfoot", "en-note",
+]);
+const HEADINGS: Record<string, string> = { h1: "# ", h2: "## ", h3: "### ", h4: "### ", h5: "### ", h6: "### " };
+const INLINE_MARKERS: Record<string, string> = { b: "**", strong: "**", i: "*", em: "*", u: "__" };
+
+function parseEnml(enml: string): EnmlElement {
+  const root: EnmlElement = { name: "", attributes: {}, children: [] };
+  const stack = [root];
+  const parser = new XmlParser({
+    openTag(name, attributes) {
+      const element: EnmlElement = { name: name.toLowerCase(), attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      stack.push(element);
+    },
+    closeTag(name) {
+      // Tolerates tags closed out of order, as HTML pasted into notes can have
+      const index = stack.map((element) => element.name).lastIndexOf(name.toLowerCase());
+      if (index > 0) stack.length = index;
+    },
+    text(text) {
+      stack[stack.length - 1].children.push(text);
+    },
+  });
+  parser.write(enml);
+  parser.end();
+  return root;
+}
+
+// Builds markdown line by line; block() starts a new line unless the current
+// one is still empty
+class MarkdownWriter {
+  text = "";
+  // Nothing but indentation or a list marker on the current line yet
+  private lineEmpty = true;
+
+  block(): void {
+    if (!this.lineEmpty) this.newline();
+  }
+
+  newline(): void {
+    this.text += "\n";
+    this.lineEmpty = true;
+  }
+
+  // A list marker, which the line's content goes after
+  marker(marker: string): void {
+    this.text += marker;
+  }
+
+  // Text with collapsed whitespace; spaces at the start of a line are dropped
+  write(text: string): void {
+    if (this.lineEmpty || this.text.endsWith(" ")) text = text.trimStart();
+    if (!text) return;
+    this.text += text;
+    this.lineEmpty = false;
+  }
+
+  // Text written as it is, such as preformatted text
+  raw(text: string): void {
+    if (!text) return;
+    this.text += text;
+    this.lineEmpty = text.endsWith("\n");
+  }
+}
+
+interface Context {
+  listDepth: number;
+  ordered: boolean;
+  itemNumber: number; // of the list item being rendered, in an ordered list
+  pre: boolean;
+  conversion: EnmlConversion;
+}
+
+function render(node: EnmlNode, out: MarkdownWriter, context: Context): void {
+  if (typeof node === "string") {
+    if (context.pre) out.raw(node);
+    else out.write(node.replace(/\s+/g, " "));
+    return;
+  }
+  const renderChildren = (into = out, nested = context) => {
+    for (const child of node.children) render(child, into, nested);
+  };
+
+  const marker = INLINE_MARKERS[node.name];
+  if (marker) {
+    const inner = new MarkdownWriter();
+    renderChildren(inner);
+    // Markers go inside the surrounding spaces, or they are not read as markers
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(inner.text)!;
+    out.write(match[2] && !match[2].includes("\n") ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : inner.text);
+    return;
+  }
+
+  switch (node.name) {
+    case "br":
+      out.newline();
+      return;
+    case "hr":
+      out.block();
+      out.write("---");
+      out.block();
+      return;
+    case "h1": case "h2": case "h3": case "h4": case "h5": case "h6":
+      out.block();
+      out.write(HEADINGS[node.name]);
+      renderChildren();
+      out.block();
+      return;
+    case "ul":
+    case "ol": {
+      out.block();
+      let itemNumber = Number(node.attributes.start) || 1;
+      for (const child of node.children) {
+        const isItem = typeof child !== "string" && child.name === "li";
+        render(child, out, {
+          ...context,
+          listDepth: context.listDepth + 1,
+          ordered: node.name === "ol",
+          itemNumber: isItem ? itemNumber++ : itemNumber,
+        });
+      }
+      out.block();
+      return;
+    }
+    case "li":
+      out.block();
+      out.marker("  ".repeat(Math.max(context.listDepth - 1, 0)) + (context.ordered ? `${context.itemNumber}. ` : "- "));
+      renderChildren();
+      out.block();
+      return;
+    case "tr": {
+      out.block();
+      const cells = node.children
+        .filter((child): child is EnmlElement => typeof child !== "string" && (child.name === "td" || child.name === "th"))
+        .map((cell) => {
+          const inner = new MarkdownWriter();
+          for (const child of cell.children) render(child, inner, context);
+          return inner.text.replace(/\s*\n\s*/g, " ").trim();
+        });
+      out.write(cells.join(" | "));
+      out.block();
+      return;
+    }
+    case "pre":
+      out.block();
+      renderChildren(out, { ...context, pre: true });
+      out.block();
+      return;
+    case "en-todo":
+      out.write(node.attributes.checked === "true" ? "[x] " : "[ ] ");
+      return;
+    case "en-media": {
+      const hash = node.attributes.hash?.toLowerCase();
+      if (hash) {
+        context.conversion.media.push(hash);
+        out.block();
+        out.raw(mediaPlaceholder(hash));
+        out.block();
+      }
+      return;
+    }
+    case "en-crypt":
+      context.conversion.encrypted = true;
+      return;
+    case "img": {
+      // Only images on the web; anything else has no address to show it from
+      const src = node.attributes.src ?? "";
+      if (/^https?:\/\//.test(src)) {
+        out.block();
+        out.raw(`![${(node.attributes.alt ?? "").replace(/[\[\]]/g, "")}](${src})`);
+        out.block();
+      }
+      return;
+    }
+    case "a": {
+      const inner = new MarkdownWriter();
+      renderChildren(inner);
+      const href = node.attributes.href ?? "";
+      const label = inner.text.trim();
+      out.write(/^(https?|mailto):/.test(href) && label !== href ? `${inner.text} (${href})` : inner.text);
+      return;
+    }
+    case "style":
+    case "script":
+    case "title":
+      return;
+  }
+
+  const isBlock = BLOCK_ELEMENTS.has(node.name);
+  if (isBlock) out.block();
+  renderChildren();
+  if (isBlock) out.block();
+}
+
+// At most one blank line in a row, since each one shows as a line break
+const tidy = (lines: string[]) => lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+
+/**
+ * Converts a note's ENML (Evernote's XHTML) to the markdown notes are shown
+ * with: headings, lists, bold, italic, underline and images. Checkboxes
+ * become "[ ]" and "[x]", table rows become cells separated by "|", and
+ * other markup is dropped, keeping its text.
+ * @throws If the ENML is not XML
+ */
+export function enmlToMarkdown(enml: string): EnmlConversion {
+  const conversion: EnmlConversion = { markdown: "", media: [], encrypted: false };
+  const out = new MarkdownWriter();
+  render(parseEnml(enml), out, { listDepth: 0, ordered: false, itemNumber: 1, pre: false, conversion });
+
+  conversion.markdown = tidy(out.text.split("\n").map((line) => line.replace(/[ \t\u00a0]+$/, "")));
+  return conversion;
+}
+
+/**
+ * Puts the markdown for each resource in place of its line in the converted
+ * markdown; resources replaced by "" are left out
+ */
+export function replaceMedia(markdown: string, replace: (hash: string) => string): string {
+  return tidy(markdown.split("\n").flatMap((line) => {
+    const hash = MEDIA_LINE.exec(line)?.[1];
+    if (hash === undefined) return [line];
+    const replacement = replace(hash);
+    return replacement ? [replacement] : [];
+  }));
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import type { Readable } from "stream";
+import { MAX_CHECKLIST_INDENT, MAX_CHECKLIST_ITEMS, type Attachment, type ChecklistItem, type ImportReport, type Note } from "@shared/schema";
+import { checklistText } from "@shared/checklist";
+import type { IStorage } from "../storage/types";
+import type { BlobStore } from "../blobs";
+import { attachmentLimits, AttachmentQuotaError, saveAttachment } from "../attachments";
+import { ensureLabelPath } from "../labelTree";
+import { ZipFile } from "./zip";
+
+// Largest import upload, and largest file in an uploaded archive
+export const MAX_IMPORT_BYTES = 4 * 1024 * 1024 * 1024;
+// Most the files of an archive may add up to once unpacked
+const MAX_UNPACKED_BYTES = 4 * MAX_IMPORT_BYTES;
+// Longest title made up from the start of an untitled note
+const MAX_DERIVED_TITLE_LENGTH = 80;
+const MAX_ITEM_TEXT_LENGTH = 1000;
+
+// A file received by multer's disk storage
+export interface UploadedFile {
+  originalname: string;
+  path: string;
+  size: number;
+}
+
+// An uploaded file, or one inside an uploaded zip archive
+export interface ImportFile {
+  name: string; // the path inside the archive, or the uploaded file's name
+  size: number;
+  read(): Promise<Buffer>;
+  stream(): Promise<Readable>; // for files too large to read at once
+}
+
+// A note as an export describes it; labels are names or paths such as "work/acme"
+export interface ImportedNote {
+  title: string;
+  content: string;
+  items?: { text: string; checked: boolean; indent?: number }[]; // makes it a checklist
+  pinned?: boolean;
+  archived?: boolean;
+  backgroundColor?: string;
+  labels?: string[];
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+// The last segment of a path inside an upload
+export const baseName = (name: string) => name.split(/[\\/]/).pop() ?? name;
+
+const validDate = (date: Date | null | undefined) => (date && !isNaN(date.getTime()) ? date : null);
+
+// A title for a note that has none: its first line, or "Untitled"
+function deriveTitle(content: string): string {
+  const firstLine = content.split("\n").find((line) => line.trim() !== "")?.trim() ?? "";
+  if (firstLine.length <= MAX_DERIVED_TITLE_LENGTH) return firstLine || "Untitled";
+  return firstLine.slice(0, MAX_DERIVED_TITLE_LENGTH - 1).trimEnd() + "…";
+}
+
+/**
+ * Creates a user's notes, labels and attachments from another app's export,
+ * keeping the notes' own timestamps, and builds the report of the import.
+ * Every import route uses one per request and closes it when done.
+ */
+export class NoteImporter {
+  readonly report: ImportReport = { notes: 0, attachments: 0, labels: [], skipped: [] };
+  // Label IDs by lower-cased path, so each label is looked up once
+  private labelIds = new Map<string, string>();
+  private archives: ZipFile[] = [];
+  private uploads: UploadedFile[] = [];
+
+  constructor(private storage: IStorage, private blobStore: BlobStore, private userId: string) {}
+
+  skip(item: string, reason: string): void {
+    this.report.skipped.push({ item, reason });
+  }
+
+  /**
+   * The uploaded files, each zip archive (by its .zip name) replaced by the
+   * files in it. close() deletes the uploads.
+   */
+  async openUploads(uploads: UploadedFile[]): Promise<ImportFile[]> {
+    this.uploads.push(...uploads);
+
+    const files: ImportFile[] = [];
+    for (const upload of uploads) {
+      if (!upload.originalname.toLowerCase().endsWith(".zip")) {
+        files.push({
+          name: upload.originalname,
+          size: upload.size,
+          read: () => fs.readFile(upload.path),
+          stream: async () => createReadStream(upload.path),
+        });
+        continue;
+      }
+
+      let archive: ZipFile;
+      try {
+        archive = await ZipFile.open(upload.path, { maxEntryBytes: MAX_IMPORT_BYTES, maxTotalBytes: MAX_UNPACKED_BYTES });
+      } catch (error) {
+        this.skip(upload.originalname, (error as Error).message);
+        continue;
+      }
+      this.archives.push(archive);
+      for (const entry of archive.entries) {
+        files.push({ name: entry.name, size: entry.size, read: () => archive.read(entry), stream: () => archive.stream(entry) });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * The ID of the user's label at this path, created if it is missing
+   * @returns null for a path with no name in it
+   */
+  async labelId(path: string): Promise<string | null> {
+    const cleaned = path.split("/").map((name) => name.trim()).filter(Boolean).join("/");
+    if (!cleaned) return null;
+
+    const key = cleaned.toLowerCase();
+    let id = this.labelIds.get(key);
+    if (!id) {
+      const { label, created } = await ensureLabelPath(this.storage, this.userId, cleaned, {});
+      if (created) this.report.labels.push(cleaned);
+      id = label.id;
+      this.labelIds.set(key, id);
+    }
+    return id;
+  }
+
+  async addNote(note: ImportedNote): Promise<Note> {
+    const labels: string[] = [];
+    for (const path of note.labels ?? []) {
+      const id = await this.labelId(path);
+      if (id && !labels.includes(id)) labels.push(id);
+    }
+
+    const items: ChecklistItem[] | null = note.items
+      ? note.items.slice(0, MAX_CHECKLIST_ITEMS).map((item, order) => ({
+          id: randomUUID(),
+          text: item.text.slice(0, MAX_ITEM_TEXT_LENGTH),
+          checked: item.checked,
+          order,
+          indent: Math.min(Math.max(item.indent ?? 0, 0), MAX_CHECKLIST_INDENT),
+        }))
+      : null;
+    const content = items ? checklistText(items) : note.content;
+    const createdAt = validDate(note.createdAt) ?? new Date();
+
+    const created = await this.storage.importNote({
+      userId: this.userId,
+      title: note.title.trim() || deriveTitle(content),
+      content,
+      summary: null,
+      type: items ? "checklist" : "text",
+      items,
+      pinned: note.pinned ?? false,
+      labels,
+      notebookId: null,
+      archived: note.archived ?? false,
+      backgroundColor: note.backgroundColor ?? "#ffffff",
+      fontSize: "normal",
+      textFormatting: "{}",
+      remindAt: null,
+      recurrence: null,
+      reminderSentAt: null,
+      dueAt: null,
+      journalDate: null,
+      deletedAt: null,
+      version: 1,
+      createdAt,
+      updatedAt: validDate(note.updatedAt) ?? createdAt
+    });
+    this.report.notes++;
+    if (note.items && note.items.length > MAX_CHECKLIST_ITEMS) {
+      this.skip(created.title, `Only the first ${MAX_CHECKLIST_ITEMS} checklist items were kept`);
+    }
+    return created;
+  }
+
+  // Replaces the content of a note it added, keeping the note's dates
+  async setContent(note: Note, content: string): Promise<Note> {
+    return (await this.storage.importNoteContent(note.id, content)) ?? note;
+  }
+
+  /**
+   * Attaches the file to the note, or reports why it could not
+   * @param filename The attachment's name, when it is not the file's own
+   * @returns The attachment, or null if the file was skipped
+   */
+  async attach(note: Note, file: ImportFile, filename = baseName(file.name)): Promise<Attachment | null> {
+    const item = `${note.title}: ${filename}`;
+    if (file.size > attachmentLimits.maxFileBytes) {
+      this.skip(item, "Larger than the attachment size limit");
+      return null;
+    }
+
+    try {
+      const attachment = await saveAttachment(this.storage, this.blobStore, note, { originalname: filename, buffer: await file.read() });
+      this.report.attachments++;
+      return attachment;
+    } catch (error) {
+      if (!(error instanceof AttachmentQuotaError)) console.error("Error importing attachment:", error);
+      this.skip(item, (error as Error).message);
+      return null;
+    }
+  }
+
+  // Closes the archives and deletes the uploads
+  async close(): Promise<void> {
+    for (const archive of this.archives) {
+      await archive.close().catch(() => {});
+    }
+    for (const upload of this.uploads) {
+      await fs.rm(upload.path, { force: true });
+    }
+    this.archives = [];
+    this.uploads = [];
+  }
+}
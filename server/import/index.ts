@@ -0,0 +1,4 @@
+export { MAX_IMPORT_BYTES, NoteImporter, type ImportedNote, type ImportFile, type UploadedFile } from "./importer";
+export { importEnex } from "./enex";
+export { importKeep } from "./keep";
+export { ZipFile, type ZipEntry, type ZipLimits } from "./zip";
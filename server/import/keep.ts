@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { baseName, type ImportFile, type NoteImporter } from "./importer";
+
+// Keep's note colors, as the closest of NoteKeeper's background colors
+const KEEP_COLORS: Record<string, string> = {
+  DEFAULT: "#ffffff",
+  RED: "#fef2f2",
+  PINK: "#fef2f2",
+  ORANGE: "#fffbeb",
+  YELLOW: "#fffbeb",
+  GREEN: "#ecfdf5",
+  TEAL: "#ecfdf5",
+  BLUE: "#f0f9ff",
+  CERULEAN: "#f0f9ff",
+  DARK_BLUE: "#f0f9ff",
+  PURPLE: "#f5f3ff",
+  BROWN: "#f3f4f6",
+  GRAY: "#f3f4f6",
+};
+
+// Larger .json files are not Keep notes
+const MAX_NOTE_FILE_BYTES = 10 * 1024 * 1024;
+// Takeout lists every label here, including ones no note carries
+const LABELS_FILE = "labels.txt";
+
+// The fields of a Takeout note that are imported; others are ignored
+const keepNoteSchema = z.object({
+  title: z.string().default(""),
+  textContent: z.string().optional(),
+  listContent: z.array(z.object({ text: z.string().default(""), isChecked: z.boolean().default(false) })).optional(),
+  labels: z.array(z.object({ name: z.string() })).default([]),
+  attachments: z.array(z.object({ filePath: z.string() })).default([]),
+  color: z.string().optional(),
+  isPinned: z.boolean().default(false),
+  isArchived: z.boolean().default(false),
+  isTrashed: z.boolean().default(false),
+  createdTimestampUsec: z.number().optional(),
+  userEditedTimestampUsec: z.number().optional(),
+}).refine((note) => note.textContent !== undefined || note.listContent !== undefined);
+
+const fromMicroseconds = (usec: number | undefined) => (usec === undefined ? null : new Date(Math.floor(usec / 1000)));
+
+const stem = (name: string) => name.replace(/\.[^.]*$/, "");
+
+/**
+ * Imports the notes of a Google Keep Takeout: its .json notes, Labels.txt
+ * and attachments. In a whole Takeout only the Keep folder is read.
+ */
+export async function importKeep(importer: NoteImporter, files: ImportFile[]): Promise<void> {
+  const inKeepFolder = files.filter((file) => file.name.split("/").slice(0, -1).includes("Keep"));
+  const keepFiles = inKeepFolder.length > 0 ? inKeepFolder : files;
+
+  // Attachments are named by file name; Takeout sometimes gives a different
+  // extension (.jpeg for .jpg), so they are also looked up without one
+  const byName = new Map<string, ImportFile>();
+  const byStem = new Map<string, ImportFile>();
+  for (const file of keepFiles) {
+    const name = baseName(file.name).toLowerCase();
+    if (name.endsWith(".json") || name.endsWith(".html")) continue;
+    byName.set(name, file);
+    if (!byStem.has(stem(name))) byStem.set(stem(name), file);
+  }
+  const used = new Set<ImportFile>();
+
+  for (const file of keepFiles) {
+    if (baseName(file.name).toLowerCase() !== LABELS_FILE) continue;
+    used.add(file);
+    for (const line of (await file.read()).toString("utf8").split(/\r?\n/)) {
+      await importer.labelId(line);
+    }
+  }
+
+  const notes = keepFiles
+    .filter((file) => file.name.toLowerCase().endsWith(".json"))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const file of notes) {
+    used.add(file);
+    if (file.size > MAX_NOTE_FILE_BYTES) {
+      importer.skip(file.name, "Not a Google Keep note");
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse((await file.read()).toString("utf8"));
+    } catch {
+      importer.skip(file.name, "Not valid JSON");
+      continue;
+    }
+    const parsed = keepNoteSchema.safeParse(data);
+    if (!parsed.success) {
+      importer.skip(file.name, "Not a Google Keep note");
+      continue;
+    }
+    const keepNote = parsed.data;
+    if (keepNote.isTrashed) {
+      importer.skip(file.name, "In the Google Keep trash");
+      continue;
+    }
+
+    try {
+      const note = await importer.addNote({
+        title: keepNote.title,
+        content: keepNote.textContent ?? "",
+        items: keepNote.listContent?.map((item) => ({ text: item.text, checked: item.isChecked })),
+        pinned: keepNote.isPinned,
+        archived: keepNote.isArchived,
+        backgroundColor: KEEP_COLORS[keepNote.color ?? "DEFAULT"] ?? KEEP_COLORS.DEFAULT,
+        labels: keepNote.labels.map((label) => label.name),
+        createdAt: fromMicroseconds(keepNote.createdTimestampUsec),
+        updatedAt: fromMicroseconds(keepNote.userEditedTimestampUsec),
+      });
+
+      for (const { filePath } of keepNote.attachments) {
+        const name = baseName(filePath).toLowerCase();
+        const attachment = byName.get(name) ?? byStem.get(stem(name));
+        if (!attachment) {
+          importer.skip(`${note.title}: ${baseName(filePath)}`, "Attachment missing from the upload");
+          continue;
+        }
+        used.add(attachment);
+        await importer.attach(note, attachment);
+      }
+    } catch (error) {
+      console.error("Error importing Google Keep note:", error);
+      importer.skip(file.name, "Failed to import note");
+    }
+  }
+
+  // Keep saves an HTML copy of every note next to its .json
+  for (const file of keepFiles) {
+    if (!used.has(file) && !file.name.toLowerCase().endsWith(".html")) {
+      importer.skip(file.name, "Not part of a Google Keep note");
+    }
+  }
+}
@@ -0,0 +1,165 @@
+// Callbacks of an XmlParser
+export interface XmlHandler {
+  openTag?(name: string, attributes: Record<string, string>): void;
+  closeTag?(name: string): void; // also right after openTag for <empty/> tags
+  text?(text: string): void; // entities decoded; long text and CDATA may come in pieces
+}
+
+// The XML entities, plus the HTML ones ENML allows that show up in practice
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'",
+  nbsp: "\u00a0", copy: "©", reg: "®", trade: "™", euro: "€",
+  hellip: "…", mdash: "—", ndash: "–", bull: "•", middot: "·",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", laquo: "«", raquo: "»",
+};
+
+// Unknown entities are left as they are
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (whole, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+    }
+    return NAMED_ENTITIES[entity] ?? whole;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Longest tag, comment, doctype or entity (in characters) held while waiting
+// for its end; real documents stay far below this
+const MAX_PENDING_LENGTH = 1024 * 1024;
+
+// A document went past a size limit, as only a damaged or hostile one would
+export class XmlLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlLimitError";
+  }
+}
+
+/**
+ * A small streaming XML tokenizer: write() it text as it arrives and it calls
+ * the handler for each tag and run of text, keeping only an unfinished tag in
+ * memory (up to MAX_PENDING_LENGTH). It does not check that the document is
+ * well formed, and skips comments, processing instructions and the doctype.
+ */
+export class XmlParser {
+  private buffer = "";
+  private inCdata = false;
+
+  constructor(private handler: XmlHandler) {}
+
+  // @throws XmlLimitError If a tag, comment or entity does not end in time
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.parse(false);
+    if (this.buffer.length > MAX_PENDING_LENGTH) {
+      throw new XmlLimitError(`A tag, comment or entity runs on for more than ${MAX_PENDING_LENGTH / (1024 * 1024)} MB`);
+    }
+  }
+
+  // @throws If the document stops inside a tag, comment or CDATA section
+  end(): void {
+    this.parse(true);
+    if (this.inCdata || this.buffer.startsWith("<")) {
+      throw new Error("Unexpected end of XML");
+    }
+  }
+
+  private parse(final: boolean): void {
+    while (this.buffer.length > 0) {
+      if (this.inCdata) {
+        const end = this.buffer.indexOf("]]>");
+        if (end === -1) {
+          // Keep what could be the start of "]]>"
+          const safe = final ? this.buffer.length : Math.max(this.buffer.length - 2, 0);
+          this.emitText(this.buffer.slice(0, safe), false);
+          this.buffer = this.buffer.slice(safe);
+          return;
+        }
+        this.emitText(this.buffer.slice(0, end), false);
+        this.buffer = this.buffer.slice(end + 3);
+        this.inCdata = false;
+        continue;
+      }
+
+      const lt = this.buffer.indexOf("<");
+      if (lt !== 0) {
+        let end = lt === -1 ? this.buffer.length : lt;
+        // An entity split across chunks waits for the rest of it
+        const amp = this.buffer.lastIndexOf("&", end - 1);
+        if (lt === -1 && !final && amp !== -1 && this.buffer.indexOf(";", amp) === -1) end = amp;
+        this.emitText(this.buffer.slice(0, end), true);
+        this.buffer = this.buffer.slice(end);
+        if (lt === -1) return;
+        continue;
+      }
+
+      if (this.buffer.startsWith("<![CDATA[")) {
+        this.inCdata = true;
+        this.buffer = this.buffer.slice(9);
+        continue;
+      }
+      if (this.buffer.startsWith("<!--") || this.buffer.startsWith("<?")) {
+        const close = this.buffer.startsWith("<?") ? "?>" : "-->";
+        const end = this.buffer.indexOf(close, 2);
+        if (end === -1) return;
+        this.buffer = this.buffer.slice(end + close.length);
+        continue;
+      }
+      if (this.buffer.startsWith("<!")) {
+        // A doctype, possibly with an internal subset in brackets
+        const bracket = this.buffer.indexOf("[");
+        const close = this.buffer.indexOf(">");
+        const end = bracket !== -1 && (close === -1 || bracket < close) ? this.buffer.indexOf("]>", bracket) + 1 : close;
+        if (end <= 0) return;
+        this.buffer = this.buffer.slice(end + 1);
+        continue;
+      }
+
+      const end = this.findTagEnd();
+      if (end === -1) return;
+      this.emitTag(this.buffer.slice(1, end));
+      this.buffer = this.buffer.slice(end + 1);
+    }
+  }
+
+  // The ">" closing the tag at the start of the buffer, skipping quoted values
+  private findTagEnd(): number {
+    let quote: string | null = null;
+    for (let index = 1; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === "\"" || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  private emitTag(tag: string): void {
+    if (tag.startsWith("/")) {
+      this.handler.closeTag?.(tag.slice(1).trim());
+      return;
+    }
+
+    const selfClosing = tag.endsWith("/");
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const name = /^[^\s/>]+/.exec(body)?.[0] ?? "";
+    const attributes: Record<string, string> = {};
+    for (const match of Array.from(body.slice(name.length).matchAll(ATTRIBUTE_PATTERN))) {
+      attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+    }
+
+    this.handler.openTag?.(name, attributes);
+    if (selfClosing) this.handler.closeTag?.(name);
+  }
+
+  private emitText(text: string, decode: boolean): void {
+    if (text) this.handler.text?.(decode ? decodeEntities(text) : text);
+  }
+}
@@ -0,0 +1,96 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ZipFile, type ZipLimits } from "./zip";
+
+const limits: ZipLimits = { maxEntryBytes: 1024, maxTotalBytes: 2048 };
+
+// A zip archive of stored (uncompressed) files; `patch` edits the central
+// directory record of the first file before it is written
+function buildZip(files: Record<string, string>, patch?: (record: Buffer) => void): Buffer {
+  const locals: Buffer[] = [];
+  const records: Buffer[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = Buffer.from(text);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt32LE(data.length, 20);
+    record.writeUInt32LE(data.length, 24);
+    record.writeUInt16LE(nameBytes.length, 28);
+    record.writeUInt32LE(offset, 42);
+    if (records.length === 0) patch?.(record);
+    records.push(record, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(records);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("ZipFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "notekeeper-zip-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (zip: Buffer) => {
+    const file = path.join(dir, "archive.zip");
+    fs.writeFileSync(file, zip);
+    return ZipFile.open(file, limits);
+  };
+
+  it("reads the files of an archive", async () => {
+    const archive = await open(buildZip({ "a.txt": "hello", "b/c.txt": "world" }));
+    expect(archive.entries.map((entry) => entry.name)).toEqual(["a.txt", "b/c.txt"]);
+    expect((await archive.read(archive.entries[1])).toString()).toBe("world");
+    await archive.close();
+  });
+
+  it("rejects a directory that lies outside the file", async () => {
+    const zip = buildZip({ "a.txt": "hello" });
+    zip.writeUInt32LE(0x7fffffff, zip.length - 22 + 12);
+    await expect(open(zip)).rejects.toThrow("Damaged zip archive");
+  });
+
+  it("rejects a file whose data lies outside the archive", async () => {
+    const zip = buildZip({ "a.txt": "hello" }, (record) => record.writeUInt32LE(0xfffffff0, 42));
+    await expect(open(zip)).rejects.toThrow("Damaged zip archive");
+  });
+
+  it("rejects files larger than the limits allow", async () => {
+    const huge = buildZip({ "a.txt": "hello" }, (record) => record.writeUInt32LE(0xfffffff0, 24));
+    await expect(open(huge)).rejects.toThrow("a.txt is larger than an import may be");
+
+    const many = buildZip({ "a.txt": "x".repeat(1000), "b.txt": "x".repeat(1000), "c.txt": "x".repeat(1000) });
+    await expect(open(many)).rejects.toThrow("The archive unpacks to more than an import may be");
+  });
+
+  it("refuses to read more packed data than the file could need", async () => {
+    const archive = await open(buildZip({ "a.txt": "hello", "b.txt": "world" }, (record) => record.writeUInt32LE(2, 24)));
+    await expect(archive.read(archive.entries[0])).rejects.toThrow("a.txt is damaged");
+    await archive.close();
+  });
+});
@@ -0,0 +1,255 @@
+import fs from "fs/promises";
+import { Readable } from "stream";
+import { promisify } from "util";
+import zlib from "zlib";
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+// The end record sits in the last 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8_NAME = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Limits on what an archive's directory may claim, checked when it is opened
+export interface ZipLimits {
+  maxEntryBytes: number; // each file, packed or unpacked
+  maxTotalBytes: number; // all files unpacked
+}
+
+export interface ZipEntry {
+  name: string; // path inside the archive, "/" separated
+  size: number; // uncompressed, in bytes
+  compressedSize: number;
+  method: number;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+/**
+ * Reads files out of a zip archive on disk one at a time, so archives much
+ * larger than memory (such as Google Takeout exports) can be opened. Supports
+ * stored and deflated entries and ZIP64 archives; multi-part archives are not
+ * supported.
+ */
+export class ZipFile {
+  private constructor(private handle: fs.FileHandle, private size: number, readonly entries: ZipEntry[]) {}
+
+  /**
+   * Opens the archive and reads its list of files
+   * @throws If the file is not a zip archive, is damaged or goes past the limits
+   */
+  static async open(path: string, limits: ZipLimits): Promise<ZipFile> {
+    const handle = await fs.open(path, "r");
+    try {
+      const { size } = await handle.stat();
+      return new ZipFile(handle, size, await readEntries(handle, size, limits));
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * The entry's contents
+   * @throws If the entry is encrypted, uses an unsupported compression method
+   * or is damaged
+   */
+  async read(entry: ZipEntry): Promise<Buffer> {
+    if (entry.encrypted) {
+      throw new Error(`${entry.name} is encrypted`);
+    }
+    // Packed data larger than its contents could need would be read for nothing
+    const maxCompressedSize = entry.method === METHOD_STORED ? entry.size : deflateBound(entry.size);
+    if (entry.compressedSize > maxCompressedSize) {
+      throw new Error(`${entry.name} is damaged`);
+    }
+
+    const data = await readAt(this.handle, await this.dataOffset(entry), entry.compressedSize);
+
+    let contents: Buffer;
+    switch (entry.method) {
+      case METHOD_STORED:
+        contents = data;
+        break;
+      case METHOD_DEFLATED:
+        // Stops a damaged or malicious entry from inflating past its stated size
+        contents = await inflateRaw(data, { maxOutputLength: Math.max(entry.size, 1) });
+        break;
+      default:
+        throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+    }
+    if (contents.length !== entry.size) {
+      throw new Error(`${entry.name} is damaged`);
+    }
+    return contents;
+  }
+
+  /**
+   * The entry's contents as a stream, for entries too large to read at once
+   * @throws If the entry is encrypted or uses an unsupported compression method
+   */
+  async stream(entry: ZipEntry): Promise<Readable> {
+    if (entry.encrypted) {
+      throw new Error(`${entry.name} is encrypted`);
+    }
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+      throw new Error(`${entry.name} uses an unsupported compression method (${entry.method})`);
+    }
+
+    const start = await this.dataOffset(entry);
+    if (entry.compressedSize === 0) return Readable.from([]);
+    // The handle stays open for the other entries
+    const data = this.handle.createReadStream({ start, end: start + entry.compressedSize - 1, autoClose: false });
+    if (entry.method === METHOD_STORED) return data;
+
+    const inflate = zlib.createInflateRaw();
+    data.on("error", (error) => inflate.destroy(error));
+    return data.pipe(inflate);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private async dataOffset(entry: ZipEntry): Promise<number> {
+    const header = await readAt(this.handle, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+    const offset = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER || offset + entry.compressedSize > this.size) {
+      throw new Error(`${entry.name} is damaged`);
+    }
+    return offset;
+  }
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error("Unexpected end of zip archive");
+  }
+  return buffer;
+}
+
+const readUInt64 = (buffer: Buffer, offset: number) => Number(buffer.readBigUInt64LE(offset));
+
+// A generous bound on what deflate turns `size` bytes into; incompressible
+// data grows by a few bytes per stored block
+function deflateBound(size: number): number {
+  return size + Math.ceil(size / 8) + 1024;
+}
+
+// Whether `length` bytes at `offset` lie inside a file of `fileSize` bytes
+function isWithin(offset: number, length: number, fileSize: number): boolean {
+  return Number.isSafeInteger(offset) && Number.isSafeInteger(length) && offset + length <= fileSize;
+}
+
+async function readEntries(handle: fs.FileHandle, fileSize: number, limits: ZipLimits): Promise<ZipEntry[]> {
+  const tailLength = Math.min(fileSize, MAX_END_RECORD_SEARCH);
+  const tail = await readAt(handle, fileSize - tailLength, tailLength);
+
+  let end = -1;
+  for (let offset = tail.length - 22; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a zip archive");
+  }
+
+  let count = tail.readUInt16LE(end + 10);
+  let directorySize = tail.readUInt32LE(end + 12);
+  let directoryOffset = tail.readUInt32LE(end + 16);
+
+  // ZIP64 archives keep the real values in a record the locator points to
+  const locator = end - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_END_LOCATOR) {
+    const recordOffset = readUInt64(tail, locator + 8);
+    if (!isWithin(recordOffset, 56, fileSize)) {
+      throw new Error("Damaged zip archive");
+    }
+    const record = await readAt(handle, recordOffset, 56);
+    if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error("Damaged zip archive");
+    }
+    count = readUInt64(record, 32);
+    directorySize = readUInt64(record, 40);
+    directoryOffset = readUInt64(record, 48);
+  }
+
+  // The directory comes before the end record, so it can be no larger than the file
+  if (!isWithin(directoryOffset, directorySize, fileSize)) {
+    throw new Error("Damaged zip archive");
+  }
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let totalSize = 0;
+  let offset = 0;
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Damaged zip archive");
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const nameStart = offset + 46;
+    const name = directory.toString(flags & FLAG_UTF8_NAME ? "utf8" : "latin1", nameStart, nameStart + nameLength);
+
+    let compressedSize = directory.readUInt32LE(offset + 20);
+    let size = directory.readUInt32LE(offset + 24);
+    let localHeaderOffset = directory.readUInt32LE(offset + 42);
+
+    // Values too large for 32 bits are in the ZIP64 extra field, in this order
+    let extra = nameStart + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.readUInt16LE(extra);
+      const length = directory.readUInt16LE(extra + 2);
+      if (id === ZIP64_EXTRA_FIELD) {
+        let field = extra + 4;
+        if (size === 0xffffffff) { size = readUInt64(directory, field); field += 8; }
+        if (compressedSize === 0xffffffff) { compressedSize = readUInt64(directory, field); field += 8; }
+        if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUInt64(directory, field); }
+      }
+      extra += 4 + length;
+    }
+
+    if (!isWithin(localHeaderOffset, LOCAL_HEADER_SIZE + compressedSize, fileSize) || !Number.isSafeInteger(size)) {
+      throw new Error("Damaged zip archive");
+    }
+    if (compressedSize > limits.maxEntryBytes || size > limits.maxEntryBytes) {
+      throw new Error(`${name} is larger than an import may be`);
+    }
+    totalSize += size;
+    if (totalSize > limits.maxTotalBytes) {
+      throw new Error("The archive unpacks to more than an import may be");
+    }
+
+    // Folders are implied by the paths of the files in them
+    if (!name.endsWith("/")) {
+      entries.push({
+        name,
+        size,
+        compressedSize,
+        method: directory.readUInt16LE(offset + 10),
+        encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+        localHeaderOffset
+      });
+    }
+    offset = extraEnd + commentLength;
+  }
+  return entries;
+}
@@ -1,5 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, storageBackend } from "./storage";
+import { blobStore } from "./blobs";
+import { startTrashPurge } from "./trash";
+import { startLabelIntegrityCheck } from "./labelIntegrity";
+import { startAttachmentCleanup } from "./attachments";
+import { startReminderScheduler } from "./reminders";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +43,39 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Node runs no "exit" handlers on signals, so close the storage here; the
+  // file backend would otherwise leave its lock behind on Ctrl-C or docker stop
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, async () => {
+      try {
+        await storage.close();
+      } catch (error) {
+        console.error("Error closing storage:", error);
+      }
+      process.exit(0);
+    });
+  }
+
+  // Fail fast if the configured storage backend is unreachable
+  try {
+    await storage.ready();
+  } catch (error) {
+    console.error(`Storage backend "${storageBackend}" is not available:`, error);
+    process.exit(1);
+  }
+
+  try {
+    await blobStore.ready();
+  } catch (error) {
+    console.error("Attachment store is not available:", error);
+    process.exit(1);
+  }
+
+  startTrashPurge(storage);
+  startLabelIntegrityCheck(storage);
+  startAttachmentCleanup(storage, blobStore);
+  startReminderScheduler(storage);
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
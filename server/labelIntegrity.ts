@@ -0,0 +1,77 @@
+import type { IStorage } from "./storage/types";
+
+const CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// A label ID on a note that names no label of the note's owner
+export interface OrphanedLabelReference {
+  userId: string;
+  noteId: string;
+  labelId: string;
+}
+
+/**
+ * Finds label IDs on notes (trashed ones included) that do not belong to one
+ * of the owner's labels, e.g. left behind by a label deleted mid-way
+ * @param repair Also remove the references that were found
+ * @returns The references found
+ */
+export async function checkLabelReferences(
+  storage: IStorage,
+  { repair = false }: { repair?: boolean } = {}
+): Promise<OrphanedLabelReference[]> {
+  const orphans: OrphanedLabelReference[] = [];
+
+  for (const user of await storage.getAllUsers()) {
+    // Notes are read before labels, so a label created and attached in
+    // between is already in the label list and never mistaken for an orphan
+    const notes = [
+      ...(await storage.getNotesByUserId(user.id)),
+      ...(await storage.getTrashedNotesByUserId(user.id))
+    ];
+    const labelIds = new Set((await storage.getLabelsByUserId(user.id)).map((label) => label.id));
+
+    for (const note of notes) {
+      for (const labelId of note.labels || []) {
+        if (!labelIds.has(labelId)) {
+          orphans.push({ userId: user.id, noteId: note.id, labelId });
+        }
+      }
+    }
+  }
+
+  if (repair) {
+    for (const orphan of orphans) {
+      await storage.removeLabelFromNote(orphan.noteId, orphan.labelId);
+    }
+  }
+  return orphans;
+}
+
+/**
+ * Reports and removes orphaned label references, once at startup and then
+ * every day
+ * @returns A function that stops the check
+ */
+export function startLabelIntegrityCheck(storage: IStorage): () => void {
+  const check = async () => {
+    try {
+      const orphans = await checkLabelReferences(storage, { repair: true });
+      if (orphans.length > 0) {
+        const notes = new Set(orphans.map((orphan) => orphan.noteId));
+        console.warn(
+          `Removed ${orphans.length} references to missing labels from ${notes.size} notes:`,
+          orphans.map((orphan) => `note ${orphan.noteId} -> label ${orphan.labelId}`).join(", ")
+        );
+      }
+    } catch (error) {
+      console.error("Label integrity check failed:", error);
+    }
+  };
+
+  check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  // Never keep the process alive just for the check
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,123 @@
+import { LABEL_PATH_SEPARATOR, type Label } from "@shared/schema";
+import type { IStorage } from "./storage/types";
+
+// A label with its full path (e.g. "work/clients/acme") and its children
+export interface LabelNode extends Label {
+  path: string;
+  children: LabelNode[];
+}
+
+/**
+ * The parent of each label. Links to missing labels are dropped, and so is
+ * one link of every cycle (left by data written before cycles were checked,
+ * or by two concurrent moves), so every label ends up under a root.
+ */
+function resolveParents(labels: Label[]): Map<string, string | null> {
+  const ids = new Set(labels.map((label) => label.id));
+  const parents = new Map<string, string | null>(
+    labels.map((label) => [label.id, label.parentId && ids.has(label.parentId) ? label.parentId : null])
+  );
+
+  for (const label of labels) {
+    const seen = new Set<string>();
+    let id: string | null = label.id;
+    while (id !== null && !seen.has(id)) {
+      seen.add(id);
+      id = parents.get(id) ?? null;
+    }
+    // Walking up came back to `id`, so it is on a cycle; cut the cycle there
+    if (id !== null) parents.set(id, null);
+  }
+  return parents;
+}
+
+/**
+ * Nest labels under their parents
+ * @param labels A user's labels; siblings keep this order
+ * @returns The top-level labels
+ */
+export function buildLabelTree(labels: Label[]): LabelNode[] {
+  const parents = resolveParents(labels);
+  const nodes = new Map<string, LabelNode>(
+    labels.map((label) => [label.id, { ...label, parentId: parents.get(label.id) ?? null, path: "", children: [] }])
+  );
+
+  const roots: LabelNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    if (node.parentId) {
+      nodes.get(node.parentId)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const setPaths = (node: LabelNode, prefix: string) => {
+    node.path = prefix + node.name;
+    for (const child of node.children) setPaths(child, node.path + LABEL_PATH_SEPARATOR);
+  };
+  for (const root of roots) setPaths(root, "");
+  return roots;
+}
+
+// Every label in the tree, each followed by its descendants
+export function flattenLabelTree(nodes: LabelNode[]): LabelNode[] {
+  return nodes.flatMap((node) => [node, ...flattenLabelTree(node.children)]);
+}
+
+export function findLabelNode(nodes: LabelNode[], id: string): LabelNode | null {
+  return flattenLabelTree(nodes).find((node) => node.id === id) ?? null;
+}
+
+// IDs of every label below the given one
+export function descendantIds(labels: Label[], id: string): string[] {
+  const node = findLabelNode(buildLabelTree(labels), id);
+  return node ? flattenLabelTree(node.children).map((child) => child.id) : [];
+}
+
+// Whether moving label `id` under `parentId` would put it below itself
+export function createsCycle(labels: Label[], id: string, parentId: string): boolean {
+  return parentId === id || descendantIds(labels, id).includes(parentId);
+}
+
+// A label directly under `parentId` (null for top level) with this name, ignoring case
+export function findSibling(labels: Label[], parentId: string | null, name: string): Label | null {
+  const tree = buildLabelTree(labels);
+  const siblings = parentId ? findLabelNode(tree, parentId)?.children ?? [] : tree;
+  return siblings.find((label) => label.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+/**
+ * Finds or creates each label along a path such as "work/clients/acme"
+ * @param parentId Where the path starts; null for the top level
+ * @returns The last label of the path and whether it was created
+ */
+export async function ensureLabelPath(
+  storage: IStorage,
+  userId: string,
+  path: string,
+  { parentId = null, color }: { parentId?: string | null; color?: string }
+): Promise<{ label: Label; created: boolean }> {
+  const labels = await storage.getLabelsByUserId(userId);
+  const names = path.split(LABEL_PATH_SEPARATOR).map((name) => name.trim());
+
+  let label: Label | null = null;
+  let created = false;
+  for (let index = 0; index < names.length; index++) {
+    const under: string | null = label ? label.id : parentId;
+    const existing: Label | null = created ? null : findSibling(labels, under, names[index]);
+    if (existing) {
+      label = existing;
+    } else {
+      // Labels created along the way get the default color
+      const labelColor = index === names.length - 1 ? color : undefined;
+      label = await storage.createLabel({ userId, name: names[index], color: labelColor, parentId: under });
+      created = true;
+    }
+  }
+  return { label: label!, created };
+}
+
+// A user's label with its path and subtree, or null if they have no such label
+export async function getLabelNode(storage: IStorage, userId: string, id: string): Promise<LabelNode | null> {
+  return findLabelNode(buildLabelTree(await storage.getLabelsByUserId(userId)), id);
+}
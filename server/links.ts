@@ -0,0 +1,90 @@
+import type { ChecklistItem, Note } from "@shared/schema";
+import { checklistText } from "@shared/checklist";
+import { isLinkableTitle, normalizeLinkTitle, parseWikiLinks, rewriteWikiLinks, type ResolvedLink } from "@shared/wikiLinks";
+import { NoteVersionConflictError, type IStorage } from "./storage/types";
+
+// Attempts at rewriting the links of a note that keeps changing
+const MAX_ATTEMPTS = 5;
+
+/**
+ * The titles the note links to, each with the user's notes of that title
+ */
+export async function resolveLinks(storage: IStorage, note: Note): Promise<ResolvedLink[]> {
+  const links = new Map<string, ResolvedLink>();
+  for (const link of parseWikiLinks(note.content)) {
+    const target = normalizeLinkTitle(link.title);
+    if (!links.has(target)) links.set(target, { title: link.title, target, notes: [] });
+  }
+  if (links.size === 0) return [];
+
+  for (const candidate of await storage.getNotesByUserId(note.userId)) {
+    links.get(normalizeLinkTitle(candidate.title))?.notes.push({
+      id: candidate.id,
+      title: candidate.title,
+      notebookId: candidate.notebookId,
+      archived: candidate.archived,
+      updatedAt: candidate.updatedAt
+    });
+  }
+  return Array.from(links.values());
+}
+
+// The note's text and items with its links to `from` pointing at `to`
+function rewrittenFields(note: Note, from: string, to: string): { content: string; items?: ChecklistItem[] } | null {
+  if (note.type === "checklist" && note.items) {
+    let count = 0;
+    const items = note.items.map((item) => {
+      const rewritten = rewriteWikiLinks(item.text, from, to);
+      count += rewritten.count;
+      return rewritten.count > 0 ? { ...item, text: rewritten.text } : item;
+    });
+    return count > 0 ? { items, content: checklistText(items) } : null;
+  }
+
+  const rewritten = rewriteWikiLinks(note.content, from, to);
+  return rewritten.count > 0 ? { content: rewritten.text } : null;
+}
+
+/**
+ * After a note was renamed from `oldTitle`, points the [[links]] to it in the
+ * user's other notes at its new title. Links are left alone when another
+ * note still has the old title, since they may mean that one, and when the
+ * new title cannot be written in a link.
+ * @returns How many notes were changed
+ */
+export async function rewriteInboundLinks(storage: IStorage, note: Note, oldTitle: string): Promise<number> {
+  if (
+    normalizeLinkTitle(oldTitle) === normalizeLinkTitle(note.title) ||
+    !isLinkableTitle(note.title)
+  ) {
+    return 0;
+  }
+
+  const others = await storage.getNotesByUserId(note.userId);
+  if (others.some((other) => other.id !== note.id && normalizeLinkTitle(other.title) === normalizeLinkTitle(oldTitle))) {
+    return 0;
+  }
+
+  let changed = 0;
+  for (const linking of await storage.getBacklinks(note.userId, oldTitle)) {
+    if (linking.id === note.id) continue;
+
+    let current = linking;
+    for (let attempt = 1; ; attempt++) {
+      const fields = rewrittenFields(current, oldTitle, note.title.trim());
+      if (!fields) break;
+      try {
+        if (await storage.updateNote(current.id, fields, current.version)) changed++;
+        break;
+      } catch (error) {
+        if (!(error instanceof NoteVersionConflictError)) throw error;
+        if (attempt === MAX_ATTEMPTS) {
+          console.error(`Gave up rewriting links in note ${current.id}`);
+          break;
+        }
+        current = error.current;
+      }
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { MemStorage } from "./storage/memory";
+import { copy, summarize } from "./migrate";
+
+describe("storage migration", () => {
+  it("points inline images at the copied attachments", async () => {
+    const source = new MemStorage({ seedTestUser: false });
+    const user = await source.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+    const note = await source.createNote({ userId: user.id, title: "Trip", content: "" });
+    const attachment = await source.createAttachment({
+      noteId: note.id, userId: user.id, filename: "photo.png", mimeType: "image/png", size: 3, blobKey: "blob-photo",
+    });
+    await source.importNoteContent(note.id, `Look:\n\n![photo.png](/api/attachments/${attachment.id})\n`);
+
+    // The target already holds records, so the copies get other IDs
+    const target = new MemStorage({ seedTestUser: false });
+    const other = await target.createUser({ name: "Other", email: "other@example.com", password: "password123" });
+    const otherNote = await target.createNote({ userId: other.id, title: "Other", content: "" });
+    await target.createAttachment({
+      noteId: otherNote.id, userId: other.id, filename: "a.png", mimeType: "image/png", size: 1, blobKey: "blob-a",
+    });
+
+    await copy(source, target);
+
+    const copiedUser = (await target.getUserByEmail("test@example.com"))!;
+    const [copiedNote] = await target.getNotesByUserId(copiedUser.id);
+    const [copiedAttachment] = await target.getAttachmentsByNoteId(copiedNote.id);
+    expect(copiedAttachment.id).not.toBe(attachment.id);
+    expect(copiedNote.content).toBe(`Look:\n\n![photo.png](/api/attachments/${copiedAttachment.id})\n`);
+    expect(copiedNote.version).toBe(note.version);
+
+    const emails = new Set(["test@example.com"]);
+    expect((await summarize(target, emails)).checksum).toBe((await summarize(source)).checksum);
+
+    // A link left pointing at the old ID is caught by the checksum
+    await target.importNoteContent(copiedNote.id, `Look:\n\n![photo.png](/api/attachments/${attachment.id})\n`);
+    expect((await summarize(target, emails)).checksum).not.toBe((await summarize(source)).checksum);
+  });
+});
@@ -0,0 +1,394 @@
+import { createHash } from "crypto";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import type { Attachment, Label, Note, Notebook, Notification, Template, User } from "@shared/schema";
+import type { IStorage } from "./storage/types";
+import { createStorage, storageBackends, type StorageBackend } from "./storage/config";
+import { buildLabelTree, flattenLabelTree, type LabelNode } from "./labelTree";
+
+const USAGE = `Copy all users, labels, notebooks, templates, notes and attachment records from one storage
+backend into another. Attachment files stay where they are in the blob store.
+
+Usage:
+  npm run storage:migrate -- --from <backend>[=<location>] --to <backend>[=<location>] [--dry-run | --verify]
+
+Backends: ${storageBackends.join(", ")}
+Location is a MongoDB/PostgreSQL URL or a file storage directory. Without it
+the usual MONGODB_URI, DATABASE_URL or FILE_STORAGE_DIR setting is used.
+
+  --dry-run  Read the source and report what would be copied; write nothing
+  --verify   Compare counts and checksums of source and target; write nothing
+
+Example:
+  npm run storage:migrate -- --from file=./data --to postgres=postgres://localhost/notekeeper`;
+
+const locationEnv: Record<StorageBackend, string | null> = {
+  memory: null,
+  file: "FILE_STORAGE_DIR",
+  mongo: "MONGODB_URI",
+  postgres: "DATABASE_URL"
+};
+
+export interface Totals {
+  users: number;
+  labels: number;
+  notebooks: number;
+  templates: number;
+  notes: number;
+  attachments: number;
+  notifications: number;
+  checksum: string;
+}
+
+function openStorage(spec: string): IStorage {
+  const [name, ...rest] = spec.split("=");
+  const location = rest.join("=");
+  const backend = name.trim().toLowerCase() as StorageBackend;
+
+  if (!storageBackends.includes(backend)) {
+    throw new Error(`Unknown backend "${name}". Expected one of: ${storageBackends.join(", ")}`);
+  }
+
+  const env = { ...process.env };
+  const envName = locationEnv[backend];
+  if (location && envName) {
+    env[envName] = location;
+  }
+  if (envName && !env[envName] && backend !== "file") {
+    throw new Error(`No location given for ${backend} and ${envName} is not set`);
+  }
+
+  return createStorage(backend, env);
+}
+
+function isoDate(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString() : "";
+}
+
+// IDs differ between backends, so labels are identified by their content
+// and their place in the tree
+function labelKey(label: LabelNode): string {
+  return [label.path, label.color, isoDate(label.createdAt)].join("\u0000");
+}
+
+function attachmentKey(attachment: Attachment): string {
+  return [attachment.filename, attachment.mimeType, attachment.size, attachment.blobKey, isoDate(attachment.createdAt)].join("\u0000");
+}
+
+function notificationKey(notification: Notification): string {
+  return [notification.type, notification.title, isoDate(notification.readAt), isoDate(notification.createdAt)].join("\u0000");
+}
+
+function notebookKey(notebook: Notebook): string {
+  return [notebook.name, notebook.defaultBackgroundColor, isoDate(notebook.createdAt)].join("\u0000");
+}
+
+// Notes show their images through links such as ![photo](/api/attachments/12)
+const ATTACHMENT_LINK_PATTERN = /\/api\/attachments\/([A-Za-z0-9_-]+)/g;
+
+// The content with each attachment link given a new ID; links `replace`
+// returns undefined for are left as they are
+function replaceAttachmentLinks(content: string, replace: (id: string) => string | undefined): string {
+  return content.replace(ATTACHMENT_LINK_PATTERN, (link, id: string) => {
+    const replacement = replace(id);
+    return replacement === undefined ? link : `/api/attachments/${replacement}`;
+  });
+}
+
+/**
+ * Hash everything that must survive a migration, ignoring backend IDs.
+ * Label and notebook references, and the attachment links in note content,
+ * are compared by their content, and references to ones that do not exist
+ * are ignored (they are dropped when copying).
+ */
+function userDigest(
+  user: User,
+  labels: Label[],
+  notebooks: Notebook[],
+  templates: Template[],
+  notes: Note[],
+  attachmentsByNote: Map<string, Attachment[]>,
+  notifications: Notification[]
+): string {
+  const labelNodes = flattenLabelTree(buildLabelTree(labels));
+  const labelsById = new Map(labelNodes.map((label) => [label.id, labelKey(label)]));
+  const notebooksById = new Map(notebooks.map((notebook) => [notebook.id, notebookKey(notebook)]));
+  const attachmentsById = new Map(
+    Array.from(attachmentsByNote.values()).flat().map((attachment) => [attachment.id, attachmentKey(attachment)])
+  );
+
+  const labelLines = labelNodes.map(labelKey).sort();
+  const notebookLines = notebooks.map(notebookKey).sort();
+  const labelKeys = (ids: string[] | null) =>
+    (ids || [])
+      .map((id) => labelsById.get(id))
+      .filter((key): key is string => key !== undefined)
+      .sort()
+      .join("\u0001");
+  const templateLines = templates
+    .map((template) =>
+      [
+        template.name,
+        template.title,
+        template.content,
+        template.type,
+        labelKeys(template.labels),
+        isoDate(template.createdAt),
+        isoDate(template.updatedAt)
+      ].join("\u0000")
+    )
+    .sort();
+  const noteLines = notes
+    .map((note) =>
+      [
+        note.title,
+        replaceAttachmentLinks(note.content, (id) => attachmentsById.get(id)),
+        note.summary ?? "",
+        note.type,
+        JSON.stringify(note.items ?? null),
+        note.pinned,
+        note.archived,
+        note.backgroundColor ?? "",
+        note.fontSize ?? "",
+        note.textFormatting ?? "",
+        labelKeys(note.labels),
+        (note.notebookId && notebooksById.get(note.notebookId)) ?? "",
+        (attachmentsByNote.get(note.id) ?? []).map(attachmentKey).sort().join("\u0001"),
+        isoDate(note.remindAt),
+        note.recurrence ?? "",
+        isoDate(note.reminderSentAt),
+        isoDate(note.dueAt),
+        note.journalDate ?? "",
+        isoDate(note.deletedAt),
+        note.version,
+        isoDate(note.createdAt),
+        isoDate(note.updatedAt)
+      ].join("\u0000")
+    )
+    .sort();
+
+  return createHash("sha256")
+    .update([user.email, user.name, user.password, isoDate(user.createdAt)].join("\u0000"))
+    .update("\u0002" + labelLines.join("\u0002"))
+    .update("\u0004" + notebookLines.join("\u0004"))
+    .update("\u0003" + noteLines.join("\u0003"))
+    .update("\u0005" + notifications.map(notificationKey).sort().join("\u0005"))
+    .update("\u0006" + templateLines.join("\u0006"))
+    .digest("hex");
+}
+
+// Note lists leave out the trash, but trashed notes are migrated too
+async function allNotes(storage: IStorage, userId: string): Promise<Note[]> {
+  return [
+    ...(await storage.getNotesByUserId(userId)),
+    ...(await storage.getTrashedNotesByUserId(userId))
+  ];
+}
+
+// Only the accounts in `emails` are counted when it is given
+export async function summarize(storage: IStorage, emails?: Set<string>): Promise<Totals> {
+  const totals = { users: 0, labels: 0, notebooks: 0, templates: 0, notes: 0, attachments: 0, notifications: 0 };
+  const digests: string[] = [];
+
+  for (const user of await storage.getAllUsers()) {
+    if (emails && !emails.has(user.email)) continue;
+
+    const labels = await storage.getLabelsByUserId(user.id);
+    const notebooks = await storage.getNotebooksByUserId(user.id);
+    const templates = await storage.getTemplatesByUserId(user.id);
+    const notes = await allNotes(storage, user.id);
+    const attachmentsByNote = new Map<string, Attachment[]>();
+    for (const note of notes) {
+      attachmentsByNote.set(note.id, await storage.getAttachmentsByNoteId(note.id));
+    }
+    // Like dangling references, notifications about missing notes are not copied
+    const noteIds = new Set(notes.map((note) => note.id));
+    const notifications = (await storage.getNotificationsByUserId(user.id)).filter((notification) =>
+      noteIds.has(notification.noteId)
+    );
+
+    totals.users++;
+    totals.labels += labels.length;
+    totals.notebooks += notebooks.length;
+    totals.templates += templates.length;
+    totals.notes += notes.length;
+    totals.attachments += Array.from(attachmentsByNote.values()).reduce((sum, list) => sum + list.length, 0);
+    totals.notifications += notifications.length;
+    digests.push(`${user.email}:${userDigest(user, labels, notebooks, templates, notes, attachmentsByNote, notifications)}`);
+  }
+
+  const checksum = createHash("sha256").update(digests.sort().join("\n")).digest("hex");
+  return { ...totals, checksum };
+}
+
+function printTotals(title: string, totals: Totals) {
+  console.log(`${title}: ${totals.users} users, ${totals.labels} labels, ${totals.notebooks} notebooks, ${totals.templates} templates, ${totals.notes} notes, ${totals.attachments} attachments, ${totals.notifications} notifications, checksum ${totals.checksum}`);
+}
+
+// Copy one user at a time so memory use is bounded by the largest account
+export async function copy(source: IStorage, target: IStorage): Promise<void> {
+  for (const user of await source.getAllUsers()) {
+    const { id: sourceUserId, ...userData } = user;
+    const copiedUser = await target.importUser(userData);
+
+    // Parents come before their children, so their new IDs are known
+    const labelIds = new Map<string, string>();
+    const labelTree = buildLabelTree(await source.getLabelsByUserId(sourceUserId));
+    for (const label of flattenLabelTree(labelTree)) {
+      const { id: sourceLabelId, path: _path, children: _children, ...labelData } = label;
+      const parentId = label.parentId ? labelIds.get(label.parentId)! : null;
+      const copiedLabel = await target.importLabel({ ...labelData, userId: copiedUser.id, parentId });
+      labelIds.set(sourceLabelId, copiedLabel.id);
+    }
+
+    const notebookIds = new Map<string, string>();
+    for (const notebook of await source.getNotebooksByUserId(sourceUserId)) {
+      const { id: sourceNotebookId, ...notebookData } = notebook;
+      const copiedNotebook = await target.importNotebook({ ...notebookData, userId: copiedUser.id });
+      notebookIds.set(sourceNotebookId, copiedNotebook.id);
+    }
+
+    let dangling = 0;
+    const copyLabels = (ids: string[] | null) =>
+      (ids || []).flatMap((labelId) => {
+        const copiedLabelId = labelIds.get(labelId);
+        if (copiedLabelId === undefined) {
+          dangling++;
+          return [];
+        }
+        return [copiedLabelId];
+      });
+
+    const templates = await source.getTemplatesByUserId(sourceUserId);
+    for (const template of templates) {
+      const { id: _sourceTemplateId, ...templateData } = template;
+      await target.importTemplate({ ...templateData, userId: copiedUser.id, labels: copyLabels(template.labels) });
+    }
+
+    const attachmentIds = new Map<string, string>();
+    const noteIds = new Map<string, string>();
+    const notes = await allNotes(source, sourceUserId);
+    for (const note of notes) {
+      const { id: sourceNoteId, ...noteData } = note;
+      const labels = copyLabels(note.labels);
+
+      const notebookId = note.notebookId ? notebookIds.get(note.notebookId) ?? null : null;
+      if (note.notebookId && !notebookId) dangling++;
+
+      const copiedNote = await target.importNote({ ...noteData, userId: copiedUser.id, labels, notebookId });
+      noteIds.set(sourceNoteId, copiedNote.id);
+
+      // Records only; the copy points at the same file in the blob store
+      for (const attachment of await source.getAttachmentsByNoteId(sourceNoteId)) {
+        const { id: sourceAttachmentId, ...attachmentData } = attachment;
+        const copiedAttachment = await target.importAttachment({ ...attachmentData, noteId: copiedNote.id, userId: copiedUser.id });
+        attachmentIds.set(sourceAttachmentId, copiedAttachment.id);
+      }
+    }
+
+    // Attachments get new IDs, so the image links in notes are pointed at them
+    // once every note's attachments are copied; a note can show another's
+    for (const note of notes) {
+      const content = replaceAttachmentLinks(note.content, (id) => attachmentIds.get(id));
+      if (content !== note.content) {
+        await target.importNoteContent(noteIds.get(note.id)!, content);
+      }
+    }
+
+    // Oldest first, so they keep their order in the target
+    const notifications = (await source.getNotificationsByUserId(sourceUserId)).reverse();
+    for (const notification of notifications) {
+      const { id: _sourceNotificationId, ...notificationData } = notification;
+      const noteId = noteIds.get(notification.noteId);
+      if (!noteId) {
+        dangling++;
+        continue;
+      }
+      await target.importNotification({ ...notificationData, noteId, userId: copiedUser.id });
+    }
+
+    console.log(`Copied ${user.email}: ${labelIds.size} labels, ${notebookIds.size} notebooks, ${templates.length} templates, ${notes.length} notes, ${attachmentIds.size} attachments, ${notifications.length} notifications`);
+    if (dangling > 0) {
+      console.warn(`  Dropped ${dangling} references to labels, notebooks or notes that no longer exist`);
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      verify: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help || !values.from || !values.to) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (values["dry-run"] && values.verify) {
+    throw new Error("--dry-run and --verify cannot be combined");
+  }
+
+  const source = openStorage(values.from);
+  const target = openStorage(values.to);
+
+  try {
+    await Promise.all([source.ready(), target.ready()]);
+
+    const sourceTotals = await summarize(source);
+    printTotals("Source", sourceTotals);
+
+    if (values["dry-run"]) {
+      console.log("Dry run: nothing was written");
+      return;
+    }
+
+    if (!values.verify) {
+      // Refuse to merge into existing accounts; IDs would not line up
+      const conflicts: string[] = [];
+      for (const user of await source.getAllUsers()) {
+        if (await target.getUserByEmail(user.email)) {
+          conflicts.push(user.email);
+        }
+      }
+      if (conflicts.length > 0) {
+        throw new Error(`Target already has users with these emails: ${conflicts.join(", ")}`);
+      }
+
+      await copy(source, target);
+    }
+
+    // The target may hold other accounts; compare only the migrated ones
+    const emails = new Set((await source.getAllUsers()).map((user) => user.email));
+    const targetTotals = await summarize(target, emails);
+    printTotals("Target", targetTotals);
+
+    if (
+      targetTotals.users !== sourceTotals.users ||
+      targetTotals.labels !== sourceTotals.labels ||
+      targetTotals.notebooks !== sourceTotals.notebooks ||
+      targetTotals.templates !== sourceTotals.templates ||
+      targetTotals.notes !== sourceTotals.notes ||
+      targetTotals.attachments !== sourceTotals.attachments ||
+      targetTotals.notifications !== sourceTotals.notifications ||
+      targetTotals.checksum !== sourceTotals.checksum
+    ) {
+      throw new Error("Verification failed: source and target differ");
+    }
+    console.log(values.verify ? "Verification passed" : "Migration complete and verified");
+  } finally {
+    await Promise.allSettled([source.close(), target.close()]);
+  }
+}
+
+// Only when run as a script, so tests can import copy() and summarize()
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,94 @@
+import path from "path";
+
+// Leading bytes of a file format; null matches any byte
+interface Signature {
+  mimeType: string;
+  bytes: (number | null)[];
+  offset?: number;
+}
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+const signatures: Signature[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: ascii("GIF87a") },
+  { mimeType: "image/gif", bytes: ascii("GIF89a") },
+  { mimeType: "image/webp", bytes: [...ascii("RIFF"), null, null, null, null, ...ascii("WEBP")] },
+  { mimeType: "application/pdf", bytes: ascii("%PDF-") },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: "application/x-ole-storage", bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mimeType: "audio/mpeg", bytes: ascii("ID3") },
+  { mimeType: "video/mp4", bytes: ascii("ftyp"), offset: 4 },
+];
+
+// Office documents are zip or OLE containers; the extension tells which kind
+const containerTypes: Record<string, Record<string, string>> = {
+  "application/zip": {
+    ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ".odt": "application/vnd.oasis.opendocument.text",
+    ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+    ".odp": "application/vnd.oasis.opendocument.presentation",
+  },
+  "application/x-ole-storage": {
+    ".doc": "application/msword",
+    ".xls": "application/vnd.ms-excel",
+    ".ppt": "application/vnd.ms-powerpoint",
+  },
+};
+
+const textTypes: Record<string, string> = {
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".md": "text/markdown",
+};
+
+// How much of a file is looked at to tell text from binary
+const TEXT_SAMPLE_BYTES = 8192;
+
+function matches(data: Buffer, { bytes, offset = 0 }: Signature): boolean {
+  if (data.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => byte === null || data[offset + index] === byte);
+}
+
+function looksLikeText(data: Buffer): boolean {
+  const sample = data.subarray(0, TEXT_SAMPLE_BYTES);
+  if (sample.includes(0)) return false;
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The type of a file judged by its content; the name only picks between
+ * formats that look alike (e.g. .xlsx and .docx are both zip files). Markup
+ * such as HTML or SVG is reported as plain text, so it is never rendered.
+ */
+export function sniffMimeType(data: Buffer, filename: string): string {
+  const extension = path.extname(filename).toLowerCase();
+
+  const signature = signatures.find((candidate) => matches(data, candidate));
+  if (signature) {
+    return containerTypes[signature.mimeType]?.[extension] ?? signature.mimeType;
+  }
+
+  if (data.length > 0 && looksLikeText(data)) {
+    return textTypes[extension] ?? "text/plain";
+  }
+  return "application/octet-stream";
+}
+
+// Types a browser may show in place; everything else is downloaded
+const inlineTypes = new Set(["image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"]);
+
+export function isInlineMimeType(mimeType: string): boolean {
+  return inlineTypes.has(mimeType);
+}
+
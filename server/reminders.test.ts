@@ -0,0 +1,170 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "./storage/memory";
+import { FileStorage } from "./storage/file";
+import type { IStorage } from "./storage/types";
+import { ReminderError, sendDueReminders, skipReminder, startReminderScheduler, withReminderFields } from "./reminders";
+
+const DAILY = "DTSTART:20261019T090000Z\nRRULE:FREQ=DAILY";
+
+async function createUser(storage: IStorage) {
+  return storage.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+}
+
+// A note with a reminder, stored as the notes routes would store it
+async function createReminder(
+  storage: IStorage,
+  userId: string,
+  reminder: { remindAt?: Date; recurrence?: string },
+  now = new Date("2026-10-19T08:00:00Z")
+) {
+  return storage.createNote(withReminderFields({ userId, title: "Water the plants", content: "", ...reminder }, undefined, now));
+}
+
+describe("sendDueReminders", () => {
+  it("sends a due one-off reminder once", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { remindAt: new Date("2026-10-19T09:00:00Z") });
+
+    expect(await sendDueReminders(storage, new Date("2026-10-19T08:59:00Z"))).toBe(0);
+    expect(await sendDueReminders(storage, new Date("2026-10-19T09:00:30Z"))).toBe(1);
+    expect(await sendDueReminders(storage, new Date("2026-10-19T09:01:00Z"))).toBe(0);
+
+    expect(await storage.getNotificationsByUserId(user.id)).toMatchObject([
+      { noteId: note.id, type: "reminder", title: "Water the plants" },
+    ]);
+  });
+
+  it("moves a repeating reminder on, sending occurrences missed meanwhile as one", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: DAILY });
+    expect(note.remindAt).toEqual(new Date("2026-10-19T09:00:00Z"));
+
+    expect(await sendDueReminders(storage, new Date("2026-10-19T09:00:30Z"))).toBe(1);
+    expect((await storage.getNoteById(note.id))?.remindAt).toEqual(new Date("2026-10-20T09:00:00Z"));
+
+    expect(await sendDueReminders(storage, new Date("2026-10-23T12:00:00Z"))).toBe(1);
+    expect((await storage.getNoteById(note.id))?.remindAt).toEqual(new Date("2026-10-24T09:00:00Z"));
+    expect(await storage.getNotificationsByUserId(user.id)).toHaveLength(2);
+  });
+
+  it("keeps the last reminder of a rule that has ended, sent", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: `${DAILY};COUNT=1` });
+
+    expect(await sendDueReminders(storage, new Date("2026-10-19T09:00:30Z"))).toBe(1);
+    expect(await sendDueReminders(storage, new Date("2026-10-20T09:00:30Z"))).toBe(0);
+    expect(await storage.getNoteById(note.id)).toMatchObject({
+      remindAt: new Date("2026-10-19T09:00:00Z"),
+      reminderSentAt: new Date("2026-10-19T09:00:30Z"),
+    });
+  });
+});
+
+describe("skipReminder", () => {
+  it("moves past the next occurrence without sending it", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: DAILY });
+
+    const skipped = await skipReminder(storage, note, new Date("2026-10-19T08:30:00Z"));
+    expect(skipped?.remindAt).toEqual(new Date("2026-10-20T09:00:00Z"));
+    expect(await sendDueReminders(storage, new Date("2026-10-19T09:00:30Z"))).toBe(0);
+  });
+
+  it("skips a due reminder that has not been sent yet", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: DAILY });
+
+    const skipped = await skipReminder(storage, note, new Date("2026-10-19T09:00:10Z"));
+    expect(skipped?.remindAt).toEqual(new Date("2026-10-20T09:00:00Z"));
+  });
+
+  it("clears the reminder when skipping the last occurrence", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: `${DAILY};COUNT=2` });
+    const now = new Date("2026-10-19T08:30:00Z");
+
+    const first = await skipReminder(storage, note, now);
+    const second = await skipReminder(storage, first!, now);
+    expect(second?.remindAt).toBeNull();
+  });
+
+  it("works from the stored reminder when the note passed in is stale", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: DAILY });
+    await sendDueReminders(storage, new Date("2026-10-19T09:00:30Z"));
+
+    const skipped = await skipReminder(storage, note, new Date("2026-10-19T10:00:00Z"));
+    expect(skipped?.remindAt).toEqual(new Date("2026-10-21T09:00:00Z"));
+  });
+
+  it("refuses a note without a repeating reminder", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { remindAt: new Date("2026-10-19T09:00:00Z") });
+
+    await expect(skipReminder(storage, note)).rejects.toThrow(ReminderError);
+  });
+});
+
+describe("startReminderScheduler", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("sends reminders at startup and as they come due, until stopped", async () => {
+    vi.useFakeTimers({ now: new Date("2026-10-19T08:59:50Z") });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await createUser(storage);
+    await createReminder(storage, user.id, { remindAt: new Date("2026-10-19T08:00:00Z") });
+    await createReminder(storage, user.id, { recurrence: DAILY });
+
+    const stop = startReminderScheduler(storage);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await storage.getNotificationsByUserId(user.id)).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    expect(await storage.getNotificationsByUserId(user.id)).toHaveLength(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(await storage.getNotificationsByUserId(user.id)).toHaveLength(2);
+  });
+});
+
+describe("reminders across a restart", () => {
+  let dir: string;
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("sends what came due while the server was down, and nothing twice", async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "notekeeper-reminders-test-"));
+    let storage = new FileStorage(dir);
+    const user = await createUser(storage);
+    const note = await createReminder(storage, user.id, { recurrence: DAILY });
+    await storage.close();
+
+    storage = new FileStorage(dir);
+    expect(await sendDueReminders(storage, new Date("2026-10-19T12:00:00Z"))).toBe(1);
+    await storage.close();
+
+    storage = new FileStorage(dir);
+    expect(await sendDueReminders(storage, new Date("2026-10-19T12:00:30Z"))).toBe(0);
+    expect((await storage.getNoteById(note.id))?.remindAt).toEqual(new Date("2026-10-20T09:00:00Z"));
+    expect(await storage.getNotificationsByUserId(user.id)).toHaveLength(1);
+    await storage.close();
+  });
+});
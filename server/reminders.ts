@@ -0,0 +1,149 @@
+import type { Note } from "@shared/schema";
+import { nextOccurrence, parseRecurrence } from "@shared/recurrence";
+import type { IStorage } from "./storage/types";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+// Attempts at skipping a reminder the scheduler keeps moving
+const MAX_SKIP_ATTEMPTS = 5;
+
+// A reminder change that cannot be made
+export class ReminderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReminderError";
+  }
+}
+
+// The first occurrence of the note's repeat rule after `after`; null once it has ended
+function nextReminder(note: Pick<Note, "recurrence">, after: Date): Date | null {
+  return note.recurrence ? nextOccurrence(parseRecurrence(note.recurrence), after) : null;
+}
+
+/**
+ * The reminder fields to store for a new or changed note. A repeating
+ * reminder's remindAt is its next occurrence: it is worked out here when the
+ * rule is new or changed and moved on by the scheduler after that, so the
+ * remindAt sent along with an unchanged rule is ignored.
+ */
+export function withReminderFields<T extends { remindAt?: Date | null; recurrence?: string | null }>(
+  data: T,
+  existing?: Note,
+  now: Date = new Date()
+): T {
+  const recurrence = data.recurrence !== undefined ? data.recurrence : existing?.recurrence ?? null;
+  if (!recurrence) {
+    return data;
+  }
+  if (existing && existing.recurrence === recurrence) {
+    return { ...data, remindAt: undefined };
+  }
+  // Occurrences from before the rule was set are not sent
+  return { ...data, remindAt: nextReminder({ recurrence }, new Date(now.getTime() - 1)) };
+}
+
+/**
+ * Sends a notification for every reminder that is due. What has been sent is
+ * kept with the notes, so reminders that came due while the server was down
+ * go out when it starts again, and each one is sent once even with several
+ * servers sharing the storage. A repeating reminder then moves on to its
+ * first occurrence after `now`; occurrences missed while the server was down
+ * are sent as one.
+ * @returns How many reminders were sent
+ */
+export async function sendDueReminders(storage: IStorage, now: Date = new Date()): Promise<number> {
+  let sent = 0;
+  for (const note of await storage.getDueReminders(now)) {
+    if (!note.remindAt) continue;
+    // Once the rule has ended the last reminder stays, like a one-off
+    const next = nextReminder(note, now) ?? undefined;
+    if (!(await storage.advanceReminder(note.id, new Date(note.remindAt), { sentAt: now, next }))) {
+      continue;
+    }
+    await storage.createNotification({ userId: note.userId, noteId: note.id, type: "reminder", title: note.title });
+    sent++;
+  }
+  return sent;
+}
+
+/**
+ * Moves a repeating reminder past its next occurrence without sending it;
+ * skipping the last occurrence clears the reminder
+ * @returns The updated note, or null if it is gone
+ * @throws ReminderError if the note has no pending repeating reminder
+ */
+export async function skipReminder(storage: IStorage, note: Note, now: Date = new Date()): Promise<Note | null> {
+  let current = note;
+  for (let attempt = 1; ; attempt++) {
+    if (!current.recurrence || !current.remindAt) {
+      throw new ReminderError("This note has no repeating reminder to skip");
+    }
+    const remindAt = new Date(current.remindAt);
+    // A reminder that is due but not sent yet is the one skipped
+    const after = remindAt.getTime() > now.getTime() ? remindAt : now;
+    if (await storage.advanceReminder(current.id, remindAt, { next: nextReminder(current, after) })) {
+      return storage.getNoteById(current.id);
+    }
+
+    // The reminder moved meanwhile; skip from where it is now
+    const reloaded = await storage.getNoteById(current.id);
+    if (!reloaded) return null;
+    if (attempt === MAX_SKIP_ATTEMPTS) {
+      throw new ReminderError("The reminder keeps changing, try again");
+    }
+    current = reloaded;
+  }
+}
+
+/**
+ * Sends due reminders once at startup and then every 30 seconds
+ * @returns A function that stops the scheduler
+ */
+export function startReminderScheduler(storage: IStorage): () => void {
+  let running = false;
+  const check = async () => {
+    // A slow storage must not make runs pile up
+    if (running) return;
+    running = true;
+    try {
+      const sent = await sendDueReminders(storage);
+      if (sent > 0) {
+        console.log(`Sent ${sent} reminders`);
+      }
+    } catch (error) {
+      console.error("Sending reminders failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  // Never keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+// When a note with a reminder or due date next needs attention
+export function reminderTime(note: Note): Date | null {
+  const times = [note.remindAt, note.dueAt]
+    .filter((time): time is Date => !!time)
+    .map((time) => new Date(time).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+/**
+ * Splits the notes with a reminder or due date into overdue ones (past their
+ * due date, or past their reminder when they have none) and upcoming ones,
+ * each soonest first
+ */
+export function groupReminders(notes: Note[], now: Date = new Date()): { overdue: Note[]; upcoming: Note[] } {
+  const isOverdue = (note: Note) => {
+    const deadline = note.dueAt ?? note.remindAt;
+    return !!deadline && new Date(deadline).getTime() < now.getTime();
+  };
+  const sorted = notes
+    .filter((note) => reminderTime(note) !== null)
+    .sort((a, b) => reminderTime(a)!.getTime() - reminderTime(b)!.getTime());
+  return { overdue: sorted.filter(isOverdue), upcoming: sorted.filter((note) => !isOverdue(note)) };
+}
@@ -1,10 +1,26 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, decodeNoteCursor, decodeSearchCursor, NoteVersionConflictError, type NoteBatchChange } from "./storage";
 import jwt from "jsonwebtoken";
-import { insertUserSchema, loginUserSchema, insertNoteSchema, updateNoteSchema, insertLabelSchema, updateLabelSchema } from "@shared/schema";
+import { insertUserSchema, loginUserSchema, insertNoteSchema, updateNoteSchema, insertLabelSchema, updateLabelSchema, noteListQuerySchema, searchQuerySchema, labelListQuerySchema, graphQuerySchema, insertNotebookSchema, updateNotebookSchema, insertTemplateSchema, updateTemplateSchema, templateNoteSchema, journalDateSchema, dailyListQuerySchema, dailyNoteQuerySchema, moveNoteSchema, bulkNoteSchema, markNotificationsReadSchema, insertChecklistItemSchema, updateChecklistItemSchema, reorderChecklistSchema, type ChecklistItem, type Note, type BulkNoteRequest, type BulkNoteResult } from "@shared/schema";
 import bcrypt from "bcrypt";
+import multer from "multer";
+import os from "os";
 import { summarizeNote } from "./openai";
+import { diffLines } from "@shared/diff";
+import { purgeDate } from "./trash";
+import { blobStore } from "./blobs";
+import { attachmentLimits, AttachmentQuotaError, removeAttachment, saveAttachment } from "./attachments";
+import { isInlineMimeType } from "./mimeSniff";
+import { itemsFromText } from "@shared/checklist";
+import { addItem, changeChecklist, ChecklistError, moveCheckedToBottom, removeItem, reorderItems, updateItem, withChecklistFields } from "./checklist";
+import { groupReminders, ReminderError, skipReminder, withReminderFields } from "./reminders";
+import { resolveLinks, rewriteInboundLinks } from "./links";
+import { buildGraph } from "./graph";
+import { noteFromTemplate } from "./templates";
+import { getOrCreateDailyNote } from "./daily";
+import { importEnex, importKeep, MAX_IMPORT_BYTES, NoteImporter } from "./import";
+import { buildLabelTree, createsCycle, descendantIds, ensureLabelPath, findSibling, flattenLabelTree, getLabelNode } from "./labelTree";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
@@ -30,6 +46,140 @@ const authenticateToken = (req: Request, res: Response, next: Function) => {
   }
 };
 
+// A note's ETag is its version; clients send it back in If-Match
+const noteETag = (note: Note) => `"${note.version}"`;
+
+// The note version an If-Match header asks for: undefined when the header is
+// missing or "*", null when it is not a note ETag
+function parseIfMatch(req: Request): number | undefined | null {
+  const header = req.headers["if-match"]?.trim();
+  if (!header || header === "*") return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  return match ? Number(match[1]) : null;
+}
+
+// Notifications returned by GET /api/notifications
+const NOTIFICATION_LIST_LIMIT = 50;
+
+// Uploads are held in memory (up to the size limit) until they are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: attachmentLimits.maxFileBytes, files: 1 },
+  defParamCharset: "utf8"
+});
+
+// Reads one uploaded file from the "file" field into req.file
+function receiveFile(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        const maxMB = Math.floor(attachmentLimits.maxFileBytes / (1024 * 1024));
+        return res.status(413).json({ message: `Files can be at most ${maxMB} MB` });
+      }
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+}
+
+// Imports are written to temporary files, since exports such as a Google
+// Takeout can be far larger than memory. MAX_IMPORT_BYTES covers the whole
+// request, so many files cannot add up to more disk than one could use
+// Enough for the files of a Keep folder; larger exports are uploaded as a zip
+const MAX_IMPORT_FILES = 1000;
+const importUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_IMPORT_BYTES, files: MAX_IMPORT_FILES },
+  defParamCharset: "utf8"
+});
+
+const importTooLargeMessage = `Imports can be at most ${MAX_IMPORT_BYTES / (1024 * 1024 * 1024)} GB in total`;
+
+// Reads the files of an import from the "files" field into req.files
+function receiveImportFiles(req: Request, res: Response, next: NextFunction) {
+  // Uploads that announce their size are refused before anything is written
+  if (Number(req.headers["content-length"]) > MAX_IMPORT_BYTES) {
+    return res.status(413).set("Connection", "close").json({ message: importTooLargeMessage });
+  }
+
+  // A chunked upload does not, so its bytes are counted as they arrive. Past
+  // the limit the connection is dropped, and multer removes the files it wrote
+  let received = 0;
+  let dropped = false;
+  const countBytes = (chunk: Buffer) => {
+    received += chunk.length;
+    if (received > MAX_IMPORT_BYTES && !dropped) {
+      dropped = true;
+      req.destroy(new Error(importTooLargeMessage));
+    }
+  };
+  req.on("data", countBytes);
+
+  importUpload.array("files")(req, res, (error: unknown) => {
+    req.off("data", countBytes);
+    if (dropped) return;
+    if (error instanceof multer.MulterError) {
+      switch (error.code) {
+        case "LIMIT_FILE_SIZE":
+          return res.status(413).json({ message: importTooLargeMessage });
+        case "LIMIT_FILE_COUNT":
+          return res.status(400).json({ message: `At most ${MAX_IMPORT_FILES} files can be imported at once; upload the export's zip instead` });
+        default:
+          return res.status(400).json({ message: error.message });
+      }
+    }
+    next(error);
+  });
+}
+
+// Content-Disposition with a UTF-8 file name and a plain ASCII fallback
+function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// The user's notebook with this ID, or null if they have none
+async function findOwnNotebook(userId: string, notebookId: string) {
+  const notebook = await storage.getNotebookById(notebookId);
+  return notebook && notebook.userId === userId ? notebook : null;
+}
+
+// Label groups for NoteQuery: each label matches itself or, if asked, any
+// label below it
+async function labelFilter(userId: string, labelIds: string[], includeDescendants: boolean): Promise<string[][]> {
+  const labels = includeDescendants && labelIds.length > 0 ? await storage.getLabelsByUserId(userId) : [];
+  return labelIds.map((labelId) =>
+    includeDescendants ? [labelId, ...descendantIds(labels, labelId)] : [labelId]
+  );
+}
+
+// 409 with the stored copy so the client can merge or overwrite
+function sendVersionConflict(res: Response, error: NoteVersionConflictError) {
+  return res
+    .status(409)
+    .set("ETag", noteETag(error.current))
+    .json({ message: "Note was changed since you loaded it", note: error.current });
+}
+
+// The storage change a bulk note operation makes
+function bulkNoteChange(request: BulkNoteRequest): NoteBatchChange {
+  switch (request.operation) {
+    case "archive":
+    case "unarchive":
+      return { type: "archived", value: request.operation === "archive" };
+    case "pin":
+    case "unpin":
+      return { type: "pinned", value: request.operation === "pin" };
+    case "delete":
+      return { type: "trash" };
+    case "addLabel":
+    case "removeLabel":
+      return { type: request.operation, labelId: request.labelId };
+    case "setColor":
+      return { type: "backgroundColor", value: request.color };
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
@@ -141,43 +291,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ===== Notes Routes =====
-  // Get all notes for the authenticated user
+  // Get a page of the authenticated user's notes, filtered and sorted by the
+  // query string; pass nextCursor back as ?cursor= for the following page
   app.get("/api/notes", authenticateToken, async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user.id;
-      console.log("GET /api/notes - User ID from token:", userId, "Type:", typeof userId);
+      const query = noteListQuerySchema.parse(req.query);
       
-      // Get the user to verify their existence
-      const user = await storage.getUser(userId);
-      console.log("User found:", user);
-      
-      // Get query parameters
-      const showArchived = req.query.archived === 'true';
-      const labelId = req.query.labelId as string | undefined;
-      
-      // Fetch all notes for the user
-      let notes = await storage.getNotesByUserId(String(userId));
-      console.log("Notes found for user:", notes);
-      
-      // Filter by archive status - only show the correct notes based on archival status
-      if (showArchived) {
-        // Only show archived notes when in archive view
-        notes = notes.filter(note => note.archived === true);
-      } else {
-        // Only show non-archived notes in regular view
-        notes = notes.filter(note => note.archived !== true);
+      if (query.cursor && !decodeNoteCursor(query.cursor, query.sort)) {
+        return res.status(400).json({ message: "Invalid cursor" });
       }
       
-      // Filter by label if specified
-      if (labelId) {
-        notes = notes.filter(note => 
-          note.labels && 
-          note.labels.includes(labelId)
-        );
-      }
+      const labelIds = [...(query.labelIds ?? []), ...(query.labelId ? [query.labelId] : [])];
+      const labelGroups = await labelFilter(String(userId), labelIds, query.includeDescendants);
+      
+      const page = await storage.queryNotes(String(userId), {
+        archived: query.archived,
+        pinned: query.pinned,
+        notebookId: query.notebookId === "none" ? null : query.notebookId,
+        labelGroups,
+        text: query.q || undefined,
+        sort: query.sort,
+        cursor: query.cursor,
+        limit: query.limit
+      });
       
-      res.json(notes);
+      res.json(page);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error getting notes:", error);
       res.status(500).json({ message: "Failed to get notes" });
     }
@@ -196,13 +339,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Ensure the note belongs to the authenticated user
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(note);
+      res.set("ETag", noteETag(note)).json(note);
     } catch (error) {
       console.error("Error getting note:", error);
       res.status(500).json({ message: "Failed to get note" });
@@ -213,11 +354,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/notes", authenticateToken, async (req: Request, res: Response) => {
     try {
       console.log("POST /api/notes - Request body:", req.body);
-      const noteData = insertNoteSchema.parse(req.body);
+      const noteData = withReminderFields(withChecklistFields(insertNoteSchema.parse(req.body)));
       const userId = (req as any).user.id;
       console.log("Creating note for user ID:", userId);
       const generateSummary = req.body.generateSummary === true;
       
+      // Notes in a notebook start with its background color
+      if (noteData.notebookId) {
+        const notebook = await findOwnNotebook(String(userId), noteData.notebookId);
+        if (!notebook) {
+          return res.status(400).json({ message: "Notebook not found" });
+        }
+        noteData.backgroundColor ??= notebook.defaultBackgroundColor;
+      }
+      
       // Create the note
       const note = await storage.createNote({
         ...noteData,
@@ -230,12 +380,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (generateSummary && process.env.OPENAI_API_KEY) {
         try {
           const summary = await summarizeNote(noteData.content);
-          // Convert numeric id to string if needed
-          const noteIdStr = typeof note.id === 'number' ? String(note.id) : note.id;
-          const updatedNote = await storage.updateNote(noteIdStr, {
-            ...noteData,
-            summary
-          });
+          const updatedNote = await storage.updateNote(note.id, { summary });
           console.log("Note updated with summary:", updatedNote);
           return res.status(201).json(updatedNote);
         } catch (summaryError) {
@@ -258,13 +403,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update a note
+  // Update a note. Send the note's ETag in If-Match to update only the
+  // version you loaded; a stale version gets a 409 with the stored copy
   app.put("/api/notes/:id", authenticateToken, async (req: Request, res: Response) => {
     try {
       const noteId = req.params.id;
       const noteData = updateNoteSchema.parse(req.body);
       const userId = (req as any).user.id;
       const generateSummary = req.body.generateSummary === true;
+      // Point [[links]] to the old title at the new one
+      const rewriteLinks = req.body.rewriteLinks === true;
+      
+      const expectedVersion = parseIfMatch(req);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a note ETag" });
+      }
       
       // Check if note exists and belongs to user
       const existingNote = await storage.getNoteById(noteId);
@@ -272,44 +425,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof existingNote.userId === 'number' ? userId : parseInt(userId, 10);
-      if (existingNote.userId !== userIdNum) {
+      // Ensure it belongs to the authenticated user
+      if (existingNote.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
+      if (noteData.notebookId && !(await findOwnNotebook(String(userId), noteData.notebookId))) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
       // Update the note
-      let updatedNote = await storage.updateNote(noteId, noteData);
+      let updatedNote = await storage.updateNote(
+        noteId,
+        withReminderFields(withChecklistFields(noteData, existingNote), existingNote),
+        expectedVersion
+      );
+      if (!updatedNote) {
+        return res.status(500).json({ message: "Failed to update note" });
+      }
+      
+      const linksRewritten = rewriteLinks ? await rewriteInboundLinks(storage, updatedNote, existingNote.title) : undefined;
       
       // Generate AI summary if requested
       if (generateSummary && process.env.OPENAI_API_KEY) {
         try {
-          const summary = await summarizeNote(noteData.content);
-          updatedNote = await storage.updateNote(noteId, {
-            ...noteData,
-            summary
-          });
+          const summary = await summarizeNote(updatedNote.content);
+          updatedNote = await storage.updateNote(noteId, { summary }) ?? updatedNote;
         } catch (summaryError) {
           console.error("Error generating summary:", summaryError);
           // Continue without updating summary
-          return res.json({
+          return res.set("ETag", noteETag(updatedNote)).json({
             ...updatedNote,
+            linksRewritten,
             summaryError: "Failed to generate summary"
           });
         }
       }
       
-      res.json(updatedNote);
+      res.set("ETag", noteETag(updatedNote)).json({ ...updatedNote, linksRewritten });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
       console.error("Error updating note:", error);
       res.status(500).json({ message: "Failed to update note" });
     }
   });
   
-  // Delete a note
+  // Move a note to the trash (see the Trash routes for permanent deletion)
   app.delete("/api/notes/:id", authenticateToken, async (req: Request, res: Response) => {
     try {
       const noteId = req.params.id;
@@ -321,31 +487,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      // Ensure it belongs to the authenticated user
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Delete the note
-      const deleted = await storage.deleteNote(noteId);
-      if (!deleted) {
-        return res.status(500).json({ message: "Failed to delete note" });
+      // Keep the original trash date if it is already there
+      if (!note.deletedAt) {
+        const trashed = await storage.trashNote(noteId);
+        if (!trashed) {
+          return res.status(500).json({ message: "Failed to delete note" });
+        }
       }
       
-      res.json({ message: "Note deleted successfully" });
+      res.json({ message: "Note moved to trash" });
     } catch (error) {
       console.error("Error deleting note:", error);
       res.status(500).json({ message: "Failed to delete note" });
     }
   });
   
+  // Apply one operation to many notes. Every note gets its own result, so
+  // notes that are missing or not the user's do not hold up the others
+  app.post("/api/notes/bulk", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const request = bulkNoteSchema.parse(req.body);
+      const userId = String((req as any).user.id);
+      
+      if (request.operation === "addLabel" || request.operation === "removeLabel") {
+        const label = await storage.getLabelById(request.labelId);
+        if (!label) {
+          return res.status(404).json({ message: "Label not found" });
+        }
+        if (label.userId !== userId) {
+          return res.status(403).json({ message: "Access denied for label" });
+        }
+      }
+      
+      // Check each note once, then change the user's notes in one go
+      const results: BulkNoteResult[] = [];
+      const ownIds: string[] = [];
+      for (const id of request.ids) {
+        const note = await storage.getNoteById(id);
+        if (!note) {
+          results.push({ id, status: "not_found" });
+        } else if (note.userId !== userId) {
+          results.push({ id, status: "forbidden" });
+        } else {
+          results.push({ id, status: "unchanged", note });
+          ownIds.push(id);
+        }
+      }
+      
+      const changed = await storage.updateNotes(ownIds, bulkNoteChange(request));
+      const changedById = new Map(changed.map((note) => [note.id, note]));
+      
+      res.json({
+        results: results.map((result) => {
+          const note = changedById.get(result.id);
+          return note ? { id: result.id, status: "updated", note } : result;
+        }),
+        updated: changed.length
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating notes in bulk:", error);
+      res.status(500).json({ message: "Failed to update notes" });
+    }
+  });
+  
   // Toggle pin status for a note
   app.patch("/api/notes/:id/pin", authenticateToken, async (req: Request, res: Response) => {
     try {
       const noteId = req.params.id;
       const userId = (req as any).user.id;
       
+      const expectedVersion = parseIfMatch(req);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a note ETag" });
+      }
+      
       // Check if the note exists
       const note = await storage.getNoteById(noteId);
       if (!note) {
@@ -353,28 +576,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if the user owns the note
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Toggle the pin status
-      const updatedNote = await storage.updateNote(noteId, {
-        ...note,
-        pinned: !note.pinned
-      });
+      // Toggle the pin status, unless the note changed since it was read
+      const updatedNote = await storage.updateNote(noteId, { pinned: !note.pinned }, expectedVersion ?? note.version);
       
       if (!updatedNote) {
         return res.status(500).json({ message: "Failed to update note" });
       }
       
-      res.json(updatedNote);
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
     } catch (error) {
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
       console.error("Error toggling note pin status:", error);
       res.status(500).json({ message: "Failed to update note" });
     }
   });
   
+  // Move a note into another notebook, or out of any with notebookId null
+  app.patch("/api/notes/:id/notebook", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      const { notebookId } = moveNoteSchema.parse(req.body);
+      
+      const expectedVersion = parseIfMatch(req);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a note ETag" });
+      }
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (notebookId && !(await findOwnNotebook(String(userId), notebookId))) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
+      const updatedNote = await storage.updateNote(noteId, { notebookId }, expectedVersion);
+      if (!updatedNote) {
+        return res.status(500).json({ message: "Failed to move note" });
+      }
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error moving note:", error);
+      res.status(500).json({ message: "Failed to move note" });
+    }
+  });
+  
   // Generate AI summary for note content
   app.post("/api/notes/:id/summary", authenticateToken, async (req: Request, res: Response) => {
     try {
@@ -392,9 +657,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      // Ensure it belongs to the authenticated user
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
@@ -402,10 +666,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const summary = await summarizeNote(note.content);
       
       // Update note with summary
-      const updatedNote = await storage.updateNote(noteId, {
-        ...note,
-        summary
-      });
+      const updatedNote = await storage.updateNote(noteId, { summary });
       
       res.json(updatedNote);
     } catch (error) {
@@ -414,170 +675,1308 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ===== Labels Routes =====
-  // Get all labels for the authenticated user
-  app.get("/api/labels", authenticateToken, async (req: Request, res: Response) => {
+  // ===== Search Routes =====
+  // Ranked full-text search over title, summary and content. Supports
+  // "quoted phrases" and prefix* words; results carry highlighted snippets.
+  // Takes the filters of GET /api/notes and pages the same way
+  app.get("/api/search", authenticateToken, async (req: Request, res: Response) => {
     try {
       const userId = (req as any).user.id;
-      const labels = await storage.getLabelsByUserId(String(userId));
-      res.json(labels);
+      const query = searchQuerySchema.parse(req.query);
+      
+      if (query.cursor && !decodeSearchCursor(query.cursor, query.sort)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const page = await storage.searchNotes(String(userId), query.q, {
+        archived: query.archived,
+        notebookId: query.notebookId === "none" ? null : query.notebookId,
+        labelGroups: await labelFilter(String(userId), query.labelIds ?? [], query.includeDescendants),
+        sort: query.sort,
+        cursor: query.cursor,
+        limit: query.limit
+      });
+      res.json(page);
     } catch (error) {
-      console.error("Error getting labels:", error);
-      res.status(500).json({ message: "Failed to get labels" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error searching notes:", error);
+      res.status(500).json({ message: "Failed to search notes" });
     }
   });
-  
-  // Get a single label by ID
-  app.get("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+
+  // ===== Link Routes =====
+  // The titles a note [[links]] to, each with the notes it may lead to
+  app.get("/api/notes/:id/links", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const labelId = req.params.id;
+      const noteId = req.params.id;
       const userId = (req as any).user.id;
-      
-      const label = await storage.getLabelById(labelId);
-      
-      if (!label) {
-        return res.status(404).json({ message: "Label not found" });
+
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
       }
-      
-      // Ensure the label belongs to the authenticated user
-      const userIdNum = typeof label.userId === 'number' ? userId : parseInt(userId, 10);
-      if (label.userId !== userIdNum) {
+
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
-      
-      res.json(label);
+
+      res.json(await resolveLinks(storage, note));
     } catch (error) {
-      console.error("Error getting label:", error);
-      res.status(500).json({ message: "Failed to get label" });
+      console.error("Error resolving links:", error);
+      res.status(500).json({ message: "Failed to get links" });
     }
   });
-  
-  // Create a new label
-  app.post("/api/labels", authenticateToken, async (req: Request, res: Response) => {
+
+  // The other notes that [[link]] to this note's title
+  app.get("/api/notes/:id/backlinks", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const labelData = insertLabelSchema.parse(req.body);
+      const noteId = req.params.id;
       const userId = (req as any).user.id;
-      
-      // Create the label
-      const label = await storage.createLabel({
-        ...labelData,
-        userId
-      });
-      
-      res.status(201).json(label);
+
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const backlinks = await storage.getBacklinks(note.userId, note.title);
+      res.json(backlinks.filter((linking) => linking.id !== note.id));
+    } catch (error) {
+      console.error("Error getting backlinks:", error);
+      res.status(500).json({ message: "Failed to get backlinks" });
+    }
+  });
+
+  // Notes as nodes, with edges for [[links]] and shared labels
+  app.get("/api/graph", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = String((req as any).user.id);
+      const query = graphQuerySchema.parse(req.query);
+      const notebookId = query.notebookId === "none" ? null : query.notebookId;
+
+      const notes = (await storage.getNotesByUserId(userId)).filter((note) =>
+        (query.archived || !note.archived) &&
+        (notebookId === undefined || (note.notebookId ?? null) === notebookId)
+      );
+      const labels = await storage.getLabelsByUserId(userId);
+      res.json(buildGraph(notes, labels, query.limit));
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
-      console.error("Error creating label:", error);
-      res.status(500).json({ message: "Failed to create label" });
+      console.error("Error building graph:", error);
+      res.status(500).json({ message: "Failed to get graph" });
     }
   });
-  
-  // Update a label
-  app.put("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+
+  // ===== Revision Routes =====
+  // List the saved revisions of a note, newest first
+  app.get("/api/notes/:id/revisions", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const labelId = req.params.id;
-      const labelData = updateLabelSchema.parse(req.body);
+      const noteId = req.params.id;
       const userId = (req as any).user.id;
       
-      // Check if label exists and belongs to user
-      const existingLabel = await storage.getLabelById(labelId);
-      if (!existingLabel) {
-        return res.status(404).json({ message: "Label not found" });
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
       }
       
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof existingLabel.userId === 'number' ? userId : parseInt(userId, 10);
-      if (existingLabel.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Update the label
-      const updatedLabel = await storage.updateLabel(labelId, labelData);
-      
-      res.json(updatedLabel);
+      const revisions = await storage.getNoteRevisions(noteId);
+      res.json(revisions.map(({ content, ...revision }) => ({
+        ...revision,
+        lineCount: content.split("\n").length
+      })));
     } catch (error) {
-      if (error instanceof ZodError) {
-        return res.status(400).json({ message: fromZodError(error).message });
-      }
-      console.error("Error updating label:", error);
-      res.status(500).json({ message: "Failed to update label" });
+      console.error("Error getting note revisions:", error);
+      res.status(500).json({ message: "Failed to get note revisions" });
     }
   });
   
-  // Delete a label
-  app.delete("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+  // Line-level diff of a revision against the one before it, or against the
+  // current note with ?against=current
+  app.get("/api/notes/:id/revisions/:rev/diff", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const labelId = req.params.id;
+      const noteId = req.params.id;
+      const revisionNumber = parseInt(req.params.rev, 10);
       const userId = (req as any).user.id;
       
-      // Check if label exists and belongs to user
-      const label = await storage.getLabelById(labelId);
-      if (!label) {
-        return res.status(404).json({ message: "Label not found" });
+      if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+        return res.status(400).json({ message: "Revision must be a positive integer" });
+      }
+      
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
       }
       
-      // Convert userId to number if comparing with a number
-      const userIdNum = typeof label.userId === 'number' ? userId : parseInt(userId, 10);
-      if (label.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Delete the label
-      const deleted = await storage.deleteLabel(labelId);
-      if (!deleted) {
-        return res.status(500).json({ message: "Failed to delete label" });
+      const revision = await storage.getNoteRevision(noteId, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
       }
       
-      res.json({ message: "Label deleted successfully" });
+      let from: { revision: number | null; title: string; content: string };
+      let to: { revision: number | null; title: string; content: string };
+      if (req.query.against === "current") {
+        from = revision;
+        to = { revision: null, title: note.title, content: note.content };
+      } else {
+        const previous = revisionNumber > 1
+          ? await storage.getNoteRevision(noteId, revisionNumber - 1)
+          : null;
+        from = previous || { revision: null, title: "", content: "" };
+        to = revision;
+      }
+      
+      const lines = diffLines(from.content, to.content);
+      res.json({
+        from: { revision: from.revision, title: from.title },
+        to: { revision: to.revision, title: to.title },
+        added: lines.filter(line => line.type === "added").length,
+        removed: lines.filter(line => line.type === "removed").length,
+        lines
+      });
     } catch (error) {
-      console.error("Error deleting label:", error);
-      res.status(500).json({ message: "Failed to delete label" });
+      console.error("Error diffing note revision:", error);
+      res.status(500).json({ message: "Failed to diff note revision" });
     }
   });
   
-  // Toggle archive status for a note
-  app.patch("/api/notes/:id/archive", authenticateToken, async (req: Request, res: Response) => {
+  // Bring back the text of an earlier revision (recorded as a new revision).
+  // Like PUT, it takes If-Match and answers a stale version with a 409
+  app.post("/api/notes/:id/revisions/:rev/restore", authenticateToken, async (req: Request, res: Response) => {
     try {
       const noteId = req.params.id;
+      const revisionNumber = parseInt(req.params.rev, 10);
       const userId = (req as any).user.id;
       
-      // Check if the note exists
+      if (!Number.isInteger(revisionNumber) || revisionNumber < 1) {
+        return res.status(400).json({ message: "Revision must be a positive integer" });
+      }
+      
+      const expectedVersion = parseIfMatch(req);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a note ETag" });
+      }
+      
+      // Check if note exists and belongs to user
       const note = await storage.getNoteById(noteId);
       if (!note) {
         return res.status(404).json({ message: "Note not found" });
       }
       
-      // Check if the user owns the note
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Toggle the archive status
+      const revision = await storage.getNoteRevision(noteId, revisionNumber);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
       const updatedNote = await storage.updateNote(noteId, {
-        ...note,
-        archived: !note.archived
-      });
+        title: revision.title,
+        content: revision.content,
+        summary: revision.summary,
+        // A checklist gets its items back from their text
+        ...(note.type === "checklist" && { items: itemsFromText(revision.content) })
+      }, expectedVersion);
       
       if (!updatedNote) {
-        return res.status(500).json({ message: "Failed to update note" });
+        return res.status(500).json({ message: "Failed to restore note revision" });
       }
       
-      res.json(updatedNote);
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
     } catch (error) {
-      console.error("Error toggling note archive status:", error);
-      res.status(500).json({ message: "Failed to update note" });
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error restoring note revision:", error);
+      res.status(500).json({ message: "Failed to restore note revision" });
     }
   });
-  
-  // Add or remove a label from a note
-  app.patch("/api/notes/:noteId/labels/:labelId", authenticateToken, async (req: Request, res: Response) => {
+
+  // ===== Checklist Routes =====
+  // Item changes are applied to the latest items, so they never need If-Match
+
+  // Add an item to a checklist, after the item `after` or at the end; returns
+  // the new item and the note
+  app.post("/api/notes/:id/items", authenticateToken, async (req: Request, res: Response) => {
     try {
-      const { noteId, labelId } = req.params;
+      const noteId = req.params.id;
       const userId = (req as any).user.id;
-      const { action } = req.body; // "add" or "remove"
+      const { after, ...item } = insertChecklistItemSchema.parse(req.body);
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      let added: ChecklistItem | undefined;
+      const updatedNote = await changeChecklist(storage, note, (items) => {
+        const updated = addItem(items, { ...item, after });
+        added = updated.find((candidate) => !items.some((existing) => existing.id === candidate.id));
+        return updated;
+      });
+      
+      res.status(201).set("ETag", noteETag(updatedNote)).json({ item: added, note: updatedNote });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error adding checklist item:", error);
+      res.status(500).json({ message: "Failed to add checklist item" });
+    }
+  });
+  
+  // Change an item's text, checked state or indent
+  app.patch("/api/notes/:id/items/:itemId", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      const changes = updateChecklistItemSchema.parse(req.body);
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedNote = await changeChecklist(storage, note, (items) => updateItem(items, req.params.itemId, changes));
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error updating checklist item:", error);
+      res.status(500).json({ message: "Failed to update checklist item" });
+    }
+  });
+  
+  // Remove an item from a checklist
+  app.delete("/api/notes/:id/items/:itemId", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedNote = await changeChecklist(storage, note, (items) => removeItem(items, req.params.itemId));
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error deleting checklist item:", error);
+      res.status(500).json({ message: "Failed to delete checklist item" });
+    }
+  });
+  
+  // Put the items in a new order, e.g. after dragging one
+  app.put("/api/notes/:id/items/order", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      const { itemIds } = reorderChecklistSchema.parse(req.body);
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedNote = await changeChecklist(storage, note, (items) => reorderItems(items, itemIds));
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error reordering checklist items:", error);
+      res.status(500).json({ message: "Failed to reorder checklist items" });
+    }
+  });
+  
+  // Move checked items below the unchecked ones, keeping their order
+  app.post("/api/notes/:id/items/move-checked", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedNote = await changeChecklist(storage, note, moveCheckedToBottom);
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ChecklistError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error moving checked items:", error);
+      res.status(500).json({ message: "Failed to move checked items" });
+    }
+  });
+
+  // ===== Attachment Routes =====
+  // List the files attached to a note, oldest first
+  app.get("/api/notes/:id/attachments", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const attachments = await storage.getAttachmentsByNoteId(note.id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error getting attachments:", error);
+      res.status(500).json({ message: "Failed to get attachments" });
+    }
+  });
+  
+  // Attach a file to a note, sent as multipart/form-data in the "file" field
+  app.post("/api/notes/:id/attachments", authenticateToken, receiveFile, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded; send it in the \"file\" field" });
+      }
+      
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const attachment = await saveAttachment(storage, blobStore, note, req.file);
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentQuotaError) {
+        return res.status(413).json({ message: error.message, usage: error.usage, quota: error.quota });
+      }
+      console.error("Error uploading attachment:", error);
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+  
+  // How much of their attachment quota the user has taken, in bytes
+  app.get("/api/attachments/usage", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const usage = await storage.getAttachmentUsage(String(userId));
+      res.json({
+        usage,
+        quota: attachmentLimits.quotaBytes,
+        maxFileSize: attachmentLimits.maxFileBytes
+      });
+    } catch (error) {
+      console.error("Error getting attachment usage:", error);
+      res.status(500).json({ message: "Failed to get attachment usage" });
+    }
+  });
+  
+  // Download an attachment. Images and PDFs are shown in place unless
+  // ?download=true is given
+  app.get("/api/attachments/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const attachment = await storage.getAttachmentById(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      // Check the note it belongs to exists and belongs to user
+      const note = await storage.getNoteById(attachment.noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const stream = await blobStore.get(attachment.blobKey);
+      if (!stream) {
+        return res.status(404).json({ message: "Attachment file is missing" });
+      }
+      
+      const inline = req.query.download !== "true" && isInlineMimeType(attachment.mimeType);
+      res.set({
+        "Content-Type": attachment.mimeType.startsWith("text/")
+          ? `${attachment.mimeType}; charset=utf-8`
+          : attachment.mimeType,
+        "Content-Length": String(attachment.size),
+        "Content-Disposition": contentDisposition(inline ? "inline" : "attachment", attachment.filename),
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600"
+      });
+      stream.on("error", (error) => {
+        console.error("Error streaming attachment:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+  
+  // Delete an attachment and its file
+  app.delete("/api/attachments/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const attachment = await storage.getAttachmentById(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      // Check the note it belongs to exists and belongs to user
+      const note = await storage.getNoteById(attachment.noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const deleted = await removeAttachment(storage, blobStore, attachment);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete attachment" });
+      }
+      
+      res.json({ message: "Attachment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+  
+  // ===== Reminder Routes =====
+  // Notes with a reminder or due date, as { overdue, upcoming }
+  app.get("/api/reminders", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const notes = await storage.getNotesByUserId(String(userId));
+      res.json(groupReminders(notes));
+    } catch (error) {
+      console.error("Error getting reminders:", error);
+      res.status(500).json({ message: "Failed to get reminders" });
+    }
+  });
+
+  // Move a repeating reminder past its next occurrence without sending it
+  app.post("/api/notes/:id/reminder/skip", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updatedNote = await skipReminder(storage, note);
+      if (!updatedNote) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ReminderError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error skipping reminder:", error);
+      res.status(500).json({ message: "Failed to skip reminder" });
+    }
+  });
+
+  // ===== Daily Note Routes =====
+  // The authenticated user's journal notes from ?from= to ?to= (yyyy-MM-dd),
+  // by day, for the journal calendar
+  app.get("/api/daily", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const { from, to } = dailyListQuerySchema.parse(req.query);
+      const notes = await storage.getDailyNotes(String(userId), from, to);
+      res.json(notes);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error getting daily notes:", error);
+      res.status(500).json({ message: "Failed to get daily notes" });
+    }
+  });
+
+  // The journal note for a day, created on first request; a new one is
+  // filled from ?templateId= in ?timeZone= (UTC by default). A trashed one
+  // is returned still in the trash
+  app.get("/api/daily/:date", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const user = (req as any).user;
+      const date = journalDateSchema.parse(req.params.date);
+      const { templateId, timeZone } = dailyNoteQuerySchema.parse(req.query);
+
+      let template = null;
+      if (templateId) {
+        template = await storage.getTemplateById(templateId);
+        if (!template) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+        if (template.userId !== String(user.id)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const note = await getOrCreateDailyNote(storage, date, {
+        user: { id: String(user.id), name: user.name, email: user.email },
+        template,
+        timeZone: timeZone ?? "UTC"
+      });
+      res.set("ETag", noteETag(note)).json(note);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error getting daily note:", error);
+      res.status(500).json({ message: "Failed to get daily note" });
+    }
+  });
+
+  // ===== Import Routes =====
+  // Import a Google Keep Takeout: the Takeout zip, or the files of its Keep
+  // folder (the notes' .json files, Labels.txt and attachments)
+  app.post("/api/import/keep", authenticateToken, receiveImportFiles, async (req: Request, res: Response) => {
+    const userId = (req as any).user.id;
+    const importer = new NoteImporter(storage, blobStore, String(userId));
+    
+    try {
+      const files = await importer.openUploads((req.files as Express.Multer.File[] | undefined) ?? []);
+      if (files.length === 0 && importer.report.skipped.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      
+      await importKeep(importer, files);
+      res.json(importer.report);
+    } catch (error) {
+      console.error("Error importing from Google Keep:", error);
+      res.status(500).json({ message: "Failed to import notes" });
+    } finally {
+      await importer.close();
+    }
+  });
+  
+  // Import Evernote .enex exports, uploaded as they are or in a zip
+  app.post("/api/import/enex", authenticateToken, receiveImportFiles, async (req: Request, res: Response) => {
+    const userId = (req as any).user.id;
+    const importer = new NoteImporter(storage, blobStore, String(userId));
+    
+    try {
+      const files = await importer.openUploads((req.files as Express.Multer.File[] | undefined) ?? []);
+      if (files.length === 0 && importer.report.skipped.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+      
+      await importEnex(importer, files);
+      res.json(importer.report);
+    } catch (error) {
+      console.error("Error importing from Evernote:", error);
+      res.status(500).json({ message: "Failed to import notes" });
+    } finally {
+      await importer.close();
+    }
+  });
+  
+  // ===== Notification Routes =====
+  // The latest notifications; clients poll this for new reminders
+  app.get("/api/notifications", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const notifications = await storage.getNotificationsByUserId(String(userId), NOTIFICATION_LIST_LIMIT);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error getting notifications:", error);
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+  
+  // Mark some notifications, or all of them, as read
+  app.post("/api/notifications/read", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const { ids } = markNotificationsReadSchema.parse(req.body ?? {});
+      const marked = await storage.markNotificationsRead(String(userId), ids);
+      res.json({ marked });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  // ===== Trash Routes =====
+  // List trashed notes, most recently trashed first, with their purge date
+  app.get("/api/trash", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const notes = await storage.getTrashedNotesByUserId(String(userId));
+      res.json(notes.map(note => ({
+        ...note,
+        purgeAt: purgeDate(note.deletedAt!)
+      })));
+    } catch (error) {
+      console.error("Error getting trash:", error);
+      res.status(500).json({ message: "Failed to get trash" });
+    }
+  });
+  
+  // Permanently delete every note in the trash
+  app.delete("/api/trash", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const deleted = await storage.purgeTrashedNotes(new Date(), String(userId));
+      res.json({ message: "Trash emptied", deleted });
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+  
+  // Take a note back out of the trash
+  app.post("/api/notes/:id/restore", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (!note.deletedAt) {
+        return res.status(400).json({ message: "Note is not in the trash" });
+      }
+      
+      const restoredNote = await storage.restoreNote(noteId);
+      if (!restoredNote) {
+        return res.status(500).json({ message: "Failed to restore note" });
+      }
+      
+      res.json(restoredNote);
+    } catch (error) {
+      console.error("Error restoring note:", error);
+      res.status(500).json({ message: "Failed to restore note" });
+    }
+  });
+  
+  // Permanently delete a trashed note, its revisions and its attachments
+  app.delete("/api/notes/:id/permanent", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      // Check if note exists and belongs to user
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Only trashed notes can be deleted for good
+      if (!note.deletedAt) {
+        return res.status(400).json({ message: "Move the note to the trash first" });
+      }
+      
+      const attachments = await storage.getAttachmentsByNoteId(note.id);
+      const deleted = await storage.deleteNote(noteId);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete note" });
+      }
+      
+      // Files left behind by a failure here are removed by the attachment cleanup
+      for (const attachment of attachments) {
+        await blobStore.delete(attachment.blobKey).catch((error) => {
+          console.error("Error deleting attachment file:", error);
+        });
+      }
+      
+      res.json({ message: "Note deleted permanently" });
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
+
+  // ===== Labels Routes =====
+  // Get the authenticated user's labels as a tree: top-level labels with
+  // their path and nested children. ?flat=true lists them in path order
+  app.get("/api/labels", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const { flat } = labelListQuerySchema.parse(req.query);
+      
+      const tree = buildLabelTree(await storage.getLabelsByUserId(String(userId)));
+      if (flat) {
+        return res.json(flattenLabelTree(tree).map(({ children, ...label }) => label));
+      }
+      res.json(tree);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error getting labels:", error);
+      res.status(500).json({ message: "Failed to get labels" });
+    }
+  });
+  
+  // Get a single label by ID
+  app.get("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const labelId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const label = await storage.getLabelById(labelId);
+      
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      
+      // Ensure the label belongs to the authenticated user
+      if (label.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // With its path and subtree
+      res.json(await getLabelNode(storage, String(userId), label.id));
+    } catch (error) {
+      console.error("Error getting label:", error);
+      res.status(500).json({ message: "Failed to get label" });
+    }
+  });
+  
+  // Create a new label. A path such as "work/clients/acme" also creates the
+  // labels along it that do not exist yet
+  app.post("/api/labels", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const labelData = insertLabelSchema.parse(req.body);
+      const userId = String((req as any).user.id);
+      
+      if (labelData.parentId) {
+        const parent = await storage.getLabelById(labelData.parentId);
+        if (!parent || parent.userId !== userId) {
+          return res.status(400).json({ message: "Parent label not found" });
+        }
+      }
+      
+      // Create the label
+      const { label, created } = await ensureLabelPath(storage, userId, labelData.name, {
+        parentId: labelData.parentId ?? null,
+        color: labelData.color
+      });
+      if (!created) {
+        return res.status(409).json({ message: "A label with this name already exists here" });
+      }
+      
+      res.status(201).json(await getLabelNode(storage, userId, label.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating label:", error);
+      res.status(500).json({ message: "Failed to create label" });
+    }
+  });
+  
+  // Update a label
+  app.put("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const labelId = req.params.id;
+      const labelData = updateLabelSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      
+      // Check if label exists and belongs to user
+      const existingLabel = await storage.getLabelById(labelId);
+      if (!existingLabel) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      
+      // Ensure it belongs to the authenticated user
+      if (existingLabel.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const labels = await storage.getLabelsByUserId(String(userId));
+      if (labelData.parentId) {
+        if (!labels.some((label) => label.id === labelData.parentId)) {
+          return res.status(400).json({ message: "Parent label not found" });
+        }
+        if (createsCycle(labels, existingLabel.id, labelData.parentId)) {
+          return res.status(400).json({ message: "A label cannot be moved under itself or one of its descendants" });
+        }
+      }
+      
+      // Paths must stay unique
+      const parentId = labelData.parentId === undefined ? existingLabel.parentId : labelData.parentId;
+      const sibling = findSibling(labels, parentId, labelData.name);
+      if (sibling && sibling.id !== existingLabel.id) {
+        return res.status(409).json({ message: "A label with this name already exists here" });
+      }
+      
+      // Update the label
+      const updatedLabel = await storage.updateLabel(labelId, labelData);
+      if (!updatedLabel) {
+        return res.status(500).json({ message: "Failed to update label" });
+      }
+      
+      res.json(await getLabelNode(storage, String(userId), existingLabel.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating label:", error);
+      res.status(500).json({ message: "Failed to update label" });
+    }
+  });
+  
+  // Delete a label
+  app.delete("/api/labels/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const labelId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      // Check if label exists and belongs to user
+      const label = await storage.getLabelById(labelId);
+      if (!label) {
+        return res.status(404).json({ message: "Label not found" });
+      }
+      
+      // Ensure it belongs to the authenticated user
+      if (label.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Delete the label, removing it from its notes and moving its children up
+      const deleted = await storage.deleteLabel(labelId);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete label" });
+      }
+      
+      res.json({ message: "Label deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      res.status(500).json({ message: "Failed to delete label" });
+    }
+  });
+  
+  // ===== Template Routes =====
+  // Get all templates for the authenticated user, sorted by name
+  app.get("/api/templates", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const templates = await storage.getTemplatesByUserId(String(userId));
+      res.json(templates);
+    } catch (error) {
+      console.error("Error getting templates:", error);
+      res.status(500).json({ message: "Failed to get templates" });
+    }
+  });
+  
+  // Get a single template by ID
+  app.get("/api/templates/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const template = await storage.getTemplateById(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      if (template.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      console.error("Error getting template:", error);
+      res.status(500).json({ message: "Failed to get template" });
+    }
+  });
+  
+  // Create a new template
+  app.post("/api/templates", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const templateData = insertTemplateSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      
+      const template = await storage.createTemplate({
+        ...templateData,
+        userId: String(userId)
+      });
+      
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating template:", error);
+      res.status(500).json({ message: "Failed to create template" });
+    }
+  });
+  
+  // Update a template; notes already created from it stay as they are
+  app.put("/api/templates/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const templateId = req.params.id;
+      const templateData = updateTemplateSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      
+      const existingTemplate = await storage.getTemplateById(templateId);
+      if (!existingTemplate) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      if (existingTemplate.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedTemplate = await storage.updateTemplate(templateId, templateData);
+      if (!updatedTemplate) {
+        return res.status(500).json({ message: "Failed to update template" });
+      }
+      
+      res.json(updatedTemplate);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating template:", error);
+      res.status(500).json({ message: "Failed to update template" });
+    }
+  });
+  
+  // Delete a template
+  app.delete("/api/templates/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const templateId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const template = await storage.getTemplateById(templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      if (template.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const deleted = await storage.deleteTemplate(templateId);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete template" });
+      }
+      
+      res.json({ message: "Template deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
+  
+  // Create a note from a template, filling in its placeholders with the
+  // current time in `timeZone` (UTC by default) and the answers in `values`
+  app.post("/api/templates/:id/notes", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const { values, timeZone, notebookId } = templateNoteSchema.parse(req.body);
+      const user = (req as any).user;
+      
+      const template = await storage.getTemplateById(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      if (template.userId !== String(user.id)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const noteData = await noteFromTemplate(storage, template, {
+        now: new Date(),
+        timeZone: timeZone ?? "UTC",
+        user: { name: user.name, email: user.email },
+        values
+      });
+      
+      // Like any new note, one in a notebook starts with its background color
+      if (notebookId) {
+        const notebook = await findOwnNotebook(String(user.id), notebookId);
+        if (!notebook) {
+          return res.status(400).json({ message: "Notebook not found" });
+        }
+        noteData.notebookId = notebookId;
+        noteData.backgroundColor = notebook.defaultBackgroundColor;
+      }
+      
+      const note = await storage.createNote({ ...noteData, userId: String(user.id) });
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating note from template:", error);
+      res.status(500).json({ message: "Failed to create note" });
+    }
+  });
+  
+  // ===== Notebook Routes =====
+  // Get all notebooks for the authenticated user, sorted by name
+  app.get("/api/notebooks", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      const notebooks = await storage.getNotebooksByUserId(String(userId));
+      res.json(notebooks);
+    } catch (error) {
+      console.error("Error getting notebooks:", error);
+      res.status(500).json({ message: "Failed to get notebooks" });
+    }
+  });
+  
+  // Get a single notebook by ID
+  app.get("/api/notebooks/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const userId = (req as any).user.id;
+      
+      const notebook = await storage.getNotebookById(req.params.id);
+      if (!notebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      if (notebook.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(notebook);
+    } catch (error) {
+      console.error("Error getting notebook:", error);
+      res.status(500).json({ message: "Failed to get notebook" });
+    }
+  });
+  
+  // Create a new notebook
+  app.post("/api/notebooks", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const notebookData = insertNotebookSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      
+      const notebook = await storage.createNotebook({
+        ...notebookData,
+        userId: String(userId)
+      });
+      
+      res.status(201).json(notebook);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating notebook:", error);
+      res.status(500).json({ message: "Failed to create notebook" });
+    }
+  });
+  
+  // Rename a notebook or change the background color of its new notes
+  app.put("/api/notebooks/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const notebookId = req.params.id;
+      const notebookData = updateNotebookSchema.parse(req.body);
+      const userId = (req as any).user.id;
+      
+      const existingNotebook = await storage.getNotebookById(notebookId);
+      if (!existingNotebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      if (existingNotebook.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedNotebook = await storage.updateNotebook(notebookId, notebookData);
+      if (!updatedNotebook) {
+        return res.status(500).json({ message: "Failed to update notebook" });
+      }
+      
+      res.json(updatedNotebook);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating notebook:", error);
+      res.status(500).json({ message: "Failed to update notebook" });
+    }
+  });
+  
+  // Delete a notebook; its notes are kept outside any notebook
+  app.delete("/api/notebooks/:id", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const notebookId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const notebook = await storage.getNotebookById(notebookId);
+      if (!notebook) {
+        return res.status(404).json({ message: "Notebook not found" });
+      }
+      
+      if (notebook.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const deleted = await storage.deleteNotebook(notebookId);
+      if (!deleted) {
+        return res.status(500).json({ message: "Failed to delete notebook" });
+      }
+      
+      res.json({ message: "Notebook deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting notebook:", error);
+      res.status(500).json({ message: "Failed to delete notebook" });
+    }
+  });
+  
+  // Toggle archive status for a note
+  app.patch("/api/notes/:id/archive", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const noteId = req.params.id;
+      const userId = (req as any).user.id;
+      
+      const expectedVersion = parseIfMatch(req);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a note ETag" });
+      }
+      
+      // Check if the note exists
+      const note = await storage.getNoteById(noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      // Check if the user owns the note
+      if (note.userId !== String(userId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Toggle the archive status, unless the note changed since it was read
+      const updatedNote = await storage.updateNote(noteId, { archived: !note.archived }, expectedVersion ?? note.version);
+      
+      if (!updatedNote) {
+        return res.status(500).json({ message: "Failed to update note" });
+      }
+      
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
+    } catch (error) {
+      if (error instanceof NoteVersionConflictError) {
+        return sendVersionConflict(res, error);
+      }
+      console.error("Error toggling note archive status:", error);
+      res.status(500).json({ message: "Failed to update note" });
+    }
+  });
+  
+  // Add or remove a label from a note
+  app.patch("/api/notes/:noteId/labels/:labelId", authenticateToken, async (req: Request, res: Response) => {
+    try {
+      const { noteId, labelId } = req.params;
+      const userId = (req as any).user.id;
+      const { action } = req.body; // "add" or "remove"
       
       if (action !== "add" && action !== "remove") {
         return res.status(400).json({ message: "Action must be 'add' or 'remove'" });
@@ -596,41 +1995,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Ensure both note and label belong to the authenticated user
-      const userIdNum = typeof note.userId === 'number' ? userId : parseInt(userId, 10);
-      if (note.userId !== userIdNum) {
+      if (note.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied for note" });
       }
       
-      const labelUserIdNum = typeof label.userId === 'number' ? userId : parseInt(userId, 10);
-      if (label.userId !== labelUserIdNum) {
+      if (label.userId !== String(userId)) {
         return res.status(403).json({ message: "Access denied for label" });
       }
       
-      // Get current labels array or initialize it
-      const currentLabels = note.labels || [];
-      const labelIdStr = typeof labelId === 'number' ? String(labelId) : labelId;
+      // Change only this label so concurrent label changes never undo each other
+      const updatedNote = action === "add"
+        ? await storage.addLabelToNote(noteId, label.id)
+        : await storage.removeLabelFromNote(noteId, label.id);
       
-      let updatedLabels;
-      if (action === "add") {
-        // Add label if it doesn't exist yet
-        if (!currentLabels.includes(labelIdStr)) {
-          updatedLabels = [...currentLabels, labelIdStr];
-        } else {
-          // Label already exists, no change needed
-          updatedLabels = currentLabels;
-        }
-      } else {
-        // Remove label
-        updatedLabels = currentLabels.filter(id => id !== labelIdStr);
+      if (!updatedNote) {
+        return res.status(500).json({ message: "Failed to update note labels" });
       }
       
-      // Update the note with new labels
-      const updatedNote = await storage.updateNote(noteId, {
-        ...note,
-        labels: updatedLabels
-      });
-      
-      res.json(updatedNote);
+      res.set("ETag", noteETag(updatedNote)).json(updatedNote);
     } catch (error) {
       console.error("Error updating note labels:", error);
       res.status(500).json({ message: "Failed to update note labels" });
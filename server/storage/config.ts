@@ -0,0 +1,45 @@
+import type { IStorage } from "./types";
+import { MemStorage } from "./memory";
+import { FileStorage } from "./file";
+import { MongoStorage } from "./mongo";
+import { PgStorage } from "./postgres";
+
+export const storageBackends = ["memory", "file", "mongo", "postgres"] as const;
+export type StorageBackend = typeof storageBackends[number];
+
+/**
+ * Reads STORAGE_BACKEND from the environment (default "memory")
+ * @throws If the value is not a known backend or its settings are missing
+ */
+export function resolveStorageBackend(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const backend = (env.STORAGE_BACKEND || "memory").trim().toLowerCase();
+
+  if (!storageBackends.includes(backend as StorageBackend)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}". Expected one of: ${storageBackends.join(", ")}`
+    );
+  }
+
+  if (backend === "postgres" && !env.DATABASE_URL) {
+    throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL to be set");
+  }
+
+  if (backend === "mongo" && !env.MONGODB_URI) {
+    throw new Error("STORAGE_BACKEND=mongo requires MONGODB_URI to be set");
+  }
+
+  return backend as StorageBackend;
+}
+
+export function createStorage(backend: StorageBackend, env: NodeJS.ProcessEnv = process.env): IStorage {
+  switch (backend) {
+    case "mongo":
+      return new MongoStorage(env.MONGODB_URI);
+    case "postgres":
+      return new PgStorage(env.DATABASE_URL);
+    case "file":
+      return new FileStorage(env.FILE_STORAGE_DIR || "./data");
+    case "memory":
+      return new MemStorage();
+  }
+}
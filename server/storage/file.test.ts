@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileStorage } from "./file";
+
+// Behavior of FileStorage beyond the shared suite in storage.test.ts
+describe("FileStorage", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "notekeeper-file-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lockPath = () => path.join(dir, "LOCK");
+
+  it("keeps its data across a reopen", async () => {
+    let storage = new FileStorage(dir);
+    const user = await storage.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+    const note = await storage.createNote({ userId: user.id, title: "Kept", content: "Across restarts" });
+    await storage.updateNote(note.id, { content: "Edited" });
+    await storage.close();
+
+    storage = new FileStorage(dir);
+    expect(await storage.getNoteById(note.id)).toMatchObject({ title: "Kept", content: "Edited", version: 2 });
+    expect((await storage.getUserByEmail("test@example.com"))?.id).toBe(user.id);
+    await storage.close();
+  });
+
+  it("replays the journal after a crash and ignores a torn final entry", async () => {
+    const storage = new FileStorage(dir, { maxJournalEntries: 1000 });
+    const user = await storage.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+    const note = await storage.createNote({ userId: user.id, title: "Journaled", content: "" });
+    // A crash leaves the lock and journal behind; compaction never ran. This
+    // process still has the directory open, so a copy stands in for it
+    const crashed = `${dir}-crashed`;
+    fs.cpSync(dir, crashed, { recursive: true });
+    fs.appendFileSync(path.join(crashed, "journal.log"), '{"op":"put","table":"no');
+    fs.writeFileSync(path.join(crashed, "LOCK"), "999999999");
+
+    try {
+      const reopened = new FileStorage(crashed);
+      expect((await reopened.getNoteById(note.id))?.title).toBe("Journaled");
+      await reopened.close();
+    } finally {
+      await storage.close();
+      fs.rmSync(crashed, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses a directory locked by a running process", () => {
+    fs.writeFileSync(lockPath(), String(process.ppid));
+    expect(() => new FileStorage(dir)).toThrow(/locked by another NoteKeeper process/);
+    expect(fs.readFileSync(lockPath(), "utf8")).toBe(String(process.ppid));
+  });
+
+  it("takes over a lock left with its own pid, as after a container restart", async () => {
+    fs.writeFileSync(lockPath(), String(process.pid));
+    const storage = new FileStorage(dir);
+    expect(fs.readFileSync(lockPath(), "utf8")).toBe(String(process.pid));
+    await storage.close();
+    expect(fs.existsSync(lockPath())).toBe(false);
+  });
+
+  it("refuses a directory it already has open, leaving that lock in place", async () => {
+    const storage = new FileStorage(dir);
+    expect(() => new FileStorage(dir)).toThrow(/already open in this process/);
+    expect(() => new FileStorage(path.join(dir, "."))).toThrow(/already open in this process/);
+    expect(fs.readFileSync(lockPath(), "utf8")).toBe(String(process.pid));
+
+    await storage.close();
+    const reopened = new FileStorage(dir);
+    await reopened.close();
+    expect(fs.existsSync(lockPath())).toBe(false);
+  });
+
+  it("leaves no trace of a write that could not be journaled", async () => {
+    const storage = new FileStorage(dir);
+    const user = await storage.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+    await storage.close();
+
+    await expect(storage.createNote({ userId: user.id, title: "Lost", content: "" })).rejects.toThrow("File storage is closed");
+    expect(await storage.getNotesByUserId(user.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,356 @@
+import fs from "fs";
+import path from "path";
+import { MemStorage, type MemTableName, type MemRecord } from "./memory";
+
+const SNAPSHOT_FILE = "snapshot.json";
+const JOURNAL_FILE = "journal.log";
+const LOCK_FILE = "LOCK";
+const SNAPSHOT_VERSION = 1;
+
+type JournalEntry =
+  | { op: "put"; table: MemTableName; record: Record<string, unknown> & { id: string } }
+  | { op: "delete"; table: MemTableName; id: string };
+
+interface Snapshot {
+  version: number;
+  tables: Partial<Record<MemTableName, Record<string, unknown>[]>>;
+}
+
+export interface FileStorageOptions {
+  // Compact once the journal holds this many entries
+  maxJournalEntries?: number;
+  // Also compact on this interval (ms) whenever the journal is not empty
+  compactionIntervalMs?: number;
+}
+
+// JSON turns Dates into strings; every *At field holds a timestamp
+function reviveDates(key: string, value: unknown) {
+  if (typeof value === "string" && key.endsWith("At")) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return value;
+}
+
+// Fields added after records were first written, with the value older
+// records get
+const addedFields: Partial<Record<MemTableName, Record<string, unknown>>> = {
+  notes: { version: 1, notebookId: null, type: "text", items: null, remindAt: null, recurrence: null, reminderSentAt: null, dueAt: null, journalDate: null },
+  labels: { parentId: null }
+};
+
+function upgradeRecord<T extends MemTableName>(table: T, record: Record<string, unknown>) {
+  return { ...addedFields[table], ...record } as MemRecord<T> & { id: string };
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// Directories a FileStorage in this process holds, by real path. The lock
+// file cannot tell them apart from a lock left by a restarted container,
+// since both hold this process's pid
+const lockedDirs = new Set<string>();
+
+// The pid in a lock file, or null if the file is gone or holds no pid
+function readLockOwner(lockPath: string): number | null {
+  try {
+    const owner = parseInt(fs.readFileSync(lockPath, "utf8"), 10);
+    return Number.isInteger(owner) ? owner : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * File-backed storage for single-user self-hosting.
+ *
+ * Data lives in memory (see MemStorage) and every write is appended to a
+ * journal and fsynced before the call returns. The journal is periodically
+ * folded into a snapshot that is written to a temporary file and renamed into
+ * place, so a crash at any point leaves either the old or the new snapshot
+ * plus a journal that can be replayed on top of it. A lock file stops a
+ * second server process from opening the same directory, and a registry of
+ * open directories stops a second FileStorage in the same process.
+ */
+export class FileStorage extends MemStorage {
+  private dir: string;
+  private journalFd: number | null = null;
+  private journalEntries = 0;
+  private journalSize = 0; // bytes, to cut off a failed append
+  private maxJournalEntries: number;
+  private compactionTimer: NodeJS.Timeout | null = null;
+  private lockedDir: string | null = null; // the key in lockedDirs while locked
+
+  constructor(dir: string, options: FileStorageOptions = {}) {
+    super({ seedTestUser: false });
+
+    this.dir = path.resolve(dir);
+    this.maxJournalEntries = options.maxJournalEntries ?? 1000;
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    this.acquireLock();
+
+    try {
+      this.load();
+      this.journalFd = fs.openSync(this.filePath(JOURNAL_FILE), "a");
+
+      // Fold whatever was replayed into the snapshot so new entries are never
+      // appended after a torn final line
+      if (fs.fstatSync(this.journalFd).size > 0) {
+        this.compact();
+      }
+    } catch (error) {
+      this.releaseLock();
+      throw error;
+    }
+
+    this.compactionTimer = setInterval(() => {
+      if (this.journalEntries > 0) this.compact();
+    }, options.compactionIntervalMs ?? 5 * 60 * 1000);
+    this.compactionTimer.unref();
+
+    process.once("exit", () => this.releaseLock());
+    console.log(`File storage opened at ${this.dir}`);
+  }
+
+  // The journal is written first, so a write that fails is not seen either
+  protected save<T extends MemTableName>(table: T, record: MemRecord<T> & { id: string }): void {
+    this.append({ op: "put", table, record });
+    super.save(table, record);
+    this.compactIfDue();
+  }
+
+  protected remove(table: MemTableName, id: string): boolean {
+    if (!this.tables[table].has(id)) return false;
+
+    this.append({ op: "delete", table, id });
+    super.remove(table, id);
+    this.compactIfDue();
+    return true;
+  }
+
+  // Fold the journal into a fresh snapshot and start a new, empty journal
+  compact(): void {
+    if (this.journalFd === null) return;
+
+    const snapshot: Snapshot = { version: SNAPSHOT_VERSION, tables: {} };
+    for (const table of Object.keys(this.tables) as MemTableName[]) {
+      snapshot.tables[table] = Array.from((this.tables[table] as Map<string, Record<string, unknown>>).values());
+    }
+
+    this.writeFileAtomic(SNAPSHOT_FILE, JSON.stringify(snapshot));
+
+    // Replaying the old journal over the new snapshot is harmless, so a crash
+    // before this truncate only costs a slower next start
+    fs.ftruncateSync(this.journalFd, 0);
+    fs.fsyncSync(this.journalFd);
+    this.journalEntries = 0;
+    this.journalSize = 0;
+  }
+
+  // Compact and release the directory, e.g. at the end of a script
+  async close(): Promise<void> {
+    if (this.compactionTimer) {
+      clearInterval(this.compactionTimer);
+      this.compactionTimer = null;
+    }
+    if (this.journalFd !== null) {
+      this.compact();
+      fs.closeSync(this.journalFd);
+      this.journalFd = null;
+    }
+    this.releaseLock();
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.dir, name);
+  }
+
+  private append(entry: JournalEntry): void {
+    if (this.journalFd === null) {
+      throw new Error("File storage is closed");
+    }
+
+    const line = Buffer.from(JSON.stringify(entry) + "\n");
+    try {
+      fs.writeSync(this.journalFd, line);
+      fs.fsyncSync(this.journalFd);
+    } catch (error) {
+      // Cut off whatever part of the entry was written, so later entries do
+      // not follow a torn line
+      try {
+        fs.ftruncateSync(this.journalFd, this.journalSize);
+      } catch {
+        // The next start treats a torn final line as never written
+      }
+      throw error;
+    }
+    this.journalEntries++;
+    this.journalSize += line.length;
+  }
+
+  private compactIfDue(): void {
+    if (this.journalEntries < this.maxJournalEntries) return;
+    try {
+      this.compact();
+    } catch (error) {
+      // The write itself is already in the journal; compaction is retried
+      // on the next write and on the timer
+      console.error("Error compacting file storage:", error);
+    }
+  }
+
+  private load(): void {
+    const snapshotPath = this.filePath(SNAPSHOT_FILE);
+    if (fs.existsSync(snapshotPath)) {
+      const snapshot: Snapshot = JSON.parse(fs.readFileSync(snapshotPath, "utf8"), reviveDates);
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${snapshot.version} in ${snapshotPath}`);
+      }
+      for (const [table, records] of Object.entries(snapshot.tables)) {
+        if (!(table in this.tables)) continue;
+        for (const record of records || []) {
+          this.restore(table as MemTableName, upgradeRecord(table as MemTableName, record));
+        }
+      }
+    }
+
+    const journalPath = this.filePath(JOURNAL_FILE);
+    if (fs.existsSync(journalPath)) {
+      const lines = fs.readFileSync(journalPath, "utf8").split("\n");
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+
+        let entry: JournalEntry;
+        try {
+          entry = JSON.parse(line, reviveDates);
+        } catch (error) {
+          // Only the final write can be torn by a crash; anything earlier is corruption
+          if (index >= lines.length - 2) {
+            console.warn("Ignoring incomplete final journal entry in", journalPath);
+            return;
+          }
+          throw new Error(`Corrupt journal entry on line ${index + 1} of ${journalPath}`);
+        }
+
+        if (!(entry.table in this.tables)) return;
+        if (entry.op === "put") {
+          this.restore(entry.table, upgradeRecord(entry.table, entry.record));
+        } else {
+          this.forget(entry.table, entry.id);
+        }
+        this.journalEntries++;
+      });
+    }
+  }
+
+  private writeFileAtomic(name: string, contents: string): void {
+    const target = this.filePath(name);
+    const temp = `${target}.tmp`;
+
+    const fd = fs.openSync(temp, "w");
+    try {
+      fs.writeSync(fd, contents);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temp, target);
+
+    // Make the rename itself durable
+    try {
+      const dirFd = fs.openSync(this.dir, "r");
+      try {
+        fs.fsyncSync(dirFd);
+      } finally {
+        fs.closeSync(dirFd);
+      }
+    } catch {
+      // Some platforms cannot fsync a directory
+    }
+  }
+
+  /**
+   * Creates the lock file holding this process's pid. A lock whose owner is
+   * gone is stale and taken over; so is one holding this process's own pid,
+   * which a restarted container usually reuses, unless this process has the
+   * directory open already.
+   */
+  private acquireLock(): void {
+    const realDir = fs.realpathSync(this.dir);
+    if (lockedDirs.has(realDir)) {
+      throw new Error(`${this.dir} is already open in this process`);
+    }
+    const lockPath = this.filePath(LOCK_FILE);
+    // Linking a complete file into place means the lock never exists without
+    // its pid in it
+    const ownLock = `${lockPath}.${process.pid}.tmp`;
+    const staleLock = `${lockPath}.${process.pid}.stale`;
+    fs.writeFileSync(ownLock, String(process.pid));
+
+    try {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        try {
+          fs.linkSync(ownLock, lockPath);
+          lockedDirs.add(realDir);
+          this.lockedDir = realDir;
+          return;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        }
+
+        const owner = readLockOwner(lockPath);
+        if (owner !== null && owner !== process.pid && isProcessAlive(owner)) {
+          throw new Error(`${this.dir} is locked by another NoteKeeper process (pid ${owner})`);
+        }
+
+        // Only one process can move the stale lock aside; the others find it
+        // gone and try again
+        try {
+          fs.renameSync(lockPath, staleLock);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+          throw error;
+        }
+        const moved = readLockOwner(staleLock);
+        if (moved !== owner) {
+          // Another process took the lock over in between; give it back
+          try {
+            fs.linkSync(staleLock, lockPath);
+          } catch {
+            // A third process holds it now
+          }
+        } else {
+          console.warn(`Removing stale lock in ${this.dir}`);
+        }
+        fs.rmSync(staleLock, { force: true });
+      }
+      throw new Error(`Could not lock ${this.dir}`);
+    } finally {
+      fs.rmSync(ownLock, { force: true });
+    }
+  }
+
+  private releaseLock(): void {
+    if (this.lockedDir === null) return;
+    lockedDirs.delete(this.lockedDir);
+    this.lockedDir = null;
+
+    const lockPath = this.filePath(LOCK_FILE);
+    try {
+      if (parseInt(fs.readFileSync(lockPath, "utf8"), 10) === process.pid) {
+        fs.rmSync(lockPath, { force: true });
+      }
+    } catch {
+      // Already gone
+    }
+  }
+}
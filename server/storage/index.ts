@@ -0,0 +1,15 @@
+import { resolveStorageBackend, createStorage } from "./config";
+
+export type { IStorage, NoteQuery, NotePage, NoteBatchChange, SearchQuery } from "./types";
+export { decodeNoteCursor, NoteVersionConflictError } from "./types";
+export type { SearchResult, SearchPage, HighlightSegment } from "./search";
+export { decodeSearchCursor } from "./search";
+export { MemStorage } from "./memory";
+export { FileStorage } from "./file";
+export { MongoStorage } from "./mongo";
+export { PgStorage } from "./postgres";
+export { storageBackends, resolveStorageBackend, createStorage, type StorageBackend } from "./config";
+
+export const storageBackend = resolveStorageBackend();
+console.log(`Using ${storageBackend} storage`);
+export const storage = createStorage(storageBackend);
@@ -0,0 +1,57 @@
+import type { Note } from "@shared/schema";
+import { linkTargets } from "@shared/wikiLinks";
+
+// The [[wiki link]] index shared by every backend: one entry per note per
+// title it links to (normalized, see shared/wikiLinks.ts), kept up to date
+// with the note's content so backlinks are a lookup instead of a scan.
+
+export interface NoteLink {
+  noteId: string;
+  userId: string;
+  target: string;
+}
+
+// Everything a backend stores for the note's outgoing links
+export function indexLinks(note: Pick<Note, "id" | "userId" | "content">): NoteLink[] {
+  return linkTargets(note.content).map((target) => ({ noteId: note.id, userId: note.userId, target }));
+}
+
+/**
+ * In-memory link index, used directly by MemStorage
+ */
+export class LinkIndex {
+  // user ID -> target -> IDs of the notes linking to it
+  private linking = new Map<string, Map<string, Set<string>>>();
+  private indexedLinks = new Map<string, NoteLink[]>();
+
+  add(note: Note): void {
+    this.remove(note.id);
+
+    const links = indexLinks(note);
+    for (const link of links) {
+      let targets = this.linking.get(link.userId);
+      if (!targets) {
+        targets = new Map();
+        this.linking.set(link.userId, targets);
+      }
+      targets.set(link.target, (targets.get(link.target) || new Set()).add(link.noteId));
+    }
+    this.indexedLinks.set(note.id, links);
+  }
+
+  remove(noteId: string): void {
+    for (const link of this.indexedLinks.get(noteId) || []) {
+      const targets = this.linking.get(link.userId);
+      const noteIds = targets?.get(link.target);
+      noteIds?.delete(noteId);
+      if (noteIds?.size === 0) targets!.delete(link.target);
+      if (targets?.size === 0) this.linking.delete(link.userId);
+    }
+    this.indexedLinks.delete(noteId);
+  }
+
+  // IDs of the user's notes that link to the normalized title
+  linkingTo(userId: string, target: string): string[] {
+    return Array.from(this.linking.get(userId)?.get(target) || []);
+  }
+}
@@ -0,0 +1,772 @@
+import type { User, InsertUser, Note, UpdateNote, Label, InsertLabel, UpdateLabel, Notebook, InsertNotebook, UpdateNotebook, NoteRevision, Attachment, InsertAttachment, Notification, InsertNotification, Template, InsertTemplate, UpdateTemplate } from "@shared/schema";
+import bcrypt from "bcrypt";
+import {
+  compareNotePositions,
+  compareNotes,
+  compareTrashedNotes,
+  decodeNoteCursor,
+  definedFields,
+  encodeNoteCursor,
+  hasNewRevision,
+  isReminderDue,
+  matchesNoteFilters,
+  notePosition,
+  NoteVersionConflictError,
+  type IStorage,
+  type NewNote,
+  type NoteBatchChange,
+  type NotePage,
+  type NoteQuery,
+  type ReminderChange,
+  type SearchQuery
+} from "./types";
+import { SearchIndex, searchNotes, type SearchPage } from "./search";
+import { LinkIndex } from "./links";
+import { normalizeLinkTitle } from "@shared/wikiLinks";
+
+// Every record kept in memory, keyed by table name then record ID
+export interface MemTables {
+  users: Map<string, User>;
+  notes: Map<string, Note>;
+  labels: Map<string, Label>;
+  notebooks: Map<string, Notebook>;
+  noteRevisions: Map<string, NoteRevision>;
+  attachments: Map<string, Attachment>;
+  notifications: Map<string, Notification>;
+  templates: Map<string, Template>;
+}
+
+export type MemTableName = keyof MemTables;
+export type MemRecord<T extends MemTableName> = MemTables[T] extends Map<string, infer R> ? R : never;
+
+// The note with the change made, or null when the change would not alter it
+function applyBatchChange(note: Note, change: NoteBatchChange, now: Date): Note | null {
+  const labels = note.labels || [];
+  let fields: Partial<Note>;
+  switch (change.type) {
+    case "archived":
+      if (note.archived === change.value) return null;
+      fields = { archived: change.value, updatedAt: now };
+      break;
+    case "pinned":
+      if (note.pinned === change.value) return null;
+      fields = { pinned: change.value, updatedAt: now };
+      break;
+    case "backgroundColor":
+      if (note.backgroundColor === change.value) return null;
+      fields = { backgroundColor: change.value, updatedAt: now };
+      break;
+    case "trash":
+      if (note.deletedAt) return null;
+      fields = { deletedAt: now };
+      break;
+    case "addLabel":
+      if (labels.includes(change.labelId)) return null;
+      fields = { labels: [...labels, change.labelId], updatedAt: now };
+      break;
+    case "removeLabel":
+      if (!labels.includes(change.labelId)) return null;
+      fields = { labels: labels.filter((id) => id !== change.labelId), updatedAt: now };
+      break;
+  }
+  return { ...note, ...fields, version: note.version + 1 };
+}
+
+// Memory storage fallback for development/testing
+export class MemStorage implements IStorage {
+  protected tables: MemTables;
+  private nextIds: Record<MemTableName, number>;
+  private searchIndex = new SearchIndex((id) => this.tables.notes.get(id));
+  private linkIndex = new LinkIndex();
+
+  constructor({ seedTestUser = true }: { seedTestUser?: boolean } = {}) {
+    this.tables = {
+      users: new Map(),
+      notes: new Map(),
+      labels: new Map(),
+      notebooks: new Map(),
+      noteRevisions: new Map(),
+      attachments: new Map(),
+      notifications: new Map(),
+      templates: new Map()
+    };
+    this.nextIds = { users: 1, notes: 1, labels: 1, notebooks: 1, noteRevisions: 1, attachments: 1, notifications: 1, templates: 1 };
+
+    // Add a test user for development
+    if (seedTestUser) {
+      this.addTestUser();
+    }
+  }
+
+  private async addTestUser() {
+    try {
+      const testUser = {
+        name: "Test User",
+        email: "test@example.com",
+        password: "password123"
+      };
+      await this.createUser(testUser);
+      console.log("Test user created: test@example.com / password123");
+    } catch (error) {
+      console.error("Failed to create test user:", error);
+    }
+  }
+
+  async ready(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  protected nextId(table: MemTableName): string {
+    return String(this.nextIds[table]++);
+  }
+
+  // All writes go through save() and remove() so subclasses can persist them
+  protected save<T extends MemTableName>(table: T, record: MemRecord<T> & { id: string }): void {
+    (this.tables[table] as Map<string, MemRecord<T>>).set(record.id, record);
+    if (table === "notes") this.indexNote(this.tables.notes.get(record.id)!);
+  }
+
+  protected remove(table: MemTableName, id: string): boolean {
+    if (table === "notes") this.unindexNote(id);
+    return this.tables[table].delete(id);
+  }
+
+  private indexNote(note: Note): void {
+    this.searchIndex.add(note);
+    this.linkIndex.add(note);
+  }
+
+  private unindexNote(id: string): void {
+    this.searchIndex.remove(id);
+    this.linkIndex.remove(id);
+  }
+
+  // Put back a previously saved record, keeping ID generation ahead of it
+  protected restore<T extends MemTableName>(table: T, record: MemRecord<T> & { id: string }): void {
+    (this.tables[table] as Map<string, MemRecord<T>>).set(record.id, record);
+    if (table === "notes") this.indexNote(this.tables.notes.get(record.id)!);
+    const numericId = Number(record.id);
+    if (Number.isInteger(numericId) && numericId >= this.nextIds[table]) {
+      this.nextIds[table] = numericId + 1;
+    }
+  }
+
+  // Drop a record while reloading; the counterpart of restore()
+  protected forget(table: MemTableName, id: string): void {
+    if (table === "notes") this.unindexNote(id);
+    this.tables[table].delete(id);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.tables.users.get(id) || null;
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    const user = Array.from(this.tables.users.values()).find(
+      (user) => user.email === email
+    );
+    return user || null;
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const id = this.nextId("users");
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(userData.password, saltRounds);
+
+    const user: User = {
+      id,
+      name: userData.name,
+      email: userData.email,
+      password: hashedPassword,
+      createdAt: new Date()
+    };
+
+    this.save("users", user);
+    return user;
+  }
+
+  async getNotesByUserId(userId: string): Promise<Note[]> {
+    return Array.from(this.tables.notes.values())
+      .filter((note) => note.userId === userId && !note.deletedAt)
+      .sort(compareNotes);
+  }
+
+  async queryNotes(userId: string, query: NoteQuery): Promise<NotePage> {
+    const sort = query.sort ?? "updated";
+    const cursor = query.cursor ? decodeNoteCursor(query.cursor, sort) : null;
+    if (query.cursor && !cursor) {
+      throw new Error("Invalid cursor");
+    }
+
+    const text = query.text?.toLowerCase();
+    const matches = Array.from(this.tables.notes.values())
+      .filter((note) =>
+        note.userId === userId &&
+        !note.deletedAt &&
+        matchesNoteFilters(note, query) &&
+        (!text || note.title.toLowerCase().includes(text) || note.content.toLowerCase().includes(text))
+      )
+      .sort((a, b) => compareNotePositions(notePosition(a, sort), notePosition(b, sort), sort));
+
+    // Start right after the cursor's position
+    let start = 0;
+    if (cursor) {
+      start = matches.findIndex((note) => compareNotePositions(notePosition(note, sort), cursor, sort) > 0);
+      if (start === -1) start = matches.length;
+    }
+
+    const end = query.limit === undefined ? matches.length : start + query.limit;
+    const notes = matches.slice(start, end);
+    const nextCursor = end < matches.length ? encodeNoteCursor(notes[notes.length - 1], sort) : null;
+    return { notes, nextCursor };
+  }
+
+  async searchNotes(userId: string, text: string, query: SearchQuery): Promise<SearchPage> {
+    return searchNotes(this.searchIndex, userId, text, query);
+  }
+
+  async getBacklinks(userId: string, title: string): Promise<Note[]> {
+    return this.linkIndex
+      .linkingTo(userId, normalizeLinkTitle(title))
+      .flatMap((id) => this.tables.notes.get(id) || [])
+      .filter((note) => !note.deletedAt)
+      .sort(compareNotes);
+  }
+
+  async getNoteById(id: string): Promise<Note | null> {
+    return this.tables.notes.get(id) || null;
+  }
+
+  async createNote(noteData: NewNote): Promise<Note> {
+    if (noteData.journalDate && (await this.getDailyNote(String(noteData.userId), noteData.journalDate))) {
+      throw new Error(`There already is a journal note for ${noteData.journalDate}`);
+    }
+
+    const id = this.nextId("notes");
+    const now = new Date();
+
+    const note: Note = {
+      id,
+      userId: String(noteData.userId),
+      title: noteData.title,
+      content: noteData.content,
+      summary: noteData.summary || null,
+      type: noteData.type || "text",
+      items: noteData.items ?? null,
+      pinned: noteData.pinned || false,
+      labels: noteData.labels || [],
+      notebookId: noteData.notebookId ?? null,
+      archived: noteData.archived || false,
+      backgroundColor: noteData.backgroundColor || "#ffffff",
+      fontSize: noteData.fontSize || "normal",
+      textFormatting: noteData.textFormatting || "{}",
+      remindAt: noteData.remindAt ?? null,
+      recurrence: noteData.recurrence ?? null,
+      reminderSentAt: null,
+      dueAt: noteData.dueAt ?? null,
+      journalDate: noteData.journalDate ?? null,
+      deletedAt: null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.save("notes", note);
+    this.recordRevision(note);
+    return note;
+  }
+
+  async updateNote(id: string, noteData: Partial<UpdateNote>, expectedVersion?: number): Promise<Note | null> {
+    const note = this.tables.notes.get(id);
+    if (!note) return null;
+    if (expectedVersion !== undefined && note.version !== expectedVersion) {
+      throw new NoteVersionConflictError(note);
+    }
+
+    // Notes created before revisions existed start their history here
+    if (!this.latestRevision(id)) {
+      this.recordRevision(note);
+    }
+
+    const updatedNote: Note = {
+      ...note,
+      ...definedFields({
+        title: noteData.title,
+        content: noteData.content,
+        summary: noteData.summary,
+        type: noteData.type,
+        items: noteData.items,
+        pinned: noteData.pinned,
+        labels: noteData.labels,
+        notebookId: noteData.notebookId,
+        archived: noteData.archived,
+        backgroundColor: noteData.backgroundColor,
+        fontSize: noteData.fontSize,
+        textFormatting: noteData.textFormatting,
+        remindAt: noteData.remindAt,
+        recurrence: noteData.recurrence,
+        dueAt: noteData.dueAt
+      }),
+      version: note.version + 1,
+      updatedAt: new Date()
+    };
+
+    this.save("notes", updatedNote);
+    this.recordRevision(updatedNote);
+    return updatedNote;
+  }
+
+  async addLabelToNote(noteId: string, labelId: string): Promise<Note | null> {
+    const note = this.tables.notes.get(noteId);
+    if (!note) return null;
+
+    const labels = note.labels || [];
+    if (labels.includes(labelId)) return note;
+    return this.setLabels(note, [...labels, labelId], new Date());
+  }
+
+  async removeLabelFromNote(noteId: string, labelId: string): Promise<Note | null> {
+    const note = this.tables.notes.get(noteId);
+    if (!note) return null;
+
+    const labels = note.labels || [];
+    if (!labels.includes(labelId)) return note;
+    return this.setLabels(note, labels.filter((id) => id !== labelId), new Date());
+  }
+
+  private setLabels(note: Note, labels: string[], updatedAt: Date | null): Note {
+    const updatedNote: Note = {
+      ...note,
+      labels,
+      version: note.version + 1,
+      updatedAt: updatedAt ?? note.updatedAt
+    };
+    this.save("notes", updatedNote);
+    return updatedNote;
+  }
+
+  async updateNotes(ids: string[], change: NoteBatchChange): Promise<Note[]> {
+    const now = new Date();
+    const changed: Note[] = [];
+    for (const id of ids) {
+      const note = this.tables.notes.get(id);
+      const updatedNote = note && applyBatchChange(note, change, now);
+      if (!updatedNote) continue;
+      this.save("notes", updatedNote);
+      changed.push(updatedNote);
+    }
+    return changed;
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    for (const revision of this.revisionsOf(id)) {
+      this.remove("noteRevisions", revision.id);
+    }
+    for (const attachment of await this.getAttachmentsByNoteId(id)) {
+      this.remove("attachments", attachment.id);
+    }
+    for (const notification of Array.from(this.tables.notifications.values())) {
+      if (notification.noteId === id) this.remove("notifications", notification.id);
+    }
+    return this.remove("notes", id);
+  }
+
+  // Daily journal operations
+  async getDailyNote(userId: string, date: string): Promise<Note | null> {
+    return Array.from(this.tables.notes.values())
+      .find((note) => note.userId === userId && note.journalDate === date) || null;
+  }
+
+  async getDailyNotes(userId: string, from: string, to: string): Promise<Note[]> {
+    return Array.from(this.tables.notes.values())
+      .filter((note) =>
+        note.userId === userId &&
+        !note.deletedAt &&
+        note.journalDate !== null &&
+        note.journalDate >= from &&
+        note.journalDate <= to
+      )
+      .sort((a, b) => a.journalDate!.localeCompare(b.journalDate!));
+  }
+
+  // Trash operations
+  async getTrashedNotesByUserId(userId: string): Promise<Note[]> {
+    return Array.from(this.tables.notes.values())
+      .filter((note) => note.userId === userId && note.deletedAt)
+      .sort(compareTrashedNotes);
+  }
+
+  async trashNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, new Date());
+  }
+
+  async restoreNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, null);
+  }
+
+  async purgeTrashedNotes(trashedBefore: Date, userId?: string): Promise<number> {
+    const expired = Array.from(this.tables.notes.values()).filter((note) =>
+      note.deletedAt &&
+      new Date(note.deletedAt) < trashedBefore &&
+      (userId === undefined || note.userId === userId)
+    );
+
+    for (const note of expired) {
+      await this.deleteNote(note.id);
+    }
+    return expired.length;
+  }
+
+  // Moving a note in or out of the trash leaves updatedAt alone
+  private setDeletedAt(id: string, deletedAt: Date | null): Note | null {
+    const note = this.tables.notes.get(id);
+    if (!note) return null;
+
+    const updatedNote: Note = { ...note, deletedAt, version: note.version + 1 };
+    this.save("notes", updatedNote);
+    return updatedNote;
+  }
+
+  // Revision operations
+  async getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    return this.revisionsOf(noteId);
+  }
+
+  async getNoteRevision(noteId: string, revision: number): Promise<NoteRevision | null> {
+    return this.revisionsOf(noteId).find((entry) => entry.revision === revision) || null;
+  }
+
+  private revisionsOf(noteId: string): NoteRevision[] {
+    return Array.from(this.tables.noteRevisions.values())
+      .filter((revision) => revision.noteId === noteId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  private latestRevision(noteId: string): NoteRevision | undefined {
+    return this.revisionsOf(noteId)[0];
+  }
+
+  private recordRevision(note: Note): void {
+    const latest = this.latestRevision(note.id);
+    if (!hasNewRevision(note, latest)) return;
+
+    this.save("noteRevisions", {
+      id: this.nextId("noteRevisions"),
+      noteId: note.id,
+      userId: note.userId,
+      revision: (latest?.revision ?? 0) + 1,
+      title: note.title,
+      content: note.content,
+      summary: note.summary,
+      createdAt: new Date()
+    });
+  }
+
+  // Reminder operations
+  async getDueReminders(now: Date): Promise<Note[]> {
+    return Array.from(this.tables.notes.values()).filter((note) => isReminderDue(note, now));
+  }
+
+  async advanceReminder(noteId: string, remindAt: Date, change: ReminderChange): Promise<boolean> {
+    const note = this.tables.notes.get(noteId);
+    if (!note || !note.remindAt || new Date(note.remindAt).getTime() !== remindAt.getTime()) return false;
+    if (change.sentAt && !isReminderDue(note, change.sentAt)) return false;
+
+    this.save("notes", {
+      ...note,
+      ...definedFields({ reminderSentAt: change.sentAt, remindAt: change.next }),
+    });
+    return true;
+  }
+
+  // Notification operations
+  async getNotificationsByUserId(userId: string, limit?: number): Promise<Notification[]> {
+    return Array.from(this.tables.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => Number(b.id) - Number(a.id))
+      .slice(0, limit);
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const notification: Notification = {
+      ...notificationData,
+      id: this.nextId("notifications"),
+      userId: String(notificationData.userId),
+      readAt: null,
+      createdAt: new Date()
+    };
+
+    this.save("notifications", notification);
+    return notification;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const readAt = new Date();
+    let marked = 0;
+    for (const notification of Array.from(this.tables.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt && (!ids || ids.includes(notification.id))) {
+        this.save("notifications", { ...notification, readAt });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  // Label operations
+  async getLabelsByUserId(userId: string): Promise<Label[]> {
+    return Array.from(this.tables.labels.values())
+      .filter((label) => label.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLabelById(id: string): Promise<Label | null> {
+    return this.tables.labels.get(id) || null;
+  }
+
+  async createLabel(labelData: InsertLabel & { userId: string }): Promise<Label> {
+    const id = this.nextId("labels");
+    const now = new Date();
+
+    const label: Label = {
+      id,
+      userId: String(labelData.userId),
+      name: labelData.name,
+      color: labelData.color || "#3b82f6",
+      parentId: labelData.parentId ?? null,
+      createdAt: now
+    };
+
+    this.save("labels", label);
+    return label;
+  }
+
+  async updateLabel(id: string, labelData: UpdateLabel): Promise<Label | null> {
+    const label = this.tables.labels.get(id);
+    if (!label) return null;
+
+    const updatedLabel: Label = {
+      ...label,
+      ...definedFields({
+        name: labelData.name,
+        // Labels always keep a color
+        color: labelData.color || undefined,
+        parentId: labelData.parentId
+      })
+    };
+
+    this.save("labels", updatedLabel);
+    return updatedLabel;
+  }
+
+  async deleteLabel(id: string): Promise<boolean> {
+    const label = this.tables.labels.get(id);
+    if (!label) return false;
+
+    for (const child of Array.from(this.tables.labels.values())) {
+      if (child.parentId === id) {
+        this.save("labels", { ...child, parentId: label.parentId });
+      }
+    }
+
+    // Dropping a deleted label from notes is cleanup, not an edit, so
+    // updatedAt stays as it was
+    for (const note of Array.from(this.tables.notes.values())) {
+      if (note.labels?.includes(id)) {
+        this.setLabels(note, note.labels.filter((labelId) => labelId !== id), null);
+      }
+    }
+    return this.remove("labels", id);
+  }
+
+  // Notebook operations
+  async getNotebooksByUserId(userId: string): Promise<Notebook[]> {
+    return Array.from(this.tables.notebooks.values())
+      .filter((notebook) => notebook.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getNotebookById(id: string): Promise<Notebook | null> {
+    return this.tables.notebooks.get(id) || null;
+  }
+
+  async createNotebook(notebookData: InsertNotebook & { userId: string }): Promise<Notebook> {
+    const notebook: Notebook = {
+      id: this.nextId("notebooks"),
+      userId: String(notebookData.userId),
+      name: notebookData.name,
+      defaultBackgroundColor: notebookData.defaultBackgroundColor || "#ffffff",
+      createdAt: new Date()
+    };
+
+    this.save("notebooks", notebook);
+    return notebook;
+  }
+
+  async updateNotebook(id: string, notebookData: UpdateNotebook): Promise<Notebook | null> {
+    const notebook = this.tables.notebooks.get(id);
+    if (!notebook) return null;
+
+    const updatedNotebook: Notebook = {
+      ...notebook,
+      ...definedFields({
+        name: notebookData.name,
+        defaultBackgroundColor: notebookData.defaultBackgroundColor || undefined
+      })
+    };
+
+    this.save("notebooks", updatedNotebook);
+    return updatedNotebook;
+  }
+
+  async deleteNotebook(id: string): Promise<boolean> {
+    // Like label cleanup, taking notes out of the notebook leaves updatedAt alone
+    for (const note of Array.from(this.tables.notes.values())) {
+      if (note.notebookId === id) {
+        this.save("notes", { ...note, notebookId: null, version: note.version + 1 });
+      }
+    }
+    return this.remove("notebooks", id);
+  }
+
+  // Template operations
+  async getTemplatesByUserId(userId: string): Promise<Template[]> {
+    return Array.from(this.tables.templates.values())
+      .filter((template) => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTemplateById(id: string): Promise<Template | null> {
+    return this.tables.templates.get(id) || null;
+  }
+
+  async createTemplate(templateData: InsertTemplate & { userId: string }): Promise<Template> {
+    const now = new Date();
+    const template: Template = {
+      id: this.nextId("templates"),
+      userId: String(templateData.userId),
+      name: templateData.name,
+      title: templateData.title ?? "",
+      content: templateData.content ?? "",
+      type: templateData.type ?? "text",
+      labels: templateData.labels ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.save("templates", template);
+    return template;
+  }
+
+  async updateTemplate(id: string, templateData: UpdateTemplate): Promise<Template | null> {
+    const template = this.tables.templates.get(id);
+    if (!template) return null;
+
+    const updatedTemplate: Template = {
+      ...template,
+      ...definedFields({
+        name: templateData.name,
+        title: templateData.title,
+        content: templateData.content,
+        type: templateData.type,
+        labels: templateData.labels
+      }),
+      updatedAt: new Date()
+    };
+
+    this.save("templates", updatedTemplate);
+    return updatedTemplate;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.remove("templates", id);
+  }
+
+  // Attachment operations
+  async getAttachmentsByNoteId(noteId: string): Promise<Attachment[]> {
+    return Array.from(this.tables.attachments.values())
+      .filter((attachment) => attachment.noteId === noteId)
+      .sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    return this.tables.attachments.get(id) || null;
+  }
+
+  async getAttachmentUsage(userId: string): Promise<number> {
+    return Array.from(this.tables.attachments.values())
+      .filter((attachment) => attachment.userId === userId)
+      .reduce((total, attachment) => total + attachment.size, 0);
+  }
+
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    const attachment: Attachment = {
+      ...attachmentData,
+      id: this.nextId("attachments"),
+      userId: String(attachmentData.userId),
+      createdAt: new Date()
+    };
+
+    this.save("attachments", attachment);
+    return attachment;
+  }
+
+  async deleteAttachment(id: string): Promise<boolean> {
+    return this.remove("attachments", id);
+  }
+
+  // Bulk operations
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.tables.users.values());
+  }
+
+  async importUser(userData: Omit<User, "id">): Promise<User> {
+    const user: User = { ...userData, id: this.nextId("users") };
+    this.save("users", user);
+    return user;
+  }
+
+  async importLabel(labelData: Omit<Label, "id">): Promise<Label> {
+    const label: Label = { ...labelData, id: this.nextId("labels") };
+    this.save("labels", label);
+    return label;
+  }
+
+  async importNotebook(notebookData: Omit<Notebook, "id">): Promise<Notebook> {
+    const notebook: Notebook = { ...notebookData, id: this.nextId("notebooks") };
+    this.save("notebooks", notebook);
+    return notebook;
+  }
+
+  async importNote(noteData: Omit<Note, "id">): Promise<Note> {
+    const note: Note = { ...noteData, id: this.nextId("notes") };
+    this.save("notes", note);
+    return note;
+  }
+
+  async importNoteContent(id: string, content: string): Promise<Note | null> {
+    const note = this.tables.notes.get(id);
+    if (!note) return null;
+
+    const updatedNote: Note = { ...note, content };
+    this.save("notes", updatedNote);
+    return updatedNote;
+  }
+
+  async importTemplate(templateData: Omit<Template, "id">): Promise<Template> {
+    const template: Template = { ...templateData, id: this.nextId("templates") };
+    this.save("templates", template);
+    return template;
+  }
+
+  async importAttachment(attachmentData: Omit<Attachment, "id">): Promise<Attachment> {
+    const attachment: Attachment = { ...attachmentData, id: this.nextId("attachments") };
+    this.save("attachments", attachment);
+    return attachment;
+  }
+
+  async importNotification(notificationData: Omit<Notification, "id">): Promise<Notification> {
+    const notification: Notification = { ...notificationData, id: this.nextId("notifications") };
+    this.save("notifications", notification);
+    return notification;
+  }
+}
@@ -0,0 +1,1458 @@
+import type { User, InsertUser, Note, UpdateNote, Label, InsertLabel, UpdateLabel, Notebook, InsertNotebook, UpdateNotebook, NoteRevision, Attachment, InsertAttachment, Notification, InsertNotification, Template, InsertTemplate, UpdateTemplate, NoteSort } from "@shared/schema";
+import mongoose from "mongoose";
+import bcrypt from "bcrypt";
+import { decodeNoteCursor, definedFields, encodeNoteCursor, hasNewRevision, NoteVersionConflictError, type IStorage, type NewNote, type NoteBatchChange, type NotePage, type NoteQuery, type ReminderChange, type SearchQuery } from "./types";
+import { indexNote, searchNotes, type IndexedNote, type SearchIndexReader, type SearchPage } from "./search";
+import { indexLinks } from "./links";
+import { normalizeLinkTitle } from "@shared/wikiLinks";
+
+// Define mongoose schemas
+const UserSchema = new mongoose.Schema({
+  name: { type: String, required: true },
+  email: { type: String, required: true, unique: true },
+  password: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const NoteSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  title: { type: String, required: true },
+  // Not required: an empty checklist has empty content, which Mongoose
+  // would reject as missing
+  content: { type: String, default: "" },
+  summary: { type: String },
+  type: { type: String, enum: ["text", "checklist"], default: "text" },
+  items: { type: mongoose.Schema.Types.Mixed, default: null },
+  pinned: { type: Boolean, required: true, default: false },
+  labels: { type: [String], default: [] },
+  notebookId: { type: mongoose.Schema.Types.ObjectId, default: null },
+  archived: { type: Boolean, required: true, default: false },
+  backgroundColor: { type: String, default: "#ffffff" },
+  fontSize: { type: String, default: "normal" },
+  textFormatting: { type: String, default: "{}" },
+  remindAt: { type: Date, default: null },
+  recurrence: { type: String, default: null },
+  reminderSentAt: { type: Date, default: null },
+  dueAt: { type: Date, default: null },
+  journalDate: { type: String, default: null },
+  deletedAt: { type: Date, default: null },
+  version: { type: Number, required: true, default: 1 },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+// Used by the trash purge sweep
+NoteSchema.index({ deletedAt: 1 }, { sparse: true });
+NoteSchema.index({ userId: 1, pinned: -1, updatedAt: -1 });
+NoteSchema.index({ notebookId: 1 }, { sparse: true });
+// Used by the reminder scheduler
+NoteSchema.index({ remindAt: 1 }, { sparse: true });
+// One journal note per user per day
+NoteSchema.index(
+  { userId: 1, journalDate: 1 },
+  { unique: true, partialFilterExpression: { journalDate: { $type: "string" } } }
+);
+
+const NotebookSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  name: { type: String, required: true },
+  defaultBackgroundColor: { type: String, required: true, default: "#ffffff" },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const TemplateSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+  name: { type: String, required: true },
+  title: { type: String, default: "" },
+  content: { type: String, default: "" },
+  type: { type: String, enum: ["text", "checklist"], default: "text" },
+  labels: { type: [String], default: [] },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now }
+});
+
+const AttachmentSchema = new mongoose.Schema({
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+  filename: { type: String, required: true },
+  mimeType: { type: String, required: true },
+  size: { type: Number, required: true },
+  blobKey: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const NotificationSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+  type: { type: String, enum: ["reminder"], required: true },
+  title: { type: String, required: true },
+  readAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Notes whose reminder is due: remindAt has passed and no reminder was sent
+// since (see isReminderDue)
+function dueReminderFilter(now: Date): Record<string, unknown> {
+  return {
+    remindAt: { $ne: null, $lte: now },
+    deletedAt: null,
+    $or: [{ reminderSentAt: null }, { $expr: { $lt: ["$reminderSentAt", "$remindAt"] } }]
+  };
+}
+
+// Note field each sort orders by, after pinned
+const noteSortFields: Record<NoteSort, string> = {
+  updated: "updatedAt",
+  created: "createdAt",
+  title: "title"
+};
+
+// Case-insensitive comparison, so title sorting matches the other backends
+const titleCollation = { locale: "en", strength: 2 };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const NoteRevisionSchema = new mongoose.Schema({
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  revision: { type: Number, required: true },
+  title: { type: String, required: true },
+  content: { type: String, required: true },
+  summary: { type: String },
+  createdAt: { type: Date, default: Date.now }
+});
+NoteRevisionSchema.index({ noteId: 1, revision: -1 }, { unique: true });
+
+// Tries at numbering a revision before concurrent writers are given up on
+const MAX_REVISION_ATTEMPTS = 5;
+
+// A write rejected by a unique index
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === 11000;
+}
+
+// Inverted index for full-text search (see search.ts); one document per term
+// per note field
+const SearchTermSchema = new mongoose.Schema({
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  field: { type: String, required: true },
+  term: { type: String, required: true },
+  positions: { type: [Number], required: true }
+});
+SearchTermSchema.index({ userId: 1, term: 1 });
+SearchTermSchema.index({ noteId: 1 });
+
+// Token counts of each indexed note, used to rank search results
+const SearchDocumentSchema = new mongoose.Schema({
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true, unique: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  lengths: {
+    title: { type: Number, required: true },
+    summary: { type: Number, required: true },
+    content: { type: Number, required: true }
+  }
+});
+SearchDocumentSchema.index({ userId: 1 });
+
+interface SearchModels {
+  SearchTerm: mongoose.Model<any>;
+  SearchDocument: mongoose.Model<any>;
+}
+
+// Replaces the note's entries in the search index
+async function writeSearchIndex({ SearchTerm, SearchDocument }: SearchModels, note: IndexedNote): Promise<void> {
+  const { document, postings } = indexNote(note);
+  await SearchTerm.deleteMany({ noteId: note.id });
+  await SearchDocument.replaceOne({ noteId: note.id }, document, { upsert: true });
+  if (postings.length > 0) {
+    await SearchTerm.insertMany(postings);
+  }
+}
+
+// [[Wiki links]] between notes (see links.ts); one document per note per
+// normalized title it links to
+const NoteLinkSchema = new mongoose.Schema({
+  noteId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  target: { type: String, required: true }
+});
+NoteLinkSchema.index({ userId: 1, target: 1 });
+NoteLinkSchema.index({ noteId: 1 });
+
+// Replaces the note's entries in the link index
+async function writeLinkIndex(NoteLink: mongoose.Model<any>, note: Pick<Note, "id" | "userId" | "content">): Promise<void> {
+  await NoteLink.deleteMany({ noteId: note.id });
+  const links = indexLinks(note);
+  if (links.length > 0) {
+    await NoteLink.insertMany(links);
+  }
+}
+
+// Records which data migrations have already been applied to the database
+const MigrationSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true },
+  appliedAt: { type: Date, default: Date.now }
+});
+
+// Data migrations, applied once per database in order when the storage connects.
+// Never edit or reorder an entry that has shipped; append a new one instead.
+const migrations: {
+  name: string;
+  up: (models: { Note: mongoose.Model<any>; NoteLink: mongoose.Model<any> } & SearchModels) => Promise<void>;
+}[] = [
+  {
+    // Notes written before NoteSchema declared these fields have them missing
+    name: "backfill-note-defaults",
+    up: async ({ Note }) => {
+      const defaults: Record<string, unknown> = {
+        pinned: false,
+        labels: [],
+        archived: false,
+        backgroundColor: "#ffffff",
+        fontSize: "normal",
+        textFormatting: "{}"
+      };
+
+      for (const [field, value] of Object.entries(defaults)) {
+        const result = await Note.updateMany(
+          { [field]: { $exists: false } },
+          { $set: { [field]: value } },
+          { strict: false }
+        );
+        if (result.modifiedCount > 0) {
+          console.log(`Backfilled ${field} on ${result.modifiedCount} notes`);
+        }
+      }
+    }
+  },
+  {
+    // Notes written before full-text search existed
+    name: "build-search-index",
+    up: async ({ Note, ...searchModels }) => {
+      let indexed = 0;
+      for await (const note of Note.find({}, { userId: 1, title: 1, content: 1, summary: 1 }).cursor()) {
+        await writeSearchIndex(searchModels, {
+          id: note._id.toString(),
+          userId: note.userId.toString(),
+          title: note.title,
+          content: note.content,
+          summary: note.summary ?? null
+        });
+        indexed++;
+      }
+      console.log(`Added ${indexed} notes to the search index`);
+    }
+  },
+  {
+    // Notes written before versions existed
+    name: "backfill-note-version",
+    up: async ({ Note }) => {
+      const result = await Note.updateMany({ version: { $exists: false } }, { $set: { version: 1 } });
+      if (result.modifiedCount > 0) {
+        console.log(`Backfilled version on ${result.modifiedCount} notes`);
+      }
+    }
+  },
+  {
+    // Notes written before links were indexed
+    name: "build-link-index",
+    up: async ({ Note, NoteLink }) => {
+      let indexed = 0;
+      for await (const note of Note.find({ content: /\[\[/ }, { userId: 1, content: 1 }).cursor()) {
+        await writeLinkIndex(NoteLink, {
+          id: note._id.toString(),
+          userId: note.userId.toString(),
+          content: note.content
+        });
+        indexed++;
+      }
+      console.log(`Added ${indexed} notes to the link index`);
+    }
+  },
+  {
+    // The stemmer changed (SEARCH_INDEX_VERSION 2): "noted" is now "note"
+    name: "rebuild-search-index-v2",
+    up: async ({ Note, ...searchModels }) => {
+      let indexed = 0;
+      for await (const note of Note.find({}, { userId: 1, title: 1, content: 1, summary: 1 }).cursor()) {
+        await writeSearchIndex(searchModels, {
+          id: note._id.toString(),
+          userId: note.userId.toString(),
+          title: note.title,
+          content: note.content,
+          summary: note.summary ?? null
+        });
+        indexed++;
+      }
+      console.log(`Rebuilt the search index of ${indexed} notes`);
+    }
+  }
+];
+
+// MongoDB implementation
+export class MongoStorage implements IStorage {
+  private UserModel: mongoose.Model<any>;
+  private NoteModel: mongoose.Model<any>;
+  private LabelModel: mongoose.Model<any>;
+  private NotebookModel: mongoose.Model<any>;
+  private TemplateModel: mongoose.Model<any>;
+  private NoteRevisionModel: mongoose.Model<any>;
+  private AttachmentModel: mongoose.Model<any>;
+  private NotificationModel: mongoose.Model<any>;
+  private MigrationModel: mongoose.Model<any>;
+  private searchModels: SearchModels;
+  private NoteLinkModel: mongoose.Model<any>;
+  private db: mongoose.Connection;
+  private connection: Promise<void>;
+  
+  constructor(uri: string = process.env.MONGODB_URI || 'mongodb://localhost:27017/notekeeper') {
+    // Define the label schema
+    const LabelSchema = new mongoose.Schema({
+      userId: { type: mongoose.Schema.Types.ObjectId, required: true },
+      name: { type: String, required: true },
+      color: { type: String, required: true, default: "#3b82f6" },
+      parentId: { type: mongoose.Schema.Types.ObjectId, default: null },
+      createdAt: { type: Date, default: Date.now }
+    });
+    
+    // Each instance owns its connection and models, so two databases can be
+    // open at once (e.g. when migrating between them)
+    console.log("Connecting to MongoDB:", uri);
+    this.db = mongoose.createConnection(uri, { serverSelectionTimeoutMS: 10000 });
+    this.UserModel = this.db.model('User', UserSchema);
+    this.NoteModel = this.db.model('Note', NoteSchema);
+    this.LabelModel = this.db.model('Label', LabelSchema);
+    this.NotebookModel = this.db.model('Notebook', NotebookSchema);
+    this.TemplateModel = this.db.model('Template', TemplateSchema);
+    this.NoteRevisionModel = this.db.model('NoteRevision', NoteRevisionSchema);
+    this.AttachmentModel = this.db.model('Attachment', AttachmentSchema);
+    this.NotificationModel = this.db.model('Notification', NotificationSchema);
+    this.MigrationModel = this.db.model('Migration', MigrationSchema);
+    this.searchModels = {
+      SearchTerm: this.db.model('SearchTerm', SearchTermSchema),
+      SearchDocument: this.db.model('SearchDocument', SearchDocumentSchema)
+    };
+    this.NoteLinkModel = this.db.model('NoteLink', NoteLinkSchema);
+    
+    this.connection = this.db.asPromise()
+      .then(() => console.log("MongoDB connected successfully"))
+      .then(() => this.applyMigrations());
+    // Failures are reported through ready()
+    this.connection.catch(() => {});
+  }
+
+  async ready(): Promise<void> {
+    try {
+      await this.connection;
+    } catch (error) {
+      throw new Error(`MongoDB is not available: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.db.close();
+  }
+
+  private async applyMigrations(): Promise<void> {
+    const applied = new Set(
+      (await this.MigrationModel.find({}, { name: 1 }).lean()).map((migration: any) => migration.name)
+    );
+
+    for (const migration of migrations) {
+      if (applied.has(migration.name)) continue;
+
+      console.log("Applying MongoDB migration:", migration.name);
+      await migration.up({ Note: this.NoteModel, NoteLink: this.NoteLinkModel, ...this.searchModels });
+      await this.MigrationModel.create({ name: migration.name });
+    }
+  }
+  
+  // User operations
+  async getUser(id: string): Promise<User | null> {
+    try {
+      const user = await this.UserModel.findById(id).lean();
+      if (!user) return null;
+      return this.mapUserToSchema(user);
+    } catch (error) {
+      console.error("Error getting user:", error);
+      return null;
+    }
+  }
+  
+  async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const user = await this.UserModel.findOne({ email }).lean();
+      if (!user) return null;
+      return this.mapUserToSchema(user);
+    } catch (error) {
+      console.error("Error getting user by email:", error);
+      return null;
+    }
+  }
+  
+  async createUser(userData: InsertUser): Promise<User> {
+    try {
+      // Hash password
+      const saltRounds = 10;
+      const hashedPassword = await bcrypt.hash(userData.password, saltRounds);
+      
+      // Create new user
+      const user = await this.UserModel.create({
+        name: userData.name,
+        email: userData.email,
+        password: hashedPassword
+      });
+      
+      return this.mapUserToSchema(user.toObject());
+    } catch (error) {
+      console.error("Error creating user:", error);
+      throw new Error("Failed to create user");
+    }
+  }
+  
+  // Note operations
+  async getNotesByUserId(userId: string): Promise<Note[]> {
+    try {
+      console.log("Looking for notes with userId:", userId);
+      // Some MongoDB implementations like Mongoose may not automatically convert string to ObjectId
+      // Convert if it's a mongoose ObjectId, otherwise keep as string
+      let query: any;
+      if (mongoose.Types.ObjectId.isValid(userId)) {
+        query = { userId: mongoose.Types.ObjectId.createFromHexString(userId) };
+      } else {
+        query = { userId };
+      }
+
+      // A null match also covers documents written before deletedAt existed
+      const notes = await this.NoteModel.find({ ...query, deletedAt: null }).sort({ pinned: -1, updatedAt: -1 }).lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error getting notes by user id:", error);
+      return [];
+    }
+  }
+  
+  async queryNotes(userId: string, query: NoteQuery): Promise<NotePage> {
+    const sort = query.sort ?? "updated";
+    const cursor = query.cursor ? decodeNoteCursor(query.cursor, sort) : null;
+    if (query.cursor && (!cursor || !mongoose.Types.ObjectId.isValid(cursor.id))) {
+      throw new Error("Invalid cursor");
+    }
+
+    try {
+      const conditions: Record<string, unknown>[] = [{ userId, deletedAt: null }];
+      if (query.archived !== undefined) conditions.push({ archived: query.archived });
+      if (query.pinned !== undefined) conditions.push({ pinned: query.pinned });
+      if (query.notebookId !== undefined) conditions.push({ notebookId: query.notebookId });
+      for (const group of query.labelGroups ?? []) conditions.push({ labels: { $in: group } });
+      if (query.text) {
+        const pattern = new RegExp(escapeRegExp(query.text), "i");
+        conditions.push({ $or: [{ title: pattern }, { content: pattern }] });
+      }
+
+      // Titles sort A-Z, dates newest first; IDs break ties in the same direction
+      const field = noteSortFields[sort];
+      const direction = sort === "title" ? 1 : -1;
+      const beyond = direction === 1 ? "$gt" : "$lt";
+
+      if (cursor) {
+        const key = sort === "title" ? cursor.key : new Date(cursor.key);
+        const id = new mongoose.Types.ObjectId(cursor.id);
+        conditions.push({
+          $or: [
+            ...(cursor.pinned ? [{ pinned: false }] : []),
+            { pinned: cursor.pinned, [field]: { [beyond]: key } },
+            { pinned: cursor.pinned, [field]: key, _id: { [beyond]: id } }
+          ]
+        });
+      }
+
+      let statement = this.NoteModel.find({ $and: conditions })
+        .sort({ pinned: -1, [field]: direction, _id: direction });
+      if (sort === "title") statement = statement.collation(titleCollation);
+      // One extra document tells whether there is another page
+      if (query.limit !== undefined) statement = statement.limit(query.limit + 1);
+
+      const documents = await statement.lean();
+      const page = query.limit === undefined ? documents : documents.slice(0, query.limit);
+      const notes = page.map(this.mapNoteToSchema);
+      const nextCursor = documents.length > page.length
+        ? encodeNoteCursor(notes[notes.length - 1], sort)
+        : null;
+      return { notes, nextCursor };
+    } catch (error) {
+      console.error("Error querying notes:", error);
+      return { notes: [], nextCursor: null };
+    }
+  }
+
+  async getBacklinks(userId: string, title: string): Promise<Note[]> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) return [];
+
+    try {
+      const links = await this.NoteLinkModel.find({ userId, target: normalizeLinkTitle(title) }, { noteId: 1 }).lean();
+      const notes = await this.NoteModel.find({ _id: { $in: links.map((link: any) => link.noteId) }, deletedAt: null })
+        .sort({ pinned: -1, updatedAt: -1 })
+        .lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error getting backlinks:", error);
+      return [];
+    }
+  }
+
+  async getNoteById(id: string): Promise<Note | null> {
+    try {
+      const note = await this.NoteModel.findById(id).lean();
+      if (!note) return null;
+      return this.mapNoteToSchema(note);
+    } catch (error) {
+      console.error("Error getting note by id:", error);
+      return null;
+    }
+  }
+  
+  async createNote(noteData: NewNote): Promise<Note> {
+    try {
+      console.log("Creating note with userId:", noteData.userId);
+      
+      const note = await this.NoteModel.create({
+        userId: noteData.userId,
+        title: noteData.title,
+        content: noteData.content,
+        summary: noteData.summary || null,
+        type: noteData.type || "text",
+        items: noteData.items ?? null,
+        pinned: noteData.pinned || false,
+        labels: noteData.labels || [],
+        notebookId: noteData.notebookId ?? null,
+        archived: noteData.archived || false,
+        backgroundColor: noteData.backgroundColor || "#ffffff",
+        fontSize: noteData.fontSize || "normal",
+        textFormatting: noteData.textFormatting || "{}",
+        remindAt: noteData.remindAt ?? null,
+        recurrence: noteData.recurrence ?? null,
+        dueAt: noteData.dueAt ?? null,
+        journalDate: noteData.journalDate ?? null
+      });
+      
+      console.log("Created note:", note);
+      const created = this.mapNoteToSchema(note.toObject());
+      await this.recordRevision(created);
+      await writeSearchIndex(this.searchModels, created);
+      await writeLinkIndex(this.NoteLinkModel, created);
+      return created;
+    } catch (error) {
+      console.error("Error creating note:", error);
+      throw new Error("Failed to create note");
+    }
+  }
+  
+  async updateNote(id: string, noteData: Partial<UpdateNote>, expectedVersion?: number): Promise<Note | null> {
+    try {
+      // Notes created before revisions existed start their history here
+      if (!(await this.NoteRevisionModel.exists({ noteId: id }))) {
+        const current = await this.getNoteById(id);
+        if (current) await this.recordRevision(current);
+      }
+
+      // Matching on the version makes the check and the write one atomic step
+      const filter: Record<string, unknown> = { _id: id };
+      if (expectedVersion !== undefined) filter.version = expectedVersion;
+
+      const note = await this.NoteModel.findOneAndUpdate(
+        filter,
+        {
+          ...definedFields({
+            title: noteData.title,
+            content: noteData.content,
+            summary: noteData.summary,
+            type: noteData.type,
+            items: noteData.items,
+            pinned: noteData.pinned,
+            labels: noteData.labels,
+            notebookId: noteData.notebookId,
+            archived: noteData.archived,
+            backgroundColor: noteData.backgroundColor,
+            fontSize: noteData.fontSize,
+            textFormatting: noteData.textFormatting,
+            remindAt: noteData.remindAt,
+            recurrence: noteData.recurrence,
+            dueAt: noteData.dueAt
+          }),
+          updatedAt: new Date(),
+          $inc: { version: 1 }
+        },
+        { new: true }
+      ).lean();
+      
+      if (!note) {
+        const current = expectedVersion !== undefined ? await this.getNoteById(id) : null;
+        if (current) throw new NoteVersionConflictError(current);
+        return null;
+      }
+      const updated = this.mapNoteToSchema(note);
+      await this.recordRevision(updated);
+      if (noteData.title !== undefined || noteData.content !== undefined || noteData.summary !== undefined) {
+        await writeSearchIndex(this.searchModels, updated);
+      }
+      if (noteData.content !== undefined) {
+        await writeLinkIndex(this.NoteLinkModel, updated);
+      }
+      return updated;
+    } catch (error) {
+      if (error instanceof NoteVersionConflictError) throw error;
+      console.error("Error updating note:", error);
+      return null;
+    }
+  }
+  
+  // The label condition in the filter makes these no-ops when there is
+  // nothing to change, so the version only moves on a real change
+  async addLabelToNote(noteId: string, labelId: string): Promise<Note | null> {
+    try {
+      const note = await this.NoteModel.findOneAndUpdate(
+        { _id: noteId, labels: { $ne: labelId } },
+        { $push: { labels: labelId }, $inc: { version: 1 }, updatedAt: new Date() },
+        { new: true }
+      ).lean();
+      return note ? this.mapNoteToSchema(note) : this.getNoteById(noteId);
+    } catch (error) {
+      console.error("Error adding label to note:", error);
+      return null;
+    }
+  }
+
+  async removeLabelFromNote(noteId: string, labelId: string): Promise<Note | null> {
+    try {
+      const note = await this.NoteModel.findOneAndUpdate(
+        { _id: noteId, labels: labelId },
+        { $pull: { labels: labelId }, $inc: { version: 1 }, updatedAt: new Date() },
+        { new: true }
+      ).lean();
+      return note ? this.mapNoteToSchema(note) : this.getNoteById(noteId);
+    } catch (error) {
+      console.error("Error removing label from note:", error);
+      return null;
+    }
+  }
+
+  // Without transactions each note changes on its own; the filter leaves out
+  // the notes the change would not alter
+  async updateNotes(ids: string[], change: NoteBatchChange): Promise<Note[]> {
+    const noteIds = ids.filter((id) => mongoose.Types.ObjectId.isValid(id));
+    if (noteIds.length === 0) return [];
+
+    const now = new Date();
+    let filter: Record<string, unknown>;
+    let update: Record<string, unknown>;
+    switch (change.type) {
+      case "archived":
+        filter = { archived: { $ne: change.value } };
+        update = { archived: change.value, updatedAt: now };
+        break;
+      case "pinned":
+        filter = { pinned: { $ne: change.value } };
+        update = { pinned: change.value, updatedAt: now };
+        break;
+      case "backgroundColor":
+        filter = { backgroundColor: { $ne: change.value } };
+        update = { backgroundColor: change.value, updatedAt: now };
+        break;
+      case "trash":
+        filter = { deletedAt: null };
+        update = { deletedAt: now };
+        break;
+      case "addLabel":
+        filter = { labels: { $ne: change.labelId } };
+        update = { $push: { labels: change.labelId }, updatedAt: now };
+        break;
+      case "removeLabel":
+        filter = { labels: change.labelId };
+        update = { $pull: { labels: change.labelId }, updatedAt: now };
+        break;
+    }
+
+    try {
+      const matching = await this.NoteModel.find({ _id: { $in: noteIds }, ...filter }, { _id: 1 }).lean();
+      const changedIds = matching.map((note) => note._id);
+      if (changedIds.length === 0) return [];
+
+      await this.NoteModel.updateMany({ _id: { $in: changedIds }, ...filter }, { ...update, $inc: { version: 1 } });
+      const notes = await this.NoteModel.find({ _id: { $in: changedIds } }).lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error updating notes:", error);
+      throw new Error("Failed to update notes");
+    }
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    try {
+      const result = await this.NoteModel.deleteOne({ _id: id });
+      await this.NoteRevisionModel.deleteMany({ noteId: id });
+      await this.AttachmentModel.deleteMany({ noteId: id });
+      await this.NotificationModel.deleteMany({ noteId: id });
+      await this.removeFromSearchIndex([id]);
+      await this.NoteLinkModel.deleteMany({ noteId: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      return false;
+    }
+  }
+
+  // Daily journal operations
+  async getDailyNote(userId: string, date: string): Promise<Note | null> {
+    try {
+      const note = await this.NoteModel.findOne({ userId, journalDate: date }).lean();
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      console.error("Error getting daily note:", error);
+      return null;
+    }
+  }
+
+  async getDailyNotes(userId: string, from: string, to: string): Promise<Note[]> {
+    try {
+      const notes = await this.NoteModel.find({ userId, deletedAt: null, journalDate: { $gte: from, $lte: to } })
+        .sort({ journalDate: 1 })
+        .lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error getting daily notes:", error);
+      return [];
+    }
+  }
+
+  // Trash operations
+  async getTrashedNotesByUserId(userId: string): Promise<Note[]> {
+    try {
+      const notes = await this.NoteModel.find({ userId, deletedAt: { $ne: null } })
+        .sort({ deletedAt: -1 })
+        .lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error getting trashed notes:", error);
+      return [];
+    }
+  }
+
+  async trashNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, new Date());
+  }
+
+  async restoreNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, null);
+  }
+
+  async purgeTrashedNotes(trashedBefore: Date, userId?: string): Promise<number> {
+    try {
+      const filter: Record<string, unknown> = { deletedAt: { $ne: null, $lt: trashedBefore } };
+      if (userId !== undefined) filter.userId = userId;
+
+      const expired = await this.NoteModel.find(filter, { _id: 1 }).lean();
+      const ids = expired.map((note) => note._id);
+      if (ids.length === 0) return 0;
+
+      // Revisions go first so a failure never leaves them without their note
+      await this.NoteRevisionModel.deleteMany({ noteId: { $in: ids } });
+      await this.AttachmentModel.deleteMany({ noteId: { $in: ids } });
+      await this.NotificationModel.deleteMany({ noteId: { $in: ids } });
+      await this.removeFromSearchIndex(ids);
+      await this.NoteLinkModel.deleteMany({ noteId: { $in: ids } });
+      const result = await this.NoteModel.deleteMany({ _id: { $in: ids } });
+      return result.deletedCount;
+    } catch (error) {
+      console.error("Error purging trashed notes:", error);
+      return 0;
+    }
+  }
+
+  // Moving a note in or out of the trash leaves updatedAt alone
+  private async setDeletedAt(id: string, deletedAt: Date | null): Promise<Note | null> {
+    try {
+      const note = await this.NoteModel.findByIdAndUpdate(id, { deletedAt, $inc: { version: 1 } }, { new: true }).lean();
+      if (!note) return null;
+      return this.mapNoteToSchema(note);
+    } catch (error) {
+      console.error("Error moving note to or from trash:", error);
+      return null;
+    }
+  }
+
+  private async removeFromSearchIndex(noteIds: unknown[]): Promise<void> {
+    await this.searchModels.SearchTerm.deleteMany({ noteId: { $in: noteIds } });
+    await this.searchModels.SearchDocument.deleteMany({ noteId: { $in: noteIds } });
+  }
+
+  // Search operations
+  async searchNotes(userId: string, text: string, query: SearchQuery): Promise<SearchPage> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) return { results: [], nextCursor: null };
+
+    try {
+      return await searchNotes(this.searchReader, userId, text, query);
+    } catch (error) {
+      console.error("Error searching notes:", error);
+      return { results: [], nextCursor: null };
+    }
+  }
+
+  private searchReader: SearchIndexReader = {
+    findPostings: async (userId, terms, prefixes) => {
+      const matches = [
+        ...(terms.length > 0 ? [{ term: { $in: terms } }] : []),
+        // Terms are letters and digits only, so prefixes need no escaping
+        ...prefixes.map((prefix) => ({ term: { $regex: `^${prefix}` } }))
+      ];
+      if (matches.length === 0) return [];
+
+      const postings = await this.searchModels.SearchTerm.find({ userId, $or: matches }).lean();
+      return postings.map((posting: any) => ({
+        noteId: posting.noteId.toString(),
+        userId: posting.userId.toString(),
+        field: posting.field,
+        term: posting.term,
+        positions: posting.positions
+      }));
+    },
+
+    getStatistics: async (userId) => {
+      const [totals] = await this.searchModels.SearchDocument.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+        {
+          $group: {
+            _id: null,
+            documentCount: { $sum: 1 },
+            title: { $sum: "$lengths.title" },
+            summary: { $sum: "$lengths.summary" },
+            content: { $sum: "$lengths.content" }
+          }
+        }
+      ]);
+      return {
+        documentCount: totals?.documentCount ?? 0,
+        totalLengths: {
+          title: totals?.title ?? 0,
+          summary: totals?.summary ?? 0,
+          content: totals?.content ?? 0
+        }
+      };
+    },
+
+    getDocuments: async (noteIds) => {
+      const documents = await this.searchModels.SearchDocument.find({ noteId: { $in: noteIds } }).lean();
+      return documents.map((document: any) => ({
+        noteId: document.noteId.toString(),
+        userId: document.userId.toString(),
+        lengths: document.lengths
+      }));
+    },
+
+    getNotes: async (noteIds) => {
+      const notes = await this.NoteModel.find({ _id: { $in: noteIds } }).lean();
+      return notes.map(this.mapNoteToSchema);
+    }
+  };
+
+  // Revision operations
+  async getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    try {
+      const revisions = await this.NoteRevisionModel.find({ noteId }).sort({ revision: -1 }).lean();
+      return revisions.map(this.mapNoteRevisionToSchema);
+    } catch (error) {
+      console.error("Error getting note revisions:", error);
+      return [];
+    }
+  }
+
+  async getNoteRevision(noteId: string, revision: number): Promise<NoteRevision | null> {
+    try {
+      const entry = await this.NoteRevisionModel.findOne({ noteId, revision }).lean();
+      if (!entry) return null;
+      return this.mapNoteRevisionToSchema(entry);
+    } catch (error) {
+      console.error("Error getting note revision:", error);
+      return null;
+    }
+  }
+
+  // Numbers the snapshot one past the latest. A concurrent write can take
+  // that number first; the unique (noteId, revision) index rejects the
+  // second, which then tries again with the next number
+  private async recordRevision(note: Note): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await this.NoteRevisionModel.findOne({ noteId: note.id }).sort({ revision: -1 }).lean();
+      const latestRevision = latest ? this.mapNoteRevisionToSchema(latest) : null;
+      if (!hasNewRevision(note, latestRevision)) return;
+
+      try {
+        await this.NoteRevisionModel.create({
+          noteId: note.id,
+          userId: note.userId,
+          revision: (latestRevision?.revision ?? 0) + 1,
+          title: note.title,
+          content: note.content,
+          summary: note.summary
+        });
+        return;
+      } catch (error) {
+        if (!isDuplicateKeyError(error) || attempt === MAX_REVISION_ATTEMPTS) throw error;
+      }
+    }
+  }
+  
+  // Label operations
+  async getLabelsByUserId(userId: string): Promise<Label[]> {
+    try {
+      console.log("Looking for labels with userId:", userId);
+      let query: any;
+      if (mongoose.Types.ObjectId.isValid(userId)) {
+        query = { userId: mongoose.Types.ObjectId.createFromHexString(userId) };
+      } else {
+        query = { userId };
+      }
+
+      const labels = await this.LabelModel.find(query).sort({ name: 1 }).lean();
+      return labels.map(this.mapLabelToSchema);
+    } catch (error) {
+      console.error("Error getting labels by user id:", error);
+      return [];
+    }
+  }
+  
+  async getLabelById(id: string): Promise<Label | null> {
+    try {
+      const label = await this.LabelModel.findById(id).lean();
+      if (!label) return null;
+      return this.mapLabelToSchema(label);
+    } catch (error) {
+      console.error("Error getting label by id:", error);
+      return null;
+    }
+  }
+  
+  async createLabel(labelData: InsertLabel & { userId: string }): Promise<Label> {
+    try {
+      const label = await this.LabelModel.create({
+        userId: labelData.userId,
+        name: labelData.name,
+        color: labelData.color || "#3b82f6",
+        parentId: labelData.parentId ?? null
+      });
+      
+      return this.mapLabelToSchema(label.toObject());
+    } catch (error) {
+      console.error("Error creating label:", error);
+      throw new Error("Failed to create label");
+    }
+  }
+  
+  async updateLabel(id: string, labelData: UpdateLabel): Promise<Label | null> {
+    try {
+      const label = await this.LabelModel.findByIdAndUpdate(
+        id,
+        definedFields({
+          name: labelData.name,
+          // Labels always keep a color
+          color: labelData.color || undefined,
+          parentId: labelData.parentId
+        }),
+        { new: true }
+      ).lean();
+      
+      if (!label) return null;
+      return this.mapLabelToSchema(label);
+    } catch (error) {
+      console.error("Error updating label:", error);
+      return null;
+    }
+  }
+  
+  async deleteLabel(id: string): Promise<boolean> {
+    try {
+      const label = await this.LabelModel.findById(id, { parentId: 1 }).lean<{ parentId: unknown }>();
+      if (!label) return false;
+
+      await this.LabelModel.updateMany({ parentId: id }, { parentId: label.parentId ?? null });
+      const result = await this.LabelModel.deleteOne({ _id: id });
+      // Without a transaction a crash can leave references behind; the label
+      // integrity check (server/labelIntegrity.ts) removes them later.
+      // updatedAt stays as it was: this is cleanup, not an edit
+      await this.NoteModel.updateMany({ labels: id }, { $pull: { labels: id }, $inc: { version: 1 } });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      return false;
+    }
+  }
+
+  // Notebook operations
+  async getNotebooksByUserId(userId: string): Promise<Notebook[]> {
+    try {
+      const notebooks = await this.NotebookModel.find({ userId }).sort({ name: 1 }).lean();
+      return notebooks.map(this.mapNotebookToSchema);
+    } catch (error) {
+      console.error("Error getting notebooks by user id:", error);
+      return [];
+    }
+  }
+
+  async getNotebookById(id: string): Promise<Notebook | null> {
+    try {
+      const notebook = await this.NotebookModel.findById(id).lean();
+      if (!notebook) return null;
+      return this.mapNotebookToSchema(notebook);
+    } catch (error) {
+      console.error("Error getting notebook by id:", error);
+      return null;
+    }
+  }
+
+  async createNotebook(notebookData: InsertNotebook & { userId: string }): Promise<Notebook> {
+    try {
+      const notebook = await this.NotebookModel.create({
+        userId: notebookData.userId,
+        name: notebookData.name,
+        defaultBackgroundColor: notebookData.defaultBackgroundColor || "#ffffff"
+      });
+      return this.mapNotebookToSchema(notebook.toObject());
+    } catch (error) {
+      console.error("Error creating notebook:", error);
+      throw new Error("Failed to create notebook");
+    }
+  }
+
+  async updateNotebook(id: string, notebookData: UpdateNotebook): Promise<Notebook | null> {
+    try {
+      const notebook = await this.NotebookModel.findByIdAndUpdate(
+        id,
+        definedFields({
+          name: notebookData.name,
+          defaultBackgroundColor: notebookData.defaultBackgroundColor || undefined
+        }),
+        { new: true }
+      ).lean();
+
+      if (!notebook) return null;
+      return this.mapNotebookToSchema(notebook);
+    } catch (error) {
+      console.error("Error updating notebook:", error);
+      return null;
+    }
+  }
+
+  async deleteNotebook(id: string): Promise<boolean> {
+    try {
+      // Like label cleanup, taking notes out of the notebook leaves updatedAt alone
+      await this.NoteModel.updateMany({ notebookId: id }, { notebookId: null, $inc: { version: 1 } });
+      const result = await this.NotebookModel.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting notebook:", error);
+      return false;
+    }
+  }
+
+  // Template operations
+  async getTemplatesByUserId(userId: string): Promise<Template[]> {
+    try {
+      const templates = await this.TemplateModel.find({ userId }).sort({ name: 1 }).lean();
+      return templates.map(this.mapTemplateToSchema);
+    } catch (error) {
+      console.error("Error getting templates by user id:", error);
+      return [];
+    }
+  }
+
+  async getTemplateById(id: string): Promise<Template | null> {
+    try {
+      const template = await this.TemplateModel.findById(id).lean();
+      if (!template) return null;
+      return this.mapTemplateToSchema(template);
+    } catch (error) {
+      console.error("Error getting template by id:", error);
+      return null;
+    }
+  }
+
+  async createTemplate(templateData: InsertTemplate & { userId: string }): Promise<Template> {
+    try {
+      const template = await this.TemplateModel.create({
+        userId: templateData.userId,
+        name: templateData.name,
+        title: templateData.title ?? "",
+        content: templateData.content ?? "",
+        type: templateData.type ?? "text",
+        labels: templateData.labels ?? []
+      });
+      return this.mapTemplateToSchema(template.toObject());
+    } catch (error) {
+      console.error("Error creating template:", error);
+      throw new Error("Failed to create template");
+    }
+  }
+
+  async updateTemplate(id: string, templateData: UpdateTemplate): Promise<Template | null> {
+    try {
+      const template = await this.TemplateModel.findByIdAndUpdate(
+        id,
+        {
+          ...definedFields({
+            name: templateData.name,
+            title: templateData.title,
+            content: templateData.content,
+            type: templateData.type,
+            labels: templateData.labels === null ? [] : templateData.labels
+          }),
+          updatedAt: new Date()
+        },
+        { new: true }
+      ).lean();
+
+      if (!template) return null;
+      return this.mapTemplateToSchema(template);
+    } catch (error) {
+      console.error("Error updating template:", error);
+      return null;
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    try {
+      const result = await this.TemplateModel.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      return false;
+    }
+  }
+
+  // Reminder operations
+  async getDueReminders(now: Date): Promise<Note[]> {
+    try {
+      const notes = await this.NoteModel.find(dueReminderFilter(now)).sort({ remindAt: 1 }).lean();
+      return notes.map(this.mapNoteToSchema);
+    } catch (error) {
+      console.error("Error getting due reminders:", error);
+      return [];
+    }
+  }
+
+  // Matching on remindAt (and the due condition when sending) makes the check
+  // and the write one atomic step
+  async advanceReminder(noteId: string, remindAt: Date, change: ReminderChange): Promise<boolean> {
+    try {
+      const filter = change.sentAt ? { ...dueReminderFilter(change.sentAt), _id: noteId, remindAt } : { _id: noteId, remindAt };
+      const result = await this.NoteModel.updateOne(filter, {
+        $set: definedFields({ reminderSentAt: change.sentAt, remindAt: change.next }),
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error("Error advancing reminder:", error);
+      return false;
+    }
+  }
+
+  // Notification operations
+  async getNotificationsByUserId(userId: string, limit?: number): Promise<Notification[]> {
+    try {
+      let query = this.NotificationModel.find({ userId }).sort({ _id: -1 });
+      if (limit !== undefined) query = query.limit(limit);
+      const notifications = await query.lean();
+      return notifications.map(this.mapNotificationToSchema);
+    } catch (error) {
+      console.error("Error getting notifications by user id:", error);
+      return [];
+    }
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    try {
+      const notification = await this.NotificationModel.create(notificationData);
+      return this.mapNotificationToSchema(notification.toObject());
+    } catch (error) {
+      console.error("Error creating notification:", error);
+      throw new Error("Failed to create notification");
+    }
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    try {
+      const filter: Record<string, unknown> = { userId, readAt: null };
+      if (ids) filter._id = { $in: ids.filter((id) => mongoose.isValidObjectId(id)) };
+      const result = await this.NotificationModel.updateMany(filter, { $set: { readAt: new Date() } });
+      return result.modifiedCount;
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      return 0;
+    }
+  }
+
+  // Attachment operations
+  async getAttachmentsByNoteId(noteId: string): Promise<Attachment[]> {
+    try {
+      const attachments = await this.AttachmentModel.find({ noteId }).sort({ _id: 1 }).lean();
+      return attachments.map(this.mapAttachmentToSchema);
+    } catch (error) {
+      console.error("Error getting attachments by note id:", error);
+      return [];
+    }
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    try {
+      const attachment = await this.AttachmentModel.findById(id).lean();
+      if (!attachment) return null;
+      return this.mapAttachmentToSchema(attachment);
+    } catch (error) {
+      console.error("Error getting attachment by id:", error);
+      return null;
+    }
+  }
+
+  async getAttachmentUsage(userId: string): Promise<number> {
+    try {
+      const [usage] = await this.AttachmentModel.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+        { $group: { _id: null, total: { $sum: "$size" } } }
+      ]);
+      return usage?.total ?? 0;
+    } catch (error) {
+      console.error("Error getting attachment usage:", error);
+      throw new Error("Failed to get attachment usage");
+    }
+  }
+
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    try {
+      const attachment = await this.AttachmentModel.create(attachmentData);
+      return this.mapAttachmentToSchema(attachment.toObject());
+    } catch (error) {
+      console.error("Error creating attachment:", error);
+      throw new Error("Failed to create attachment");
+    }
+  }
+
+  async deleteAttachment(id: string): Promise<boolean> {
+    try {
+      const result = await this.AttachmentModel.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      return false;
+    }
+  }
+
+  // Bulk operations
+  async getAllUsers(): Promise<User[]> {
+    try {
+      const users = await this.UserModel.find().sort({ createdAt: 1 }).lean();
+      return users.map(this.mapUserToSchema);
+    } catch (error) {
+      console.error("Error getting all users:", error);
+      return [];
+    }
+  }
+
+  async importUser(userData: Omit<User, "id">): Promise<User> {
+    try {
+      const user = await this.UserModel.create(userData);
+      return this.mapUserToSchema(user.toObject());
+    } catch (error) {
+      console.error("Error importing user:", error);
+      throw new Error("Failed to import user");
+    }
+  }
+
+  async importLabel(labelData: Omit<Label, "id">): Promise<Label> {
+    try {
+      const label = await this.LabelModel.create(labelData);
+      return this.mapLabelToSchema(label.toObject());
+    } catch (error) {
+      console.error("Error importing label:", error);
+      throw new Error("Failed to import label");
+    }
+  }
+
+  async importNotebook(notebookData: Omit<Notebook, "id">): Promise<Notebook> {
+    try {
+      const notebook = await this.NotebookModel.create(notebookData);
+      return this.mapNotebookToSchema(notebook.toObject());
+    } catch (error) {
+      console.error("Error importing notebook:", error);
+      throw new Error("Failed to import notebook");
+    }
+  }
+
+  async importTemplate(templateData: Omit<Template, "id">): Promise<Template> {
+    try {
+      const template = await this.TemplateModel.create(templateData);
+      return this.mapTemplateToSchema(template.toObject());
+    } catch (error) {
+      console.error("Error importing template:", error);
+      throw new Error("Failed to import template");
+    }
+  }
+
+  async importNote(noteData: Omit<Note, "id">): Promise<Note> {
+    try {
+      const note = this.mapNoteToSchema((await this.NoteModel.create(noteData)).toObject());
+      await writeSearchIndex(this.searchModels, note);
+      await writeLinkIndex(this.NoteLinkModel, note);
+      return note;
+    } catch (error) {
+      console.error("Error importing note:", error);
+      throw new Error("Failed to import note");
+    }
+  }
+
+  async importNoteContent(id: string, content: string): Promise<Note | null> {
+    try {
+      const updated = await this.NoteModel.findByIdAndUpdate(id, { content }, { new: true }).lean();
+      if (!updated) return null;
+
+      const note = this.mapNoteToSchema(updated);
+      await writeSearchIndex(this.searchModels, note);
+      await writeLinkIndex(this.NoteLinkModel, note);
+      return note;
+    } catch (error) {
+      console.error("Error importing note content:", error);
+      throw new Error("Failed to import note");
+    }
+  }
+
+  async importAttachment(attachmentData: Omit<Attachment, "id">): Promise<Attachment> {
+    try {
+      const attachment = await this.AttachmentModel.create(attachmentData);
+      return this.mapAttachmentToSchema(attachment.toObject());
+    } catch (error) {
+      console.error("Error importing attachment:", error);
+      throw new Error("Failed to import attachment");
+    }
+  }
+
+  async importNotification(notificationData: Omit<Notification, "id">): Promise<Notification> {
+    try {
+      const notification = await this.NotificationModel.create(notificationData);
+      return this.mapNotificationToSchema(notification.toObject());
+    } catch (error) {
+      console.error("Error importing notification:", error);
+      throw new Error("Failed to import notification");
+    }
+  }
+
+  // Helper methods to map MongoDB documents to schema types
+  private mapUserToSchema(user: any): User {
+    return {
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      password: user.password,
+      createdAt: user.createdAt
+    };
+  }
+  
+  private mapNoteToSchema(note: any): Note {
+    return {
+      id: note._id.toString(),
+      userId: note.userId && typeof note.userId.toString === 'function' ? note.userId.toString() : note.userId,
+      title: note.title,
+      content: note.content,
+      summary: note.summary,
+      type: note.type || "text",
+      items: note.items ?? null,
+      pinned: note.pinned || false,
+      labels: note.labels || [],
+      notebookId: note.notebookId ? note.notebookId.toString() : null,
+      archived: note.archived || false,
+      backgroundColor: note.backgroundColor || "#ffffff",
+      fontSize: note.fontSize || "normal",
+      textFormatting: note.textFormatting || "{}",
+      remindAt: note.remindAt || null,
+      recurrence: note.recurrence || null,
+      reminderSentAt: note.reminderSentAt || null,
+      dueAt: note.dueAt || null,
+      journalDate: note.journalDate || null,
+      deletedAt: note.deletedAt || null,
+      version: note.version ?? 1,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt
+    };
+  }
+  
+  private mapNoteRevisionToSchema(revision: any): NoteRevision {
+    return {
+      id: revision._id.toString(),
+      noteId: revision.noteId.toString(),
+      userId: revision.userId.toString(),
+      revision: revision.revision,
+      title: revision.title,
+      content: revision.content,
+      summary: revision.summary ?? null,
+      createdAt: revision.createdAt
+    };
+  }
+  
+  private mapLabelToSchema(label: any): Label {
+    return {
+      id: label._id.toString(),
+      userId: label.userId && typeof label.userId.toString === 'function' ? label.userId.toString() : label.userId,
+      name: label.name,
+      color: label.color,
+      parentId: label.parentId ? label.parentId.toString() : null,
+      createdAt: label.createdAt
+    };
+  }
+
+  private mapNotebookToSchema(notebook: any): Notebook {
+    return {
+      id: notebook._id.toString(),
+      userId: notebook.userId.toString(),
+      name: notebook.name,
+      defaultBackgroundColor: notebook.defaultBackgroundColor || "#ffffff",
+      createdAt: notebook.createdAt
+    };
+  }
+
+  private mapTemplateToSchema(template: any): Template {
+    return {
+      id: template._id.toString(),
+      userId: template.userId.toString(),
+      name: template.name,
+      title: template.title || "",
+      content: template.content || "",
+      type: template.type || "text",
+      labels: template.labels || [],
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt
+    };
+  }
+
+  private mapAttachmentToSchema(attachment: any): Attachment {
+    return {
+      id: attachment._id.toString(),
+      noteId: attachment.noteId.toString(),
+      userId: attachment.userId.toString(),
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      blobKey: attachment.blobKey,
+      createdAt: attachment.createdAt
+    };
+  }
+
+  private mapNotificationToSchema(notification: any): Notification {
+    return {
+      id: notification._id.toString(),
+      userId: notification.userId.toString(),
+      noteId: notification.noteId.toString(),
+      type: notification.type,
+      title: notification.title,
+      readAt: notification.readAt || null,
+      createdAt: notification.createdAt
+    };
+  }
+}
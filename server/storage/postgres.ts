@@ -0,0 +1,1481 @@
+import { notes, users, labels, notebooks, templates, noteRevisions, attachments, notifications, searchTerms, searchDocuments, noteLinks, type NoteSort, type User, type InsertUser, type Note, type UpdateNote, type Label, type InsertLabel, type UpdateLabel, type Notebook, type InsertNotebook, type UpdateNotebook, type NoteRevision, type Attachment, type InsertAttachment, type Notification, type InsertNotification, type Template, type InsertTemplate, type UpdateTemplate } from "@shared/schema";
+import bcrypt from "bcrypt";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { and, arrayContains, arrayOverlaps, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, like, lt, lte, ne, or, sql, sum, type SQL } from "drizzle-orm";
+import { decodeNoteCursor, encodeNoteCursor, hasNewRevision, NoteVersionConflictError, type IStorage, type NewNote, type NoteBatchChange, type NotePage, type NoteQuery, type ReminderChange, type SearchQuery } from "./types";
+import { indexNote, SEARCH_INDEX_VERSION, searchNotes, type SearchField, type SearchIndexReader, type SearchPage } from "./search";
+import { indexLinks } from "./links";
+import { normalizeLinkTitle } from "@shared/wikiLinks";
+
+type UserRow = typeof users.$inferSelect;
+type NoteRow = typeof notes.$inferSelect;
+type LabelRow = typeof labels.$inferSelect;
+type NotebookRow = typeof notebooks.$inferSelect;
+type TemplateRow = typeof templates.$inferSelect;
+type NoteRevisionRow = typeof noteRevisions.$inferSelect;
+type AttachmentRow = typeof attachments.$inferSelect;
+type NotificationRow = typeof notifications.$inferSelect;
+type PgTransaction = Parameters<Parameters<NodePgDatabase["transaction"]>[0]>[0];
+
+// Rows per insert when writing search terms, well under the parameter limit
+const SEARCH_INSERT_BATCH = 1000;
+
+// PostgreSQL implementation backed by the Drizzle tables in shared/schema.ts
+export class PgStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: NodePgDatabase;
+
+  constructor(connectionString: string | undefined = process.env.DATABASE_URL) {
+    if (!connectionString) {
+      throw new Error("DATABASE_URL must be set to use PostgreSQL storage");
+    }
+
+    this.pool = new pg.Pool({ connectionString });
+    this.pool.on("error", (err) => console.error("PostgreSQL pool error:", err));
+    this.db = drizzle(this.pool);
+  }
+
+  // Serial primary keys are integers; anything else (e.g. an ObjectId from an
+  // old client) can never match a row, so callers get "not found" instead of
+  // a database error.
+  private toId(id: string | number): number | null {
+    const parsed = typeof id === "number" ? id : Number(id);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }
+
+  // Keeps undefined (leave unchanged) apart from null (no parent)
+  private toNullableId(id: string | null | undefined): number | null | undefined {
+    return id == null ? id : this.toId(id);
+  }
+
+  async ready(): Promise<void> {
+    try {
+      await this.db.execute(sql`select 1`);
+    } catch (error) {
+      throw new Error(`Failed to connect to PostgreSQL: ${error instanceof Error ? error.message : error}`);
+    }
+
+    await this.indexUnindexedNotes();
+    await this.indexUnlinkedNotes();
+  }
+
+  // Notes written before search existed (or by other tools) join the index
+  // here, and notes indexed by an older tokenizer are indexed again
+  private async indexUnindexedNotes(): Promise<void> {
+    let indexed = 0;
+    for (;;) {
+      const rows = await this.db
+        .select({ note: notes })
+        .from(notes)
+        .leftJoin(searchDocuments, eq(searchDocuments.noteId, notes.id))
+        .where(or(isNull(searchDocuments.noteId), lt(searchDocuments.indexVersion, SEARCH_INDEX_VERSION)))
+        .limit(100);
+      if (rows.length === 0) break;
+
+      for (const { note } of rows) {
+        await this.db.transaction((tx) => this.updateSearchIndex(tx, note));
+      }
+      indexed += rows.length;
+    }
+    if (indexed > 0) {
+      console.log(`Added ${indexed} notes to the search index`);
+    }
+  }
+
+  // Notes written before links were indexed join the link index here; only
+  // notes that look like they have links are read, a page at a time
+  private async indexUnlinkedNotes(): Promise<void> {
+    let indexed = 0;
+    let lastId = 0;
+    for (;;) {
+      const rows = await this.db
+        .select()
+        .from(notes)
+        .where(and(
+          gt(notes.id, lastId),
+          like(notes.content, "%[[%"),
+          sql`not exists (select 1 from ${noteLinks} where ${noteLinks.noteId} = ${notes.id})`
+        ))
+        .orderBy(asc(notes.id))
+        .limit(100);
+      if (rows.length === 0) break;
+
+      for (const note of rows) {
+        await this.db.transaction((tx) => this.updateLinkIndex(tx, note));
+        if (indexLinks(this.mapNoteToSchema(note)).length > 0) indexed++;
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+    if (indexed > 0) {
+      console.log(`Added ${indexed} notes to the link index`);
+    }
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | null> {
+    const userId = this.toId(id);
+    if (userId === null) return null;
+
+    try {
+      const [user] = await this.db.select().from(users).where(eq(users.id, userId));
+      return user ? this.mapUserToSchema(user) : null;
+    } catch (error) {
+      console.error("Error getting user:", error);
+      return null;
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    try {
+      const [user] = await this.db.select().from(users).where(eq(users.email, email));
+      return user ? this.mapUserToSchema(user) : null;
+    } catch (error) {
+      console.error("Error getting user by email:", error);
+      return null;
+    }
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    try {
+      const saltRounds = 10;
+      const hashedPassword = await bcrypt.hash(userData.password, saltRounds);
+
+      const [user] = await this.db
+        .insert(users)
+        .values({
+          name: userData.name,
+          email: userData.email,
+          password: hashedPassword
+        })
+        .returning();
+
+      return this.mapUserToSchema(user);
+    } catch (error) {
+      console.error("Error creating user:", error);
+      throw new Error("Failed to create user");
+    }
+  }
+
+  // Note operations
+  async getNotesByUserId(userId: string): Promise<Note[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(notes)
+        .where(and(eq(notes.userId, ownerId), isNull(notes.deletedAt)))
+        .orderBy(desc(notes.pinned), desc(notes.updatedAt));
+      return rows.map((row) => this.mapNoteToSchema(row));
+    } catch (error) {
+      console.error("Error getting notes by user id:", error);
+      return [];
+    }
+  }
+
+  async queryNotes(userId: string, query: NoteQuery): Promise<NotePage> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return { notes: [], nextCursor: null };
+
+    const sort = query.sort ?? "updated";
+    const cursor = query.cursor ? decodeNoteCursor(query.cursor, sort) : null;
+    const cursorId = cursor ? this.toId(cursor.id) : null;
+    if (query.cursor && (!cursor || cursorId === null)) {
+      throw new Error("Invalid cursor");
+    }
+
+    // No note can be in a notebook whose ID is not even valid
+    const notebookId = query.notebookId ? this.toId(query.notebookId) : null;
+    if (query.notebookId && notebookId === null) return { notes: [], nextCursor: null };
+
+    const conditions: (SQL | undefined)[] = [eq(notes.userId, ownerId), isNull(notes.deletedAt)];
+    if (query.archived !== undefined) conditions.push(eq(notes.archived, query.archived));
+    if (query.pinned !== undefined) conditions.push(eq(notes.pinned, query.pinned));
+    if (query.notebookId === null) conditions.push(isNull(notes.notebookId));
+    if (notebookId !== null) conditions.push(eq(notes.notebookId, notebookId));
+    for (const group of query.labelGroups ?? []) conditions.push(arrayOverlaps(notes.labels, group));
+    if (query.text) {
+      const pattern = `%${query.text.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(notes.title, pattern), ilike(notes.content, pattern)));
+    }
+
+    // Titles sort A-Z, dates newest first; IDs break ties in the same direction
+    const key = this.noteSortExpression(sort);
+    const ascending = sort === "title";
+    const direction = ascending ? asc : desc;
+    const beyond = ascending ? gt : lt;
+
+    if (cursor && cursorId !== null) {
+      const cursorKey = sort === "title" ? cursor.key : sql`${new Date(cursor.key).toISOString()}::timestamp`;
+      conditions.push(or(
+        cursor.pinned ? eq(notes.pinned, false) : undefined,
+        and(eq(notes.pinned, cursor.pinned), beyond(key, cursorKey)),
+        and(eq(notes.pinned, cursor.pinned), eq(key, cursorKey), beyond(notes.id, cursorId))
+      ));
+    }
+
+    try {
+      const statement = this.db
+        .select()
+        .from(notes)
+        .where(and(...conditions))
+        .orderBy(desc(notes.pinned), direction(key), direction(notes.id));
+      // One extra row tells whether there is another page
+      const rows = query.limit === undefined ? await statement : await statement.limit(query.limit + 1);
+
+      const page = query.limit === undefined ? rows : rows.slice(0, query.limit);
+      const pageNotes = page.map((row) => this.mapNoteToSchema(row));
+      const nextCursor = rows.length > page.length
+        ? encodeNoteCursor(pageNotes[pageNotes.length - 1], sort)
+        : null;
+      return { notes: pageNotes, nextCursor };
+    } catch (error) {
+      console.error("Error querying notes:", error);
+      return { notes: [], nextCursor: null };
+    }
+  }
+
+  // Timestamps are compared at millisecond precision, like the JavaScript
+  // dates the cursor is built from
+  private noteSortExpression(sort: NoteSort): SQL {
+    switch (sort) {
+      case "title":
+        return sql`lower(${notes.title})`;
+      case "created":
+        return sql`date_trunc('milliseconds', ${notes.createdAt})`;
+      case "updated":
+        return sql`date_trunc('milliseconds', ${notes.updatedAt})`;
+    }
+  }
+
+  async getBacklinks(userId: string, title: string): Promise<Note[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select({ note: notes })
+        .from(noteLinks)
+        .innerJoin(notes, eq(notes.id, noteLinks.noteId))
+        .where(and(
+          eq(noteLinks.userId, ownerId),
+          eq(noteLinks.target, normalizeLinkTitle(title)),
+          isNull(notes.deletedAt)
+        ))
+        .orderBy(desc(notes.pinned), desc(notes.updatedAt));
+      return rows.map((row) => this.mapNoteToSchema(row.note));
+    } catch (error) {
+      console.error("Error getting backlinks:", error);
+      return [];
+    }
+  }
+
+  async getNoteById(id: string): Promise<Note | null> {
+    const noteId = this.toId(id);
+    if (noteId === null) return null;
+
+    try {
+      const [note] = await this.db.select().from(notes).where(eq(notes.id, noteId));
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      console.error("Error getting note by id:", error);
+      return null;
+    }
+  }
+
+  async createNote(noteData: NewNote): Promise<Note> {
+    const ownerId = this.toId(noteData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to create note");
+    }
+
+    try {
+      const note = await this.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(notes)
+          .values({
+            userId: ownerId,
+            title: noteData.title,
+            content: noteData.content,
+            summary: noteData.summary || null,
+            type: noteData.type || "text",
+            items: noteData.items ?? null,
+            pinned: noteData.pinned || false,
+            labels: noteData.labels || [],
+            notebookId: this.toNullableId(noteData.notebookId) ?? null,
+            archived: noteData.archived || false,
+            backgroundColor: noteData.backgroundColor || "#ffffff",
+            fontSize: noteData.fontSize || "normal",
+            textFormatting: noteData.textFormatting || "{}",
+            remindAt: noteData.remindAt ?? null,
+            recurrence: noteData.recurrence ?? null,
+            dueAt: noteData.dueAt ?? null,
+            journalDate: noteData.journalDate ?? null
+          })
+          .returning();
+
+        await this.recordRevision(tx, created);
+        await this.updateSearchIndex(tx, created);
+        await this.updateLinkIndex(tx, created);
+        return created;
+      });
+
+      return this.mapNoteToSchema(note);
+    } catch (error) {
+      console.error("Error creating note:", error);
+      throw new Error("Failed to create note");
+    }
+  }
+
+  async updateNote(id: string, noteData: Partial<UpdateNote>, expectedVersion?: number): Promise<Note | null> {
+    const noteId = this.toId(id);
+    if (noteId === null) return null;
+
+    try {
+      const note = await this.db.transaction(async (tx) => {
+        // Lock the row so concurrent updates number their revisions in order
+        const [current] = await tx.select().from(notes).where(eq(notes.id, noteId)).for("update");
+        if (!current) return null;
+        if (expectedVersion !== undefined && current.version !== expectedVersion) {
+          throw new NoteVersionConflictError(this.mapNoteToSchema(current));
+        }
+
+        // Notes created before revisions existed start their history here
+        await this.recordRevision(tx, current);
+
+        const [updated] = await tx
+          .update(notes)
+          .set({
+            title: noteData.title,
+            content: noteData.content,
+            summary: noteData.summary,
+            type: noteData.type,
+            items: noteData.items,
+            pinned: noteData.pinned,
+            labels: noteData.labels,
+            notebookId: this.toNullableId(noteData.notebookId),
+            archived: noteData.archived,
+            backgroundColor: noteData.backgroundColor,
+            fontSize: noteData.fontSize,
+            textFormatting: noteData.textFormatting,
+            remindAt: noteData.remindAt,
+            recurrence: noteData.recurrence,
+            dueAt: noteData.dueAt,
+            version: sql`${notes.version} + 1`,
+            updatedAt: new Date()
+          })
+          .where(eq(notes.id, noteId))
+          .returning();
+
+        await this.recordRevision(tx, updated);
+        if (
+          updated.title !== current.title ||
+          updated.content !== current.content ||
+          updated.summary !== current.summary
+        ) {
+          await this.updateSearchIndex(tx, updated);
+        }
+        if (updated.content !== current.content) {
+          await this.updateLinkIndex(tx, updated);
+        }
+        return updated;
+      });
+
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      if (error instanceof NoteVersionConflictError) throw error;
+      console.error("Error updating note:", error);
+      return null;
+    }
+  }
+
+  // The label condition in the WHERE clause makes these no-ops when there is
+  // nothing to change, so the version only moves on a real change
+  async addLabelToNote(noteId: string, labelId: string): Promise<Note | null> {
+    const id = this.toId(noteId);
+    if (id === null) return null;
+
+    try {
+      const [note] = await this.db
+        .update(notes)
+        .set({
+          labels: sql`array_append(coalesce(${notes.labels}, '{}'), ${labelId})`,
+          version: sql`${notes.version} + 1`,
+          updatedAt: new Date()
+        })
+        .where(and(eq(notes.id, id), sql`not (${labelId} = any(coalesce(${notes.labels}, '{}')))`))
+        .returning();
+      return note ? this.mapNoteToSchema(note) : this.getNoteById(noteId);
+    } catch (error) {
+      console.error("Error adding label to note:", error);
+      return null;
+    }
+  }
+
+  async removeLabelFromNote(noteId: string, labelId: string): Promise<Note | null> {
+    const id = this.toId(noteId);
+    if (id === null) return null;
+
+    try {
+      const [note] = await this.db
+        .update(notes)
+        .set({
+          labels: sql`array_remove(${notes.labels}, ${labelId})`,
+          version: sql`${notes.version} + 1`,
+          updatedAt: new Date()
+        })
+        .where(and(eq(notes.id, id), arrayContains(notes.labels, [labelId])))
+        .returning();
+      return note ? this.mapNoteToSchema(note) : this.getNoteById(noteId);
+    } catch (error) {
+      console.error("Error removing label from note:", error);
+      return null;
+    }
+  }
+
+  // One UPDATE, so every note changes or none does; the condition leaves out
+  // the notes the change would not alter
+  async updateNotes(ids: string[], change: NoteBatchChange): Promise<Note[]> {
+    const noteIds = ids.map((id) => this.toId(id)).filter((id): id is number => id !== null);
+    if (noteIds.length === 0) return [];
+
+    const now = new Date();
+    let set: PgUpdateSetSource<typeof notes>;
+    let condition: SQL;
+    switch (change.type) {
+      case "archived":
+        set = { archived: change.value, updatedAt: now };
+        condition = ne(notes.archived, change.value);
+        break;
+      case "pinned":
+        set = { pinned: change.value, updatedAt: now };
+        condition = ne(notes.pinned, change.value);
+        break;
+      case "backgroundColor":
+        set = { backgroundColor: change.value, updatedAt: now };
+        condition = sql`${notes.backgroundColor} is distinct from ${change.value}`;
+        break;
+      case "trash":
+        set = { deletedAt: now };
+        condition = isNull(notes.deletedAt);
+        break;
+      case "addLabel":
+        set = { labels: sql`array_append(coalesce(${notes.labels}, '{}'), ${change.labelId})`, updatedAt: now };
+        condition = sql`not (${change.labelId} = any(coalesce(${notes.labels}, '{}')))`;
+        break;
+      case "removeLabel":
+        set = { labels: sql`array_remove(${notes.labels}, ${change.labelId})`, updatedAt: now };
+        condition = arrayContains(notes.labels, [change.labelId]);
+        break;
+    }
+
+    try {
+      const rows = await this.db
+        .update(notes)
+        .set({ ...set, version: sql`${notes.version} + 1` })
+        .where(and(inArray(notes.id, noteIds), condition))
+        .returning();
+      return rows.map((row) => this.mapNoteToSchema(row));
+    } catch (error) {
+      console.error("Error updating notes:", error);
+      throw new Error("Failed to update notes");
+    }
+  }
+
+  async deleteNote(id: string): Promise<boolean> {
+    const noteId = this.toId(id);
+    if (noteId === null) return false;
+
+    try {
+      const deleted = await this.db.transaction(async (tx) => {
+        await tx.delete(noteRevisions).where(eq(noteRevisions.noteId, noteId));
+        await tx.delete(attachments).where(eq(attachments.noteId, noteId));
+        await tx.delete(notifications).where(eq(notifications.noteId, noteId));
+        await this.removeFromSearchIndex(tx, [noteId]);
+        await tx.delete(noteLinks).where(eq(noteLinks.noteId, noteId));
+        return tx.delete(notes).where(eq(notes.id, noteId)).returning({ id: notes.id });
+      });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      return false;
+    }
+  }
+
+  // Daily journal operations
+  async getDailyNote(userId: string, date: string): Promise<Note | null> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return null;
+
+    try {
+      const [note] = await this.db
+        .select()
+        .from(notes)
+        .where(and(eq(notes.userId, ownerId), eq(notes.journalDate, date)));
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      console.error("Error getting daily note:", error);
+      return null;
+    }
+  }
+
+  async getDailyNotes(userId: string, from: string, to: string): Promise<Note[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(notes)
+        .where(and(
+          eq(notes.userId, ownerId),
+          isNull(notes.deletedAt),
+          gte(notes.journalDate, from),
+          lte(notes.journalDate, to)
+        ))
+        .orderBy(asc(notes.journalDate));
+      return rows.map((row) => this.mapNoteToSchema(row));
+    } catch (error) {
+      console.error("Error getting daily notes:", error);
+      return [];
+    }
+  }
+
+  // Trash operations
+  async getTrashedNotesByUserId(userId: string): Promise<Note[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(notes)
+        .where(and(eq(notes.userId, ownerId), isNotNull(notes.deletedAt)))
+        .orderBy(desc(notes.deletedAt));
+      return rows.map((row) => this.mapNoteToSchema(row));
+    } catch (error) {
+      console.error("Error getting trashed notes:", error);
+      return [];
+    }
+  }
+
+  async trashNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, new Date());
+  }
+
+  async restoreNote(id: string): Promise<Note | null> {
+    return this.setDeletedAt(id, null);
+  }
+
+  async purgeTrashedNotes(trashedBefore: Date, userId?: string): Promise<number> {
+    const conditions = [isNotNull(notes.deletedAt), lt(notes.deletedAt, trashedBefore)];
+    if (userId !== undefined) {
+      const ownerId = this.toId(userId);
+      if (ownerId === null) return 0;
+      conditions.push(eq(notes.userId, ownerId));
+    }
+
+    try {
+      const purged = await this.db.transaction(async (tx) => {
+        const expired = await tx
+          .select({ id: notes.id })
+          .from(notes)
+          .where(and(...conditions))
+          .for("update");
+        const ids = expired.map((row) => row.id);
+        if (ids.length === 0) return [];
+
+        await tx.delete(noteRevisions).where(inArray(noteRevisions.noteId, ids));
+        await tx.delete(attachments).where(inArray(attachments.noteId, ids));
+        await tx.delete(notifications).where(inArray(notifications.noteId, ids));
+        await this.removeFromSearchIndex(tx, ids);
+        await tx.delete(noteLinks).where(inArray(noteLinks.noteId, ids));
+        return tx.delete(notes).where(inArray(notes.id, ids)).returning({ id: notes.id });
+      });
+      return purged.length;
+    } catch (error) {
+      console.error("Error purging trashed notes:", error);
+      return 0;
+    }
+  }
+
+  // Moving a note in or out of the trash leaves updatedAt alone
+  private async setDeletedAt(id: string, deletedAt: Date | null): Promise<Note | null> {
+    const noteId = this.toId(id);
+    if (noteId === null) return null;
+
+    try {
+      const [note] = await this.db
+        .update(notes)
+        .set({ deletedAt, version: sql`${notes.version} + 1` })
+        .where(eq(notes.id, noteId))
+        .returning();
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      console.error("Error moving note to or from trash:", error);
+      return null;
+    }
+  }
+
+  // Revision operations
+  async getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    const id = this.toId(noteId);
+    if (id === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(noteRevisions)
+        .where(eq(noteRevisions.noteId, id))
+        .orderBy(desc(noteRevisions.revision));
+      return rows.map((row) => this.mapNoteRevisionToSchema(row));
+    } catch (error) {
+      console.error("Error getting note revisions:", error);
+      return [];
+    }
+  }
+
+  async getNoteRevision(noteId: string, revision: number): Promise<NoteRevision | null> {
+    const id = this.toId(noteId);
+    if (id === null) return null;
+
+    try {
+      const [row] = await this.db
+        .select()
+        .from(noteRevisions)
+        .where(and(eq(noteRevisions.noteId, id), eq(noteRevisions.revision, revision)));
+      return row ? this.mapNoteRevisionToSchema(row) : null;
+    } catch (error) {
+      console.error("Error getting note revision:", error);
+      return null;
+    }
+  }
+
+  // Runs inside the transaction that wrote the note
+  private async recordRevision(tx: PgTransaction, note: NoteRow): Promise<void> {
+    const [latest] = await tx
+      .select()
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, note.id))
+      .orderBy(desc(noteRevisions.revision))
+      .limit(1);
+
+    if (!hasNewRevision(this.mapNoteToSchema(note), latest && this.mapNoteRevisionToSchema(latest))) return;
+
+    await tx.insert(noteRevisions).values({
+      noteId: note.id,
+      userId: note.userId,
+      revision: (latest?.revision ?? 0) + 1,
+      title: note.title,
+      content: note.content,
+      summary: note.summary
+    });
+  }
+
+  // Replaces the note's rows in the search index
+  private async updateSearchIndex(tx: PgTransaction, note: NoteRow): Promise<void> {
+    await this.removeFromSearchIndex(tx, [note.id]);
+
+    const { document, postings } = indexNote(this.mapNoteToSchema(note));
+    await tx.insert(searchDocuments).values({
+      noteId: note.id,
+      userId: note.userId,
+      titleLength: document.lengths.title,
+      summaryLength: document.lengths.summary,
+      contentLength: document.lengths.content,
+      indexVersion: SEARCH_INDEX_VERSION
+    });
+
+    const rows = postings.map((posting) => ({
+      noteId: note.id,
+      userId: note.userId,
+      field: posting.field,
+      term: posting.term,
+      positions: posting.positions
+    }));
+    for (let start = 0; start < rows.length; start += SEARCH_INSERT_BATCH) {
+      await tx.insert(searchTerms).values(rows.slice(start, start + SEARCH_INSERT_BATCH));
+    }
+  }
+
+  private async removeFromSearchIndex(tx: PgTransaction, noteIds: number[]): Promise<void> {
+    await tx.delete(searchTerms).where(inArray(searchTerms.noteId, noteIds));
+    await tx.delete(searchDocuments).where(inArray(searchDocuments.noteId, noteIds));
+  }
+
+  // Replaces the note's rows in the link index
+  private async updateLinkIndex(tx: PgTransaction, note: NoteRow): Promise<void> {
+    await tx.delete(noteLinks).where(eq(noteLinks.noteId, note.id));
+
+    const targets = indexLinks(this.mapNoteToSchema(note)).map((link) => link.target);
+    if (targets.length > 0) {
+      await tx.insert(noteLinks).values(targets.map((target) => ({ noteId: note.id, userId: note.userId, target })));
+    }
+  }
+
+  // Search operations
+  async searchNotes(userId: string, text: string, query: SearchQuery): Promise<SearchPage> {
+    if (this.toId(userId) === null) return { results: [], nextCursor: null };
+
+    try {
+      return await searchNotes(this.searchReader, userId, text, query);
+    } catch (error) {
+      console.error("Error searching notes:", error);
+      return { results: [], nextCursor: null };
+    }
+  }
+
+  private searchReader: SearchIndexReader = {
+    findPostings: async (userId, terms, prefixes) => {
+      const matches = [
+        ...(terms.length > 0 ? [inArray(searchTerms.term, terms)] : []),
+        // Terms are letters and digits only, so prefixes need no LIKE escaping
+        ...prefixes.map((prefix) => like(searchTerms.term, `${prefix}%`))
+      ];
+      if (matches.length === 0) return [];
+
+      const rows = await this.db
+        .select()
+        .from(searchTerms)
+        .where(and(eq(searchTerms.userId, Number(userId)), or(...matches)));
+      return rows.map((row) => ({
+        noteId: String(row.noteId),
+        userId: String(row.userId),
+        field: row.field as SearchField,
+        term: row.term,
+        positions: row.positions
+      }));
+    },
+
+    getStatistics: async (userId) => {
+      const [row] = await this.db
+        .select({
+          documentCount: count(),
+          title: sum(searchDocuments.titleLength),
+          summary: sum(searchDocuments.summaryLength),
+          content: sum(searchDocuments.contentLength)
+        })
+        .from(searchDocuments)
+        .where(eq(searchDocuments.userId, Number(userId)));
+      return {
+        documentCount: row?.documentCount ?? 0,
+        totalLengths: {
+          title: Number(row?.title ?? 0),
+          summary: Number(row?.summary ?? 0),
+          content: Number(row?.content ?? 0)
+        }
+      };
+    },
+
+    getDocuments: async (noteIds) => {
+      if (noteIds.length === 0) return [];
+      const rows = await this.db
+        .select()
+        .from(searchDocuments)
+        .where(inArray(searchDocuments.noteId, noteIds.map(Number)));
+      return rows.map((row) => ({
+        noteId: String(row.noteId),
+        userId: String(row.userId),
+        lengths: { title: row.titleLength, summary: row.summaryLength, content: row.contentLength }
+      }));
+    },
+
+    getNotes: async (noteIds) => {
+      if (noteIds.length === 0) return [];
+      const rows = await this.db.select().from(notes).where(inArray(notes.id, noteIds.map(Number)));
+      return rows.map((row) => this.mapNoteToSchema(row));
+    }
+  };
+
+  // Label operations
+  async getLabelsByUserId(userId: string): Promise<Label[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(labels)
+        .where(eq(labels.userId, ownerId))
+        .orderBy(asc(labels.name));
+      return rows.map((row) => this.mapLabelToSchema(row));
+    } catch (error) {
+      console.error("Error getting labels by user id:", error);
+      return [];
+    }
+  }
+
+  async getLabelById(id: string): Promise<Label | null> {
+    const labelId = this.toId(id);
+    if (labelId === null) return null;
+
+    try {
+      const [label] = await this.db.select().from(labels).where(eq(labels.id, labelId));
+      return label ? this.mapLabelToSchema(label) : null;
+    } catch (error) {
+      console.error("Error getting label by id:", error);
+      return null;
+    }
+  }
+
+  async createLabel(labelData: InsertLabel & { userId: string }): Promise<Label> {
+    const ownerId = this.toId(labelData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to create label");
+    }
+
+    try {
+      const [label] = await this.db
+        .insert(labels)
+        .values({
+          userId: ownerId,
+          name: labelData.name,
+          color: labelData.color || "#3b82f6",
+          parentId: this.toNullableId(labelData.parentId) ?? null
+        })
+        .returning();
+
+      return this.mapLabelToSchema(label);
+    } catch (error) {
+      console.error("Error creating label:", error);
+      throw new Error("Failed to create label");
+    }
+  }
+
+  async updateLabel(id: string, labelData: UpdateLabel): Promise<Label | null> {
+    const labelId = this.toId(id);
+    if (labelId === null) return null;
+
+    try {
+      const [label] = await this.db
+        .update(labels)
+        .set({
+          name: labelData.name,
+          color: labelData.color || undefined,
+          parentId: this.toNullableId(labelData.parentId)
+        })
+        .where(eq(labels.id, labelId))
+        .returning();
+
+      return label ? this.mapLabelToSchema(label) : null;
+    } catch (error) {
+      console.error("Error updating label:", error);
+      return null;
+    }
+  }
+
+  async deleteLabel(id: string): Promise<boolean> {
+    const labelId = this.toId(id);
+    if (labelId === null) return false;
+
+    try {
+      const deleted = await this.db.transaction(async (tx) => {
+        const [label] = await tx.select({ parentId: labels.parentId }).from(labels).where(eq(labels.id, labelId));
+        if (!label) return [];
+
+        await tx.update(labels).set({ parentId: label.parentId }).where(eq(labels.parentId, labelId));
+        // updatedAt stays as it was: dropping a deleted label is cleanup, not an edit
+        await tx
+          .update(notes)
+          .set({
+            labels: sql`array_remove(${notes.labels}, ${id})`,
+            version: sql`${notes.version} + 1`
+          })
+          .where(arrayContains(notes.labels, [id]));
+        return tx.delete(labels).where(eq(labels.id, labelId)).returning({ id: labels.id });
+      });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting label:", error);
+      return false;
+    }
+  }
+
+  // Notebook operations
+  async getNotebooksByUserId(userId: string): Promise<Notebook[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(notebooks)
+        .where(eq(notebooks.userId, ownerId))
+        .orderBy(asc(notebooks.name));
+      return rows.map((row) => this.mapNotebookToSchema(row));
+    } catch (error) {
+      console.error("Error getting notebooks by user id:", error);
+      return [];
+    }
+  }
+
+  async getNotebookById(id: string): Promise<Notebook | null> {
+    const notebookId = this.toId(id);
+    if (notebookId === null) return null;
+
+    try {
+      const [notebook] = await this.db.select().from(notebooks).where(eq(notebooks.id, notebookId));
+      return notebook ? this.mapNotebookToSchema(notebook) : null;
+    } catch (error) {
+      console.error("Error getting notebook by id:", error);
+      return null;
+    }
+  }
+
+  async createNotebook(notebookData: InsertNotebook & { userId: string }): Promise<Notebook> {
+    const ownerId = this.toId(notebookData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to create notebook");
+    }
+
+    try {
+      const [notebook] = await this.db
+        .insert(notebooks)
+        .values({
+          userId: ownerId,
+          name: notebookData.name,
+          defaultBackgroundColor: notebookData.defaultBackgroundColor || "#ffffff"
+        })
+        .returning();
+      return this.mapNotebookToSchema(notebook);
+    } catch (error) {
+      console.error("Error creating notebook:", error);
+      throw new Error("Failed to create notebook");
+    }
+  }
+
+  async updateNotebook(id: string, notebookData: UpdateNotebook): Promise<Notebook | null> {
+    const notebookId = this.toId(id);
+    if (notebookId === null) return null;
+
+    try {
+      const [notebook] = await this.db
+        .update(notebooks)
+        .set({
+          name: notebookData.name,
+          defaultBackgroundColor: notebookData.defaultBackgroundColor || undefined
+        })
+        .where(eq(notebooks.id, notebookId))
+        .returning();
+      return notebook ? this.mapNotebookToSchema(notebook) : null;
+    } catch (error) {
+      console.error("Error updating notebook:", error);
+      return null;
+    }
+  }
+
+  async deleteNotebook(id: string): Promise<boolean> {
+    const notebookId = this.toId(id);
+    if (notebookId === null) return false;
+
+    try {
+      const deleted = await this.db.transaction(async (tx) => {
+        // Like label cleanup, taking notes out of the notebook leaves updatedAt alone
+        await tx
+          .update(notes)
+          .set({ notebookId: null, version: sql`${notes.version} + 1` })
+          .where(eq(notes.notebookId, notebookId));
+        return tx.delete(notebooks).where(eq(notebooks.id, notebookId)).returning({ id: notebooks.id });
+      });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting notebook:", error);
+      return false;
+    }
+  }
+
+  // Template operations
+  async getTemplatesByUserId(userId: string): Promise<Template[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(templates)
+        .where(eq(templates.userId, ownerId))
+        .orderBy(asc(templates.name));
+      return rows.map((row) => this.mapTemplateToSchema(row));
+    } catch (error) {
+      console.error("Error getting templates by user id:", error);
+      return [];
+    }
+  }
+
+  async getTemplateById(id: string): Promise<Template | null> {
+    const templateId = this.toId(id);
+    if (templateId === null) return null;
+
+    try {
+      const [template] = await this.db.select().from(templates).where(eq(templates.id, templateId));
+      return template ? this.mapTemplateToSchema(template) : null;
+    } catch (error) {
+      console.error("Error getting template by id:", error);
+      return null;
+    }
+  }
+
+  async createTemplate(templateData: InsertTemplate & { userId: string }): Promise<Template> {
+    const ownerId = this.toId(templateData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to create template");
+    }
+
+    try {
+      const [template] = await this.db
+        .insert(templates)
+        .values({
+          userId: ownerId,
+          name: templateData.name,
+          title: templateData.title ?? "",
+          content: templateData.content ?? "",
+          type: templateData.type ?? "text",
+          labels: templateData.labels ?? null
+        })
+        .returning();
+      return this.mapTemplateToSchema(template);
+    } catch (error) {
+      console.error("Error creating template:", error);
+      throw new Error("Failed to create template");
+    }
+  }
+
+  async updateTemplate(id: string, templateData: UpdateTemplate): Promise<Template | null> {
+    const templateId = this.toId(id);
+    if (templateId === null) return null;
+
+    try {
+      const [template] = await this.db
+        .update(templates)
+        .set({
+          name: templateData.name,
+          title: templateData.title,
+          content: templateData.content,
+          type: templateData.type,
+          labels: templateData.labels,
+          updatedAt: new Date()
+        })
+        .where(eq(templates.id, templateId))
+        .returning();
+      return template ? this.mapTemplateToSchema(template) : null;
+    } catch (error) {
+      console.error("Error updating template:", error);
+      return null;
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const templateId = this.toId(id);
+    if (templateId === null) return false;
+
+    try {
+      const deleted = await this.db.delete(templates).where(eq(templates.id, templateId)).returning({ id: templates.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      return false;
+    }
+  }
+
+  // Reminder operations
+  // Notes whose reminder is due: remindAt has passed and no reminder was sent
+  // since (see isReminderDue)
+  private dueReminderCondition(now: Date): SQL {
+    return and(
+      isNotNull(notes.remindAt),
+      lte(notes.remindAt, now),
+      isNull(notes.deletedAt),
+      or(isNull(notes.reminderSentAt), lt(notes.reminderSentAt, notes.remindAt))
+    )!;
+  }
+
+  async getDueReminders(now: Date): Promise<Note[]> {
+    try {
+      const rows = await this.db
+        .select()
+        .from(notes)
+        .where(this.dueReminderCondition(now))
+        .orderBy(asc(notes.remindAt));
+      return rows.map((row) => this.mapNoteToSchema(row));
+    } catch (error) {
+      console.error("Error getting due reminders:", error);
+      return [];
+    }
+  }
+
+  // Matching on remindAt (and the due condition when sending) makes the check
+  // and the write one atomic step
+  async advanceReminder(noteId: string, remindAt: Date, change: ReminderChange): Promise<boolean> {
+    const id = this.toId(noteId);
+    if (id === null) return false;
+
+    try {
+      const updated = await this.db
+        .update(notes)
+        .set({ reminderSentAt: change.sentAt, remindAt: change.next })
+        .where(and(
+          eq(notes.id, id),
+          eq(notes.remindAt, remindAt),
+          change.sentAt ? this.dueReminderCondition(change.sentAt) : undefined
+        ))
+        .returning({ id: notes.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Error advancing reminder:", error);
+      return false;
+    }
+  }
+
+  // Notification operations
+  async getNotificationsByUserId(userId: string, limit?: number): Promise<Notification[]> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return [];
+
+    try {
+      const query = this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.userId, ownerId))
+        .orderBy(desc(notifications.id));
+      const rows = limit === undefined ? await query : await query.limit(limit);
+      return rows.map((row) => this.mapNotificationToSchema(row));
+    } catch (error) {
+      console.error("Error getting notifications by user id:", error);
+      return [];
+    }
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const noteId = this.toId(notificationData.noteId);
+    const ownerId = this.toId(notificationData.userId);
+    if (noteId === null || ownerId === null) {
+      throw new Error("Failed to create notification");
+    }
+
+    try {
+      const [notification] = await this.db
+        .insert(notifications)
+        .values({ ...notificationData, noteId, userId: ownerId })
+        .returning();
+      return this.mapNotificationToSchema(notification);
+    } catch (error) {
+      console.error("Error creating notification:", error);
+      throw new Error("Failed to create notification");
+    }
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return 0;
+
+    const conditions = [eq(notifications.userId, ownerId), isNull(notifications.readAt)];
+    if (ids) {
+      const notificationIds = ids.map((id) => this.toId(id)).filter((id): id is number => id !== null);
+      if (notificationIds.length === 0) return 0;
+      conditions.push(inArray(notifications.id, notificationIds));
+    }
+
+    try {
+      const updated = await this.db
+        .update(notifications)
+        .set({ readAt: new Date() })
+        .where(and(...conditions))
+        .returning({ id: notifications.id });
+      return updated.length;
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      return 0;
+    }
+  }
+
+  // Attachment operations
+  async getAttachmentsByNoteId(noteId: string): Promise<Attachment[]> {
+    const id = this.toId(noteId);
+    if (id === null) return [];
+
+    try {
+      const rows = await this.db
+        .select()
+        .from(attachments)
+        .where(eq(attachments.noteId, id))
+        .orderBy(asc(attachments.id));
+      return rows.map((row) => this.mapAttachmentToSchema(row));
+    } catch (error) {
+      console.error("Error getting attachments by note id:", error);
+      return [];
+    }
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    const attachmentId = this.toId(id);
+    if (attachmentId === null) return null;
+
+    try {
+      const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, attachmentId));
+      return attachment ? this.mapAttachmentToSchema(attachment) : null;
+    } catch (error) {
+      console.error("Error getting attachment by id:", error);
+      return null;
+    }
+  }
+
+  async getAttachmentUsage(userId: string): Promise<number> {
+    const ownerId = this.toId(userId);
+    if (ownerId === null) return 0;
+
+    try {
+      const [usage] = await this.db
+        .select({ total: sum(attachments.size) })
+        .from(attachments)
+        .where(eq(attachments.userId, ownerId));
+      return Number(usage?.total ?? 0);
+    } catch (error) {
+      console.error("Error getting attachment usage:", error);
+      throw new Error("Failed to get attachment usage");
+    }
+  }
+
+  async createAttachment(attachmentData: InsertAttachment): Promise<Attachment> {
+    const noteId = this.toId(attachmentData.noteId);
+    const ownerId = this.toId(attachmentData.userId);
+    if (noteId === null || ownerId === null) {
+      throw new Error("Failed to create attachment");
+    }
+
+    try {
+      const [attachment] = await this.db
+        .insert(attachments)
+        .values({ ...attachmentData, noteId, userId: ownerId })
+        .returning();
+      return this.mapAttachmentToSchema(attachment);
+    } catch (error) {
+      console.error("Error creating attachment:", error);
+      throw new Error("Failed to create attachment");
+    }
+  }
+
+  async deleteAttachment(id: string): Promise<boolean> {
+    const attachmentId = this.toId(id);
+    if (attachmentId === null) return false;
+
+    try {
+      const deleted = await this.db
+        .delete(attachments)
+        .where(eq(attachments.id, attachmentId))
+        .returning({ id: attachments.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Bulk operations
+  async getAllUsers(): Promise<User[]> {
+    try {
+      const rows = await this.db.select().from(users).orderBy(asc(users.id));
+      return rows.map((row) => this.mapUserToSchema(row));
+    } catch (error) {
+      console.error("Error getting all users:", error);
+      return [];
+    }
+  }
+
+  async importUser(userData: Omit<User, "id">): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(userData).returning();
+      return this.mapUserToSchema(user);
+    } catch (error) {
+      console.error("Error importing user:", error);
+      throw new Error("Failed to import user");
+    }
+  }
+
+  async importLabel(labelData: Omit<Label, "id">): Promise<Label> {
+    const ownerId = this.toId(labelData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to import label");
+    }
+
+    try {
+      const [label] = await this.db
+        .insert(labels)
+        .values({ ...labelData, userId: ownerId, parentId: this.toNullableId(labelData.parentId) ?? null })
+        .returning();
+      return this.mapLabelToSchema(label);
+    } catch (error) {
+      console.error("Error importing label:", error);
+      throw new Error("Failed to import label");
+    }
+  }
+
+  async importNotebook(notebookData: Omit<Notebook, "id">): Promise<Notebook> {
+    const ownerId = this.toId(notebookData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to import notebook");
+    }
+
+    try {
+      const [notebook] = await this.db.insert(notebooks).values({ ...notebookData, userId: ownerId }).returning();
+      return this.mapNotebookToSchema(notebook);
+    } catch (error) {
+      console.error("Error importing notebook:", error);
+      throw new Error("Failed to import notebook");
+    }
+  }
+
+  async importTemplate(templateData: Omit<Template, "id">): Promise<Template> {
+    const ownerId = this.toId(templateData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to import template");
+    }
+
+    try {
+      const [template] = await this.db.insert(templates).values({ ...templateData, userId: ownerId }).returning();
+      return this.mapTemplateToSchema(template);
+    } catch (error) {
+      console.error("Error importing template:", error);
+      throw new Error("Failed to import template");
+    }
+  }
+
+  async importNote(noteData: Omit<Note, "id">): Promise<Note> {
+    const ownerId = this.toId(noteData.userId);
+    if (ownerId === null) {
+      throw new Error("Failed to import note");
+    }
+
+    try {
+      const note = await this.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(notes)
+          .values({ ...noteData, userId: ownerId, notebookId: this.toNullableId(noteData.notebookId) ?? null })
+          .returning();
+        await this.updateSearchIndex(tx, created);
+        await this.updateLinkIndex(tx, created);
+        return created;
+      });
+      return this.mapNoteToSchema(note);
+    } catch (error) {
+      console.error("Error importing note:", error);
+      throw new Error("Failed to import note");
+    }
+  }
+
+  async importNoteContent(id: string, content: string): Promise<Note | null> {
+    const noteId = this.toId(id);
+    if (noteId === null) return null;
+
+    try {
+      const note = await this.db.transaction(async (tx) => {
+        const [updated] = await tx.update(notes).set({ content }).where(eq(notes.id, noteId)).returning();
+        if (!updated) return null;
+        await this.updateSearchIndex(tx, updated);
+        await this.updateLinkIndex(tx, updated);
+        return updated;
+      });
+      return note ? this.mapNoteToSchema(note) : null;
+    } catch (error) {
+      console.error("Error importing note content:", error);
+      throw new Error("Failed to import note");
+    }
+  }
+
+  async importAttachment(attachmentData: Omit<Attachment, "id">): Promise<Attachment> {
+    const noteId = this.toId(attachmentData.noteId);
+    const ownerId = this.toId(attachmentData.userId);
+    if (noteId === null || ownerId === null) {
+      throw new Error("Failed to import attachment");
+    }
+
+    try {
+      const [attachment] = await this.db
+        .insert(attachments)
+        .values({ ...attachmentData, noteId, userId: ownerId })
+        .returning();
+      return this.mapAttachmentToSchema(attachment);
+    } catch (error) {
+      console.error("Error importing attachment:", error);
+      throw new Error("Failed to import attachment");
+    }
+  }
+
+  async importNotification(notificationData: Omit<Notification, "id">): Promise<Notification> {
+    const noteId = this.toId(notificationData.noteId);
+    const ownerId = this.toId(notificationData.userId);
+    if (noteId === null || ownerId === null) {
+      throw new Error("Failed to import notification");
+    }
+
+    try {
+      const [notification] = await this.db
+        .insert(notifications)
+        .values({ ...notificationData, noteId, userId: ownerId })
+        .returning();
+      return this.mapNotificationToSchema(notification);
+    } catch (error) {
+      console.error("Error importing notification:", error);
+      throw new Error("Failed to import notification");
+    }
+  }
+
+  // Helper methods to map rows to schema types with string IDs
+  private mapUserToSchema(user: UserRow): User {
+    return { ...user, id: String(user.id) };
+  }
+
+  private mapNoteToSchema(note: NoteRow): Note {
+    return {
+      ...note,
+      id: String(note.id),
+      userId: String(note.userId),
+      notebookId: note.notebookId === null ? null : String(note.notebookId)
+    };
+  }
+
+  private mapNoteRevisionToSchema(revision: NoteRevisionRow): NoteRevision {
+    return { ...revision, id: String(revision.id), noteId: String(revision.noteId), userId: String(revision.userId) };
+  }
+
+  private mapLabelToSchema(label: LabelRow): Label {
+    return {
+      ...label,
+      id: String(label.id),
+      userId: String(label.userId),
+      parentId: label.parentId === null ? null : String(label.parentId)
+    };
+  }
+
+  private mapNotebookToSchema(notebook: NotebookRow): Notebook {
+    return { ...notebook, id: String(notebook.id), userId: String(notebook.userId) };
+  }
+
+  private mapTemplateToSchema(template: TemplateRow): Template {
+    return { ...template, id: String(template.id), userId: String(template.userId) };
+  }
+
+  private mapAttachmentToSchema(attachment: AttachmentRow): Attachment {
+    return {
+      ...attachment,
+      id: String(attachment.id),
+      noteId: String(attachment.noteId),
+      userId: String(attachment.userId)
+    };
+  }
+
+  private mapNotificationToSchema(notification: NotificationRow): Notification {
+    return {
+      ...notification,
+      id: String(notification.id),
+      noteId: String(notification.noteId),
+      userId: String(notification.userId)
+    };
+  }
+}
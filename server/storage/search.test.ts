@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { MemStorage } from "./memory";
+import { stem } from "./search";
+
+describe("stem", () => {
+  it.each([
+    ["notes", "note"],
+    ["noted", "note"],
+    ["noting", "note"],
+    ["created", "create"],
+    ["creates", "create"],
+    ["creating", "create"],
+    ["hoped", "hope"],
+    ["hoping", "hope"],
+    ["studied", "study"],
+    ["studies", "study"],
+    ["used", "use"],
+    ["uses", "use"],
+    ["agreed", "agree"],
+    ["meetings", "meet"],
+  ])("brings %s together with its base word", (word, base) => {
+    expect(stem(word)).toBe(stem(base));
+    expect(stem(word)).toBe(base);
+  });
+
+  it.each([
+    ["running", "run"],
+    ["hopping", "hop"],
+    ["filling", "fill"],
+    ["added", "add"],
+    ["needed", "need"],
+  ])("undoubles the consonant of %s only where the base word has one", (word, base) => {
+    expect(stem(word)).toBe(base);
+  });
+
+  it("keeps short words and words that only look inflected", () => {
+    expect(stem("not")).toBe("not");
+    expect(stem("string")).toBe("string");
+    expect(stem("need")).toBe("need");
+    expect(stem("not")).not.toBe(stem("noted"));
+  });
+});
+
+describe("searchNotes", () => {
+  // A trailing space finishes the last word, so it is not matched as a prefix
+  it("finds inflected forms of the query, and only those", async () => {
+    const storage = new MemStorage({ seedTestUser: false });
+    const user = await storage.createUser({ name: "Test", email: "test@example.com", password: "password123" });
+    const noted = await storage.createNote({ userId: user.id, title: "Meeting", content: "Everything was noted" });
+    const not = await storage.createNote({ userId: user.id, title: "Reminder", content: "Do not forget" });
+
+    expect((await storage.searchNotes(user.id, "note ", { limit: 20 })).results.map((result) => result.note.id)).toEqual([noted.id]);
+    expect((await storage.searchNotes(user.id, "not ", { limit: 20 })).results.map((result) => result.note.id)).toEqual([not.id]);
+  });
+});
@@ -0,0 +1,587 @@
+import type { Note, SearchSort } from "@shared/schema";
+import {
+  compareNotePositions,
+  decodeNoteCursor,
+  encodeNoteCursor,
+  matchesNoteFilters,
+  notePosition,
+  type NoteCursor,
+  type NoteFilters,
+  type SearchQuery
+} from "./types";
+
+// Full-text search shared by every backend. Backends store the inverted index
+// built by indexNote() and answer the lookups in SearchIndexReader; parsing,
+// BM25 ranking and snippets happen here so results are the same everywhere.
+
+export const searchFields = ["title", "summary", "content"] as const;
+export type SearchField = typeof searchFields[number];
+
+// A term's positions (token numbers) within one field of one note
+export interface Posting {
+  noteId: string;
+  userId: string;
+  field: SearchField;
+  term: string;
+  positions: number[];
+}
+
+// Token counts per field, for BM25 length normalization
+export interface SearchDocument {
+  noteId: string;
+  userId: string;
+  lengths: Record<SearchField, number>;
+}
+
+export interface SearchStatistics {
+  documentCount: number;
+  totalLengths: Record<SearchField, number>;
+}
+
+// The parts of a note that are indexed
+export type IndexedNote = Pick<Note, "id" | "userId" | "title" | "content" | "summary">;
+
+export interface SearchIndexReader {
+  // Postings of the user's notes whose term equals one of `terms` or starts
+  // with one of `prefixes`
+  findPostings(userId: string, terms: string[], prefixes: string[]): Promise<Posting[]>;
+  getStatistics(userId: string): Promise<SearchStatistics>;
+  getDocuments(noteIds: string[]): Promise<SearchDocument[]>;
+  // Notes in any order; missing IDs are left out
+  getNotes(noteIds: string[]): Promise<Note[]>;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  note: Note;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+  snippetField: "content" | "summary";
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Bump when tokenizing or stemming changes, so stored indexes are rebuilt:
+// PostgreSQL reindexes older rows when it starts, MongoDB needs a migration
+export const SEARCH_INDEX_VERSION = 2;
+
+// Title matches count the most, then the AI summary, then the body
+const fieldWeights: Record<SearchField, number> = { title: 3, summary: 1.5, content: 1 };
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Prefix expansions rank below exact matches of the same word
+const PREFIX_WEIGHT = 0.8;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+// Notes loaded per lookup when every match has to be sorted
+const FULL_SORT_BATCH_SIZE = 500;
+
+interface Token {
+  term: string;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// Runs of letters and digits in any script
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Porter's consonant: any letter but a vowel, or a y that follows a vowel
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ("aeiou".includes(char)) return false;
+  return char !== "y" || index === 0 || !isConsonant(word, index - 1);
+}
+
+// Porter's measure: how many vowel-consonant runs the stem has
+function measure(stem: string): number {
+  let count = 0;
+  for (let index = 1; index < stem.length; index++) {
+    if (isConsonant(stem, index) && !isConsonant(stem, index - 1)) count++;
+  }
+  return count;
+}
+
+const hasVowel = (stem: string) => Array.from(stem).some((_, index) => !isConsonant(stem, index));
+
+// Consonant (or the start of the word), vowel, consonant other than w, x or
+// y at the end, as in "hop", "not" or "us": a short word whose silent "e" was
+// dropped (hoping, noted, used)
+function endsShortSyllable(stem: string): boolean {
+  const last = stem.length - 1;
+  return last >= 1 &&
+    isConsonant(stem, last) && !isConsonant(stem, last - 1) && (last === 1 || isConsonant(stem, last - 2)) &&
+    !"wxy".includes(stem[last]);
+}
+
+/**
+ * Light English stemmer after Porter's first step: folds plurals and
+ * -ed/-ing forms, and the silent "e" they drop, so "note", "notes", "noted"
+ * and "noting" meet at one term while "not" stays apart. It is deliberately
+ * conservative; prefix queries cover what it misses.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith("ies") && !/[ae]ies$/.test(result)) {
+    result = result.slice(0, -3) + "y";
+  } else if (/(?:ss|x|z|ch|sh)es$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith("s") && !/(?:ss|us|is)$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.endsWith("eed")) {
+    // agreed -> agree, but "need" and "feed" stay whole
+    if (measure(result.slice(0, -3)) > 0) result = result.slice(0, -1);
+  } else if (result.endsWith("ied") && result.length > 4) {
+    // studied -> study, like studies
+    result = result.slice(0, -3) + "y";
+  } else {
+    const suffix = ["ing", "ed"].find((ending) => result.endsWith(ending));
+    const base = suffix ? result.slice(0, -suffix.length) : "";
+    // The rest must still hold a vowel: "string" and "bed" stay whole
+    if (suffix && hasVowel(base)) {
+      if (/(?:at|bl|iz)$/.test(base)) {
+        result = base + "e"; // created -> create
+      } else if (base.length > 3 && /([^aeiouylsz])\1$/.test(base)) {
+        result = base.slice(0, -1); // running -> run, but filling -> fill and added -> add
+      } else if (measure(base) === 1 && endsShortSyllable(base)) {
+        result = base + "e"; // noted -> note, hoping -> hope
+      } else {
+        result = base;
+      }
+    }
+  }
+  return result;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    tokens.push({
+      term: stem(match[0].toLowerCase()),
+      position: tokens.length,
+      start: match.index!,
+      end: match.index! + match[0].length
+    });
+  }
+  return tokens;
+}
+
+function fieldText(note: IndexedNote, field: SearchField): string {
+  return (field === "summary" ? note.summary : note[field]) || "";
+}
+
+/**
+ * Everything a backend stores to make a note searchable
+ */
+export function indexNote(note: IndexedNote): { document: SearchDocument; postings: Posting[] } {
+  const lengths = { title: 0, summary: 0, content: 0 };
+  const postings: Posting[] = [];
+
+  for (const field of searchFields) {
+    const tokens = tokenize(fieldText(note, field));
+    lengths[field] = tokens.length;
+
+    const positions = new Map<string, number[]>();
+    for (const token of tokens) {
+      const list = positions.get(token.term);
+      if (list) list.push(token.position);
+      else positions.set(token.term, [token.position]);
+    }
+    for (const [term, list] of Array.from(positions)) {
+      postings.push({ noteId: note.id, userId: note.userId, field, term, positions: list });
+    }
+  }
+
+  return { document: { noteId: note.id, userId: note.userId, lengths }, postings };
+}
+
+// One word of the query; a note must match every clause
+interface WordClause {
+  kind: "word";
+  term: string;
+  prefix: string | null;
+}
+
+interface PhraseClause {
+  kind: "phrase";
+  terms: string[];
+}
+
+type QueryClause = WordClause | PhraseClause;
+
+/**
+ * Parses a query such as `meeting "action items" proj*`.
+ * Quoted text is a phrase; a trailing * or the last word of an unfinished
+ * query (no trailing space) also matches longer words.
+ */
+export function parseSearchQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  for (const match of Array.from(query.matchAll(pattern))) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map((token) => token.term);
+      if (terms.length === 1) clauses.push({ kind: "word", term: terms[0], prefix: null });
+      else if (terms.length > 1) clauses.push({ kind: "phrase", terms });
+      continue;
+    }
+
+    const raw = match[2];
+    const isLast = match.index! + raw.length === query.length;
+    const words: string[] = raw.toLowerCase().match(WORD_PATTERN) || [];
+    words.forEach((word, index) => {
+      const lastWord = index === words.length - 1;
+      const prefix = lastWord && (raw.endsWith("*") || isLast) ? word : null;
+      clauses.push({ kind: "word", term: stem(word), prefix });
+    });
+  }
+  return clauses;
+}
+
+function clauseTerms(clause: QueryClause): string[] {
+  return clause.kind === "word" ? [clause.term] : clause.terms;
+}
+
+function wordMatches(clause: WordClause, term: string): boolean {
+  return term === clause.term || (clause.prefix !== null && term.startsWith(clause.prefix));
+}
+
+// Whether the terms appear next to each other, in order, in one field
+function hasPhrase(postings: Posting[], terms: string[]): boolean {
+  return searchFields.some((field) => {
+    const positions = terms.map((term) =>
+      new Set(postings.find((posting) => posting.field === field && posting.term === term)?.positions)
+    );
+    return Array.from(positions[0]).some((start) =>
+      positions.every((set, offset) => set.has(start + offset))
+    );
+  });
+}
+
+interface RankedNote {
+  noteId: string;
+  score: number;
+  terms: Set<string>;
+}
+
+async function rank(reader: SearchIndexReader, userId: string, clauses: QueryClause[]): Promise<RankedNote[]> {
+  const exact = Array.from(new Set(clauses.flatMap(clauseTerms)));
+  const prefixes = clauses.flatMap((clause) =>
+    clause.kind === "word" && clause.prefix !== null ? [clause.prefix] : []
+  );
+
+  const postings = await reader.findPostings(userId, exact, prefixes);
+  const byNote = new Map<string, Posting[]>();
+  const notesWithTerm = new Map<string, Set<string>>();
+  for (const posting of postings) {
+    const notePostings = byNote.get(posting.noteId);
+    if (notePostings) notePostings.push(posting);
+    else byNote.set(posting.noteId, [posting]);
+    notesWithTerm.set(posting.term, (notesWithTerm.get(posting.term) || new Set()).add(posting.noteId));
+  }
+
+  // Every clause must match
+  const candidates = Array.from(byNote).filter(([, notePostings]) =>
+    clauses.every((clause) =>
+      clause.kind === "word"
+        ? notePostings.some((posting) => wordMatches(clause, posting.term))
+        : hasPhrase(notePostings, clause.terms)
+    )
+  );
+  if (candidates.length === 0) return [];
+
+  const statistics = await reader.getStatistics(userId);
+  const documents = new Map(
+    (await reader.getDocuments(candidates.map(([noteId]) => noteId))).map((document) => [document.noteId, document])
+  );
+  const count = Math.max(statistics.documentCount, 1);
+
+  // BM25F: field-weighted, length-normalized term frequency, then saturated
+  const termScore = (term: string, notePostings: Posting[], document: SearchDocument | undefined): number => {
+    const documentFrequency = notesWithTerm.get(term)?.size || 0;
+    const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    let frequency = 0;
+    for (const posting of notePostings) {
+      if (posting.term !== term) continue;
+      const average = statistics.totalLengths[posting.field] / count || 1;
+      const length = document?.lengths[posting.field] ?? average;
+      frequency += fieldWeights[posting.field] * posting.positions.length / (1 - B + B * length / average);
+    }
+    return idf * frequency * (K1 + 1) / (frequency + K1);
+  };
+
+  return candidates
+    .map(([noteId, notePostings]) => {
+      const document = documents.get(noteId);
+      const terms = new Set<string>();
+      let score = 0;
+
+      for (const clause of clauses) {
+        if (clause.kind === "phrase") {
+          clause.terms.forEach((term) => terms.add(term));
+          score += clause.terms.reduce((sum, term) => sum + termScore(term, notePostings, document), 0);
+          continue;
+        }
+
+        // A prefix can expand to several words; the best one counts
+        let best = 0;
+        for (const posting of notePostings) {
+          if (!wordMatches(clause, posting.term)) continue;
+          terms.add(posting.term);
+          const weight = posting.term === clause.term ? 1 : PREFIX_WEIGHT;
+          best = Math.max(best, weight * termScore(posting.term, notePostings, document));
+        }
+        score += best;
+      }
+
+      return { noteId, score, terms };
+    })
+    .sort(compareRanked);
+}
+
+// Best score first; equal scores keep a fixed order so pages do not overlap
+function compareRanked(a: Pick<RankedNote, "score" | "noteId">, b: Pick<RankedNote, "score" | "noteId">): number {
+  return b.score - a.score || a.noteId.localeCompare(b.noteId, undefined, { numeric: true });
+}
+
+// Position of the last result of a page ordered by relevance
+interface RelevanceCursor {
+  sort: "relevance";
+  score: number;
+  noteId: string;
+}
+
+function encodeRelevanceCursor(entry: RankedNote): string {
+  const cursor: RelevanceCursor = { sort: "relevance", score: entry.score, noteId: entry.noteId };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Returns null if the cursor is malformed or was issued for another sort
+export function decodeSearchCursor(value: string, sort: SearchSort): RelevanceCursor | NoteCursor | null {
+  if (sort !== "relevance") return decodeNoteCursor(value, sort);
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (cursor?.sort !== "relevance" || typeof cursor.score !== "number" || typeof cursor.noteId !== "string") {
+      return null;
+    }
+    return cursor as RelevanceCursor;
+  } catch {
+    return null;
+  }
+}
+
+interface Match {
+  entry: RankedNote;
+  note: Note;
+}
+
+// Loads the ranked notes a batch at a time, keeping the user's non-trashed
+// notes that pass the filters, until `wanted` of them are found
+async function loadMatches(
+  reader: SearchIndexReader,
+  userId: string,
+  ranked: RankedNote[],
+  filters: NoteFilters,
+  wanted: number,
+  batchSize: number
+): Promise<Match[]> {
+  const matches: Match[] = [];
+  for (let offset = 0; offset < ranked.length && matches.length < wanted; offset += batchSize) {
+    const batch = ranked.slice(offset, offset + batchSize);
+    const notes = new Map((await reader.getNotes(batch.map((entry) => entry.noteId))).map((note) => [note.id, note]));
+
+    for (const entry of batch) {
+      const note = notes.get(entry.noteId);
+      if (!note || note.deletedAt || note.userId !== userId || !matchesNoteFilters(note, filters)) continue;
+      matches.push({ entry, note });
+      if (matches.length === wanted) break;
+    }
+  }
+  return matches;
+}
+
+function highlight(text: string, tokens: Token[], terms: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const token of tokens) {
+    if (!terms.has(token.term)) continue;
+    if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start), highlight: false });
+    segments.push({ text: text.slice(token.start, token.end), highlight: true });
+    cursor = token.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlight: false });
+  return segments;
+}
+
+// A window of the field around its first match, with matches marked
+function snippet(text: string, terms: Set<string>): HighlightSegment[] {
+  const firstHit = tokenize(text).find((token) => terms.has(token.term));
+  let start = firstHit ? Math.max(0, firstHit.start - SNIPPET_LEAD) : 0;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && (!firstHit || space < firstHit.start)) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const window = text.slice(start, end);
+  const segments = highlight(window, tokenize(window), terms);
+  if (start > 0) segments.unshift({ text: "…", highlight: false });
+  if (end < text.length) segments.push({ text: "…", highlight: false });
+  return segments;
+}
+
+function buildResult(note: Note, score: number, terms: Set<string>): SearchResult {
+  const hasMatch = (text: string) => tokenize(text).some((token) => terms.has(token.term));
+  // Show the summary only when the body itself has no match
+  const snippetField = !hasMatch(note.content) && note.summary && hasMatch(note.summary) ? "summary" : "content";
+
+  return {
+    note,
+    score,
+    title: highlight(note.title, tokenize(note.title), terms),
+    snippet: snippet(fieldText(note, snippetField), terms),
+    snippetField
+  };
+}
+
+/**
+ * A page of the user's notes matching the search text and the query's
+ * filters; trashed notes are left out
+ * @throws If the cursor is malformed
+ */
+export async function searchNotes(
+  reader: SearchIndexReader,
+  userId: string,
+  text: string,
+  query: SearchQuery
+): Promise<SearchPage> {
+  const sort = query.sort ?? "relevance";
+  const cursor = query.cursor ? decodeSearchCursor(query.cursor, sort) : null;
+  if (query.cursor && !cursor) {
+    throw new Error("Invalid cursor");
+  }
+
+  const clauses = parseSearchQuery(text);
+  if (clauses.length === 0) return { results: [], nextCursor: null };
+  const ranked = await rank(reader, userId, clauses);
+
+  // One match past the page tells whether there is another page
+  let matches: Match[];
+  if (sort === "relevance") {
+    // Only the notes this page needs are loaded, starting after the cursor
+    let start = 0;
+    if (cursor) {
+      start = ranked.findIndex((entry) => compareRanked(entry, cursor as RelevanceCursor) > 0);
+      if (start === -1) start = ranked.length;
+    }
+    matches = await loadMatches(reader, userId, ranked.slice(start), query, query.limit + 1, query.limit + 1);
+  } else {
+    // Every match is loaded to be put in the sort's order
+    matches = (await loadMatches(reader, userId, ranked, query, Infinity, FULL_SORT_BATCH_SIZE))
+      .sort((a, b) => compareNotePositions(notePosition(a.note, sort), notePosition(b.note, sort), sort));
+    if (cursor) {
+      const start = matches.findIndex((match) => compareNotePositions(notePosition(match.note, sort), cursor as NoteCursor, sort) > 0);
+      matches = start === -1 ? [] : matches.slice(start);
+    }
+  }
+
+  const page = matches.slice(0, query.limit);
+  const last = page[page.length - 1];
+  let nextCursor: string | null = null;
+  if (matches.length > query.limit) {
+    nextCursor = sort === "relevance" ? encodeRelevanceCursor(last.entry) : encodeNoteCursor(last.note, sort);
+  }
+  return {
+    results: page.map(({ entry, note }) => buildResult(note, entry.score, entry.terms)),
+    nextCursor
+  };
+}
+
+/**
+ * In-memory inverted index, used directly by MemStorage
+ */
+export class SearchIndex implements SearchIndexReader {
+  // term -> note ID -> postings of that term in the note
+  private postings = new Map<string, Map<string, Posting[]>>();
+  private documents = new Map<string, SearchDocument>();
+  private indexedTerms = new Map<string, string[]>();
+
+  constructor(private lookupNote: (id: string) => Note | undefined) {}
+
+  add(note: Note): void {
+    this.remove(note.id);
+
+    const { document, postings } = indexNote(note);
+    this.documents.set(note.id, document);
+    for (const posting of postings) {
+      let notes = this.postings.get(posting.term);
+      if (!notes) {
+        notes = new Map();
+        this.postings.set(posting.term, notes);
+      }
+      notes.set(note.id, [...(notes.get(note.id) || []), posting]);
+    }
+    this.indexedTerms.set(note.id, Array.from(new Set(postings.map((posting) => posting.term))));
+  }
+
+  remove(noteId: string): void {
+    for (const term of this.indexedTerms.get(noteId) || []) {
+      const notes = this.postings.get(term);
+      notes?.delete(noteId);
+      if (notes?.size === 0) this.postings.delete(term);
+    }
+    this.indexedTerms.delete(noteId);
+    this.documents.delete(noteId);
+  }
+
+  async findPostings(userId: string, terms: string[], prefixes: string[]): Promise<Posting[]> {
+    const matching = Array.from(this.postings.keys()).filter((term) =>
+      terms.includes(term) || prefixes.some((prefix) => term.startsWith(prefix))
+    );
+    return matching.flatMap((term) =>
+      Array.from(this.postings.get(term)!.values())
+        .flat()
+        .filter((posting) => posting.userId === userId)
+    );
+  }
+
+  async getStatistics(userId: string): Promise<SearchStatistics> {
+    const statistics = { documentCount: 0, totalLengths: { title: 0, summary: 0, content: 0 } };
+    for (const document of Array.from(this.documents.values())) {
+      if (document.userId !== userId) continue;
+      statistics.documentCount++;
+      for (const field of searchFields) {
+        statistics.totalLengths[field] += document.lengths[field];
+      }
+    }
+    return statistics;
+  }
+
+  async getDocuments(noteIds: string[]): Promise<SearchDocument[]> {
+    return noteIds.flatMap((id) => this.documents.get(id) || []);
+  }
+
+  async getNotes(noteIds: string[]): Promise<Note[]> {
+    return noteIds.flatMap((id) => this.lookupNote(id) || []);
+  }
+}
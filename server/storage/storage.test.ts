@@ -0,0 +1,366 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Note } from "@shared/schema";
+import type { IStorage, NewNote, SearchQuery } from "./types";
+import { NoteVersionConflictError } from "./types";
+import { MemStorage } from "./memory";
+import { FileStorage } from "./file";
+import { MongoStorage } from "./mongo";
+import { PgStorage } from "./postgres";
+
+// The conformance suite every IStorage backend must pass. The database
+// backends run when a URL for a throwaway database is set.
+interface Backend {
+  name: string;
+  enabled: boolean;
+  open(): IStorage;
+  cleanup?(): void;
+}
+
+const fileStorageDir = path.join(os.tmpdir(), `notekeeper-storage-test-${process.pid}`);
+
+const backends: Backend[] = [
+  { name: "MemStorage", enabled: true, open: () => new MemStorage({ seedTestUser: false }) },
+  {
+    name: "FileStorage",
+    enabled: true,
+    open: () => new FileStorage(fileStorageDir),
+    cleanup: () => fs.rmSync(fileStorageDir, { recursive: true, force: true }),
+  },
+  {
+    name: "MongoStorage",
+    enabled: Boolean(process.env.TEST_MONGODB_URI),
+    open: () => new MongoStorage(process.env.TEST_MONGODB_URI),
+  },
+  {
+    name: "PgStorage",
+    enabled: Boolean(process.env.TEST_DATABASE_URL),
+    open: () => new PgStorage(process.env.TEST_DATABASE_URL),
+  },
+];
+
+// Timestamps only order notes written at least a millisecond apart
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+const ids = (notes: Note[]) => notes.map((note) => note.id);
+
+for (const backend of backends) {
+  describe.skipIf(!backend.enabled)(backend.name, () => {
+    let storage: IStorage;
+
+    beforeAll(async () => {
+      storage = backend.open();
+      await storage.ready();
+    });
+
+    afterAll(async () => {
+      await storage?.close();
+      backend.cleanup?.();
+    });
+
+    // Every test works on a user of its own, so databases can be reused
+    const newUserId = async () =>
+      (await storage.createUser({ name: "Test", email: `${randomUUID()}@example.com`, password: "password123" })).id;
+
+    const newNote = async (userId: string, fields: Partial<NewNote> = {}) => {
+      const note = await storage.createNote({ userId, title: "Note", content: "", ...fields });
+      await tick();
+      return note;
+    };
+
+    describe("IDs", () => {
+      it("are strings, including references to other records", async () => {
+        const userId = await newUserId();
+        const label = await storage.createLabel({ userId, name: "work" });
+        const note = await newNote(userId, { labels: [label.id] });
+
+        expect(typeof userId).toBe("string");
+        expect(typeof label.id).toBe("string");
+        expect(typeof note.id).toBe("string");
+        expect(note.userId).toBe(userId);
+        expect(label.userId).toBe(userId);
+        expect(note.labels).toEqual([label.id]);
+
+        const found = await storage.getNoteById(note.id);
+        expect(found?.id).toBe(note.id);
+        expect(found?.userId).toBe(userId);
+        expect((await storage.getUser(userId))?.id).toBe(userId);
+      });
+
+      it("find nothing for IDs that do not exist or are malformed", async () => {
+        expect(await storage.getNoteById("999999999")).toBeNull();
+        expect(await storage.getNoteById("not-an-id")).toBeNull();
+        expect(await storage.getLabelById("not-an-id")).toBeNull();
+        expect(await storage.getUser("not-an-id")).toBeNull();
+      });
+    });
+
+    describe("sort order", () => {
+      it("lists notes pinned first, then most recently updated first", async () => {
+        const userId = await newUserId();
+        const oldest = await newNote(userId, { title: "oldest" });
+        const middle = await newNote(userId, { title: "middle" });
+        const newest = await newNote(userId, { title: "newest" });
+        const pinned = await newNote(userId, { title: "pinned", pinned: true });
+
+        expect(ids(await storage.getNotesByUserId(userId))).toEqual([pinned.id, newest.id, middle.id, oldest.id]);
+
+        await storage.updateNote(oldest.id, { content: "edited" });
+        expect(ids(await storage.getNotesByUserId(userId))).toEqual([pinned.id, oldest.id, newest.id, middle.id]);
+      });
+
+      it("lists labels by name", async () => {
+        const userId = await newUserId();
+        for (const name of ["gamma", "alpha", "beta"]) {
+          await storage.createLabel({ userId, name });
+        }
+        expect((await storage.getLabelsByUserId(userId)).map((label) => label.name)).toEqual(["alpha", "beta", "gamma"]);
+      });
+
+      it("lists the trash most recently trashed first", async () => {
+        const userId = await newUserId();
+        const first = await newNote(userId);
+        const second = await newNote(userId);
+        await storage.trashNote(second.id);
+        await tick();
+        await storage.trashNote(first.id);
+
+        expect(ids(await storage.getTrashedNotesByUserId(userId))).toEqual([first.id, second.id]);
+      });
+    });
+
+    describe("partial updates", () => {
+      it("only change the fields that are given", async () => {
+        const userId = await newUserId();
+        const label = await storage.createLabel({ userId, name: "home" });
+        const note = await newNote(userId, {
+          title: "Title",
+          content: "Content",
+          summary: "Summary",
+          pinned: true,
+          labels: [label.id],
+          backgroundColor: "#fffbeb",
+        });
+
+        const updated = await storage.updateNote(note.id, { title: "New title", content: undefined });
+        expect(updated).toMatchObject({
+          title: "New title",
+          content: "Content",
+          summary: "Summary",
+          pinned: true,
+          labels: [label.id],
+          backgroundColor: "#fffbeb",
+          archived: false,
+        });
+        expect(await storage.getNoteById(note.id)).toMatchObject({ title: "New title", content: "Content" });
+      });
+
+      it("clear a field given as null", async () => {
+        const userId = await newUserId();
+        const note = await newNote(userId, { summary: "Summary" });
+
+        expect((await storage.updateNote(note.id, { summary: null }))?.summary).toBeNull();
+      });
+
+      it("keep a label's other fields", async () => {
+        const userId = await newUserId();
+        const parent = await storage.createLabel({ userId, name: "work" });
+        const label = await storage.createLabel({ userId, name: "ideas", color: "#ef4444", parentId: parent.id });
+
+        expect(await storage.updateLabel(label.id, { name: "plans" }))
+          .toMatchObject({ name: "plans", color: "#ef4444", parentId: parent.id });
+        expect(await storage.updateLabel(label.id, { name: "plans", parentId: null }))
+          .toMatchObject({ name: "plans", color: "#ef4444", parentId: null });
+      });
+
+      it("return null for a note that does not exist", async () => {
+        expect(await storage.updateNote("999999999", { title: "x" })).toBeNull();
+      });
+    });
+
+    describe("versions", () => {
+      it("start at 1 and go up with every write", async () => {
+        const userId = await newUserId();
+        const label = await storage.createLabel({ userId, name: "later" });
+        const note = await newNote(userId);
+        expect(note.version).toBe(1);
+
+        expect((await storage.updateNote(note.id, { title: "Edited" }))?.version).toBe(2);
+        expect((await storage.addLabelToNote(note.id, label.id))?.version).toBe(3);
+        expect((await storage.trashNote(note.id))?.version).toBe(4);
+        expect((await storage.restoreNote(note.id))?.version).toBe(5);
+      });
+
+      it("stay the same for label changes that change nothing", async () => {
+        const userId = await newUserId();
+        const label = await storage.createLabel({ userId, name: "twice" });
+        const note = await newNote(userId, { labels: [label.id] });
+
+        expect((await storage.addLabelToNote(note.id, label.id))?.version).toBe(1);
+        expect((await storage.removeLabelFromNote(note.id, "999999999"))?.version).toBe(1);
+      });
+
+      it("reject an update made against another version", async () => {
+        const userId = await newUserId();
+        const note = await newNote(userId, { content: "first" });
+        await storage.updateNote(note.id, { content: "second" }, 1);
+
+        const conflict = await storage.updateNote(note.id, { content: "stale" }, 1).catch((error) => error);
+        expect(conflict).toBeInstanceOf(NoteVersionConflictError);
+        expect((conflict as NoteVersionConflictError).current).toMatchObject({ version: 2, content: "second" });
+        expect((await storage.getNoteById(note.id))?.content).toBe("second");
+
+        expect((await storage.updateNote(note.id, { content: "third" }, 2))?.version).toBe(3);
+      });
+    });
+
+    describe("trash", () => {
+      it("hides trashed notes from lists but keeps them until restored", async () => {
+        const userId = await newUserId();
+        const kept = await newNote(userId);
+        const trashed = await newNote(userId);
+
+        const result = await storage.trashNote(trashed.id);
+        expect(result?.deletedAt).toBeInstanceOf(Date);
+        expect(new Date(result!.updatedAt!).getTime()).toBe(new Date(trashed.updatedAt!).getTime());
+
+        expect(ids(await storage.getNotesByUserId(userId))).toEqual([kept.id]);
+        expect(ids((await storage.queryNotes(userId, {})).notes)).toEqual([kept.id]);
+        expect((await storage.getNoteById(trashed.id))?.deletedAt).not.toBeNull();
+
+        expect((await storage.restoreNote(trashed.id))?.deletedAt).toBeNull();
+        expect(ids(await storage.getNotesByUserId(userId))).toEqual(expect.arrayContaining([kept.id, trashed.id]));
+        expect(await storage.getTrashedNotesByUserId(userId)).toEqual([]);
+      });
+
+      it("purges only notes trashed before the cutoff", async () => {
+        const userId = await newUserId();
+        const kept = await newNote(userId);
+        const trashed = await newNote(userId);
+        await storage.trashNote(trashed.id);
+
+        expect(await storage.purgeTrashedNotes(new Date(Date.now() - 60_000), userId)).toBe(0);
+        expect(await storage.purgeTrashedNotes(new Date(Date.now() + 60_000), userId)).toBe(1);
+        expect(await storage.getNoteById(trashed.id)).toBeNull();
+        expect(await storage.getNoteById(kept.id)).not.toBeNull();
+      });
+    });
+
+    describe("cursor paging", () => {
+      it("pages through every note once, in list order", async () => {
+        const userId = await newUserId();
+        await newNote(userId, { title: "c" });
+        await newNote(userId, { title: "a", pinned: true });
+        await newNote(userId, { title: "e" });
+        await newNote(userId, { title: "b" });
+        await newNote(userId, { title: "d" });
+
+        for (const sort of ["updated", "created", "title"] as const) {
+          const paged: Note[] = [];
+          let cursor: string | null = null;
+          do {
+            const page = await storage.queryNotes(userId, { sort, cursor, limit: 2 });
+            expect(page.notes.length).toBeLessThanOrEqual(2);
+            paged.push(...page.notes);
+            cursor = page.nextCursor;
+          } while (cursor);
+
+          const all = (await storage.queryNotes(userId, { sort })).notes;
+          expect(ids(paged)).toEqual(ids(all));
+          expect(all).toHaveLength(5);
+        }
+
+        const byTitle = (await storage.queryNotes(userId, { sort: "title" })).notes;
+        expect(byTitle.map((note) => note.title)).toEqual(["a", "b", "c", "d", "e"]);
+        expect(ids((await storage.queryNotes(userId, {})).notes)).toEqual(ids(await storage.getNotesByUserId(userId)));
+      });
+
+      it("ends with a null cursor and rejects a malformed one", async () => {
+        const userId = await newUserId();
+        await newNote(userId);
+
+        expect((await storage.queryNotes(userId, { limit: 1 })).nextCursor).toBeNull();
+        await expect(storage.queryNotes(userId, { cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+      });
+    });
+
+    describe("search", () => {
+      const searchIds = async (userId: string, query: Partial<SearchQuery> = {}) =>
+        (await storage.searchNotes(userId, "meeting ", { limit: 50, ...query })).results.map((result) => result.note.id);
+
+      it("applies the list filters to the matches", async () => {
+        const userId = await newUserId();
+        const notebook = await storage.createNotebook({ userId, name: "Work" });
+        const label = await storage.createLabel({ userId, name: "team" });
+        const active = await newNote(userId, { title: "Meeting notes" });
+        const archived = await newNote(userId, { title: "Old meeting", archived: true });
+        const filed = await newNote(userId, { title: "Meeting plan", notebookId: notebook.id });
+        const labeled = await newNote(userId, { content: "After the meeting", labels: [label.id] });
+        await newNote(userId, { title: "Unrelated" });
+
+        expect(new Set(await searchIds(userId))).toEqual(new Set([active.id, archived.id, filed.id, labeled.id]));
+        expect(await searchIds(userId, { archived: true })).toEqual([archived.id]);
+        expect(await searchIds(userId, { notebookId: notebook.id })).toEqual([filed.id]);
+        expect(new Set(await searchIds(userId, { notebookId: null, archived: false }))).toEqual(new Set([active.id, labeled.id]));
+        expect(await searchIds(userId, { labelGroups: [[label.id]] })).toEqual([labeled.id]);
+      });
+
+      it("orders the matches like note lists when given a note sort", async () => {
+        const userId = await newUserId();
+        const first = await newNote(userId, { title: "B meeting" });
+        const second = await newNote(userId, { title: "A meeting" });
+        const pinned = await newNote(userId, { title: "C meeting", pinned: true });
+
+        expect(await searchIds(userId, { sort: "updated" })).toEqual([pinned.id, second.id, first.id]);
+        expect(await searchIds(userId, { sort: "created" })).toEqual([pinned.id, second.id, first.id]);
+        expect(await searchIds(userId, { sort: "title" })).toEqual([pinned.id, second.id, first.id]);
+      });
+
+      it("pages through every match once, in each order", async () => {
+        const userId = await newUserId();
+        for (const title of ["Meeting", "Meeting meeting", "Meeting agenda", "Team meeting", "Meeting", "Meeting notes"]) {
+          await newNote(userId, { title, archived: title === "Team meeting" });
+        }
+
+        for (const sort of ["relevance", "updated", "created", "title"] as const) {
+          const paged: string[] = [];
+          let cursor: string | null = null;
+          do {
+            const page = await storage.searchNotes(userId, "meeting ", { archived: false, sort, cursor, limit: 2 });
+            expect(page.results.length).toBeLessThanOrEqual(2);
+            paged.push(...page.results.map((result) => result.note.id));
+            cursor = page.nextCursor;
+          } while (cursor);
+
+          const all = await searchIds(userId, { archived: false, sort });
+          expect(paged).toEqual(all);
+          expect(all).toHaveLength(5);
+        }
+      });
+    });
+
+    describe("label cascade", () => {
+      it("removes a deleted label from notes and moves its children up", async () => {
+        const userId = await newUserId();
+        const root = await storage.createLabel({ userId, name: "root" });
+        const parent = await storage.createLabel({ userId, name: "parent", parentId: root.id });
+        const child = await storage.createLabel({ userId, name: "child", parentId: parent.id });
+        const other = await storage.createLabel({ userId, name: "other" });
+        const note = await newNote(userId, { labels: [parent.id, other.id] });
+
+        expect(await storage.deleteLabel(parent.id)).toBe(true);
+
+        expect(await storage.getLabelById(parent.id)).toBeNull();
+        expect((await storage.getLabelById(child.id))?.parentId).toBe(root.id);
+        const cleaned = await storage.getNoteById(note.id);
+        expect(cleaned?.labels).toEqual([other.id]);
+        expect(new Date(cleaned!.updatedAt!).getTime()).toBe(new Date(note.updatedAt!).getTime());
+
+        expect(await storage.deleteLabel(parent.id)).toBe(false);
+      });
+    });
+  });
+}
@@ -0,0 +1,313 @@
+import type { User, InsertUser, Note, InsertNote, UpdateNote, Label, InsertLabel, UpdateLabel, Notebook, InsertNotebook, UpdateNotebook, NoteRevision, Attachment, InsertAttachment, Notification, InsertNotification, Template, InsertTemplate, UpdateTemplate, NoteSort, SearchSort } from "@shared/schema";
+import type { SearchPage } from "./search";
+
+// Interface for storage operations
+//
+// Every backend follows the same contract:
+// - IDs (including userId) are strings, whatever the backend's native key type
+// - notes are returned pinned first, then most recently updated first
+// - note lists leave out trashed notes (deletedAt set) unless they are asked
+//   for; getNoteById still finds them
+// - updateNotes changes all of its notes or none where the backend has
+//   transactions (Postgres); elsewhere a failure can leave it part done
+// - queryNotes pages are ordered like note lists for sort "updated"; the
+//   other sorts still put pinned notes first and break ties by ID
+// - labels are returned sorted by name; deleting a label also removes it
+//   from every note that carries it and moves its children up to its parent
+// - label nesting (parentId) is stored as given; callers check for cycles
+// - notebooks are returned sorted by name; deleting a notebook keeps its notes
+//   and takes them out of it (notebookId null)
+// - a user has at most one journal note per day (journalDate); creating a
+//   second one for the same day fails
+// - templates are returned sorted by name; their label IDs are kept when a
+//   label is deleted, so callers skip labels that no longer exist
+// - update methods only touch the fields that are not undefined
+// - creating or updating a note records a revision whenever its title,
+//   content or summary changed; deleting a note deletes its revisions,
+//   notifications and attachment records (their blobs are swept up by
+//   server/attachments.ts)
+// - the full-text index (see search.ts) and the link index (see links.ts)
+//   are updated together with the note
+// - every write to a note (including trashing and restoring it) increments
+//   its version; new notes start at 1. Recording that a reminder was sent or
+//   skipped is bookkeeping and leaves the version and updatedAt alone
+// - a note's reminder is due once remindAt has passed, until a reminder is
+//   sent at or after remindAt; moving remindAt later makes it due again, which
+//   is how repeating reminders go on to their next occurrence
+export interface IStorage {
+  // Resolves once the backend can serve requests, rejects if it never will
+  ready(): Promise<void>;
+  // Releases connections, files and locks, e.g. at the end of a script
+  close(): Promise<void>;
+
+  // User operations
+  getUser(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  createUser(user: InsertUser): Promise<User>;
+
+  // Note operations
+  getNotesByUserId(userId: string): Promise<Note[]>;
+  queryNotes(userId: string, query: NoteQuery): Promise<NotePage>;
+  // Notes matching the search text that pass the query's filters, in the
+  // query's order; trashed notes are left out
+  searchNotes(userId: string, text: string, query: SearchQuery): Promise<SearchPage>;
+  // Notes whose content has a [[link]] to the title, ordered like note lists;
+  // trashed notes are left out
+  getBacklinks(userId: string, title: string): Promise<Note[]>;
+  getNoteById(id: string): Promise<Note | null>;
+  // journalDate makes the note the user's journal note for that day
+  createNote(note: NewNote): Promise<Note>;
+  // Throws NoteVersionConflictError if expectedVersion is given and the note
+  // is at another version
+  updateNote(id: string, note: Partial<UpdateNote>, expectedVersion?: number): Promise<Note | null>;
+  // Change one label without rewriting the note, so concurrent changes never
+  // undo each other; adding a present label or removing a missing one is a no-op
+  addLabelToNote(noteId: string, labelId: string): Promise<Note | null>;
+  removeLabelFromNote(noteId: string, labelId: string): Promise<Note | null>;
+  // Makes one change to many notes, skipping missing notes and the ones it
+  // would not alter; returns the notes it changed
+  updateNotes(ids: string[], change: NoteBatchChange): Promise<Note[]>;
+  // Permanently removes the note and its revisions
+  deleteNote(id: string): Promise<boolean>;
+
+  // Daily journal operations; days are yyyy-MM-dd
+  // The user's journal note for the day, even if it is in the trash
+  getDailyNote(userId: string, date: string): Promise<Note | null>;
+  // Journal notes from `from` to `to` (both included), by day; trashed
+  // notes are left out
+  getDailyNotes(userId: string, from: string, to: string): Promise<Note[]>;
+
+  // Trash operations
+  getTrashedNotesByUserId(userId: string): Promise<Note[]>; // most recently trashed first
+  trashNote(id: string): Promise<Note | null>;
+  restoreNote(id: string): Promise<Note | null>;
+  // Permanently deletes notes trashed before the cutoff; returns how many
+  purgeTrashedNotes(trashedBefore: Date, userId?: string): Promise<number>;
+
+  // Revision operations (newest first)
+  getNoteRevisions(noteId: string): Promise<NoteRevision[]>;
+  getNoteRevision(noteId: string, revision: number): Promise<NoteRevision | null>;
+
+  // Label operations
+  getLabelsByUserId(userId: string): Promise<Label[]>;
+  getLabelById(id: string): Promise<Label | null>;
+  createLabel(label: InsertLabel & { userId: string }): Promise<Label>;
+  updateLabel(id: string, label: UpdateLabel): Promise<Label | null>;
+  deleteLabel(id: string): Promise<boolean>;
+
+  // Notebook operations
+  getNotebooksByUserId(userId: string): Promise<Notebook[]>;
+  getNotebookById(id: string): Promise<Notebook | null>;
+  createNotebook(notebook: InsertNotebook & { userId: string }): Promise<Notebook>;
+  updateNotebook(id: string, notebook: UpdateNotebook): Promise<Notebook | null>;
+  deleteNotebook(id: string): Promise<boolean>;
+
+  // Template operations
+  getTemplatesByUserId(userId: string): Promise<Template[]>;
+  getTemplateById(id: string): Promise<Template | null>;
+  createTemplate(template: InsertTemplate & { userId: string }): Promise<Template>;
+  updateTemplate(id: string, template: UpdateTemplate): Promise<Template | null>;
+  deleteTemplate(id: string): Promise<boolean>;
+
+  // Reminder operations
+  // Notes of every user, trashed ones excepted, whose reminder is due at `now`
+  getDueReminders(now: Date): Promise<Note[]>;
+  // Moves the note's reminder on, unless its remindAt is no longer `remindAt`
+  // or (with change.sentAt) it was already sent; returns whether it moved, so
+  // only one caller sends it
+  advanceReminder(noteId: string, remindAt: Date, change: ReminderChange): Promise<boolean>;
+
+  // Notification operations (newest first)
+  getNotificationsByUserId(userId: string, limit?: number): Promise<Notification[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  // Marks the user's notifications with these IDs (all of them when omitted)
+  // as read; returns how many were unread
+  markNotificationsRead(userId: string, ids?: string[]): Promise<number>;
+
+  // Attachment operations (oldest first); the files are kept in a BlobStore
+  getAttachmentsByNoteId(noteId: string): Promise<Attachment[]>;
+  getAttachmentById(id: string): Promise<Attachment | null>;
+  // Total size in bytes of a user's attachments, trashed notes included
+  getAttachmentUsage(userId: string): Promise<number>;
+  createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  deleteAttachment(id: string): Promise<boolean>;
+
+  // Bulk access for copying data between backends (see server/migrate.ts).
+  // Imports store records exactly as given (password hashes, timestamps) and
+  // only assign a new ID.
+  getAllUsers(): Promise<User[]>;
+  importUser(user: Omit<User, "id">): Promise<User>;
+  importLabel(label: Omit<Label, "id">): Promise<Label>;
+  importNotebook(notebook: Omit<Notebook, "id">): Promise<Notebook>;
+  importNote(note: Omit<Note, "id">): Promise<Note>;
+  // Replaces an imported note's content, keeping its version and timestamps,
+  // for content that refers to the note's own attachments
+  importNoteContent(id: string, content: string): Promise<Note | null>;
+  importTemplate(template: Omit<Template, "id">): Promise<Template>;
+  importAttachment(attachment: Omit<Attachment, "id">): Promise<Attachment>;
+  importNotification(notification: Omit<Notification, "id">): Promise<Notification>;
+}
+
+export type NewNote = InsertNote & { userId: string; journalDate?: string | null };
+
+// A change updateNotes makes to every note it is given. Trashing keeps the
+// trash date of notes already in the trash and, like trashNote, leaves
+// updatedAt alone
+export type NoteBatchChange =
+  | { type: "archived"; value: boolean }
+  | { type: "pinned"; value: boolean }
+  | { type: "backgroundColor"; value: string }
+  | { type: "trash" }
+  | { type: "addLabel"; labelId: string }
+  | { type: "removeLabel"; labelId: string };
+
+export interface ReminderChange {
+  sentAt?: Date; // records the reminder as sent at this time
+  next?: Date | null; // the new remindAt; null clears it, undefined keeps it
+}
+
+// Whether the note's reminder is due at `now` and has not been sent yet
+export function isReminderDue(note: Note, now: Date): boolean {
+  if (!note.remindAt || note.deletedAt) return false;
+  const remindAt = new Date(note.remindAt).getTime();
+  return remindAt <= now.getTime() &&
+    (!note.reminderSentAt || new Date(note.reminderSentAt).getTime() < remindAt);
+}
+
+// The note changed since the caller read it; carries the stored copy
+export class NoteVersionConflictError extends Error {
+  constructor(public readonly current: Note) {
+    super(`Note ${current.id} is at version ${current.version}`);
+    this.name = "NoteVersionConflictError";
+  }
+}
+
+// Filters for a page of a user's (non-trashed) notes
+export interface NoteQuery {
+  archived?: boolean;
+  // Notes must carry at least one label of every group, e.g. [[a], [b, c]]
+  // means a and (b or c)
+  labelGroups?: string[][];
+  pinned?: boolean;
+  notebookId?: string | null; // null for notes outside any notebook
+  text?: string; // case-insensitive substring of the title or content
+  sort?: NoteSort; // default "updated"
+  cursor?: string | null; // nextCursor of the previous page
+  limit?: number; // no limit when omitted
+}
+
+// The filters of a NoteQuery, which searches take too
+export type NoteFilters = Pick<NoteQuery, "archived" | "labelGroups" | "pinned" | "notebookId">;
+
+// Whether the note passes the filters; callers check its owner and the trash
+export function matchesNoteFilters(note: Note, filters: NoteFilters): boolean {
+  return (filters.archived === undefined || note.archived === filters.archived) &&
+    (filters.pinned === undefined || note.pinned === filters.pinned) &&
+    (filters.notebookId === undefined || (note.notebookId ?? null) === filters.notebookId) &&
+    (filters.labelGroups ?? []).every((group) => group.some((labelId) => note.labels?.includes(labelId)));
+}
+
+// Filters, order and page size of a search
+export interface SearchQuery extends NoteFilters {
+  sort?: SearchSort; // default "relevance"
+  cursor?: string | null; // nextCursor of the previous page
+  limit: number;
+}
+
+export interface NotePage {
+  notes: Note[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Position of the last note of a page in the ordering of its sort
+export interface NoteCursor {
+  sort: NoteSort;
+  pinned: boolean;
+  key: string | number; // title, or the sort timestamp in milliseconds
+  id: string;
+}
+
+// The value a note is ordered by (after pinned) for a sort
+export function noteSortKey(note: Note, sort: NoteSort): string | number {
+  switch (sort) {
+    case "title":
+      return note.title.toLowerCase();
+    case "created":
+      return note.createdAt ? new Date(note.createdAt).getTime() : 0;
+    case "updated":
+      return note.updatedAt ? new Date(note.updatedAt).getTime() : 0;
+  }
+}
+
+export type NotePosition = Omit<NoteCursor, "sort">;
+
+export function notePosition(note: Note, sort: NoteSort): NotePosition {
+  return { pinned: note.pinned, key: noteSortKey(note, sort), id: note.id };
+}
+
+// Pinned first, then by sort key (dates newest first, titles A-Z), then by ID
+export function compareNotePositions(a: NotePosition, b: NotePosition, sort: NoteSort): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+
+  const direction = sort === "title" ? 1 : -1;
+  if (a.key !== b.key) return (a.key < b.key ? -1 : 1) * direction;
+  return a.id.localeCompare(b.id, undefined, { numeric: true }) * direction;
+}
+
+export function encodeNoteCursor(note: Note, sort: NoteSort): string {
+  const cursor: NoteCursor = { sort, pinned: note.pinned, key: noteSortKey(note, sort), id: note.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Returns null if the cursor is malformed or was issued for another sort
+export function decodeNoteCursor(value: string, sort: NoteSort): NoteCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const keyType = sort === "title" ? "string" : "number";
+    if (
+      cursor?.sort !== sort ||
+      typeof cursor.pinned !== "boolean" ||
+      typeof cursor.key !== keyType ||
+      typeof cursor.id !== "string"
+    ) {
+      return null;
+    }
+    return cursor as NoteCursor;
+  } catch {
+    return null;
+  }
+}
+
+// Shared ordering used by every backend for note lists
+export function compareNotes(a: Note, b: Note): number {
+  // First sort by pinned status (pinned notes first)
+  if (a.pinned && !b.pinned) return -1;
+  if (!a.pinned && b.pinned) return 1;
+
+  // Then sort by update time (newer first)
+  const aTime = a.updatedAt ? new Date(a.updatedAt).getTime() : 0;
+  const bTime = b.updatedAt ? new Date(b.updatedAt).getTime() : 0;
+  return bTime - aTime;
+}
+
+// Most recently trashed first, for trash listings
+export function compareTrashedNotes(a: Note, b: Note): number {
+  const aTime = a.deletedAt ? new Date(a.deletedAt).getTime() : 0;
+  const bTime = b.deletedAt ? new Date(b.deletedAt).getTime() : 0;
+  return bTime - aTime;
+}
+
+// Whether a note's text differs from its latest revision
+export function hasNewRevision(note: Note, latest: NoteRevision | null | undefined): boolean {
+  return !latest ||
+    latest.title !== note.title ||
+    latest.content !== note.content ||
+    (latest.summary ?? null) !== (note.summary ?? null);
+}
+
+// Drop undefined values so a partial update never clears a field by omission
+export function definedFields<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,23 @@
+import type { InsertNote, Template } from "@shared/schema";
+import { fillTemplate, type TemplateContext } from "@shared/templates";
+import type { IStorage } from "./storage/types";
+import { withChecklistFields } from "./checklist";
+
+/**
+ * The note a template makes: its placeholders filled in and its labels, less
+ * any the owner has deleted since. A template without a title names the note
+ * after itself.
+ */
+export async function noteFromTemplate(
+  storage: IStorage,
+  template: Template,
+  context: TemplateContext
+): Promise<InsertNote> {
+  const labelIds = new Set((await storage.getLabelsByUserId(template.userId)).map((label) => label.id));
+  return withChecklistFields({
+    title: fillTemplate(template.title || template.name, context),
+    content: fillTemplate(template.content, context),
+    type: template.type,
+    labels: (template.labels ?? []).filter((id) => labelIds.has(id)),
+  });
+}
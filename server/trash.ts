@@ -0,0 +1,52 @@
+import type { IStorage } from "./storage/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Reads TRASH_RETENTION_DAYS from the environment (default 30)
+ * @throws If the value is not a positive number
+ */
+export function resolveTrashRetentionDays(env: NodeJS.ProcessEnv = process.env): number {
+  if (!env.TRASH_RETENTION_DAYS) return DEFAULT_RETENTION_DAYS;
+
+  const days = Number(env.TRASH_RETENTION_DAYS);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error(`TRASH_RETENTION_DAYS must be a positive number, got "${env.TRASH_RETENTION_DAYS}"`);
+  }
+  return days;
+}
+
+export const trashRetentionDays = resolveTrashRetentionDays();
+
+// When a note trashed at `deletedAt` will be permanently deleted
+export function purgeDate(deletedAt: Date | string): Date {
+  return new Date(new Date(deletedAt).getTime() + trashRetentionDays * DAY_MS);
+}
+
+/**
+ * Permanently deletes notes that have been in the trash longer than the
+ * retention window, once at startup and then every hour
+ * @returns A function that stops the sweep
+ */
+export function startTrashPurge(storage: IStorage): () => void {
+  const sweep = async () => {
+    try {
+      const cutoff = new Date(Date.now() - trashRetentionDays * DAY_MS);
+      const purged = await storage.purgeTrashedNotes(cutoff);
+      if (purged > 0) {
+        console.log(`Purged ${purged} notes from the trash`);
+      }
+    } catch (error) {
+      console.error("Trash purge failed:", error);
+    }
+  };
+
+  sweep();
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  // Never keep the process alive just for the sweep
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,32 @@
+import { MAX_CHECKLIST_INDENT, MAX_CHECKLIST_ITEMS, type ChecklistItem } from "./schema";
+
+/**
+ * The items as plain text, one per line ("[ ] milk", "  [x] eggs"). Kept as
+ * a checklist's content so search, summaries and history work for it.
+ */
+export function checklistText(items: Pick<ChecklistItem, "text" | "checked" | "indent">[]): string {
+  return items
+    .map((item) => `${"  ".repeat(item.indent)}[${item.checked ? "x" : " "}] ${item.text}`)
+    .join("\n");
+}
+
+/**
+ * Items for a text turned into a checklist: one per non-empty line, reading
+ * "- ", "* " and "[x] " markers; indented lines become nested items
+ */
+export function itemsFromText(text: string): ChecklistItem[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .slice(0, MAX_CHECKLIST_ITEMS)
+    .map((line, order) => {
+      const match = /^(\s*)(?:[-*]\s+)?(?:\[([ xX])\]\s*)?(.*)$/.exec(line)!;
+      return {
+        id: crypto.randomUUID(),
+        text: match[3].trim(),
+        checked: match[2] === "x" || match[2] === "X",
+        order,
+        indent: match[1].length > 0 ? MAX_CHECKLIST_INDENT : 0,
+      };
+    });
+}
@@ -0,0 +1,184 @@
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new text (absent for added/removed lines)
+  oldLine?: number;
+  newLine?: number;
+}
+
+/**
+ * Line-level diff of two texts using Myers' O(ND) algorithm
+ * @param before The older text
+ * @param after The newer text
+ * @returns Every line of both texts, in order, tagged as equal, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+
+  // v[k] holds the furthest x reached on diagonal k; one copy is kept per step
+  // so the edit path can be walked back afterwards
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      lines.push({ type: "equal", text: a[x], oldLine: x + 1, newLine: y + 1 });
+    }
+    if (d === 0) break;
+
+    if (x === prevX) {
+      y--;
+      lines.push({ type: "added", text: b[y], newLine: y + 1 });
+    } else {
+      x--;
+      lines.push({ type: "removed", text: a[x], oldLine: x + 1 });
+    }
+  }
+
+  return lines.reverse();
+}
+
+// Lines [start, end) of the base text replaced by `lines` on one side
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function hunksOf(base: string, changed: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let position = 0;
+
+  for (const line of diffLines(base, changed)) {
+    if (line.type === "equal") {
+      if (current) hunks.push(current);
+      current = null;
+      position++;
+      continue;
+    }
+    current ??= { start: position, end: position, lines: [] };
+    if (line.type === "removed") {
+      current.end++;
+      position++;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+// One side's text for base lines [start, end), given its hunks in that range
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: number; // regions both sides changed differently
+}
+
+/**
+ * Three-way line merge of two edits of the same text. Regions changed
+ * differently on both sides (or touching each other) are kept as conflict
+ * markers with "ours" first.
+ * @param base The text both sides started from
+ * @param ours Our edit of the base
+ * @param theirs Their edit of the base
+ * @param labels Names written after the conflict markers
+ */
+export function mergeLines(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string } = { ours: "ours", theirs: "theirs" }
+): MergeResult {
+  const baseLines = base.split("\n");
+  const ourHunks = hunksOf(base, ours);
+  const theirHunks = hunksOf(base, theirs);
+  const lines: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    // Grow a region from the earliest hunk until no hunk on either side touches it
+    const first = j >= theirHunks.length || (i < ourHunks.length && ourHunks[i].start <= theirHunks[j].start)
+      ? ourHunks[i]
+      : theirHunks[j];
+    const start = first.start;
+    let end = first.end;
+    const ourRegion: Hunk[] = [];
+    const theirRegion: Hunk[] = [];
+    for (;;) {
+      if (i < ourHunks.length && ourHunks[i].start <= end) {
+        end = Math.max(end, ourHunks[i].end);
+        ourRegion.push(ourHunks[i++]);
+      } else if (j < theirHunks.length && theirHunks[j].start <= end) {
+        end = Math.max(end, theirHunks[j].end);
+        theirRegion.push(theirHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    lines.push(...baseLines.slice(position, start));
+    const ourLines = applyHunks(baseLines, ourRegion, start, end);
+    const theirLines = applyHunks(baseLines, theirRegion, start, end);
+    if (theirRegion.length === 0 || ourLines.join("\n") === theirLines.join("\n")) {
+      lines.push(...ourLines);
+    } else if (ourRegion.length === 0) {
+      lines.push(...theirLines);
+    } else {
+      conflicts++;
+      lines.push(`<<<<<<< ${labels.ours}`, ...ourLines, "=======", ...theirLines, `>>>>>>> ${labels.theirs}`);
+    }
+    position = end;
+  }
+
+  lines.push(...baseLines.slice(position));
+  return { text: lines.join("\n"), conflicts };
+}
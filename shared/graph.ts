@@ -0,0 +1,27 @@
+import type { Label } from "./schema";
+
+// The note graph returned by GET /api/graph (see server/graph.ts)
+
+export interface GraphNode {
+  id: string; // the note's ID
+  title: string;
+  labelIds: string[]; // labels that still exist, sorted by label name
+  color: string | null; // the color of its first label
+  pinned: boolean;
+  archived: boolean;
+  degree: number; // number of edges touching the node
+}
+
+// "link": the source note has a [[link]] to the target; "label": the two
+// notes share the labels in labelIds
+export type GraphEdge =
+  | { kind: "link"; source: string; target: string }
+  | { kind: "label"; source: string; target: string; labelIds: string[] };
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  labels: Pick<Label, "id" | "name" | "color">[];
+  // How many notes matched, which is more than nodes.length when cut off
+  total: number;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeRecurrence,
+  formatRecurrence,
+  fromLocalDateTime,
+  nextOccurrence,
+  parseRecurrence,
+  RecurrenceError,
+  upcomingOccurrences,
+} from "./recurrence";
+
+// The first `limit` occurrences of a rule, as ISO strings
+function occurrences(text: string, limit: number): string[] {
+  const rule = parseRecurrence(text);
+  const start = fromLocalDateTime(rule.start, rule.timeZone);
+  return upcomingOccurrences(rule, new Date(start.getTime() - 1), limit).map((date) => date.toISOString());
+}
+
+describe("parseRecurrence", () => {
+  it("reads DTSTART and RRULE and writes them back", () => {
+    const text = "DTSTART;TZID=Europe/Berlin:20261019T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;COUNT=10";
+    const rule = parseRecurrence(text);
+    expect(rule).toEqual({
+      start: { year: 2026, month: 10, day: 19, hour: 9, minute: 0, second: 0 },
+      timeZone: "Europe/Berlin",
+      frequency: "WEEKLY",
+      interval: 2,
+      byDay: [{ weekday: "MO" }, { weekday: "FR" }],
+      count: 10,
+    });
+    expect(formatRecurrence(rule)).toBe(text);
+    expect(describeRecurrence(rule)).toBe("Every 2 weeks on Monday and Friday, 10 times");
+  });
+
+  it("reads a UTC start and numbered weekdays", () => {
+    const rule = parseRecurrence("DTSTART:20261019T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=-1FR");
+    expect(rule.timeZone).toBe("UTC");
+    expect(rule.byDay).toEqual([{ weekday: "FR", nth: -1 }]);
+    expect(describeRecurrence(rule)).toBe("Every month on the last Friday");
+  });
+
+  it.each([
+    ["RRULE:FREQ=WEEKLY", "A recurrence needs one DTSTART line and one RRULE line"],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=HOURLY", "FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY"],
+    ["DTSTART:20260230T090000Z\nRRULE:FREQ=DAILY", 'Invalid DTSTART "DTSTART:20260230T090000Z"'],
+    ["DTSTART;TZID=Mars/Olympus:20261019T090000\nRRULE:FREQ=DAILY", 'Unknown time zone "Mars/Olympus"'],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=DAILY;INTERVAL=0", 'Invalid INTERVAL "0"'],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=DAILY;COUNT=2;UNTIL=20261101", "A rule cannot have both COUNT and UNTIL"],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=2MO", "Numbered weekdays such as 2MO only work with MONTHLY or YEARLY rules"],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=WEEKLY;BYMONTHDAY=1", "BYMONTHDAY does not work with WEEKLY rules"],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=YEARLY;BYDAY=1MO", "Numbered weekdays in YEARLY rules need BYMONTH"],
+    ["DTSTART:20261019T090000Z\nRRULE:FREQ=DAILY;BYHOUR=9", "BYHOUR is not supported"],
+  ])("rejects %j", (text, message) => {
+    expect(() => parseRecurrence(text)).toThrow(RecurrenceError);
+    expect(() => parseRecurrence(text)).toThrow(message);
+  });
+});
+
+describe("occurrences", () => {
+  it("steps DAILY rules by INTERVAL", () => {
+    expect(occurrences("DTSTART:20260101T080000Z\nRRULE:FREQ=DAILY;INTERVAL=3", 3)).toEqual([
+      "2026-01-01T08:00:00.000Z",
+      "2026-01-04T08:00:00.000Z",
+      "2026-01-07T08:00:00.000Z",
+    ]);
+  });
+
+  it("picks BYDAY weekdays in every INTERVALth week", () => {
+    expect(occurrences("DTSTART:20261019T090000Z\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO", 4)).toEqual([
+      "2026-10-19T09:00:00.000Z",
+      "2026-10-23T09:00:00.000Z",
+      "2026-11-02T09:00:00.000Z",
+      "2026-11-06T09:00:00.000Z",
+    ]);
+  });
+
+  it("picks numbered weekdays in MONTHLY and YEARLY rules", () => {
+    expect(occurrences("DTSTART:20261019T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=-1FR", 3)).toEqual([
+      "2026-10-30T09:00:00.000Z",
+      "2026-11-27T09:00:00.000Z",
+      "2026-12-25T09:00:00.000Z",
+    ]);
+    expect(occurrences("DTSTART:20260101T090000Z\nRRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU", 3)).toEqual([
+      "2026-03-29T09:00:00.000Z",
+      "2027-03-28T09:00:00.000Z",
+      "2028-03-26T09:00:00.000Z",
+    ]);
+  });
+
+  it("picks BYMONTHDAY days and stops after COUNT", () => {
+    const text = "DTSTART:20260101T120000Z\nRRULE:FREQ=MONTHLY;BYMONTHDAY=15,1;COUNT=3";
+    expect(occurrences(text, 5)).toEqual([
+      "2026-01-01T12:00:00.000Z",
+      "2026-01-15T12:00:00.000Z",
+      "2026-02-01T12:00:00.000Z",
+    ]);
+    expect(nextOccurrence(parseRecurrence(text), new Date("2026-02-01T12:00:00Z"))).toBeNull();
+  });
+
+  it("counts COUNT from DTSTART rather than from the time asked about", () => {
+    const rule = parseRecurrence("DTSTART:20260101T090000Z\nRRULE:FREQ=DAILY;COUNT=5");
+    expect(nextOccurrence(rule, new Date("2026-01-03T09:00:00Z"))?.toISOString()).toBe("2026-01-04T09:00:00.000Z");
+    expect(nextOccurrence(rule, new Date("2026-01-10T00:00:00Z"))).toBeNull();
+  });
+
+  it("stops at UNTIL, taking a date alone as the whole day in the rule's zone", () => {
+    expect(occurrences("DTSTART:20260101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20260103T090000Z", 5)).toEqual([
+      "2026-01-01T09:00:00.000Z",
+      "2026-01-02T09:00:00.000Z",
+      "2026-01-03T09:00:00.000Z",
+    ]);
+    // 23:00 in Berlin is 22:00 UTC, still on January 3rd there
+    expect(occurrences("DTSTART;TZID=Europe/Berlin:20260101T230000\nRRULE:FREQ=DAILY;UNTIL=20260103", 5)).toEqual([
+      "2026-01-01T22:00:00.000Z",
+      "2026-01-02T22:00:00.000Z",
+      "2026-01-03T22:00:00.000Z",
+    ]);
+  });
+
+  it("skips months without the start day and clamps BYMONTHDAY=-1 to the month's end", () => {
+    expect(occurrences("DTSTART:20260131T090000Z\nRRULE:FREQ=MONTHLY", 3)).toEqual([
+      "2026-01-31T09:00:00.000Z",
+      "2026-03-31T09:00:00.000Z",
+      "2026-05-31T09:00:00.000Z",
+    ]);
+    expect(occurrences("DTSTART:20260131T090000Z\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1", 4)).toEqual([
+      "2026-01-31T09:00:00.000Z",
+      "2026-02-28T09:00:00.000Z",
+      "2026-03-31T09:00:00.000Z",
+      "2026-04-30T09:00:00.000Z",
+    ]);
+    expect(occurrences("DTSTART:20280229T090000Z\nRRULE:FREQ=YEARLY", 2)).toEqual([
+      "2028-02-29T09:00:00.000Z",
+      "2032-02-29T09:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the wall-clock time across DST changes in the rule's zone", () => {
+    // Berlin moves from UTC+1 to UTC+2 on March 29th, 2026
+    expect(occurrences("DTSTART;TZID=Europe/Berlin:20260328T090000\nRRULE:FREQ=DAILY", 3)).toEqual([
+      "2026-03-28T08:00:00.000Z",
+      "2026-03-29T07:00:00.000Z",
+      "2026-03-30T07:00:00.000Z",
+    ]);
+    // 02:30 does not exist that day and moves forward by the hour skipped
+    expect(occurrences("DTSTART;TZID=Europe/Berlin:20260328T023000\nRRULE:FREQ=DAILY", 3)).toEqual([
+      "2026-03-28T01:30:00.000Z",
+      "2026-03-29T01:30:00.000Z",
+      "2026-03-30T00:30:00.000Z",
+    ]);
+    // 02:30 happens twice on October 25th; the first one counts
+    expect(occurrences("DTSTART;TZID=Europe/Berlin:20261024T023000\nRRULE:FREQ=DAILY", 3)).toEqual([
+      "2026-10-24T00:30:00.000Z",
+      "2026-10-25T00:30:00.000Z",
+      "2026-10-26T01:30:00.000Z",
+    ]);
+  });
+});
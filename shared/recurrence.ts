@@ -0,0 +1,482 @@
+/**
+ * Repeating reminders, written as an RFC 5545 DTSTART line followed by an
+ * RRULE line:
+ *
+ *   DTSTART;TZID=Europe/Berlin:20261019T090000
+ *   RRULE:FREQ=WEEKLY;BYDAY=MO,FR;COUNT=10
+ *
+ * Occurrences keep the wall-clock time of DTSTART in its time zone, so a 9:00
+ * reminder stays at 9:00 across DST changes. Supported rule parts are FREQ
+ * (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (numbered,
+ * e.g. 2TU or -1FR, with MONTHLY and YEARLY), BYMONTHDAY, BYMONTH and WKST
+ * (read, but weeks always start on Monday).
+ */
+
+export const recurrenceFrequencies = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = typeof recurrenceFrequencies[number];
+
+// In ISO order, Monday first
+export const weekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = typeof weekdays[number];
+
+export const MAX_RECURRENCE_COUNT = 1000;
+export const MAX_RECURRENCE_INTERVAL = 1000;
+
+// A wall-clock date and time, without a time zone; months run from 1
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// A BYDAY entry; `nth` picks one such weekday of the month, from the end when negative
+export interface WeekdayRule {
+  weekday: Weekday;
+  nth?: number;
+}
+
+export interface Recurrence {
+  start: LocalDateTime; // the first occurrence (DTSTART), in timeZone
+  timeZone: string; // IANA name such as "Europe/Berlin", or "UTC"
+  frequency: RecurrenceFrequency;
+  interval: number; // every `interval` days, weeks, months or years
+  count?: number; // end after this many occurrences
+  until?: Date; // no occurrences after this instant
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+}
+
+// A recurrence that cannot be read or is not supported
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops rules that never match anything, such as February 30th
+const MAX_PERIODS = 100000;
+
+// ===== Time zones =====
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The wall-clock time in the zone at an instant
+export function toLocalDateTime(instant: Date, timeZone: string): LocalDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// A wall-clock time as if it were UTC, for comparing and calendar arithmetic
+function localMs(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+// How far the zone is ahead of UTC at an instant, in milliseconds
+function offsetAt(ms: number, timeZone: string): number {
+  const seconds = Math.floor(ms / 1000) * 1000;
+  return localMs(toLocalDateTime(new Date(seconds), timeZone)) - seconds;
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. As RFC 5545 asks, a time
+ * skipped by a DST change moves forward by the length of the gap, and a time
+ * that happens twice takes the first one.
+ */
+export function fromLocalDateTime(local: LocalDateTime, timeZone: string): Date {
+  const ms = localMs(local);
+  const before = offsetAt(ms - DAY_MS, timeZone);
+  const after = offsetAt(ms + DAY_MS, timeZone);
+  const valid = [before, after]
+    .map((offset) => ms - offset)
+    .filter((utc) => offsetAt(utc, timeZone) === ms - utc);
+  return new Date(valid.length > 0 ? Math.min(...valid) : ms - before);
+}
+
+// ===== Calendar arithmetic on local dates =====
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+function dateFromMs(ms: number): LocalDate {
+  const date = new Date(ms);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  return dateFromMs(Date.UTC(date.year, date.month - 1, date.day) + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// 0 for Monday to 6 for Sunday
+function weekdayIndex(date: LocalDate): number {
+  return (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7;
+}
+
+// Days of the month the rule picks, in order
+function monthDays(rule: Recurrence, year: number, month: number): number[] {
+  const length = daysInMonth(year, month);
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map((day) => (day < 0 ? length + 1 + day : day));
+  }
+  if (rule.byDay) {
+    const firstWeekday = weekdayIndex({ year, month, day: 1 });
+    const picked: number[] = [];
+    for (const { weekday, nth } of rule.byDay) {
+      const first = ((weekdays.indexOf(weekday) - firstWeekday + 7) % 7) + 1;
+      const all: number[] = [];
+      for (let day = first; day <= length; day += 7) all.push(day);
+      if (nth === undefined) {
+        picked.push(...all);
+      } else {
+        const day = all[nth > 0 ? nth - 1 : all.length + nth];
+        if (day !== undefined) picked.push(day);
+      }
+    }
+    days = days ? days.filter((day) => picked.includes(day)) : picked;
+  }
+
+  return Array.from(new Set(days ?? [rule.start.day]))
+    .filter((day) => day >= 1 && day <= length)
+    .sort((a, b) => a - b);
+}
+
+// Whether a date passes the BY* filters of a DAILY rule
+function matchesDaily(rule: Recurrence, date: LocalDate): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(date.month)) return false;
+  if (rule.byDay && !rule.byDay.some((entry) => weekdays.indexOf(entry.weekday) === weekdayIndex(date))) return false;
+  if (rule.byMonthDay) {
+    const length = daysInMonth(date.year, date.month);
+    if (!rule.byMonthDay.some((day) => (day < 0 ? length + 1 + day : day) === date.day)) return false;
+  }
+  return true;
+}
+
+// The dates the rule picks in its `index`th period (day, week, month or year)
+function periodDates(rule: Recurrence, index: number): LocalDate[] {
+  const start: LocalDate = rule.start;
+  const step = index * rule.interval;
+  const inMonths = (dates: LocalDate[]) =>
+    rule.byMonth ? dates.filter((date) => rule.byMonth!.includes(date.month)) : dates;
+
+  switch (rule.frequency) {
+    case "DAILY": {
+      const date = addDays(start, step);
+      return matchesDaily(rule, date) ? [date] : [];
+    }
+    case "WEEKLY": {
+      const monday = addDays(start, step * 7 - weekdayIndex(start));
+      const days = rule.byDay
+        ? Array.from(new Set(rule.byDay.map((entry) => weekdays.indexOf(entry.weekday)))).sort((a, b) => a - b)
+        : [weekdayIndex(start)];
+      return inMonths(days.map((day) => addDays(monday, day)));
+    }
+    case "MONTHLY": {
+      const months = start.year * 12 + (start.month - 1) + step;
+      const year = Math.floor(months / 12);
+      const month = (months % 12) + 1;
+      return inMonths(monthDays(rule, year, month).map((day) => ({ year, month, day })));
+    }
+    case "YEARLY": {
+      const year = start.year + step;
+      const months = rule.byMonth ? Array.from(rule.byMonth).sort((a, b) => a - b) : [start.month];
+      return months.flatMap((month) => monthDays(rule, year, month).map((day) => ({ year, month, day })));
+    }
+  }
+}
+
+// ===== Occurrences =====
+
+/**
+ * Calls `visit` with each occurrence in order, until it returns false or the
+ * rule ends. Occurrences that end before `skipBefore` are passed over without
+ * working out their instant, unless COUNT needs them counted.
+ */
+function eachOccurrence(rule: Recurrence, visit: (occurrence: Date) => boolean, skipBefore?: Date): void {
+  const startMs = localMs(rule.start);
+  const { hour, minute, second } = rule.start;
+  let seen = 0;
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    for (const date of periodDates(rule, index)) {
+      const local = { ...date, hour, minute, second };
+      if (localMs(local) < startMs) continue;
+      if (rule.count !== undefined && seen >= rule.count) return;
+      seen++;
+      // Time zones are never more than a day off wall-clock time
+      if (rule.count === undefined && skipBefore && localMs(local) < skipBefore.getTime() - 2 * DAY_MS) continue;
+
+      const occurrence = fromLocalDateTime(local, rule.timeZone);
+      if (rule.until && occurrence.getTime() > rule.until.getTime()) return;
+      if (!visit(occurrence)) return;
+    }
+  }
+}
+
+// The first occurrence after `after`, or null once the rule has ended
+export function nextOccurrence(rule: Recurrence, after: Date): Date | null {
+  let next: Date | null = null;
+  eachOccurrence(rule, (occurrence) => {
+    if (occurrence.getTime() <= after.getTime()) return true;
+    next = occurrence;
+    return false;
+  }, after);
+  return next;
+}
+
+// Up to `limit` occurrences after `after`, e.g. for previews
+export function upcomingOccurrences(rule: Recurrence, after: Date, limit: number): Date[] {
+  const upcoming: Date[] = [];
+  eachOccurrence(rule, (occurrence) => {
+    if (occurrence.getTime() > after.getTime()) upcoming.push(occurrence);
+    return upcoming.length < limit;
+  }, after);
+  return upcoming;
+}
+
+// ===== Reading and writing rules =====
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function formatLocal(local: LocalDateTime): string {
+  return `${pad(local.year, 4)}${pad(local.month)}${pad(local.day)}T${pad(local.hour)}${pad(local.minute)}${pad(local.second)}`;
+}
+
+// "20261019T090000" or "20261019"; date-only values are read as midnight
+function parseLocal(value: string): LocalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?$/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month) || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return { year, month, day, hour, minute, second };
+}
+
+function parseNumberList(name: string, value: string, valid: (n: number) => boolean): number[] {
+  const numbers = value.split(",").map((part) => Number(part));
+  if (numbers.some((n) => !Number.isInteger(n) || !valid(n))) {
+    throw new RecurrenceError(`Invalid ${name} "${value}"`);
+  }
+  return numbers;
+}
+
+function parseRule(text: string, timeZone: string): Omit<Recurrence, "start" | "timeZone"> {
+  const parts = new Map<string, string>();
+  for (const part of text.split(";")) {
+    const [name, value] = part.split("=");
+    if (!name || value === undefined) {
+      throw new RecurrenceError(`Invalid rule part "${part}"`);
+    }
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const frequency = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!frequency || !recurrenceFrequencies.includes(frequency)) {
+    throw new RecurrenceError("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+  }
+  const rule: Omit<Recurrence, "start" | "timeZone"> = { frequency, interval: 1 };
+
+  for (const [name, value] of Array.from(parts.entries())) {
+    switch (name) {
+      case "FREQ":
+      case "WKST":
+        break;
+      case "INTERVAL":
+        rule.interval = parseNumberList(name, value, (n) => n >= 1 && n <= MAX_RECURRENCE_INTERVAL)[0];
+        break;
+      case "COUNT":
+        rule.count = parseNumberList(name, value, (n) => n >= 1 && n <= MAX_RECURRENCE_COUNT)[0];
+        break;
+      case "UNTIL": {
+        const local = parseLocal(value.replace(/Z$/, ""));
+        if (!local) throw new RecurrenceError(`Invalid UNTIL "${value}"`);
+        if (value.endsWith("Z")) {
+          rule.until = new Date(localMs(local));
+        } else if (value.includes("T")) {
+          rule.until = fromLocalDateTime(local, timeZone);
+        } else {
+          // A date alone includes the whole day
+          rule.until = new Date(fromLocalDateTime(local, timeZone).getTime() + DAY_MS - 1000);
+        }
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = value.split(",").map((entry) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry);
+          const nth = match?.[1] ? Number(match[1]) : undefined;
+          if (!match || nth === 0 || (nth !== undefined && Math.abs(nth) > 5)) {
+            throw new RecurrenceError(`Invalid BYDAY "${entry}"`);
+          }
+          if (nth !== undefined && frequency !== "MONTHLY" && frequency !== "YEARLY") {
+            throw new RecurrenceError("Numbered weekdays such as 2MO only work with MONTHLY or YEARLY rules");
+          }
+          return nth === undefined ? { weekday: match[2] as Weekday } : { weekday: match[2] as Weekday, nth };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseNumberList(name, value, (n) => n !== 0 && Math.abs(n) <= 31);
+        if (frequency === "WEEKLY") {
+          throw new RecurrenceError("BYMONTHDAY does not work with WEEKLY rules");
+        }
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseNumberList(name, value, (n) => n >= 1 && n <= 12);
+        break;
+      default:
+        throw new RecurrenceError(`${name} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RecurrenceError("A rule cannot have both COUNT and UNTIL");
+  }
+  if (frequency === "YEARLY" && rule.byDay?.some((entry) => entry.nth !== undefined) && !rule.byMonth) {
+    throw new RecurrenceError("Numbered weekdays in YEARLY rules need BYMONTH");
+  }
+  return rule;
+}
+
+/**
+ * Reads a DTSTART line (local time with TZID, or UTC ending in Z) and an
+ * RRULE line
+ * @throws RecurrenceError if the text is not a supported recurrence
+ */
+export function parseRecurrence(text: string): Recurrence {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const dtstart = lines.find((line) => /^DTSTART[;:]/i.test(line));
+  const rrule = lines.find((line) => /^RRULE:/i.test(line));
+  if (!dtstart || !rrule || lines.length !== 2) {
+    throw new RecurrenceError("A recurrence needs one DTSTART line and one RRULE line");
+  }
+
+  const match = /^DTSTART(?:;TZID=([^:]+))?:(\d{8}T\d{6})(Z?)$/i.exec(dtstart);
+  const start = match ? parseLocal(match[2]) : null;
+  if (!match || !start) {
+    throw new RecurrenceError(`Invalid DTSTART "${dtstart}"`);
+  }
+  if (match[1] && match[3]) {
+    throw new RecurrenceError("DTSTART cannot have both a TZID and a UTC time");
+  }
+  const timeZone = match[1] ?? "UTC";
+  if (!isValidTimeZone(timeZone)) {
+    throw new RecurrenceError(`Unknown time zone "${timeZone}"`);
+  }
+
+  return { start, timeZone, ...parseRule(rrule.slice("RRULE:".length), timeZone) };
+}
+
+// The DTSTART and RRULE lines for a recurrence; the inverse of parseRecurrence
+export function formatRecurrence(rule: Recurrence): string {
+  const dtstart = rule.timeZone === "UTC"
+    ? `DTSTART:${formatLocal(rule.start)}Z`
+    : `DTSTART;TZID=${rule.timeZone}:${formatLocal(rule.start)}`;
+
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay) parts.push(`BYDAY=${rule.byDay.map((entry) => `${entry.nth ?? ""}${entry.weekday}`).join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatLocal(toLocalDateTime(rule.until, "UTC"))}Z`);
+  return `${dtstart}\nRRULE:${parts.join(";")}`;
+}
+
+// ===== Descriptions =====
+
+const weekdayNames: Record<Weekday, string> = {
+  MO: "Monday", TU: "Tuesday", WE: "Wednesday", TH: "Thursday", FR: "Friday", SA: "Saturday", SU: "Sunday",
+};
+const monthNames = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const units: Record<RecurrenceFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+
+function ordinal(n: number): string {
+  if (n === -1) return "last";
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/**
+ * A short English description, e.g. "Every 2 weeks on Monday and Friday, 10 times"
+ * or "Every month on the last Friday"
+ */
+export function describeRecurrence(rule: Recurrence): string {
+  const unit = units[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  const list = (items: string[]) =>
+    items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+
+  if (rule.byMonth) {
+    text += ` in ${list(rule.byMonth.map((month) => monthNames[month - 1]))}`;
+  }
+  if (rule.byDay) {
+    text += ` on ${rule.byDay.some((entry) => entry.nth !== undefined) ? "the " : ""}${list(
+      rule.byDay.map((entry) => (entry.nth === undefined ? "" : `${ordinal(entry.nth)} `) + weekdayNames[entry.weekday])
+    )}`;
+  }
+  if (rule.byMonthDay) {
+    text += ` on the ${list(rule.byMonthDay.map((day) => (day === -1 ? "last day" : ordinal(day))))}`;
+  }
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    const until = toLocalDateTime(rule.until, rule.timeZone);
+    text += `, until ${monthNames[until.month - 1]} ${until.day}, ${until.year}`;
+  }
+  return text;
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone, parseRecurrence } from "./recurrence";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,24 +16,171 @@ export const labels = pgTable("labels", {
   userId: integer("user_id").notNull(),
   name: text("name").notNull(),
   color: text("color").notNull().default("#3b82f6"), // Default blue color
+  parentId: integer("parent_id"), // Null for top-level labels
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A note belongs to at most one notebook
+export const notebooks = pgTable("notebooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  defaultBackgroundColor: text("default_background_color").notNull().default("#ffffff"), // For new notes
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Plain notes hold free text; checklist notes hold a list of to-do items
+export const noteTypes = ["text", "checklist"] as const;
+export type NoteType = typeof noteTypes[number];
+
+// Checklist items can be nested one level, like in Google Keep
+export const MAX_CHECKLIST_INDENT = 1;
+export const MAX_CHECKLIST_ITEMS = 500;
+
+export const checklistItemSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().max(1000),
+  checked: z.boolean(),
+  order: z.number().int().min(0), // Position in the list, from 0
+  indent: z.number().int().min(0).max(MAX_CHECKLIST_INDENT),
+});
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
-  content: text("content").notNull(),
+  content: text("content").notNull(), // For checklists, the items as text (see shared/checklist.ts)
   summary: text("summary"),
+  type: text("type").$type<NoteType>().default("text").notNull(),
+  items: jsonb("items").$type<ChecklistItem[]>(), // Checklist items in order; null for text notes
   pinned: boolean("pinned").default(false).notNull(),
   labels: text("labels").array(), // Store label IDs as array
+  notebookId: integer("notebook_id"), // Null for notes outside any notebook
   archived: boolean("archived").default(false).notNull(),
   backgroundColor: text("background_color").default("#ffffff"), // Default white background
   fontSize: text("font_size").default("normal"), // Default font size
   textFormatting: text("text_formatting").default("{}"), // Store text formatting as JSON string
+  remindAt: timestamp("remind_at"), // When to notify the owner (the next occurrence if it repeats); null for no reminder
+  recurrence: text("recurrence"), // DTSTART and RRULE lines repeating the reminder (see shared/recurrence.ts); null for a one-off
+  reminderSentAt: timestamp("reminder_sent_at"), // When the last reminder was delivered (see server/reminders.ts)
+  dueAt: timestamp("due_at"), // Deadline shown with the note; overdue once passed
+  journalDate: text("journal_date"), // The day (yyyy-MM-dd) of a daily journal note (see server/daily.ts); null for other notes
+  deletedAt: timestamp("deleted_at"), // Set while the note is in the trash
+  version: integer("version").default(1).notNull(), // Incremented on every write
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // Every note list is scoped to one user
+  index("notes_user_id_idx").on(table.userId),
+  // Used by the reminder scheduler to find due reminders
+  index("notes_remind_at_idx").on(table.remindAt),
+  // One journal note per user per day
+  uniqueIndex("notes_user_id_journal_date_idx").on(table.userId, table.journalDate),
+]);
+
+// Snapshot of a note's text after each change, numbered per note from 1
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  revision: integer("revision").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  summary: text("summary"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("note_revisions_note_id_revision_unique").on(table.noteId, table.revision),
+]);
+
+// A file attached to a note; its bytes are kept in the blob store
+// (see server/blobs) under blobKey
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(), // Sniffed from the bytes, not taken from the upload
+  size: integer("size").notNull(), // In bytes
+  blobKey: text("blob_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("attachments_note_id_idx").on(table.noteId),
+  index("attachments_user_id_idx").on(table.userId),
+]);
+
+export const notificationTypes = ["reminder"] as const;
+export type NotificationType = typeof notificationTypes[number];
+
+// An in-app message for a user about one of their notes, e.g. a reminder
+// that came due; clients poll for them
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  noteId: integer("note_id").notNull(),
+  type: text("type").$type<NotificationType>().notNull(),
+  title: text("title").notNull(), // The note's title when the notification was sent
+  readAt: timestamp("read_at"), // Null until the user has seen it
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_user_id_idx").on(table.userId),
+  index("notifications_note_id_idx").on(table.noteId),
+]);
+
+// A reusable skeleton for new notes; title and content may hold
+// {{placeholders}} filled in when a note is created from it (see
+// shared/templates.ts)
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  title: text("title").notNull().default(""),
+  content: text("content").notNull().default(""), // For checklists, one item per line
+  type: text("type").$type<NoteType>().default("text").notNull(),
+  labels: text("labels").array(), // Label IDs given to notes created from it
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("templates_user_id_idx").on(table.userId),
+]);
+
+// Inverted index for full-text search, maintained with the notes
+// (see server/storage/search.ts); one row per term per note field
+export const searchTerms = pgTable("search_terms", {
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  field: text("field").notNull(), // title, summary or content
+  term: text("term").notNull(),
+  positions: integer("positions").array().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.noteId, table.field, table.term] }),
+  index("search_terms_user_id_term_idx").on(table.userId, table.term),
+]);
+
+// Token counts of each indexed note, used to rank search results
+export const searchDocuments = pgTable("search_documents", {
+  noteId: integer("note_id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  titleLength: integer("title_length").notNull(),
+  summaryLength: integer("summary_length").notNull(),
+  contentLength: integer("content_length").notNull(),
+  // SEARCH_INDEX_VERSION of the tokenizer that wrote the note's rows
+  indexVersion: integer("index_version").notNull().default(1),
+}, (table) => [
+  index("search_documents_user_id_idx").on(table.userId),
+]);
+
+// [[Wiki links]] between notes, maintained with the notes (see
+// server/storage/links.ts); one row per note per normalized title it links to
+export const noteLinks = pgTable("note_links", {
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  target: text("target").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.noteId, table.target] }),
+  index("note_links_user_id_target_idx").on(table.userId, table.target),
+]);
 
 // User schemas
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -47,16 +195,101 @@ export const loginUserSchema = z.object({
 });
 
 // Label schemas
+// Separates label names in a path such as "work/clients/acme"
+export const LABEL_PATH_SEPARATOR = "/";
+
+const labelName = z.string().trim().min(1, { message: "Label name is required" });
+
+// A name containing "/" creates the missing labels along that path
 export const insertLabelSchema = createInsertSchema(labels).pick({
   name: true,
   color: true,
+}).extend({
+  name: labelName.refine(
+    (name) => name.split(LABEL_PATH_SEPARATOR).every((part) => part.trim() !== ""),
+    { message: "Label paths cannot have empty parts" }
+  ),
+  parentId: z.string().min(1).nullable().optional(),
 });
 
+// parentId moves the label; null makes it top-level
 export const updateLabelSchema = createInsertSchema(labels).pick({
   name: true,
   color: true,
+}).extend({
+  name: labelName.refine(
+    (name) => !name.includes(LABEL_PATH_SEPARATOR),
+    { message: `Label names cannot contain "${LABEL_PATH_SEPARATOR}"; set parentId to move a label` }
+  ),
+  parentId: z.string().min(1).nullable().optional(),
+});
+
+
+// Notebook schemas
+export const insertNotebookSchema = createInsertSchema(notebooks).pick({
+  name: true,
+  defaultBackgroundColor: true,
+}).extend({
+  name: z.string().trim().min(1, { message: "Notebook name is required" }),
 });
 
+export const updateNotebookSchema = insertNotebookSchema.partial();
+
+// A notebook ID, or null for no notebook
+const notebookIdField = z.string().min(1).nullable().optional();
+
+// Body of PATCH /api/notes/:id/notebook
+export const moveNoteSchema = z.object({
+  notebookId: z.string().min(1).nullable(),
+});
+
+// A checklist item as sent by clients; new items have no ID yet and items
+// are numbered in the order given
+export const checklistItemInputSchema = checklistItemSchema.pick({ text: true }).extend({
+  id: z.string().min(1).optional(),
+  checked: z.boolean().default(false),
+  indent: z.number().int().min(0).max(MAX_CHECKLIST_INDENT).default(0),
+});
+
+const checklistItemsField = z
+  .array(checklistItemInputSchema)
+  .max(MAX_CHECKLIST_ITEMS)
+  .transform((items): ChecklistItem[] =>
+    items.map((item, order) => ({ ...item, id: item.id ?? crypto.randomUUID(), order }))
+  )
+  .nullable()
+  .optional();
+
+// Body of POST /api/notes/:id/items; the item goes after `after`, or last
+export const insertChecklistItemSchema = checklistItemInputSchema.omit({ id: true }).extend({
+  after: z.string().min(1).optional(),
+});
+
+// Body of PATCH /api/notes/:id/items/:itemId
+export const updateChecklistItemSchema = checklistItemInputSchema.omit({ id: true }).partial();
+
+// Body of PUT /api/notes/:id/items/order: every item ID, in the new order
+export const reorderChecklistSchema = z.object({
+  itemIds: z.array(z.string().min(1)).max(MAX_CHECKLIST_ITEMS),
+});
+
+// A reminder or due date; JSON sends dates as ISO strings, null clears them
+const noteDateField = z.coerce.date().nullable().optional();
+
+// A repeat rule for the reminder; null makes it a one-off
+const recurrenceField = z
+  .string()
+  .max(1000)
+  .superRefine((value, ctx) => {
+    try {
+      parseRecurrence(value);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  })
+  .nullable()
+  .optional();
+
 // Note schemas
 export const insertNoteSchema = createInsertSchema(notes).pick({
   title: true,
@@ -68,6 +301,13 @@ export const insertNoteSchema = createInsertSchema(notes).pick({
   backgroundColor: true,
   fontSize: true,
   textFormatting: true,
+}).extend({
+  notebookId: notebookIdField,
+  type: z.enum(noteTypes).optional(),
+  items: checklistItemsField,
+  remindAt: noteDateField,
+  recurrence: recurrenceField,
+  dueAt: noteDateField,
 });
 
 export const updateNoteSchema = createInsertSchema(notes).pick({
@@ -80,17 +320,209 @@ export const updateNoteSchema = createInsertSchema(notes).pick({
   backgroundColor: true,
   fontSize: true,
   textFormatting: true,
+}).extend({
+  notebookId: notebookIdField,
+  type: z.enum(noteTypes).optional(),
+  items: checklistItemsField,
+  remindAt: noteDateField,
+  recurrence: recurrenceField,
+  dueAt: noteDateField,
+});
+
+// Notes one POST /api/notes/bulk request can change
+export const MAX_BULK_NOTES = 500;
+
+const bulkNoteIdsField = z
+  .array(z.string().min(1))
+  .min(1, { message: "No notes given" })
+  .max(MAX_BULK_NOTES, { message: `At most ${MAX_BULK_NOTES} notes at a time` })
+  .transform((ids) => Array.from(new Set(ids)));
+
+// Body of POST /api/notes/bulk: the notes and the one operation applied to
+// all of them; "delete" moves them to the trash like DELETE /api/notes/:id
+export const bulkNoteSchema = z.discriminatedUnion("operation", [
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("archive") }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("unarchive") }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("pin") }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("unpin") }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("delete") }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("addLabel"), labelId: z.string().min(1) }),
+  z.object({ ids: bulkNoteIdsField, operation: z.literal("removeLabel"), labelId: z.string().min(1) }),
+  z.object({
+    ids: bulkNoteIdsField,
+    operation: z.literal("setColor"),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: "Color must look like #ffffff" }),
+  }),
+]);
+
+// Template schemas
+export const insertTemplateSchema = createInsertSchema(templates).pick({
+  title: true,
+  content: true,
+  labels: true,
+}).extend({
+  name: z.string().trim().min(1, { message: "Template name is required" }).max(100),
+  title: z.string().max(500).optional(),
+  type: z.enum(noteTypes).optional(),
+});
+
+export const updateTemplateSchema = insertTemplateSchema.partial();
+
+// Body of POST /api/templates/:id/notes: answers to the template's prompts,
+// keyed by question, and the time zone {{date}} and {{time}} are given in
+export const templateNoteSchema = z.object({
+  values: z.record(z.string().max(10000)).default({}),
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).optional(),
+  notebookId: notebookIdField,
+});
+
+// Body of POST /api/notifications/read; no IDs marks every notification read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().min(1)).optional(),
+});
+
+// Note list orders; pinned notes always come first
+export const noteSortOrders = ["updated", "created", "title"] as const;
+export type NoteSort = typeof noteSortOrders[number];
+
+const queryBoolean = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// Query string of GET /api/notes
+export const noteListQuerySchema = z.object({
+  archived: queryBoolean.default("false"),
+  pinned: queryBoolean.optional(),
+  // Comma-separated; notes must carry every label
+  labelIds: z.string().optional().transform((value) =>
+    value ? value.split(",").map((id) => id.trim()).filter(Boolean) : undefined
+  ),
+  // Kept for older clients; same as labelIds with one label
+  labelId: z.string().optional(),
+  // Also match notes carrying a descendant of a requested label
+  includeDescendants: queryBoolean.default("false"),
+  // A notebook ID, or "none" for notes outside any notebook
+  notebookId: z.string().min(1).optional(),
+  q: z.string().trim().optional(),
+  sort: z.enum(noteSortOrders).default("updated"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Search result orders; "relevance" puts the best matches first
+export const searchSortOrders = ["relevance", ...noteSortOrders] as const;
+export type SearchSort = typeof searchSortOrders[number];
+
+// Query string of GET /api/search; the filters work like those of GET /api/notes
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, { message: "Search query is required" }).max(200),
+  // Archived and active notes both match when omitted
+  archived: queryBoolean.optional(),
+  labelIds: z.string().optional().transform((value) =>
+    value ? value.split(",").map((id) => id.trim()).filter(Boolean) : undefined
+  ),
+  includeDescendants: queryBoolean.default("false"),
+  notebookId: z.string().min(1).optional(),
+  sort: z.enum(searchSortOrders).default("relevance"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Query string of GET /api/graph
+export const graphQuerySchema = z.object({
+  // Include archived notes too
+  archived: queryBoolean.default("false"),
+  // A notebook ID, or "none" for notes outside any notebook
+  notebookId: z.string().min(1).optional(),
+  // Most notes shown; pinned and recently updated notes come first
+  limit: z.coerce.number().int().min(1).max(2000).default(500),
+});
+
+// A calendar day, yyyy-MM-dd
+export const journalDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Dates must look like 2026-10-19" })
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, { message: "No such date" });
+
+// Most days GET /api/daily lists at once
+export const MAX_JOURNAL_RANGE_DAYS = 400;
+
+// Query string of GET /api/daily
+export const dailyListQuerySchema = z.object({
+  from: journalDateSchema,
+  to: journalDateSchema,
+}).refine(({ from, to }) => from <= to, { message: "from must not be after to" })
+  .refine(
+    ({ from, to }) => Date.parse(to) - Date.parse(from) < MAX_JOURNAL_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    { message: `At most ${MAX_JOURNAL_RANGE_DAYS} days can be listed at once` }
+  );
+
+// Query string of GET /api/daily/:date; the template and time zone only
+// matter when the note is created
+export const dailyNoteQuerySchema = z.object({
+  templateId: z.string().min(1).optional(),
+  timeZone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).optional(),
+});
+
+// Query string of GET /api/labels
+export const labelListQuerySchema = z.object({
+  // A flat list (sorted by path) instead of the tree
+  flat: queryBoolean.default("false"),
 });
 
 // Types
+// Storage backends use different primary keys (serial integers in Postgres,
+// ObjectIds in MongoDB), so IDs always cross the storage boundary as strings.
+type IdField = "id" | "userId" | "noteId" | "parentId" | "notebookId";
+type WithStringIds<T> = {
+  [K in keyof T]: K extends IdField ? (null extends T[K] ? string | null : string) : T[K];
+};
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
-export type User = typeof users.$inferSelect;
+export type User = WithStringIds<typeof users.$inferSelect>;
 
 export type InsertLabel = z.infer<typeof insertLabelSchema>;
 export type UpdateLabel = z.infer<typeof updateLabelSchema>;
-export type Label = typeof labels.$inferSelect;
+export type Label = WithStringIds<typeof labels.$inferSelect>;
+
+export type InsertNotebook = z.infer<typeof insertNotebookSchema>;
+export type UpdateNotebook = z.infer<typeof updateNotebookSchema>;
+export type Notebook = WithStringIds<typeof notebooks.$inferSelect>;
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type UpdateNote = z.infer<typeof updateNoteSchema>;
-export type Note = typeof notes.$inferSelect;
+export type Note = WithStringIds<typeof notes.$inferSelect>;
+
+export type BulkNoteRequest = z.infer<typeof bulkNoteSchema>;
+export type BulkNoteOperation = BulkNoteRequest["operation"];
+
+// The outcome for one note of a bulk request: "unchanged" when the operation
+// made no difference to it, e.g. archiving an archived note
+export interface BulkNoteResult {
+  id: string;
+  status: "updated" | "unchanged" | "not_found" | "forbidden";
+  note?: Note; // the note as it is now, for notes the user owns
+}
+
+// What an import (e.g. POST /api/import/keep) brought in, and what it left
+// out and why
+export interface ImportReport {
+  notes: number;
+  attachments: number;
+  labels: string[]; // paths of the labels it created
+  skipped: { item: string; reason: string }[];
+}
+
+export type NoteRevision = WithStringIds<typeof noteRevisions.$inferSelect>;
+
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+export type UpdateTemplate = z.infer<typeof updateTemplateSchema>;
+export type Template = WithStringIds<typeof templates.$inferSelect>;
+
+export type Attachment = WithStringIds<typeof attachments.$inferSelect>;
+export type InsertAttachment = Omit<Attachment, "id" | "createdAt">;
+
+export type Notification = WithStringIds<typeof notifications.$inferSelect>;
+export type InsertNotification = Omit<Notification, "id" | "readAt" | "createdAt">;
@@ -0,0 +1,80 @@
+import { toLocalDateTime } from "./recurrence";
+
+/**
+ * Placeholders in note templates, filled in when a note is created from one:
+ *
+ *   {{date}}        2026-10-19
+ *   {{time}}        09:30
+ *   {{datetime}}    2026-10-19 09:30
+ *   {{weekday}}     Monday
+ *   {{user.name}}   the author's name
+ *   {{user.email}}  the author's email
+ *   {{prompt:Attendees}}          asked for when the note is created
+ *   {{prompt:Severity|low}}       the same, with a default answer
+ *
+ * Dates and times are the author's wall-clock time. Anything else in double
+ * braces is left as it is.
+ */
+
+export interface TemplatePrompt {
+  question: string;
+  defaultValue: string;
+}
+
+export interface TemplateContext {
+  now: Date;
+  timeZone: string; // IANA name such as "Europe/Berlin", or "UTC"
+  user: { name: string; email: string };
+  // Answers to the prompts, keyed by question
+  values?: Record<string, string>;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const PROMPT_PREFIX = "prompt:";
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function parsePrompt(placeholder: string): TemplatePrompt | null {
+  if (!placeholder.startsWith(PROMPT_PREFIX)) return null;
+  const [question, ...rest] = placeholder.slice(PROMPT_PREFIX.length).split("|");
+  if (!question.trim()) return null;
+  return { question: question.trim(), defaultValue: rest.join("|").trim() };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * The prompts in the texts, each question once, in the order they first
+ * appear; the first default given for a question wins
+ */
+export function templatePrompts(...texts: string[]): TemplatePrompt[] {
+  const prompts = new Map<string, TemplatePrompt>();
+  for (const text of texts) {
+    for (const match of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) {
+      const prompt = parsePrompt(match[1]);
+      if (prompt && !prompts.has(prompt.question)) prompts.set(prompt.question, prompt);
+    }
+  }
+  return Array.from(prompts.values());
+}
+
+// The text with its placeholders filled in; unanswered prompts get their default
+export function fillTemplate(text: string, context: TemplateContext): string {
+  const local = toLocalDateTime(context.now, context.timeZone);
+  const date = `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+  const time = `${pad(local.hour)}:${pad(local.minute)}`;
+  const values = new Map([
+    ["date", date],
+    ["time", time],
+    ["datetime", `${date} ${time}`],
+    ["weekday", WEEKDAY_NAMES[new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()]],
+    ["user.name", context.user.name],
+    ["user.email", context.user.email],
+  ]);
+  const answers = new Map(Object.entries(context.values ?? {}));
+
+  return text.replace(PLACEHOLDER_PATTERN, (whole, placeholder: string) => {
+    const prompt = parsePrompt(placeholder);
+    if (prompt) return answers.get(prompt.question) ?? prompt.defaultValue;
+    return values.get(placeholder) ?? whole;
+  });
+}
@@ -0,0 +1,76 @@
+import type { Note } from "./schema";
+
+/**
+ * Wiki-style links between notes: `[[Note Title]]` links to the note with
+ * that title, `[[Note Title|label]]` shows "label" instead. Titles match
+ * case-insensitively and ignore extra whitespace, so the link index, the
+ * renderer and link rewriting all compare them through normalizeLinkTitle().
+ */
+
+export interface WikiLink {
+  title: string; // as written, trimmed
+  label: string | null;
+  start: number; // offsets of the whole [[...]] in the text
+  end: number;
+}
+
+const LINK_PATTERN = /\[\[([^\[\]|\n]+?)(?:\|([^\[\]\n]+?))?\]\]/g;
+
+export function parseWikiLinks(text: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  for (const match of Array.from(text.matchAll(LINK_PATTERN))) {
+    const title = match[1].trim();
+    if (!title) continue;
+    links.push({
+      title,
+      label: match[2]?.trim() || null,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return links;
+}
+
+// A note a link can lead to, as returned by GET /api/notes/:id/links
+export type LinkedNote = Pick<Note, "id" | "title" | "notebookId" | "archived" | "updatedAt">;
+
+// One title a note links to and the notes with that title: none for a
+// missing note, several when the link is ambiguous
+export interface ResolvedLink {
+  title: string; // as first written in the note
+  target: string; // normalized
+  notes: LinkedNote[];
+}
+
+// The form titles are compared in
+export function normalizeLinkTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Normalized titles the text links to, each once
+export function linkTargets(text: string): string[] {
+  return Array.from(new Set(parseWikiLinks(text).map((link) => normalizeLinkTitle(link.title))));
+}
+
+// Whether a [[...]] link can name this title
+export function isLinkableTitle(title: string): boolean {
+  return title.trim() !== "" && !/[\[\]|\n]/.test(title);
+}
+
+/**
+ * Points links to `from` at `to` instead, keeping their labels
+ * @returns The new text and how many links changed
+ */
+export function rewriteWikiLinks(text: string, from: string, to: string): { text: string; count: number } {
+  const target = normalizeLinkTitle(from);
+  let count = 0;
+  let result = "";
+  let cursor = 0;
+  for (const link of parseWikiLinks(text)) {
+    if (normalizeLinkTitle(link.title) !== target) continue;
+    result += text.slice(cursor, link.start) + (link.label ? `[[${to}|${link.label}]]` : `[[${to}]]`);
+    cursor = link.end;
+    count++;
+  }
+  return { text: result + text.slice(cursor), count };
+}